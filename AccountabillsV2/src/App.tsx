@@ -15,7 +15,14 @@ import {
   getSession,
   signOut,
   boot,
+  getWalletBalance,
+  getTransactions as apiGetTransactions,
+  issueRequestCard as apiIssueRequestCard,
   createRequest as apiCreateRequest,
+  cancelRequest as apiCancelRequest,
+  editRequest as apiEditRequest,
+  resubmitRequest as apiResubmitRequest,
+  EditRequestData,
   updateRequestStatus as apiUpdateRequestStatus,
   checkBackendHealth,
   getCurrentUser,
@@ -23,6 +30,22 @@ import {
   initializeUser,
   createCard,
   CardData,
+  ApprovalPolicy,
+  CounterOffer,
+  sendCounterOffer as apiSendCounterOffer,
+  respondToCounterOffer as apiRespondToCounterOffer,
+  RecurringRequest,
+  RecurringSchedule,
+  getRecurringRequests as apiGetRecurringRequests,
+  createRecurringRequest as apiCreateRecurringRequest,
+  updateRecurringRequest as apiUpdateRecurringRequest,
+  deleteRecurringRequest as apiDeleteRecurringRequest,
+  respondToPreApproval as apiRespondToPreApproval,
+  RequestTemplate,
+  getRequestTemplates as apiGetRequestTemplates,
+  getBankAccounts as apiGetBankAccounts,
+  saveRequestAsTemplate as apiSaveRequestAsTemplate,
+  deleteRequestTemplate as apiDeleteRequestTemplate,
   supabase,
   // New Supabase APIs
   getFriends,
@@ -48,10 +71,15 @@ import {
   NotificationData,
   ConversationData,
   MessageData,
-  GroupWithMembers
+  GroupWithMembers,
+  BankAccount,
+  PaymentRequest,
+  Transaction
 } from './utils/api';
 
-export type RequestStatus = 'pending' | 'approved' | 'rejected';
+export type RequestStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'cancelled';
+
+export type FundingStatus = 'approved_unfunded' | 'funding' | 'funded' | 'funding_failed' | 'jit_available' | 'jit_consumed';
 
 export interface MoneyRequest {
   id: string;
@@ -66,6 +94,26 @@ export interface MoneyRequest {
   rejectedBy?: string;
   notes?: string;
   imageUrl?: string;
+  approvalPolicy?: ApprovalPolicy;
+  autoApproved?: boolean;
+  fundingStatus?: FundingStatus;
+  fundingError?: string;
+  jitAmount?: number;
+  jitMerchant?: string;
+  approvedAmount?: number;
+  counterOffer?: CounterOffer;
+  expiresAt?: string;
+  resubmittedFrom?: string;
+  recurringRequestId?: string;
+  preApproved?: boolean;
+  templateId?: string;
+  hasApprovals?: boolean;
+}
+
+// Set when a new request should repeat on a schedule instead of being sent once
+export interface RequestRecurrence {
+  schedule: RecurringSchedule;
+  preApprove: boolean;
 }
 
 export interface Approver {
@@ -86,7 +134,7 @@ export interface ApproverGroup {
 
 export interface FeedItem {
   id: string;
-  type: 'submitted' | 'approved' | 'rejected' | 'comment';
+  type: 'submitted' | 'approved' | 'rejected' | 'expired' | 'cancelled' | 'comment';
   requestId: string;
   user: string;
   amount?: number;
@@ -117,7 +165,7 @@ export interface Conversation {
 
 export interface Notification {
   id: string;
-  type: 'friend_request' | 'approval_request' | 'request_reviewed';
+  type: 'friend_request' | 'approval_request' | 'request_reviewed' | 'card_activity';
   title: string;
   message: string;
   timestamp: string;
@@ -129,7 +177,7 @@ export interface Notification {
 type View = 'dashboard' | 'requests' | 'approvals' | 'profile' | 'feeds' | 'messages' | 'wallet' | 'camera' | 'review' | 'notifications';
 
 // Helper to transform API request to UI format
-const transformApiRequest = (apiReq: any, currentUserName: string): MoneyRequest => ({
+const transformApiRequest = (apiReq: PaymentRequest, currentUserName: string): MoneyRequest => ({
   id: apiReq.id,
   amount: apiReq.amount,
   description: apiReq.description,
@@ -137,13 +185,36 @@ const transformApiRequest = (apiReq: any, currentUserName: string): MoneyRequest
   date: apiReq.createdAt?.split('T')[0] || new Date().toISOString().split('T')[0],
   status: apiReq.status,
   submittedBy: apiReq.senderName === currentUserName ? 'You' : apiReq.senderName,
-  approvers: apiReq.approvers?.map((a: any) => a.name === currentUserName ? 'You' : a.name) || [],
-  approvedBy: apiReq.approvedBy?.map((a: any) => a.name) || [],
+  approvers: apiReq.approvers.map(a => a.name === currentUserName ? 'You' : a.name || a.email || ''),
+  approvedBy: apiReq.approvedBy?.map(a => a.name) || [],
   rejectedBy: apiReq.rejectedBy?.name,
-  notes: apiReq.notes,
-  imageUrl: apiReq.imageUrl
+  notes: apiReq.notes || undefined,
+  imageUrl: apiReq.imageUrl || undefined,
+  approvalPolicy: apiReq.approvalPolicy,
+  autoApproved: apiReq.autoApproved ?? undefined,
+  fundingStatus: apiReq.fundingStatus || undefined,
+  fundingError: apiReq.fundingError || undefined,
+  jitAmount: apiReq.jitAmount ?? undefined,
+  jitMerchant: apiReq.jitMerchant || undefined,
+  approvedAmount: apiReq.approvedAmount ?? undefined,
+  counterOffer: apiReq.counterOffer || undefined,
+  expiresAt: apiReq.expiresAt || undefined,
+  resubmittedFrom: apiReq.resubmittedFrom || undefined,
+  recurringRequestId: apiReq.recurringRequestId || undefined,
+  preApproved: apiReq.preApproved ?? undefined,
+  hasApprovals: apiReq.approvers.some(a => a.status === 'approved')
 });
 
+// Transform Marqeta transactions to our format
+const transformTransactions = (transactions: Transaction[]) => transactions.map(tx => ({
+  id: tx.token,
+  type: tx.type,
+  description: tx.memo || tx.type || 'Transaction',
+  amount: tx.amount || 0,
+  date: tx.created_time || new Date().toISOString(),
+  status: tx.state || 'completed'
+}));
+
 export default function App() {
   const [isLoggedIn, setIsLoggedIn] = useState(false);
   const [currentUser, setCurrentUser] = useState<{ id: string; name: string; email: string } | null>(null);
@@ -165,16 +236,17 @@ export default function App() {
   }, [isDarkMode]);
 
   const [requests, setRequests] = useState<MoneyRequest[]>([]);
+  const [recurringRequests, setRecurringRequests] = useState<RecurringRequest[]>([]);
+  const [requestTemplates, setRequestTemplates] = useState<RequestTemplate[]>([]);
   const [approvers, setApprovers] = useState<Approver[]>([]);
   const [approverGroups, setApproverGroups] = useState<ApproverGroup[]>([]);
   const [walletBalance, setWalletBalance] = useState(0);
-  const [approvalThreshold, setApprovalThreshold] = useState(50);
   const [feedItems, setFeedItems] = useState<FeedItem[]>([]);
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [transactions, setTransactions] = useState<any[]>([]);
-  const [bankAccounts, setBankAccounts] = useState<any[]>([]);
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
   const [userCard, setUserCard] = useState<CardData | null>(null);
 
   // Fetch data from API when user logs in
@@ -200,16 +272,7 @@ export default function App() {
         // Set wallet balance
         setWalletBalance(bootData.balance || 0);
         
-        // Transform Marqeta transactions to our format
-        const formattedTransactions = (bootData.transactions || []).map((tx: any) => ({
-          id: tx.token || tx.id,
-          type: tx.type,
-          description: tx.memo || tx.type || 'Transaction',
-          amount: tx.amount || 0,
-          date: tx.created_time || tx.createdTime || new Date().toISOString(),
-          status: tx.state || 'completed'
-        }));
-        setTransactions(formattedTransactions);
+        setTransactions(transformTransactions(bootData.transactions || []));
 
         // Set card if exists
         if (bootData.card?.hasCard && bootData.card?.card) {
@@ -244,6 +307,11 @@ export default function App() {
             actionUser = lastApprover === currentUser.name ? 'You' : lastApprover;
             const requesterName = req.submittedBy === 'You' ? 'your' : `${req.submittedBy}'s`;
             actionDescription = `approved ${requesterName} request for ${req.description}`;
+          } else if (req.status === 'expired') {
+            const requesterName = req.submittedBy === 'You' ? 'your' : `${req.submittedBy}'s`;
+            actionDescription = `${requesterName} request for ${req.description} expired`;
+          } else if (req.status === 'cancelled') {
+            actionDescription = `cancelled a request for ${req.description}`;
           }
           
           return {
@@ -267,13 +335,34 @@ export default function App() {
       // PHASE 2: Parallel Supabase calls (friends, groups, notifications, conversations)
       // All fetched in parallel for maximum speed
       // ========================================================
-      const [friendsResult, groupsResult, notificationsResult, conversationsResult] = await Promise.allSettled([
+      const [friendsResult, groupsResult, notificationsResult, conversationsResult, recurringResult, templatesResult, bankAccountsResult] = await Promise.allSettled([
         getFriends().catch(e => { console.error('Friends error:', e); return []; }),
         apiGetGroups().catch(e => { console.error('Groups error:', e); return []; }),
         apiGetNotifications().catch(e => { console.error('Notifications error:', e); return []; }),
-        apiGetConversations().catch(e => { console.error('Conversations error:', e); return []; })
+        apiGetConversations().catch(e => { console.error('Conversations error:', e); return []; }),
+        apiGetRecurringRequests().catch(e => { console.error('Recurring requests error:', e); return []; }),
+        apiGetRequestTemplates().catch(e => { console.error('Request templates error:', e); return []; }),
+        apiGetBankAccounts().catch(e => { console.error('Bank accounts error:', e); return []; })
       ]);
 
+      // Process recurring requests
+      const recurringData = recurringResult.status === 'fulfilled' ? recurringResult.value : [];
+      if (Array.isArray(recurringData)) {
+        setRecurringRequests(recurringData);
+      }
+
+      // Process request templates
+      const templatesData = templatesResult.status === 'fulfilled' ? templatesResult.value : [];
+      if (Array.isArray(templatesData)) {
+        setRequestTemplates(templatesData);
+      }
+
+      // Process linked bank accounts
+      const bankAccountsData = bankAccountsResult.status === 'fulfilled' ? bankAccountsResult.value : [];
+      if (Array.isArray(bankAccountsData)) {
+        setBankAccounts(bankAccountsData);
+      }
+
       // Process friends
       let transformedApprovers: Approver[] = [];
       const friendsData = friendsResult.status === 'fulfilled' ? friendsResult.value : [];
@@ -364,6 +453,17 @@ export default function App() {
     }
   }, [currentUser]);
 
+  // Pick up the new balance and transactions after card activity (webhooks or sandbox simulations)
+  const refreshWallet = useCallback(async () => {
+    try {
+      const [balanceData, transactionsData] = await Promise.all([getWalletBalance(), apiGetTransactions()]);
+      setWalletBalance(balanceData?.balance || 0);
+      setTransactions(transformTransactions(transactionsData || []));
+    } catch (error) {
+      console.error('Failed to refresh wallet:', error);
+    }
+  }, []);
+
   // Fetch data when user logs in
   useEffect(() => {
     if (currentUser) {
@@ -499,12 +599,15 @@ export default function App() {
         user.id,
         // On new notification - add it to the list
         (notification) => {
+          if (notification.type === 'card_activity') {
+            refreshWallet();
+          }
           setNotifications(prev => {
             // Avoid duplicates
             if (prev.some(n => n.id === notification.id)) return prev;
             return [{
               id: notification.id,
-              type: notification.type as 'friend_request' | 'approval_request' | 'request_reviewed',
+              type: notification.type as Notification['type'],
               title: notification.title, // Use actual title from database
               message: notification.message,
               timestamp: notification.created_at,
@@ -537,7 +640,12 @@ export default function App() {
   const totalUnreadMessages = conversations.reduce((sum, conv) => sum + conv.unreadCount, 0);
   const unreadNotificationsCount = notifications.filter(n => !n.read).length;
 
-  const addRequest = async (request: Omit<MoneyRequest, 'id'>, selectedApprovers?: Approver[], selectedGroups?: ApproverGroup[]) => {
+  const addRequest = async (
+    request: Omit<MoneyRequest, 'id'>,
+    selectedApprovers?: Approver[],
+    selectedGroups?: ApproverGroup[],
+    recurrence?: RequestRecurrence
+  ) => {
     try {
       // Transform UI format to API format
       // Use the full approver objects if provided, otherwise look them up by name
@@ -576,9 +684,32 @@ export default function App() {
           userId: approver.userId, // Use actual user ID, not friend record ID
           name: approver.name,
           email: approver.email
-        }))
+        })),
+        approvalPolicy: request.approvalPolicy,
+        expiresAt: request.expiresAt,
+        templateId: request.templateId
       };
 
+      // Repeating requests are saved as a template; the backend scheduler creates each request
+      if (recurrence) {
+        try {
+          const recurring = await apiCreateRecurringRequest({
+            amount: apiRequest.amount,
+            description: apiRequest.description,
+            category: apiRequest.category,
+            approvers: apiRequest.approvers,
+            approvalPolicy: apiRequest.approvalPolicy,
+            schedule: recurrence.schedule,
+            preApprove: recurrence.preApprove
+          });
+          setRecurringRequests([recurring, ...recurringRequests]);
+        } catch (error: any) {
+          console.error('Failed to create recurring request:', error);
+          alert(`Failed to create recurring request: ${error?.message || String(error)}`);
+        }
+        return;
+      }
+
       const newRequest = await apiCreateRequest(apiRequest);
 
       // Add to local state
@@ -610,10 +741,10 @@ export default function App() {
     }
   };
 
-  const updateRequestStatus = async (id: string, status: 'approved' | 'rejected', notes?: string, approver?: string) => {
+  const updateRequestStatus = async (id: string, status: 'approved' | 'rejected', notes?: string, approver?: string, amount?: number) => {
     try {
       // Call API
-      await apiUpdateRequestStatus(id, status, notes);
+      await apiUpdateRequestStatus(id, status, notes, amount);
 
       // Refresh requests from API
       await fetchUserData();
@@ -669,6 +800,138 @@ export default function App() {
     }));
   };
 
+  // Sender actions on their own requests - the backend enforces who can do what, so just refresh after
+  const cancelRequest = async (id: string, reason?: string) => {
+    try {
+      await apiCancelRequest(id, reason);
+      await fetchUserData();
+    } catch (error: any) {
+      console.error('Failed to cancel request:', error);
+      alert(`Failed to cancel request: ${error?.message || String(error)}`);
+      throw error;
+    }
+  };
+
+  const editRequest = async (id: string, updates: EditRequestData) => {
+    try {
+      await apiEditRequest(id, updates);
+      await fetchUserData();
+    } catch (error: any) {
+      console.error('Failed to edit request:', error);
+      alert(`Failed to edit request: ${error?.message || String(error)}`);
+      throw error;
+    }
+  };
+
+  const sendCounterOffer = async (id: string, amount: number, notes?: string) => {
+    try {
+      await apiSendCounterOffer(id, amount, notes);
+      await fetchUserData();
+    } catch (error: any) {
+      console.error('Failed to send counter-offer:', error);
+      alert(`Failed to send counter-offer: ${error?.message || String(error)}`);
+      throw error;
+    }
+  };
+
+  const respondToCounterOffer = async (id: string, decision: 'accept' | 'decline') => {
+    const offer = requests.find(r => r.id === id)?.counterOffer;
+    if (!offer) return;
+
+    try {
+      await apiRespondToCounterOffer(id, decision, offer.createdAt);
+      await fetchUserData();
+    } catch (error: any) {
+      console.error(`Failed to ${decision} counter-offer:`, error);
+      alert(`Failed to ${decision} counter-offer: ${error?.message || String(error)}`);
+      throw error;
+    }
+  };
+
+  const resubmitRequest = async (id: string, overrides?: EditRequestData) => {
+    try {
+      await apiResubmitRequest(id, overrides);
+      await fetchUserData();
+    } catch (error: any) {
+      console.error('Failed to resubmit request:', error);
+      alert(`Failed to resubmit request: ${error?.message || String(error)}`);
+      throw error;
+    }
+  };
+
+  // Recurring requests - refresh just the templates after each change
+  const refreshRecurringRequests = async () => {
+    setRecurringRequests(await apiGetRecurringRequests());
+  };
+
+  const toggleRecurringRequest = async (id: string, active: boolean) => {
+    try {
+      await apiUpdateRecurringRequest(id, { active });
+      await refreshRecurringRequests();
+    } catch (error: any) {
+      console.error('Failed to update recurring request:', error);
+      alert(`Failed to ${active ? 'resume' : 'pause'} recurring request: ${error?.message || String(error)}`);
+      throw error;
+    }
+  };
+
+  const deleteRecurringRequest = async (id: string) => {
+    try {
+      await apiDeleteRecurringRequest(id);
+      await refreshRecurringRequests();
+    } catch (error: any) {
+      console.error('Failed to delete recurring request:', error);
+      alert(`Failed to delete recurring request: ${error?.message || String(error)}`);
+      throw error;
+    }
+  };
+
+  const respondToPreApproval = async (id: string, decision: 'approve' | 'reject') => {
+    try {
+      await apiRespondToPreApproval(id, decision);
+      await refreshRecurringRequests();
+    } catch (error: any) {
+      console.error(`Failed to ${decision} pre-approval:`, error);
+      alert(`Failed to ${decision} pre-approval: ${error?.message || String(error)}`);
+      throw error;
+    }
+  };
+
+  // Request templates
+  const saveRequestAsTemplate = async (requestId: string, name?: string) => {
+    try {
+      const template = await apiSaveRequestAsTemplate(requestId, name);
+      setRequestTemplates([...requestTemplates, template].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error: any) {
+      console.error('Failed to save template:', error);
+      alert(`Failed to save template: ${error?.message || String(error)}`);
+      throw error;
+    }
+  };
+
+  // Single-use card for an approved request - it shows up in the wallet's card switcher
+  const issueRequestCard = async (requestId: string) => {
+    try {
+      const card = await apiIssueRequestCard(requestId);
+      alert(`Card ending ${card.lastFour} is ready in your wallet`);
+    } catch (error: any) {
+      console.error('Failed to issue request card:', error);
+      alert(`Failed to get a card: ${error?.message || String(error)}`);
+      throw error;
+    }
+  };
+
+  const deleteRequestTemplate = async (id: string) => {
+    try {
+      await apiDeleteRequestTemplate(id);
+      setRequestTemplates(requestTemplates.filter(t => t.id !== id));
+    } catch (error: any) {
+      console.error('Failed to delete template:', error);
+      alert(`Failed to delete template: ${error?.message || String(error)}`);
+      throw error;
+    }
+  };
+
   const sendMessage = async (conversationId: string, recipient: string, text: string) => {
     try {
       console.log('sendMessage called:', { conversationId, recipient, text, approvers: approvers.map(a => ({ name: a.name, userId: a.userId })) });
@@ -985,18 +1248,36 @@ export default function App() {
           onClearCapturedImage={() => setCapturedImage(null)}
           currentUser={currentUser}
           onSendFriendRequest={handleSendFriendRequest}
+          requestTemplates={requestTemplates}
+          onDeleteTemplate={deleteRequestTemplate}
         />;
       case 'requests':
         return <MyRequests
           requests={requests.filter(r => r.submittedBy === 'You')}
           initialFilter={requestStatusFilter}
           onBack={() => setCurrentView('dashboard')}
+          onCancelRequest={cancelRequest}
+          onEditRequest={editRequest}
+          onResubmitRequest={resubmitRequest}
+          onRespondToCounterOffer={respondToCounterOffer}
+          recurringRequests={recurringRequests.filter(r => r.senderId === currentUser?.id)}
+          currentUserId={currentUser?.id}
+          onToggleRecurring={toggleRecurringRequest}
+          onDeleteRecurring={deleteRecurringRequest}
+          onSaveAsTemplate={saveRequestAsTemplate}
+          onIssueCard={issueRequestCard}
         />;
       case 'approvals':
         return <Approvals
           requests={requests.filter(r => r.approvers.includes('You'))}
           updateRequestStatus={updateRequestStatus}
           onNavigateBack={() => setCurrentView('dashboard')}
+          preApprovals={recurringRequests.filter(r =>
+            r.preApproval?.status === 'pending' &&
+            r.preApproval.approvers.some(a => a.userId === currentUser?.id && a.status === 'pending')
+          )}
+          currentUserId={currentUser?.id}
+          onRespondToPreApproval={respondToPreApproval}
         />;
       case 'feeds':
         return <Feeds feedItems={feedItems} requests={requests} approvers={approvers} updateRequestStatus={updateRequestStatus} onNavigateToProfile={() => setCurrentView('profile')} currentUser={currentUser} />;
@@ -1017,9 +1298,12 @@ export default function App() {
           onNavigateToProfile={() => setCurrentView('profile')}
           transactions={transactions}
           bankAccounts={bankAccounts}
+          onBankAccountsChange={setBankAccounts}
           currentUser={currentUser}
           card={userCard}
           onCardCreated={(card) => setUserCard(card)}
+          onCardChanged={(card) => setUserCard(card)}
+          onWalletActivity={refreshWallet}
         />;
       case 'camera':
         return <CameraCapture onClose={() => setCurrentView('dashboard')} onCapture={(mediaUrl, isVideo) => {
@@ -1053,8 +1337,6 @@ export default function App() {
           addApproverGroup={addApproverGroup}
           removeApproverGroup={removeApproverGroup}
           updateApproverGroup={updateApproverGroup}
-          approvalThreshold={approvalThreshold}
-          setApprovalThreshold={setApprovalThreshold}
           isDarkMode={isDarkMode}
           setIsDarkMode={setIsDarkMode}
           onLogout={handleLogout}
@@ -1100,6 +1382,7 @@ export default function App() {
           request={requestToReview}
           onBack={() => setCurrentView(previousView)}
           onReview={updateRequestStatus}
+          onCounterOffer={sendCounterOffer}
         />;
       default:
         return <Dashboard
@@ -1112,6 +1395,8 @@ export default function App() {
           onNavigateToMessages={() => setCurrentView('messages')}
           onNavigateToNotifications={() => setCurrentView('notifications')}
           unreadNotificationsCount={unreadNotificationsCount}
+          requestTemplates={requestTemplates}
+          onDeleteTemplate={deleteRequestTemplate}
         />;
     }
   };
@@ -1,7 +1,14 @@
-import React, { useState } from 'react';
-import { Wallet, Plus, ArrowDownToLine, CreditCard, Building2, Apple, TrendingUp, Clock, Loader2, Eye, EyeOff } from 'lucide-react';
-import { createCard, addMoney as apiAddMoney, CardData } from '../utils/api';
+import React, { useState, useRef, useEffect } from 'react';
+import { Wallet, Plus, ArrowDownToLine, CreditCard, Building2, Apple, TrendingUp, Clock, Loader2, Eye, EyeOff, ShieldCheck, Snowflake, RefreshCw, Ban, Trash2 } from 'lucide-react';
+import { createCard, addMoney as apiAddMoney, getFundingSources, withdrawMoney, removeBankAccount, getSpendControls, changeCardState, getCards, getCardByToken, revealCardDetails, confirmPassword, getSimulationOptions, BankAccount, CardAction, FundingSource, FundingSourceType, CardData, CardRevealDetails, SimulationOptions, SpendLimit } from '../utils/api';
 import { AddMoneySuccess } from './AddMoneySuccess';
+import { SimulationConsole } from './SimulationConsole';
+import { LinkBankAccountModal } from './LinkBankAccountModal';
+
+// Revealed card details are cleared after this long
+const REVEAL_SECONDS = 60;
+// Shown as an estimate - the server charges INSTANT_WITHDRAWAL_FEE_PERCENT
+const INSTANT_FEE_PERCENT = 1.95;
 
 interface Transaction {
   id: string;
@@ -13,13 +20,6 @@ interface Transaction {
   fee?: number;
 }
 
-interface BankAccount {
-  id: string;
-  name: string;
-  accountNumber: string;
-  status: string;
-}
-
 interface AccountabillsWalletProps {
   balance: number;
   setBalance: (balance: number) => void;
@@ -27,9 +27,12 @@ interface AccountabillsWalletProps {
   onNavigateToProfile?: () => void;
   transactions?: Transaction[];
   bankAccounts?: BankAccount[];
+  onBankAccountsChange?: (accounts: BankAccount[]) => void;
   currentUser?: { name: string; email: string; } | null;
   card?: CardData | null;
   onCardCreated?: (card: CardData) => void;
+  onCardChanged?: (card: CardData) => void;
+  onWalletActivity?: () => void;
 }
 
 export function AccountabillsWallet({ 
@@ -39,19 +42,76 @@ export function AccountabillsWallet({
   onNavigateToProfile,
   transactions = [],
   bankAccounts = [],
+  onBankAccountsChange,
   currentUser = null,
   card = null,
-  onCardCreated
+  onCardCreated,
+  onCardChanged,
+  onWalletActivity
 }: AccountabillsWalletProps) {
   const [showAddMoney, setShowAddMoney] = useState(false);
   const [showWithdraw, setShowWithdraw] = useState(false);
   const [amount, setAmount] = useState('');
   const [cardLoading, setCardLoading] = useState(false);
   const [cardError, setCardError] = useState<string | null>(null);
-  const [showCardDetails, setShowCardDetails] = useState(false);
+  const [cardAction, setCardAction] = useState<CardAction | null>(null);
+  // Request cards live alongside the main card; selectedCard is null while the main card is shown
+  const [allCards, setAllCards] = useState<CardData[]>([]);
+  const [selectedCard, setSelectedCard] = useState<CardData | null>(null);
+  const displayedCard = selectedCard ?? card;
+  // Full PAN/CVV only live here, for REVEAL_SECONDS, and only for the card they were revealed for
+  const [revealed, setRevealed] = useState<CardRevealDetails | null>(null);
+  const [revealing, setRevealing] = useState(false);
+  const [showPasswordPrompt, setShowPasswordPrompt] = useState(false);
+  const [revealPassword, setRevealPassword] = useState('');
+  const [revealError, setRevealError] = useState<string | null>(null);
+  const showCardDetails = !!revealed && revealed.token === displayedCard?.token;
   const [addMoneyLoading, setAddMoneyLoading] = useState(false);
   const [addMoneyError, setAddMoneyError] = useState<string | null>(null);
   const [successData, setSuccessData] = useState<{ amount: number; fundingSourceName: string } | null>(null);
+  // One key per add-money attempt: reused if the user retries after an error, reset on success
+  const addMoneyKeyRef = useRef<string | null>(null);
+  const [fundingSources, setFundingSources] = useState<FundingSource[]>([]);
+  const [fundingSource, setFundingSource] = useState<FundingSourceType | null>(null);
+  const [fundingSourceId, setFundingSourceId] = useState('');
+  const availableSources = fundingSources.filter(s => s.available);
+  const selectedSource = availableSources.find(s => s.source === fundingSource) ?? availableSources[0];
+  const selectedOptionId = fundingSourceId || selectedSource?.options[0]?.id || '';
+  // ach and peer need a bank account / partner to draw from
+  const canFund = !!selectedSource && (selectedSource.source === 'program' || !!selectedOptionId);
+  const [spendLimits, setSpendLimits] = useState<SpendLimit[]>([]);
+  const [simulationOptions, setSimulationOptions] = useState<SimulationOptions | null>(null);
+  // undefined = closed, null = linking a new account, an account = verifying that one
+  const [linkingAccount, setLinkingAccount] = useState<BankAccount | null | undefined>(undefined);
+  const verifiedAccounts = bankAccounts.filter(a => a.status === 'verified');
+  const [withdrawAccountId, setWithdrawAccountId] = useState('');
+  const [withdrawLoading, setWithdrawLoading] = useState(false);
+  const [withdrawError, setWithdrawError] = useState<string | null>(null);
+  // Same idea as addMoneyKeyRef, for withdrawals
+  const withdrawKeyRef = useRef<string | null>(null);
+
+  // Category limits only exist once the user has a card and a funded request
+  useEffect(() => {
+    if (!card) return;
+    getSpendControls()
+      .then(controls => setSpendLimits(controls.limits))
+      .catch(error => console.error('Failed to load spend controls:', error));
+  }, [card, balance]);
+
+  // Bank accounts and partners can change between opens, so reload each time
+  useEffect(() => {
+    if (!showAddMoney) return;
+    getFundingSources()
+      .then(setFundingSources)
+      .catch(error => console.error('Failed to load funding sources:', error));
+  }, [showAddMoney]);
+
+  // The simulation console only exists in the Marqeta sandbox
+  useEffect(() => {
+    getSimulationOptions()
+      .then(setSimulationOptions)
+      .catch(error => console.error('Failed to load simulation options:', error));
+  }, []);
 
   const handleCreateCard = async () => {
     setCardLoading(true);
@@ -70,12 +130,125 @@ export function AccountabillsWallet({
     }
   };
 
+  const refreshCards = () => {
+    getCards()
+      .then(setAllCards)
+      .catch(error => console.error('Failed to load cards:', error));
+  };
+
+  useEffect(() => {
+    if (card) refreshCards();
+  }, [card]);
+
+  const handleSelectCard = async (cardToken: string) => {
+    if (cardToken === card?.token) {
+      setSelectedCard(null);
+      return;
+    }
+
+    setCardLoading(true);
+    try {
+      setSelectedCard(await getCardByToken(cardToken));
+    } catch (error: any) {
+      console.error('Failed to load card:', error);
+      alert(error.message || 'Failed to load card');
+    } finally {
+      setCardLoading(false);
+    }
+  };
+
+  // Accountability partners are notified of every card change
+  const handleCardAction = async (action: CardAction) => {
+    let reason: string | undefined;
+    if (action === 'replace') {
+      const answer = prompt('Why are you replacing this card? (e.g. lost, stolen, damaged)');
+      if (answer === null) return;
+      reason = answer.trim() || undefined;
+    } else if (action === 'terminate') {
+      if (!confirm('Terminate this card? It will stop working permanently.')) return;
+    }
+
+    setCardAction(action);
+    try {
+      const updatedCard = await changeCardState(action, reason, displayedCard?.token);
+      if (selectedCard) {
+        setSelectedCard(updatedCard);
+      } else {
+        onCardChanged?.(updatedCard);
+      }
+      refreshCards();
+    } catch (error: any) {
+      console.error(`Failed to ${action} card:`, error);
+      alert(error.message || 'Failed to update card');
+    } finally {
+      setCardAction(null);
+    }
+  };
+
+  useEffect(() => {
+    if (!revealed) return;
+    const timer = setTimeout(() => setRevealed(null), REVEAL_SECONDS * 1000);
+    return () => clearTimeout(timer);
+  }, [revealed]);
+
+  // Revealing needs a recent sign-in - ask for the password when the server says so
+  const requestReveal = async () => {
+    if (!displayedCard) return;
+    setRevealing(true);
+    try {
+      setRevealed(await revealCardDetails(displayedCard.token));
+    } catch (error: any) {
+      if (error.code === 'REAUTH_REQUIRED') {
+        setShowPasswordPrompt(true);
+      } else {
+        console.error('Failed to reveal card details:', error);
+        alert(error.message || 'Failed to show card details');
+      }
+    } finally {
+      setRevealing(false);
+    }
+  };
+
+  const handleToggleDetails = () => {
+    if (showCardDetails) {
+      setRevealed(null);
+    } else {
+      requestReveal();
+    }
+  };
+
+  const handleConfirmPassword = async () => {
+    setRevealing(true);
+    setRevealError(null);
+    try {
+      await confirmPassword(revealPassword);
+    } catch (error: any) {
+      setRevealError(error.message || 'Incorrect password');
+      setRevealing(false);
+      return;
+    }
+    setShowPasswordPrompt(false);
+    setRevealPassword('');
+    await requestReveal();
+  };
+
+  const closePasswordPrompt = () => {
+    setShowPasswordPrompt(false);
+    setRevealPassword('');
+    setRevealError(null);
+  };
+
   const handleAddMoney = async () => {
-    if (amount && parseFloat(amount) > 0) {
+    if (amount && parseFloat(amount) > 0 && !addMoneyLoading && selectedSource && canFund) {
       setAddMoneyLoading(true);
       setAddMoneyError(null);
+      addMoneyKeyRef.current ??= crypto.randomUUID();
       try {
-        const result = await apiAddMoney(parseFloat(amount), 'Added funds to wallet');
+        const result = await apiAddMoney(parseFloat(amount), undefined, addMoneyKeyRef.current, {
+          source: selectedSource.source,
+          sourceId: selectedSource.source === 'program' ? undefined : selectedOptionId
+        });
+        addMoneyKeyRef.current = null;
         const addedAmount = parseFloat(amount);
         
         // Update balance with the new balance from API
@@ -86,11 +259,13 @@ export function AccountabillsWallet({
           setBalance(balance + addedAmount);
         }
         
-        // Extract funding source name from transaction response
-        const fundingSourceName = result.transaction?.funding?.source?.name || 'Sandbox Program Funding';
+        const fundingSourceName = selectedSource.options.find(o => o.id === selectedOptionId)?.label
+          || result.transaction?.funding?.source?.name
+          || selectedSource.label;
         
         setAmount('');
         setShowAddMoney(false);
+        onWalletActivity?.();
         
         // Show success modal with confetti!
         setSuccessData({
@@ -107,12 +282,12 @@ export function AccountabillsWallet({
   };
 
   // Format card PAN with spaces
-  const formatPan = (pan: string | undefined) => {
-    if (!pan) return '•••• •••• •••• ••••';
-    if (showCardDetails) {
-      return pan.replace(/(.{4})/g, '$1 ').trim();
+  const formatPan = () => {
+    if (showCardDetails && revealed) {
+      return revealed.pan.replace(/(.{4})/g, '$1 ').trim();
     }
-    return `•••• •••• •••• ${pan.slice(-4)}`;
+    if (!displayedCard?.lastFour) return '•••• •••• •••• ••••';
+    return `•••• •••• •••• ${displayedCard.lastFour}`;
   };
 
   // Format expiration date
@@ -123,13 +298,48 @@ export function AccountabillsWallet({
     return `${exp.slice(0, 2)}/${exp.slice(2)}`;
   };
 
-  const handleWithdraw = (instant: boolean) => {
-    if (amount && parseFloat(amount) > 0) {
-      const withdrawAmount = parseFloat(amount);
-      const fee = instant ? withdrawAmount * 0.0195 : 0;
-      setBalance(balance - withdrawAmount - fee);
+  const handleWithdraw = async (instant: boolean) => {
+    const bankAccountId = withdrawAccountId || verifiedAccounts[0]?.id;
+    if (!amount || parseFloat(amount) <= 0 || !bankAccountId || withdrawLoading) return;
+
+    setWithdrawLoading(true);
+    setWithdrawError(null);
+    withdrawKeyRef.current ??= crypto.randomUUID();
+    try {
+      const result = await withdrawMoney(parseFloat(amount), instant, bankAccountId, withdrawKeyRef.current);
+      withdrawKeyRef.current = null;
+      setBalance(result.newBalance);
       setAmount('');
       setShowWithdraw(false);
+      onWalletActivity?.();
+    } catch (error: any) {
+      console.error('Error withdrawing:', error);
+      setWithdrawError(error.message || 'Failed to withdraw');
+    } finally {
+      setWithdrawLoading(false);
+    }
+  };
+
+  const closeWithdraw = () => {
+    setShowWithdraw(false);
+    setWithdrawError(null);
+    withdrawKeyRef.current = null;
+  };
+
+  // Replace or add the account in the linked list
+  const handleBankAccountChanged = (account: BankAccount) => {
+    const others = bankAccounts.filter(a => a.id !== account.id);
+    onBankAccountsChange?.([...others, account]);
+  };
+
+  const handleRemoveBankAccount = async (account: BankAccount) => {
+    if (!confirm(`Unlink the account ending ${account.lastFour}?`)) return;
+    try {
+      await removeBankAccount(account.id);
+      onBankAccountsChange?.(bankAccounts.filter(a => a.id !== account.id));
+    } catch (error: any) {
+      console.error('Failed to remove bank account:', error);
+      alert(error.message || 'Failed to remove bank account');
     }
   };
 
@@ -199,16 +409,38 @@ export function AccountabillsWallet({
       <div className="mx-4 mb-6">
         <div className="flex justify-between items-center mb-3">
           <h3 className="text-white">Virtual Card</h3>
-          {card && (
+          {displayedCard && (
             <button
-              onClick={() => setShowCardDetails(!showCardDetails)}
-              className="text-white opacity-70 hover:opacity-100 flex items-center gap-1 text-sm"
+              onClick={handleToggleDetails}
+              disabled={revealing || displayedCard.state === 'TERMINATED'}
+              className="text-white opacity-70 hover:opacity-100 flex items-center gap-1 text-sm disabled:opacity-40"
             >
-              {showCardDetails ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              {revealing
+                ? <Loader2 className="w-4 h-4 animate-spin" />
+                : showCardDetails ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
               {showCardDetails ? 'Hide' : 'Show'} Details
             </button>
           )}
         </div>
+        {/* Card switcher - only once there's more than the main card */}
+        {allCards.filter(c => c.state !== 'TERMINATED').length > 1 && (
+          <div className="flex gap-2 overflow-x-auto mb-3 pb-1">
+            {allCards.filter(c => c.state !== 'TERMINATED').map(c => {
+              const isSelected = c.token === displayedCard?.token;
+              return (
+                <button
+                  key={c.token}
+                  onClick={() => handleSelectCard(c.token)}
+                  className={`flex-shrink-0 px-3 py-1.5 rounded-full text-sm transition-colors ${
+                    isSelected ? 'bg-white text-[#9E89FF]' : 'bg-white bg-opacity-20 text-white hover:bg-opacity-30'
+                  }`}
+                >
+                  {c.purpose === 'request' ? c.label || 'Request card' : 'Main card'} ••{c.lastFour}
+                </button>
+              );
+            })}
+          </div>
+        )}
         <div className="bg-gradient-to-br from-gray-900 to-gray-800 rounded-3xl p-6 text-white shadow-2xl">
           {cardLoading ? (
             <div className="flex items-center justify-center py-12">
@@ -225,7 +457,7 @@ export function AccountabillsWallet({
                 Try again
               </button>
             </div>
-          ) : !card ? (
+          ) : !displayedCard ? (
             <div className="py-8 text-center">
               <CreditCard className="w-12 h-12 text-gray-500 mx-auto mb-4" />
               <p className="text-gray-400 mb-4">No virtual card yet</p>
@@ -241,10 +473,17 @@ export function AccountabillsWallet({
               <div className="flex justify-between items-start mb-12">
                 <div>
                   <p className="text-gray-400 text-sm mb-1">ACCOUNTABILLS</p>
-                  <p className="text-white">Virtual Card</p>
-                  {card?.state && (
-                    <p className={`text-xs mt-1 ${card.state === 'ACTIVE' ? 'text-green-400' : 'text-yellow-400'}`}>
-                      {card.state}
+                  <p className="text-white">
+                    {displayedCard.purpose === 'request' ? displayedCard.label || 'Request Card' : 'Virtual Card'}
+                  </p>
+                  {displayedCard.singleUse && (
+                    <p className="text-gray-400 text-xs mt-1">
+                      Single use{displayedCard.amountLimit != null ? ` · up to $${displayedCard.amountLimit.toFixed(2)}` : ''}
+                    </p>
+                  )}
+                  {displayedCard?.state && (
+                    <p className={`text-xs mt-1 ${displayedCard.state === 'ACTIVE' ? 'text-green-400' : displayedCard.state === 'TERMINATED' ? 'text-red-400' : 'text-yellow-400'}`}>
+                      {displayedCard.state === 'SUSPENDED' ? 'FROZEN' : displayedCard.state}
                     </p>
                   )}
                 </div>
@@ -253,26 +492,71 @@ export function AccountabillsWallet({
               
               <div className="mb-6">
                 <p className="text-2xl tracking-wider mb-4 font-mono">
-                  {formatPan(card?.pan)}
+                  {formatPan()}
                 </p>
                 <div className="flex gap-8">
                   <div>
                     <p className="text-gray-400 text-xs mb-1">VALID THRU</p>
-                    <p className="text-white font-mono">{formatExpiration(card?.expiration)}</p>
+                    <p className="text-white font-mono">{formatExpiration(displayedCard?.expiration)}</p>
                   </div>
                   <div>
                     <p className="text-gray-400 text-xs mb-1">CVV</p>
                     <p className="text-white font-mono">
-                      {showCardDetails ? card?.cvv || '•••' : '•••'}
+                      {showCardDetails ? revealed?.cvv || '•••' : '•••'}
                     </p>
                   </div>
                 </div>
               </div>
 
-              <button className="w-full bg-white text-gray-900 py-3 rounded-xl hover:bg-gray-100 transition-colors flex items-center justify-center gap-2">
-                <Apple className="w-5 h-5" />
-                <span>Add to Apple Wallet</span>
-              </button>
+              {displayedCard.state === 'TERMINATED' ? (
+                <div className="text-center">
+                  <p className="text-gray-400 text-sm mb-3">This card has been terminated</p>
+                  {!selectedCard && (
+                    <button
+                      onClick={handleCreateCard}
+                      className="bg-purple-500 hover:bg-purple-600 text-white px-6 py-2 rounded-xl transition-colors"
+                    >
+                      Create New Card
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <button className="w-full bg-white text-gray-900 py-3 rounded-xl hover:bg-gray-100 transition-colors flex items-center justify-center gap-2">
+                    <Apple className="w-5 h-5" />
+                    <span>Add to Apple Wallet</span>
+                  </button>
+
+                  <div className="grid grid-cols-3 gap-2 mt-3">
+                    <button
+                      onClick={() => handleCardAction(displayedCard.state === 'SUSPENDED' ? 'unfreeze' : 'freeze')}
+                      disabled={cardAction !== null}
+                      className="bg-gray-700 hover:bg-gray-600 text-white py-2 rounded-xl transition-colors flex flex-col items-center gap-1 text-xs disabled:opacity-50"
+                    >
+                      {cardAction === 'freeze' || cardAction === 'unfreeze'
+                        ? <Loader2 className="w-4 h-4 animate-spin" />
+                        : <Snowflake className="w-4 h-4" />}
+                      {displayedCard.state === 'SUSPENDED' ? 'Unfreeze' : 'Freeze'}
+                    </button>
+                    <button
+                      onClick={() => handleCardAction('replace')}
+                      disabled={cardAction !== null}
+                      className="bg-gray-700 hover:bg-gray-600 text-white py-2 rounded-xl transition-colors flex flex-col items-center gap-1 text-xs disabled:opacity-50"
+                    >
+                      {cardAction === 'replace' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                      Replace
+                    </button>
+                    <button
+                      onClick={() => handleCardAction('terminate')}
+                      disabled={cardAction !== null}
+                      className="bg-gray-700 hover:bg-red-600 text-white py-2 rounded-xl transition-colors flex flex-col items-center gap-1 text-xs disabled:opacity-50"
+                    >
+                      {cardAction === 'terminate' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Ban className="w-4 h-4" />}
+                      Terminate
+                    </button>
+                  </div>
+                </>
+              )}
             </>
           )}
         </div>
@@ -288,19 +572,83 @@ export function AccountabillsWallet({
                 <Building2 className="w-6 h-6 text-blue-600 dark:text-blue-400" />
               </div>
               <div className="flex-1">
-                <p className="text-gray-900 dark:text-white">{account.name}</p>
-                <p className="text-gray-600 dark:text-gray-400 text-sm">••••{account.accountNumber}</p>
+                <p className="text-gray-900 dark:text-white">
+                  {account.nickname || `${account.accountType === 'savings' ? 'Savings' : 'Checking'} account`}
+                </p>
+                <p className="text-gray-600 dark:text-gray-400 text-sm">••••{account.lastFour}</p>
               </div>
-              <p className="text-green-600 dark:text-green-400">{account.status}</p>
+              {account.status === 'verified' ? (
+                <p className="text-green-600 dark:text-green-400 text-sm">Verified</p>
+              ) : account.status === 'pending_verification' ? (
+                <button
+                  onClick={() => setLinkingAccount(account)}
+                  className="text-[#9E89FF] text-sm hover:underline"
+                >
+                  Verify
+                </button>
+              ) : (
+                <p className="text-red-600 dark:text-red-400 text-sm">Verification failed</p>
+              )}
+              <button
+                onClick={() => handleRemoveBankAccount(account)}
+                className="text-gray-400 hover:text-red-500 transition-colors"
+                aria-label="Unlink bank account"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
             </div>
           ))}
 
-          <button className="w-full border-2 border-dashed border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 py-4 rounded-xl hover:border-[#9E89FF] hover:text-[#9E89FF] transition-colors flex items-center justify-center gap-2">
+          <button
+            onClick={() => setLinkingAccount(null)}
+            className="w-full border-2 border-dashed border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 py-4 rounded-xl hover:border-[#9E89FF] hover:text-[#9E89FF] transition-colors flex items-center justify-center gap-2">
             <Plus className="w-5 h-5" />
             <span>Link Bank Account</span>
           </button>
         </div>
 
+        {/* Sandbox transaction simulations */}
+        {simulationOptions?.enabled && card && (
+          <SimulationConsole
+            options={simulationOptions}
+            cards={allCards.filter(c => c.state !== 'TERMINATED')}
+            defaultCardToken={displayedCard?.token}
+            onSimulated={() => {
+              onWalletActivity?.();
+              refreshCards();
+            }}
+          />
+        )}
+
+        {/* Category spending limits from JIT approvals */}
+        {spendLimits.length > 0 && (
+          <>
+            <h3 className="text-gray-900 dark:text-white mb-3">Spending Limits by Category</h3>
+            <div className="space-y-3 mb-6">
+              {spendLimits.map(limit => {
+                const spent = limit.spent ?? 0;
+                const percent = limit.limit > 0 ? Math.min(100, (spent / limit.limit) * 100) : 0;
+                return (
+                  <div key={limit.category} className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="flex items-center gap-2">
+                        <ShieldCheck className="w-4 h-4 text-[#9E89FF]" />
+                        <p className="text-gray-900 dark:text-white">{limit.category}</p>
+                      </div>
+                      <p className="text-gray-600 dark:text-gray-400 text-sm">
+                        ${(limit.available ?? limit.limit).toFixed(2)} left of ${limit.limit.toFixed(2)}
+                      </p>
+                    </div>
+                    <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                      <div className="h-full bg-[#9E89FF]" style={{ width: `${percent}%` }} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+
         {/* Transaction History */}
         <h3 className="text-gray-900 dark:text-white mb-3">Recent Transactions</h3>
         <div className="space-y-3 pb-6">
@@ -339,6 +687,53 @@ export function AccountabillsWallet({
           <div className="bg-white rounded-t-3xl w-full max-w-md p-6">
             <h3 className="text-gray-900 mb-4">Add Money</h3>
             <p className="text-gray-600 mb-4">Fund your ACCOUNTABILLS wallet via Marqeta</p>
+
+            <div className="mb-4">
+              <label className="block text-gray-700 mb-2">From</label>
+              <div className="flex gap-2 mb-2">
+                {availableSources.map(s => (
+                  <button
+                    key={s.source}
+                    onClick={() => {
+                      setFundingSource(s.source);
+                      setFundingSourceId('');
+                      addMoneyKeyRef.current = null;
+                    }}
+                    disabled={addMoneyLoading}
+                    className={`flex-1 px-3 py-2 rounded-xl text-sm transition-colors ${
+                      selectedSource?.source === s.source
+                        ? 'bg-[#9E89FF] text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {s.label}
+                  </button>
+                ))}
+              </div>
+              {selectedSource && selectedSource.source !== 'program' && (
+                selectedSource.options.length > 0 ? (
+                  <select
+                    value={selectedOptionId}
+                    onChange={(e) => {
+                      setFundingSourceId(e.target.value);
+                      addMoneyKeyRef.current = null;
+                    }}
+                    disabled={addMoneyLoading}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#9E89FF] disabled:bg-gray-100"
+                  >
+                    {selectedSource.options.map(o => (
+                      <option key={o.id} value={o.id}>{o.label}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <p className="text-gray-500 text-sm">
+                    {selectedSource.source === 'ach'
+                      ? 'Link and verify a bank account to add money from it'
+                      : 'None of your partners allow top-ups from their wallet yet'}
+                  </p>
+                )
+              )}
+            </div>
             
             <div className="mb-4">
               <label className="block text-gray-700 mb-2">Amount</label>
@@ -348,7 +743,10 @@ export function AccountabillsWallet({
                   type="number"
                   step="0.01"
                   value={amount}
-                  onChange={(e) => setAmount(e.target.value)}
+                  onChange={(e) => {
+                    setAmount(e.target.value);
+                    addMoneyKeyRef.current = null; // A different amount is a new request
+                  }}
                   placeholder="0.00"
                   disabled={addMoneyLoading}
                   className="w-full pl-8 pr-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#9E89FF] disabled:bg-gray-100"
@@ -362,9 +760,11 @@ export function AccountabillsWallet({
               </div>
             )}
 
-            <div className="bg-blue-50 border border-blue-200 rounded-xl p-3 mb-4">
-              <p className="text-gray-600 text-sm">Funds will be available instantly in your Marqeta GPA</p>
-            </div>
+            {selectedSource && (
+              <div className="bg-blue-50 border border-blue-200 rounded-xl p-3 mb-4">
+                <p className="text-gray-600 text-sm">{selectedSource.description}. Funds will be available instantly in your Marqeta GPA</p>
+              </div>
+            )}
 
             <div className="flex gap-3">
               <button
@@ -379,7 +779,7 @@ export function AccountabillsWallet({
               </button>
               <button
                 onClick={handleAddMoney}
-                disabled={addMoneyLoading || !amount || parseFloat(amount) <= 0}
+                disabled={addMoneyLoading || !amount || parseFloat(amount) <= 0 || !canFund}
                 className="flex-1 bg-[#9E89FF] text-white py-3 rounded-xl hover:bg-[#8B76F0] transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
               >
                 {addMoneyLoading ? (
@@ -410,30 +810,67 @@ export function AccountabillsWallet({
                   type="number"
                   step="0.01"
                   value={amount}
-                  onChange={(e) => setAmount(e.target.value)}
+                  onChange={(e) => {
+                    setAmount(e.target.value);
+                    withdrawKeyRef.current = null; // A different amount is a new request
+                  }}
                   placeholder="0.00"
-                  className="w-full pl-8 pr-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#9E89FF]"
+                  disabled={withdrawLoading}
+                  className="w-full pl-8 pr-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#9E89FF] disabled:bg-gray-100"
                 />
               </div>
             </div>
 
+            {verifiedAccounts.length === 0 ? (
+              <div className="bg-blue-50 border border-blue-200 rounded-xl p-3 mb-4">
+                <p className="text-gray-600 text-sm">Link and verify a bank account to withdraw to it</p>
+              </div>
+            ) : (
+              <div className="mb-4">
+                <label className="block text-gray-700 mb-2">To</label>
+                <select
+                  value={withdrawAccountId || verifiedAccounts[0].id}
+                  onChange={(e) => {
+                    setWithdrawAccountId(e.target.value);
+                    withdrawKeyRef.current = null;
+                  }}
+                  disabled={withdrawLoading}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#9E89FF] disabled:bg-gray-100"
+                >
+                  {verifiedAccounts.map(a => (
+                    <option key={a.id} value={a.id}>
+                      {a.nickname || (a.accountType === 'savings' ? 'Savings' : 'Checking')} ••••{a.lastFour}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {withdrawError && (
+              <div className="bg-red-50 border border-red-200 rounded-xl p-3 mb-4">
+                <p className="text-red-600 text-sm">{withdrawError}</p>
+              </div>
+            )}
+
             <div className="space-y-3 mb-4">
               <button
                 onClick={() => handleWithdraw(true)}
-                className="w-full bg-[#9E89FF] text-white p-4 rounded-xl hover:bg-[#8B76F0] transition-colors text-left"
+                disabled={withdrawLoading || verifiedAccounts.length === 0 || !(parseFloat(amount) > 0)}
+                className="w-full bg-[#9E89FF] text-white p-4 rounded-xl hover:bg-[#8B76F0] transition-colors text-left disabled:opacity-50"
               >
                 <div className="flex items-center justify-between mb-1">
                   <span>Instant Transfer</span>
                   <Clock className="w-5 h-5" />
                 </div>
                 <p className="text-purple-100 text-sm">
-                  1.95% fee (${amount ? (parseFloat(amount) * 0.0195).toFixed(2) : '0.00'}) • Arrives instantly
+                  {INSTANT_FEE_PERCENT}% fee (${amount ? (parseFloat(amount) * INSTANT_FEE_PERCENT / 100).toFixed(2) : '0.00'}) • Arrives instantly
                 </p>
               </button>
 
               <button
                 onClick={() => handleWithdraw(false)}
-                className="w-full bg-gray-100 text-gray-900 p-4 rounded-xl hover:bg-gray-200 transition-colors text-left"
+                disabled={withdrawLoading || verifiedAccounts.length === 0 || !(parseFloat(amount) > 0)}
+                className="w-full bg-gray-100 text-gray-900 p-4 rounded-xl hover:bg-gray-200 transition-colors text-left disabled:opacity-50"
               >
                 <div className="flex items-center justify-between mb-1">
                   <span>Standard Transfer</span>
@@ -444,15 +881,80 @@ export function AccountabillsWallet({
             </div>
 
             <button
-              onClick={() => setShowWithdraw(false)}
-              className="w-full bg-gray-200 text-gray-700 py-3 rounded-xl hover:bg-gray-300 transition-colors"
+              onClick={closeWithdraw}
+              disabled={withdrawLoading}
+              className="w-full bg-gray-200 text-gray-700 py-3 rounded-xl hover:bg-gray-300 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
             >
-              Cancel
+              {withdrawLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+              {withdrawLoading ? 'Withdrawing...' : 'Cancel'}
             </button>
           </div>
         </div>
       )}
 
+      {/* Link / Verify Bank Account Modal */}
+      {linkingAccount !== undefined && (
+        <LinkBankAccountModal
+          account={linkingAccount}
+          onChanged={handleBankAccountChanged}
+          onClose={() => setLinkingAccount(undefined)}
+        />
+      )}
+
+      {/* Confirm Password Modal (before revealing card details) */}
+      {showPasswordPrompt && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+          <div className="bg-white rounded-t-3xl w-full max-w-md p-6">
+            <h3 className="text-gray-900 mb-4">Confirm It's You</h3>
+            <p className="text-gray-600 mb-4">Enter your password to see your full card number and CVV</p>
+
+            <div className="mb-4">
+              <label className="block text-gray-700 mb-2">Password</label>
+              <input
+                type="password"
+                value={revealPassword}
+                onChange={(e) => setRevealPassword(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && revealPassword && handleConfirmPassword()}
+                autoComplete="current-password"
+                autoFocus
+                disabled={revealing}
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#9E89FF] disabled:bg-gray-100"
+              />
+            </div>
+
+            {revealError && (
+              <div className="bg-red-50 border border-red-200 rounded-xl p-3 mb-4">
+                <p className="text-red-600 text-sm">{revealError}</p>
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={closePasswordPrompt}
+                disabled={revealing}
+                className="flex-1 bg-gray-200 text-gray-700 py-3 rounded-xl hover:bg-gray-300 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmPassword}
+                disabled={revealing || !revealPassword}
+                className="flex-1 bg-[#9E89FF] text-white py-3 rounded-xl hover:bg-[#8B76F0] transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {revealing ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Confirming...
+                  </>
+                ) : (
+                  'Confirm'
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Success Modal with Confetti */}
       {successData && (
         <AddMoneySuccess
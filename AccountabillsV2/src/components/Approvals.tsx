@@ -1,15 +1,28 @@
 import { useState } from 'react';
 import { CheckCircle, XCircle, AlertCircle, ArrowLeft } from 'lucide-react';
 import { MoneyRequest, RequestStatus } from '../App';
+import { RecurringRequest } from '../utils/api';
+import { RecurringRequests } from './RecurringRequests';
 
 interface ApprovalsProps {
   requests: MoneyRequest[];
   updateRequestStatus: (id: string, status: 'approved' | 'rejected', notes?: string, approver?: string) => void;
   onNavigateBack?: () => void;
   onNavigateToReview?: (requestId: string) => void;
+  preApprovals?: RecurringRequest[];
+  currentUserId?: string;
+  onRespondToPreApproval?: (id: string, decision: 'approve' | 'reject') => Promise<void>;
 }
 
-export function Approvals({ requests, updateRequestStatus, onNavigateBack, onNavigateToReview }: ApprovalsProps) {
+export function Approvals({
+  requests,
+  updateRequestStatus,
+  onNavigateBack,
+  onNavigateToReview,
+  preApprovals = [],
+  currentUserId,
+  onRespondToPreApproval
+}: ApprovalsProps) {
   const [selectedRequest, setSelectedRequest] = useState<MoneyRequest | null>(null);
   const [notes, setNotes] = useState('');
 
@@ -63,6 +76,18 @@ export function Approvals({ requests, updateRequestStatus, onNavigateBack, onNav
         </div>
       </div>
 
+      {/* Recurring requests waiting for pre-approval */}
+      {preApprovals.length > 0 && (
+        <div className="mb-6">
+          <h2 className="text-gray-900 dark:text-white mb-3">Pre-Approvals</h2>
+          <RecurringRequests
+            recurringRequests={preApprovals}
+            currentUserId={currentUserId}
+            onRespondToPreApproval={onRespondToPreApproval}
+          />
+        </div>
+      )}
+
       {/* Pending Requests */}
       <div className="mb-6">
         <h2 className="text-gray-900 dark:text-white mb-3">Pending Requests</h2>
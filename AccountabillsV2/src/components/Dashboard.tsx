@@ -1,13 +1,13 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Plus, TrendingUp, Clock, CheckCircle, XCircle, Wallet, UserPlus, Upload, MessageCircle, Bell, Search, X, UserCheck, Eye, Loader2 } from 'lucide-react';
-import { MoneyRequest, Approver, ApproverGroup, RequestStatus } from '../App';
+import { MoneyRequest, Approver, ApproverGroup, RequestStatus, RequestRecurrence } from '../App';
 import { NewRequestModal } from './NewRequestModal';
 import { StatCard } from './StatCard';
-import { searchUsers } from '../utils/api';
+import { searchUsers, RequestTemplate } from '../utils/api';
 
 interface DashboardProps {
   requests: MoneyRequest[];
-  addRequest: (request: Omit<MoneyRequest, 'id'>, selectedApprovers?: Approver[], selectedGroups?: ApproverGroup[]) => void;
+  addRequest: (request: Omit<MoneyRequest, 'id'>, selectedApprovers?: Approver[], selectedGroups?: ApproverGroup[], recurrence?: RequestRecurrence) => void;
   approvers: Approver[];
   approverGroups?: ApproverGroup[];
   walletBalance: number;
@@ -21,6 +21,8 @@ interface DashboardProps {
   onClearCapturedImage?: () => void;
   currentUser?: { name: string; email: string; } | null;
   onSendFriendRequest?: (userId: string, userName: string, userEmail: string, role: 'approver' | 'viewer') => Promise<void>;
+  requestTemplates?: RequestTemplate[];
+  onDeleteTemplate?: (id: string) => Promise<void>;
 }
 
 interface SearchResult {
@@ -31,7 +33,7 @@ interface SearchResult {
 
 const SEARCH_DELAY_SECONDS = 2;
 
-export function Dashboard({ requests, addRequest, approvers, approverGroups = [], walletBalance, onNavigateToProfile, onNavigateToMessages, onNavigateToNotifications, unreadNotificationsCount = 0, onNavigateToReview, onNavigateToRequests, capturedImage, onClearCapturedImage, currentUser, onSendFriendRequest }: DashboardProps) {
+export function Dashboard({ requests, addRequest, approvers, approverGroups = [], walletBalance, onNavigateToProfile, onNavigateToMessages, onNavigateToNotifications, unreadNotificationsCount = 0, onNavigateToReview, onNavigateToRequests, capturedImage, onClearCapturedImage, currentUser, onSendFriendRequest, requestTemplates = [], onDeleteTemplate }: DashboardProps) {
   const [showNewRequest, setShowNewRequest] = useState(false);
   const [showSearch, setShowSearch] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -389,6 +391,8 @@ export function Dashboard({ requests, addRequest, approvers, approverGroups = []
                         ? 'bg-green-600 dark:bg-green-700'
                         : request.status === 'rejected'
                         ? 'bg-red-600 dark:bg-red-700'
+                        : request.status === 'expired' || request.status === 'cancelled'
+                        ? 'bg-gray-500 dark:bg-gray-600'
                         : 'bg-yellow-600 dark:bg-yellow-700'
                     }`}
                   >
@@ -411,6 +415,8 @@ export function Dashboard({ requests, addRequest, approvers, approverGroups = []
           approverGroups={approverGroups}
           capturedImage={capturedImage}
           onClearCapturedImage={onClearCapturedImage}
+          templates={requestTemplates}
+          onDeleteTemplate={onDeleteTemplate}
         />
       )}
 
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { linkBankAccount, verifyBankAccount, BankAccount } from '../utils/api';
+
+interface LinkBankAccountModalProps {
+  // Pass a pending account to go straight to verifying it
+  account?: BankAccount | null;
+  onChanged: (account: BankAccount) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#9E89FF] disabled:bg-gray-100';
+
+// Two steps: enter routing and account numbers, then confirm the two micro-deposits
+export function LinkBankAccountModal({ account: initialAccount = null, onChanged, onClose }: LinkBankAccountModalProps) {
+  const [account, setAccount] = useState<BankAccount | null>(initialAccount);
+  const [holderName, setHolderName] = useState('');
+  const [routingNumber, setRoutingNumber] = useState('');
+  const [accountNumber, setAccountNumber] = useState('');
+  const [accountType, setAccountType] = useState<'checking' | 'savings'>('checking');
+  const [nickname, setNickname] = useState('');
+  const [deposits, setDeposits] = useState(['', '']);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLink = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const linked = await linkBankAccount({
+        holderName,
+        routingNumber,
+        accountNumber,
+        accountType,
+        nickname: nickname || undefined
+      });
+      setAccount(linked);
+      onChanged(linked);
+    } catch (error: any) {
+      console.error('Failed to link bank account:', error);
+      setError(error.message || 'Failed to link bank account');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!account) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const verified = await verifyBankAccount(account.id, deposits.map(d => parseFloat(d)));
+      onChanged(verified);
+      onClose();
+    } catch (error: any) {
+      console.error('Failed to verify bank account:', error);
+      setError(error.message || 'Failed to verify bank account');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-3xl w-full max-w-md p-6">
+        {!account ? (
+          <>
+            <h3 className="text-gray-900 mb-4">Link Bank Account</h3>
+            <p className="text-gray-600 mb-4">We'll send two small deposits to confirm the account is yours</p>
+
+            <div className="space-y-3 mb-4">
+              <input
+                type="text"
+                value={holderName}
+                onChange={(e) => setHolderName(e.target.value)}
+                placeholder="Account holder name"
+                autoComplete="name"
+                disabled={loading}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                inputMode="numeric"
+                maxLength={9}
+                value={routingNumber}
+                onChange={(e) => setRoutingNumber(e.target.value.replace(/\D/g, ''))}
+                placeholder="Routing number (9 digits)"
+                disabled={loading}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                inputMode="numeric"
+                maxLength={17}
+                value={accountNumber}
+                onChange={(e) => setAccountNumber(e.target.value.replace(/\D/g, ''))}
+                placeholder="Account number"
+                autoComplete="off"
+                disabled={loading}
+                className={inputClass}
+              />
+              <div className="flex gap-3">
+                <select
+                  value={accountType}
+                  onChange={(e) => setAccountType(e.target.value as 'checking' | 'savings')}
+                  disabled={loading}
+                  className={inputClass}
+                >
+                  <option value="checking">Checking</option>
+                  <option value="savings">Savings</option>
+                </select>
+                <input
+                  type="text"
+                  value={nickname}
+                  onChange={(e) => setNickname(e.target.value)}
+                  placeholder="Nickname (optional)"
+                  disabled={loading}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </>
+        ) : (
+          <>
+            <h3 className="text-gray-900 mb-4">Verify Bank Account</h3>
+            <p className="text-gray-600 mb-4">
+              Enter the two small deposits sent to the account ending {account.lastFour}
+            </p>
+
+            {account.sandboxMicroDeposits && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-3 mb-4">
+                <p className="text-gray-600 text-sm">
+                  Sandbox: the deposits were ${account.sandboxMicroDeposits.map(a => a.toFixed(2)).join(' and $')}
+                </p>
+              </div>
+            )}
+
+            <div className="flex gap-3 mb-4">
+              {deposits.map((deposit, i) => (
+                <div key={i} className="relative flex-1">
+                  <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-500">$</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={deposit}
+                    onChange={(e) => setDeposits(prev => prev.map((d, j) => (j === i ? e.target.value : d)))}
+                    placeholder="0.00"
+                    disabled={loading}
+                    className={`${inputClass} pl-8`}
+                  />
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-3 mb-4">
+            <p className="text-red-600 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            disabled={loading}
+            className="flex-1 bg-gray-200 text-gray-700 py-3 rounded-xl hover:bg-gray-300 transition-colors disabled:opacity-50"
+          >
+            {account ? 'Later' : 'Cancel'}
+          </button>
+          <button
+            onClick={account ? handleVerify : handleLink}
+            disabled={loading || (account
+              ? deposits.some(d => !(parseFloat(d) > 0))
+              : !holderName || routingNumber.length !== 9 || accountNumber.length < 4)}
+            className="flex-1 bg-[#9E89FF] text-white py-3 rounded-xl hover:bg-[#8B76F0] transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+            {account ? 'Verify' : 'Link Account'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
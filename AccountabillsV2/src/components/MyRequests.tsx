@@ -1,16 +1,50 @@
 import { useState, useEffect } from 'react';
-import { Filter, Search, ArrowLeft } from 'lucide-react';
+import { Filter, Search, ArrowLeft, XCircle, Pencil, RotateCcw, BookmarkPlus, CreditCard } from 'lucide-react';
 import { MoneyRequest, RequestStatus } from '../App';
+import { EditRequestData, RecurringRequest, RequestReconciliation, getReconciliation } from '../utils/api';
+import { RecurringRequests } from './RecurringRequests';
+import { SpendReconciliation } from './SpendReconciliation';
 
 interface MyRequestsProps {
   requests: MoneyRequest[];
   initialFilter?: RequestStatus;
   onBack?: () => void;
+  onCancelRequest?: (id: string, reason?: string) => Promise<void>;
+  onEditRequest?: (id: string, updates: EditRequestData) => Promise<void>;
+  onResubmitRequest?: (id: string, overrides?: EditRequestData) => Promise<void>;
+  onRespondToCounterOffer?: (id: string, decision: 'accept' | 'decline') => Promise<void>;
+  recurringRequests?: RecurringRequest[];
+  currentUserId?: string;
+  onToggleRecurring?: (id: string, active: boolean) => Promise<void>;
+  onDeleteRecurring?: (id: string) => Promise<void>;
+  onSaveAsTemplate?: (id: string, name?: string) => Promise<void>;
+  onIssueCard?: (id: string) => Promise<void>;
 }
 
-export function MyRequests({ requests, initialFilter, onBack }: MyRequestsProps) {
+const RESUBMITTABLE_STATUSES: RequestStatus[] = ['rejected', 'expired', 'cancelled'];
+
+export function MyRequests({
+  requests,
+  initialFilter,
+  onBack,
+  onCancelRequest,
+  onEditRequest,
+  onResubmitRequest,
+  onRespondToCounterOffer,
+  recurringRequests = [],
+  currentUserId,
+  onToggleRecurring,
+  onDeleteRecurring,
+  onSaveAsTemplate,
+  onIssueCard
+}: MyRequestsProps) {
   const [filter, setFilter] = useState<RequestStatus | 'all'>(initialFilter || 'all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editAmount, setEditAmount] = useState('');
+  const [editDescription, setEditDescription] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [reconciliations, setReconciliations] = useState<Map<string, RequestReconciliation>>(new Map());
 
   // Update filter when initialFilter changes
   useEffect(() => {
@@ -19,6 +53,14 @@ export function MyRequests({ requests, initialFilter, onBack }: MyRequestsProps)
     }
   }, [initialFilter]);
 
+  // How approved money was spent - only approved, funded requests have an entry
+  useEffect(() => {
+    if (!requests.some(r => r.status === 'approved')) return;
+    getReconciliation()
+      .then(reconciliation => setReconciliations(new Map(reconciliation.requests.map(r => [r.requestId, r]))))
+      .catch(error => console.error('Failed to load spend reconciliation:', error));
+  }, [requests]);
+
   const filteredRequests = requests.filter(request => {
     const matchesFilter = filter === 'all' || request.status === filter;
     const matchesSearch = request.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -28,6 +70,70 @@ export function MyRequests({ requests, initialFilter, onBack }: MyRequestsProps)
 
   const totalAmount = filteredRequests.reduce((sum, r) => sum + r.amount, 0);
 
+  // Runs a sender action with a per-request busy flag; App surfaces the error
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+      return true;
+    } catch {
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancel = (request: MoneyRequest) => {
+    if (!onCancelRequest || !confirm(`Cancel your $${request.amount.toFixed(2)} request for ${request.description}?`)) return;
+    runAction(request.id, () => onCancelRequest(request.id));
+  };
+
+  const startEditing = (request: MoneyRequest) => {
+    setEditingId(request.id);
+    setEditAmount(request.amount.toString());
+    setEditDescription(request.description);
+  };
+
+  const handleSaveEdit = async (request: MoneyRequest) => {
+    if (!onEditRequest) return;
+
+    const amount = parseFloat(editAmount);
+    if (!amount || amount <= 0) {
+      alert('Please enter an amount greater than 0');
+      return;
+    }
+
+    const updates: EditRequestData = {};
+    if (amount !== request.amount) updates.amount = amount;
+    if (editDescription.trim() !== request.description) updates.description = editDescription.trim();
+
+    if (Object.keys(updates).length === 0) {
+      setEditingId(null);
+      return;
+    }
+
+    const saved = await runAction(request.id, () => onEditRequest(request.id, updates));
+    if (saved) setEditingId(null);
+  };
+
+  const handleSaveAsTemplate = async (request: MoneyRequest) => {
+    if (!onSaveAsTemplate) return;
+    const name = prompt('Template name', request.description);
+    if (name === null) return;
+    const saved = await runAction(request.id, () => onSaveAsTemplate(request.id, name.trim() || undefined));
+    if (saved) alert(`Saved "${name.trim() || request.description}" as a template`);
+  };
+
+  const handleIssueCard = (request: MoneyRequest) => {
+    if (!onIssueCard) return;
+    runAction(request.id, () => onIssueCard(request.id));
+  };
+
+  const handleResubmit = (request: MoneyRequest) => {
+    if (!onResubmitRequest) return;
+    runAction(request.id, () => onResubmitRequest(request.id));
+  };
+
   return (
     <div className="p-4">
       {/* Header */}
@@ -46,6 +152,19 @@ export function MyRequests({ requests, initialFilter, onBack }: MyRequestsProps)
         <p className="text-gray-600 dark:text-gray-400">View all your submitted requests</p>
       </div>
 
+      {/* Recurring Requests */}
+      {recurringRequests.length > 0 && (
+        <div className="mb-6">
+          <h2 className="text-gray-900 dark:text-white mb-3">Recurring</h2>
+          <RecurringRequests
+            recurringRequests={recurringRequests}
+            currentUserId={currentUserId}
+            onToggleActive={onToggleRecurring}
+            onDelete={onDeleteRecurring}
+          />
+        </div>
+      )}
+
       {/* Search Bar */}
       <div className="mb-4">
         <div className="relative">
@@ -102,6 +221,26 @@ export function MyRequests({ requests, initialFilter, onBack }: MyRequestsProps)
         >
           Rejected
         </button>
+        <button
+          onClick={() => setFilter('expired')}
+          className={`px-4 py-2 rounded-lg whitespace-nowrap ${
+            filter === 'expired'
+              ? 'bg-gray-600 text-white'
+              : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600'
+          }`}
+        >
+          Expired
+        </button>
+        <button
+          onClick={() => setFilter('cancelled')}
+          className={`px-4 py-2 rounded-lg whitespace-nowrap ${
+            filter === 'cancelled'
+              ? 'bg-gray-600 text-white'
+              : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600'
+          }`}
+        >
+          Cancelled
+        </button>
       </div>
 
       {/* Summary */}
@@ -145,13 +284,22 @@ export function MyRequests({ requests, initialFilter, onBack }: MyRequestsProps)
                   <p className="text-gray-600 dark:text-gray-400">{request.category}</p>
                 </div>
                 <div className="text-right ml-4">
-                  <p className="text-gray-900 dark:text-white mb-1">${request.amount.toFixed(2)}</p>
+                  {request.approvedAmount != null && request.approvedAmount !== request.amount ? (
+                    <p className="text-gray-900 dark:text-white mb-1">
+                      <span className="text-gray-400 line-through mr-1">${request.amount.toFixed(2)}</span>
+                      ${request.approvedAmount.toFixed(2)}
+                    </p>
+                  ) : (
+                    <p className="text-gray-900 dark:text-white mb-1">${request.amount.toFixed(2)}</p>
+                  )}
                   <span
                     className={`inline-block px-2 py-1 rounded text-white text-xs ${
                       request.status === 'approved'
                         ? 'bg-green-600 dark:bg-green-700'
                         : request.status === 'rejected'
                         ? 'bg-red-600 dark:bg-red-700'
+                        : request.status === 'expired' || request.status === 'cancelled'
+                        ? 'bg-gray-500 dark:bg-gray-600'
                         : 'bg-yellow-600 dark:bg-yellow-700'
                     }`}
                   >
@@ -165,23 +313,190 @@ export function MyRequests({ requests, initialFilter, onBack }: MyRequestsProps)
                 <span>→ {request.approvers.join(', ')}</span>
               </div>
 
+              {request.status === 'pending' && request.expiresAt && (
+                <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                  Expires {new Date(request.expiresAt).toLocaleString()}
+                </p>
+              )}
+
               {request.notes && (
                 <div className="mt-3 p-3 bg-gray-50 dark:bg-gray-700 rounded border border-gray-200 dark:border-gray-600">
                   <p className="text-gray-600 dark:text-gray-300">Note: {request.notes}</p>
                 </div>
               )}
 
+              {request.status === 'pending' && request.counterOffer?.status === 'pending' && (
+                <div className="mt-3 p-3 bg-purple-50 dark:bg-purple-900/20 rounded border border-purple-200 dark:border-purple-800">
+                  <p className="text-gray-900 dark:text-white">
+                    {request.counterOffer.approverName} offered ${request.counterOffer.amount.toFixed(2)} instead of ${request.amount.toFixed(2)}
+                  </p>
+                  {request.counterOffer.notes && (
+                    <p className="text-gray-600 dark:text-gray-300 text-sm mt-1">"{request.counterOffer.notes}"</p>
+                  )}
+                  {onRespondToCounterOffer && (
+                    <div className="flex gap-2 mt-2">
+                      <button
+                        onClick={() => runAction(request.id, () => onRespondToCounterOffer(request.id, 'accept'))}
+                        disabled={busyId === request.id}
+                        className="flex-1 bg-green-600 text-white py-2 rounded-lg hover:bg-green-700 disabled:opacity-50"
+                      >
+                        Accept ${request.counterOffer.amount.toFixed(2)}
+                      </button>
+                      <button
+                        onClick={() => runAction(request.id, () => onRespondToCounterOffer(request.id, 'decline'))}
+                        disabled={busyId === request.id}
+                        className="flex-1 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 py-2 rounded-lg disabled:opacity-50"
+                      >
+                        Decline
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {request.status === 'approved' && (request.fundingStatus === 'approved_unfunded' || request.fundingStatus === 'funding') && (
+                <p className="mt-2 text-sm text-yellow-700 dark:text-yellow-400">
+                  Funding in progress{request.fundingError ? ' - the last attempt failed, retrying automatically' : ''}
+                </p>
+              )}
+
+              {request.status === 'approved' && request.fundingStatus === 'jit_available' && (
+                <p className="mt-2 text-sm text-[#9E89FF]">
+                  Ready to spend - pay ${(request.approvedAmount ?? request.amount).toFixed(2)} with your card
+                </p>
+              )}
+
+              {request.status === 'approved' && request.fundingStatus === 'jit_consumed' && (
+                <p className="mt-2 text-sm text-green-600 dark:text-green-400">
+                  Spent{request.jitAmount != null ? ` $${request.jitAmount.toFixed(2)}` : ''}{request.jitMerchant ? ` at ${request.jitMerchant}` : ''}
+                </p>
+              )}
+
+              {request.status === 'approved' && request.fundingStatus === 'funding_failed' && (
+                <p className="mt-2 text-sm text-red-600 dark:text-red-400">
+                  Funding failed{request.fundingError ? `: ${request.fundingError}` : ''}
+                </p>
+              )}
+
               {request.status === 'approved' && request.approvedBy && (
                 <div className="mt-2">
                   <p className="text-gray-600 dark:text-gray-400">Approved by: {request.approvedBy.join(', ')}</p>
                 </div>
               )}
 
+              {reconciliations.has(request.id) && (
+                <div className="mt-3">
+                  <SpendReconciliation reconciliation={reconciliations.get(request.id)!} />
+                </div>
+              )}
+
               {request.status === 'rejected' && request.rejectedBy && (
                 <div className="mt-2">
                   <p className="text-gray-600 dark:text-gray-400">Rejected by: {request.rejectedBy}</p>
                 </div>
               )}
+
+              {request.resubmittedFrom && (
+                <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">Resubmitted from an earlier request</p>
+              )}
+
+              {request.recurringRequestId && (
+                <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                  Created by a recurring request{request.preApproved ? ' (pre-approved)' : ''}
+                </p>
+              )}
+
+              {/* Inline edit form */}
+              {editingId === request.id && (
+                <div className="mt-3 p-3 bg-gray-50 dark:bg-gray-700 rounded border border-gray-200 dark:border-gray-600 space-y-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={editAmount}
+                    onChange={(e) => setEditAmount(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                  <input
+                    type="text"
+                    value={editDescription}
+                    onChange={(e) => setEditDescription(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Saving sends the request back to all approvers for review.</p>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleSaveEdit(request)}
+                      disabled={busyId === request.id}
+                      className="flex-1 bg-[#9E89FF] text-white py-2 rounded-lg hover:bg-[#8B76F0] disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="flex-1 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 py-2 rounded-lg"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Sender actions */}
+              {editingId !== request.id && (
+                <div className="mt-3 flex gap-2">
+                  {request.status === 'pending' && onEditRequest && !request.hasApprovals && (
+                    <button
+                      onClick={() => startEditing(request)}
+                      disabled={busyId === request.id}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+                    >
+                      <Pencil className="w-4 h-4" />
+                      Edit
+                    </button>
+                  )}
+                  {request.status === 'pending' && onCancelRequest && (
+                    <button
+                      onClick={() => handleCancel(request)}
+                      disabled={busyId === request.id}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-red-300 dark:border-red-800 text-red-600 dark:text-red-400 disabled:opacity-50"
+                    >
+                      <XCircle className="w-4 h-4" />
+                      Cancel
+                    </button>
+                  )}
+                  {RESUBMITTABLE_STATUSES.includes(request.status) && onResubmitRequest && (
+                    <button
+                      onClick={() => handleResubmit(request)}
+                      disabled={busyId === request.id}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-[#9E89FF] text-white hover:bg-[#8B76F0] disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Resubmit
+                    </button>
+                  )}
+                  {request.status === 'approved' && onIssueCard && request.fundingStatus === 'jit_available' && (
+                    <button
+                      onClick={() => handleIssueCard(request)}
+                      disabled={busyId === request.id}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+                    >
+                      <CreditCard className="w-4 h-4" />
+                      Get Card
+                    </button>
+                  )}
+                  {onSaveAsTemplate && (
+                    <button
+                      onClick={() => handleSaveAsTemplate(request)}
+                      disabled={busyId === request.id}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+                    >
+                      <BookmarkPlus className="w-4 h-4" />
+                      Save as Template
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           ))
         )}
@@ -1,18 +1,27 @@
 import { useState } from 'react';
-import { X, DollarSign, FileText, Tag, Calendar, Users, Camera, Upload, User, UsersRound, Check } from 'lucide-react';
-import { MoneyRequest, Approver, ApproverGroup } from '../App';
+import { X, DollarSign, FileText, Tag, Calendar, Users, Camera, Upload, User, UsersRound, Check, ShieldCheck, Repeat, Bookmark, Trash2 } from 'lucide-react';
+import { MoneyRequest, Approver, ApproverGroup, RequestRecurrence } from '../App';
+import { ApprovalPolicy, RecurringSchedule, RequestTemplate } from '../utils/api';
 
 interface NewRequestModalProps {
   onClose: () => void;
-  onSubmit: (request: Omit<MoneyRequest, 'id'>, selectedApprovers: Approver[], selectedGroups: ApproverGroup[]) => void;
+  onSubmit: (request: Omit<MoneyRequest, 'id'>, selectedApprovers: Approver[], selectedGroups: ApproverGroup[], recurrence?: RequestRecurrence) => void;
   approvers: Approver[];
   approverGroups: ApproverGroup[];
   capturedImage?: string | null;
   onClearCapturedImage?: () => void;
   onOpenCamera?: () => void;
+  templates?: RequestTemplate[];
+  onDeleteTemplate?: (id: string) => Promise<void>;
 }
 
 type ApproverTab = 'individual' | 'group';
+type PolicyOption = 'default' | ApprovalPolicy['type'];
+// What else has to happen besides the named approver approving
+type RequiredBase = 'all' | 'majority' | 'any';
+type RepeatOption = 'none' | 'weekly' | 'monthly';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
 export function NewRequestModal({ 
   onClose, 
@@ -21,22 +30,70 @@ export function NewRequestModal({
   approverGroups,
   capturedImage, 
   onClearCapturedImage,
-  onOpenCamera
+  onOpenCamera,
+  templates = [],
+  onDeleteTemplate
 }: NewRequestModalProps) {
   const [amount, setAmount] = useState('');
   const [description, setDescription] = useState('');
   const [category, setCategory] = useState('');
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [expiresOn, setExpiresOn] = useState('');
   const [selectedApprovers, setSelectedApprovers] = useState<Set<string>>(new Set());
   const [selectedGroups, setSelectedGroups] = useState<Set<string>>(new Set());
   const [imagePreview, setImagePreview] = useState<string>(capturedImage || '');
   const [imageUrl, setImageUrl] = useState<string>('');
   const [approverTab, setApproverTab] = useState<ApproverTab>('individual');
+  const [policyType, setPolicyType] = useState<PolicyOption>('default');
+  const [requiredCount, setRequiredCount] = useState('2');
+  const [requiredApproverId, setRequiredApproverId] = useState('');
+  const [requiredBase, setRequiredBase] = useState<RequiredBase>('all');
+  const [repeat, setRepeat] = useState<RepeatOption>('none');
+  const [repeatDayOfWeek, setRepeatDayOfWeek] = useState(new Date().getUTCDay().toString());
+  const [repeatDayOfMonth, setRepeatDayOfMonth] = useState(new Date().getUTCDate().toString());
+  const [preApprove, setPreApprove] = useState(false);
+  const [templateId, setTemplateId] = useState('');
 
   const categories = ['Office', 'Software', 'Events', 'Entertainment', 'Travel', 'Equipment', 'Other'];
 
   // Filter to only show approvers with approving rights for individuals
   const approversWithRights = approvers.filter(a => a.role === 'approver');
+
+  const selectedTemplate = templates.find(t => t.id === templateId);
+  const receiptRequired = repeat === 'none' && (selectedTemplate?.receiptRequired ?? true);
+
+  // Fill the form from a saved template; fields the template leaves blank keep their current value
+  const applyTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+
+    if (template.amount != null) setAmount(template.amount.toString());
+    if (template.description) setDescription(template.description);
+    if (template.category) setCategory(categories.includes(template.category) ? template.category : 'Other');
+
+    const templateApproverIds = new Set(template.approvers.map(a => a.userId));
+    setSelectedApprovers(new Set(approversWithRights.filter(a => templateApproverIds.has(a.userId)).map(a => a.id)));
+    setSelectedGroups(new Set(approverGroups.some(g => g.id === template.groupId) ? [template.groupId as string] : []));
+
+    const policy = template.approvalPolicy;
+    setPolicyType(policy ? policy.type : 'default');
+    if (policy?.type === 'n_of_m') setRequiredCount(policy.required.toString());
+    if (policy?.type === 'required_approver') {
+      setRequiredApproverId(policy.approverId);
+      setRequiredBase(policy.base?.type === 'any' || policy.base?.type === 'majority' ? policy.base.type : 'all');
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!selectedTemplate || !onDeleteTemplate || !confirm(`Delete the "${selectedTemplate.name}" template?`)) return;
+    try {
+      await onDeleteTemplate(selectedTemplate.id);
+      setTemplateId('');
+    } catch {
+      // App surfaces the error
+    }
+  };
   
   // Show all groups, but we'll indicate which ones have approvers
   const allGroups = approverGroups;
@@ -61,6 +118,42 @@ export function NewRequestModal({
     setSelectedGroups(newSelected);
   };
 
+  // Everyone who will actually be asked to approve (individuals + group members with approving rights)
+  const effectiveApprovers = Array.from(new Map(
+    [
+      ...approvers.filter(a => selectedApprovers.has(a.id)),
+      ...approverGroups
+        .filter(g => selectedGroups.has(g.id))
+        .flatMap(g => g.members.filter(m => m.role === 'approver'))
+    ].map(a => [a.userId, a])
+  ).values());
+
+  // The rule only matters when more than one person is asked to approve
+  const activePolicyType: PolicyOption = effectiveApprovers.length > 1 ? policyType : 'default';
+
+  const buildApprovalPolicy = (): ApprovalPolicy | undefined => {
+    switch (activePolicyType) {
+      case 'n_of_m':
+        return { type: 'n_of_m', required: parseInt(requiredCount, 10) };
+      case 'required_approver':
+        return { type: 'required_approver', approverId: requiredApproverId, base: { type: requiredBase } };
+      case 'default':
+        return undefined;
+      default:
+        return { type: activePolicyType };
+    }
+  };
+
+  const buildRecurrence = (): RequestRecurrence | undefined => {
+    if (repeat === 'none') return undefined;
+
+    const schedule: RecurringSchedule = repeat === 'weekly'
+      ? { frequency: 'weekly', dayOfWeek: parseInt(repeatDayOfWeek, 10) }
+      : { frequency: 'monthly', dayOfMonth: parseInt(repeatDayOfMonth, 10) };
+
+    return { schedule, preApprove };
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -85,11 +178,39 @@ export function NewRequestModal({
       return;
     }
 
-    if (!imagePreview) {
+    // Recurring requests are created by the scheduler, so there's no receipt to attach up front.
+    // Templates can also waive the receipt.
+    if (!imagePreview && receiptRequired) {
       alert('Please take or upload a picture of the item/receipt');
       return;
     }
 
+    if (expiresOn && new Date(`${expiresOn}T23:59:59`) <= new Date()) {
+      alert('The expiry date must be in the future');
+      return;
+    }
+
+    if (repeat === 'monthly') {
+      const day = parseInt(repeatDayOfMonth, 10);
+      if (!day || day < 1 || day > 31) {
+        alert('Please choose a day of the month between 1 and 31');
+        return;
+      }
+    }
+
+    if (activePolicyType === 'n_of_m') {
+      const required = parseInt(requiredCount, 10);
+      if (!required || required < 1 || required > effectiveApprovers.length) {
+        alert(`Required approvals must be between 1 and ${effectiveApprovers.length}`);
+        return;
+      }
+    }
+
+    if (activePolicyType === 'required_approver' && !effectiveApprovers.some(a => a.userId === requiredApproverId)) {
+      alert('Please choose which approver must approve this request');
+      return;
+    }
+
     // Get the selected approver objects
     const selectedApproverObjects = approvers.filter(a => selectedApprovers.has(a.id));
     
@@ -117,8 +238,11 @@ export function NewRequestModal({
       status: 'pending',
       submittedBy: 'You',
       approvers: Array.from(allApproverNames),
-      imageUrl: imagePreview
-    }, selectedApproverObjects, selectedGroupObjects);
+      imageUrl: imagePreview || undefined,
+      approvalPolicy: buildApprovalPolicy(),
+      expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+      templateId: templateId || undefined
+    }, selectedApproverObjects, selectedGroupObjects, buildRecurrence());
 
     onClearCapturedImage?.();
     onClose();
@@ -159,12 +283,48 @@ export function NewRequestModal({
         </div>
 
         <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          {/* Template Picker */}
+          {templates.length > 0 && (
+            <div>
+              <label className="block text-gray-700 dark:text-gray-300 mb-2">
+                <div className="flex items-center gap-2">
+                  <Bookmark className="w-5 h-5" />
+                  <span>Start from a Template</span>
+                </div>
+              </label>
+              <div className="flex gap-2">
+                <select
+                  value={templateId}
+                  onChange={(e) => applyTemplate(e.target.value)}
+                  className="flex-1 px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                >
+                  <option value="">No template</option>
+                  {templates.map(template => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}{template.amount != null ? ` - $${template.amount.toFixed(2)}` : ''}
+                    </option>
+                  ))}
+                </select>
+                {selectedTemplate && onDeleteTemplate && (
+                  <button
+                    type="button"
+                    onClick={handleDeleteTemplate}
+                    className="px-3 rounded-lg border border-red-300 dark:border-red-800 text-red-600 dark:text-red-400"
+                    title="Delete template"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Photo Section */}
           <div>
             <label className="block text-gray-700 dark:text-gray-300 mb-2">
               <div className="flex items-center gap-2">
                 <Camera className="w-5 h-5" />
-                <span>Item Photo / Receipt *</span>
+                <span>Item Photo / Receipt{receiptRequired ? ' *' : ''}</span>
               </div>
             </label>
             
@@ -309,6 +469,81 @@ export function NewRequestModal({
             />
           </div>
 
+          {/* Expiry */}
+          <div>
+            <label className="block text-gray-700 dark:text-gray-300 mb-2">
+              <div className="flex items-center gap-2">
+                <Calendar className="w-5 h-5" />
+                <span>Expires On (optional)</span>
+              </div>
+            </label>
+            <input
+              type="date"
+              value={expiresOn}
+              min={new Date().toISOString().split('T')[0]}
+              onChange={(e) => setExpiresOn(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            />
+          </div>
+
+          {/* Repeat */}
+          <div>
+            <label className="block text-gray-700 dark:text-gray-300 mb-2">
+              <div className="flex items-center gap-2">
+                <Repeat className="w-5 h-5" />
+                <span>Repeat</span>
+              </div>
+            </label>
+            <select
+              value={repeat}
+              onChange={(e) => setRepeat(e.target.value as RepeatOption)}
+              className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            >
+              <option value="none">Doesn't repeat</option>
+              <option value="weekly">Every week</option>
+              <option value="monthly">Every month</option>
+            </select>
+
+            {repeat === 'weekly' && (
+              <select
+                value={repeatDayOfWeek}
+                onChange={(e) => setRepeatDayOfWeek(e.target.value)}
+                className="mt-2 w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              >
+                {WEEKDAYS.map((day, index) => (
+                  <option key={day} value={index}>On {day}</option>
+                ))}
+              </select>
+            )}
+
+            {repeat === 'monthly' && (
+              <div className="mt-2 flex items-center gap-2">
+                <span className="text-gray-600 dark:text-gray-400 text-sm">On day</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={repeatDayOfMonth}
+                  onChange={(e) => setRepeatDayOfMonth(e.target.value)}
+                  className="w-20 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+                <span className="text-gray-600 dark:text-gray-400 text-sm">of each month</span>
+              </div>
+            )}
+
+            {repeat !== 'none' && (
+              <label className="mt-2 flex items-start gap-2 text-sm text-gray-600 dark:text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={preApprove}
+                  onChange={(e) => setPreApprove(e.target.checked)}
+                  className="mt-1"
+                />
+                <span>Ask approvers to pre-approve, so each request is funded without a new vote</span>
+              </label>
+            )}
+          </div>
+
           {/* Approvers Section */}
           <div>
             <label className="block text-gray-700 dark:text-gray-300 mb-2">
@@ -459,13 +694,76 @@ export function NewRequestModal({
             )}
           </div>
 
+          {/* Approval Policy */}
+          {effectiveApprovers.length > 1 && (
+            <div>
+              <label className="block text-gray-700 dark:text-gray-300 mb-2">
+                <div className="flex items-center gap-2">
+                  <ShieldCheck className="w-5 h-5" />
+                  <span>Approval Rule</span>
+                </div>
+              </label>
+              <select
+                value={policyType}
+                onChange={(e) => setPolicyType(e.target.value as PolicyOption)}
+                className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              >
+                <option value="default">My default rule</option>
+                <option value="all">Everyone must approve</option>
+                <option value="any">Any one approver</option>
+                <option value="majority">Majority of approvers</option>
+                <option value="n_of_m">A number of approvers</option>
+                <option value="required_approver">A specific approver must approve</option>
+              </select>
+
+              {policyType === 'n_of_m' && (
+                <div className="mt-2 flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    max={effectiveApprovers.length}
+                    value={requiredCount}
+                    onChange={(e) => setRequiredCount(e.target.value)}
+                    className="w-20 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                  <span className="text-gray-600 dark:text-gray-400 text-sm">of {effectiveApprovers.length} approvers must approve</span>
+                </div>
+              )}
+
+              {policyType === 'required_approver' && (
+                <select
+                  value={requiredApproverId}
+                  onChange={(e) => setRequiredApproverId(e.target.value)}
+                  className="mt-2 w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                >
+                  <option value="">Select an approver</option>
+                  {effectiveApprovers.map(a => (
+                    <option key={a.userId} value={a.userId}>{a.name}</option>
+                  ))}
+                </select>
+              )}
+
+              {policyType === 'required_approver' && (
+                <select
+                  value={requiredBase}
+                  onChange={(e) => setRequiredBase(e.target.value as RequiredBase)}
+                  className="mt-2 w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                >
+                  <option value="all">...and everyone else must approve too</option>
+                  <option value="majority">...and a majority must approve</option>
+                  <option value="any">...and no one else needs to</option>
+                </select>
+              )}
+            </div>
+          )}
+
           {/* Submit Button */}
           <div className="pt-4">
             <button
               type="submit"
               className="w-full bg-blue-600 text-white py-4 rounded-xl font-semibold hover:bg-blue-700 transition-colors"
             >
-              Submit Request
+              {repeat === 'none' ? 'Submit Request' : 'Create Recurring Request'}
             </button>
           </div>
         </form>
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { ArrowLeft, Bell, UserPlus, FileText, CheckCircle, XCircle, UserCheck, X } from 'lucide-react';
+import { ArrowLeft, Bell, UserPlus, FileText, CheckCircle, XCircle, UserCheck, X, CreditCard } from 'lucide-react';
 import { Notification } from '../App';
 
 interface NotificationsProps {
@@ -61,6 +61,8 @@ export function Notifications({ notifications, onBack, onMarkAsRead, onMarkAllAs
         return <FileText className="w-5 h-5 text-yellow-600 dark:text-yellow-400" />;
       case 'request_reviewed':
         return <CheckCircle className="w-5 h-5 text-green-600 dark:text-green-400" />;
+      case 'card_activity':
+        return <CreditCard className="w-5 h-5 text-[#9E89FF]" />;
       default:
         return <Bell className="w-5 h-5 text-gray-600 dark:text-gray-400" />;
     }
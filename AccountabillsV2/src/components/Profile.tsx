@@ -1,7 +1,7 @@
-import { Mail, Shield, UserCircle, Plus, Users, Trash2, Settings, Upload, UserPlus, MessageCircle, Moon, Sun, ChevronDown, LogOut, UsersRound, Edit2, Check, X } from 'lucide-react';
+import { Mail, Shield, UserCircle, Plus, Users, Trash2, Settings, Upload, UserPlus, MessageCircle, Moon, Sun, ChevronDown, LogOut, UsersRound, Edit2, Check, X, ShieldCheck } from 'lucide-react';
 import { Approver, ApproverGroup } from '../App';
 import { useState, useEffect } from 'react';
-import { checkContactUsers, sendInvitation } from '../utils/api';
+import { checkContactUsers, sendInvitation, getUserSettings, updateUserSettings, ApprovalBand, ApprovalPolicy } from '../utils/api';
 
 interface ProfileProps {
   approvers: Approver[];
@@ -11,8 +11,6 @@ interface ProfileProps {
   addApproverGroup?: (group: Omit<ApproverGroup, 'id' | 'createdAt'>) => void;
   removeApproverGroup?: (id: string) => void;
   updateApproverGroup?: (id: string, updates: Partial<ApproverGroup>) => void;
-  approvalThreshold: number;
-  setApprovalThreshold: (threshold: number) => void;
   isDarkMode?: boolean;
   setIsDarkMode?: (isDark: boolean) => void;
   onMessageApprover?: (approverId: string) => void;
@@ -29,7 +27,7 @@ interface ContactWithStatus {
   userId?: string | null;
 }
 
-export function Profile({ approvers, addApprover, removeApprover, approverGroups = [], addApproverGroup, removeApproverGroup, updateApproverGroup, approvalThreshold, setApprovalThreshold, isDarkMode, setIsDarkMode, onMessageApprover, onLogout, currentUser }: ProfileProps) {
+export function Profile({ approvers, addApprover, removeApprover, approverGroups = [], addApproverGroup, removeApproverGroup, updateApproverGroup, isDarkMode, setIsDarkMode, onMessageApprover, onLogout, currentUser }: ProfileProps) {
   const [showAddApprover, setShowAddApprover] = useState(false);
   const [newApproverName, setNewApproverName] = useState('');
   const [newApproverEmail, setNewApproverEmail] = useState('');
@@ -47,6 +45,74 @@ export function Profile({ approvers, addApprover, removeApprover, approverGroups
   const [selectedGroupMembers, setSelectedGroupMembers] = useState<Set<string>>(new Set());
   const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
 
+  // Approval rules state (stored server-side in /api/users/settings)
+  const [thresholdInput, setThresholdInput] = useState('');
+  const [approvalBands, setApprovalBands] = useState<ApprovalBand[]>([]);
+  const [defaultPolicyType, setDefaultPolicyType] = useState<'' | 'all' | 'any' | 'majority'>('');
+  const [backupApproverId, setBackupApproverId] = useState('');
+  const [allowPeerFunding, setAllowPeerFunding] = useState(false);
+  const [peerFundingLimitInput, setPeerFundingLimitInput] = useState('');
+  const [peerFundingUserIds, setPeerFundingUserIds] = useState<Set<string>>(new Set());
+  const [isSavingRules, setIsSavingRules] = useState(false);
+  const [rulesSaved, setRulesSaved] = useState(false);
+
+  useEffect(() => {
+    getUserSettings()
+      .then(settings => {
+        setThresholdInput(settings.approvalThreshold != null ? String(settings.approvalThreshold) : '');
+        setApprovalBands(settings.approvalBands || []);
+        const policyType = settings.approvalPolicy?.type;
+        setDefaultPolicyType(policyType === 'all' || policyType === 'any' || policyType === 'majority' ? policyType : '');
+        setBackupApproverId(settings.backupApprover?.userId || '');
+        setAllowPeerFunding(settings.allowPeerFunding);
+        setPeerFundingLimitInput(String(settings.peerFundingLimit));
+        setPeerFundingUserIds(new Set(settings.peerFundingUserIds));
+      })
+      .catch(error => console.error('Failed to load approval settings:', error));
+  }, []);
+
+  const updateBand = (index: number, updates: Partial<ApprovalBand>) => {
+    setApprovalBands(bands => bands.map((band, i) => i === index ? { ...band, ...updates } : band));
+    setRulesSaved(false);
+  };
+
+  const addBand = () => {
+    const lastBand = approvalBands[approvalBands.length - 1];
+    const minAmount = lastBand?.maxAmount ?? (parseFloat(thresholdInput) || 0);
+    setApprovalBands([...approvalBands, { minAmount, maxAmount: null, minApprovers: null, policy: null }]);
+    setRulesSaved(false);
+  };
+
+  const removeBand = (index: number) => {
+    setApprovalBands(approvalBands.filter((_, i) => i !== index));
+    setRulesSaved(false);
+  };
+
+  const handleSaveApprovalRules = async () => {
+    setIsSavingRules(true);
+    try {
+      const threshold = thresholdInput.trim() === '' ? null : parseFloat(thresholdInput);
+      const approvalPolicy: ApprovalPolicy | null = defaultPolicyType ? { type: defaultPolicyType } : null;
+      const backup = approvers.find(a => a.userId === backupApproverId);
+      const peerFundingLimit = parseFloat(peerFundingLimitInput);
+      const settings = await updateUserSettings({
+        approvalThreshold: threshold,
+        approvalBands,
+        approvalPolicy,
+        backupApprover: backup ? { userId: backup.userId, name: backup.name, email: backup.email } : null,
+        allowPeerFunding,
+        ...(peerFundingLimit >= 0 && { peerFundingLimit }),
+        peerFundingUserIds: [...peerFundingUserIds]
+      });
+      setApprovalBands(settings.approvalBands);
+      setRulesSaved(true);
+    } catch (error) {
+      alert('Failed to save approval rules: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsSavingRules(false);
+    }
+  };
+
   // Mock contacts - will be replaced with real contacts when user grants permission
   const mockContacts: ContactWithStatus[] = [
     { id: '1', name: 'Jennifer Smith', email: 'jennifer.s@email.com', phone: '+1 (555) 123-4567' },
@@ -288,6 +354,218 @@ export function Profile({ approvers, addApprover, removeApprover, approverGroups
         </div>
       )}
 
+      {/* Approval Rules Section */}
+      <div className="mb-6">
+        <div className="flex items-center gap-2 mb-3">
+          <ShieldCheck className="w-5 h-5 text-[#9E89FF]" />
+          <h2 className="text-gray-900 dark:text-white">Approval Rules</h2>
+        </div>
+        <p className="text-gray-600 dark:text-gray-400 mb-4">Decide which requests need approval and how many partners must agree</p>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl p-4 shadow-sm border border-gray-200 dark:border-gray-700 space-y-4">
+          <div>
+            <label className="block text-gray-700 dark:text-gray-300 text-sm mb-1">Auto-approve requests under</label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">$</span>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={thresholdInput}
+                onChange={(e) => {
+                  setThresholdInput(e.target.value);
+                  setRulesSaved(false);
+                }}
+                placeholder="No auto-approval"
+                className="w-full pl-7 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-gray-700 dark:text-gray-300 text-sm mb-1">Default approval rule</label>
+            <select
+              value={defaultPolicyType}
+              onChange={(e) => {
+                setDefaultPolicyType(e.target.value as '' | 'all' | 'any' | 'majority');
+                setRulesSaved(false);
+              }}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="">Everyone must approve (default)</option>
+              <option value="any">Any one approver</option>
+              <option value="majority">Majority of approvers</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-gray-700 dark:text-gray-300 text-sm mb-1">Backup approver for stale requests</label>
+            <select
+              value={backupApproverId}
+              onChange={(e) => {
+                setBackupApproverId(e.target.value);
+                setRulesSaved(false);
+              }}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="">No backup approver</option>
+              {approvers.filter(a => a.role === 'approver').map(a => (
+                <option key={a.userId} value={a.userId}>{a.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={allowPeerFunding}
+              onChange={(e) => {
+                setAllowPeerFunding(e.target.checked);
+                setRulesSaved(false);
+              }}
+              className="mt-1 accent-[#9E89FF]"
+            />
+            <span>
+              <span className="block text-gray-700 dark:text-gray-300 text-sm">Let partners add money from my wallet</span>
+              <span className="block text-gray-500 dark:text-gray-400 text-xs">
+                Partners you pick can top up their wallet from your balance. You're notified each time.
+              </span>
+            </span>
+          </label>
+
+          {allowPeerFunding && (
+            <div>
+              <span className="block text-gray-700 dark:text-gray-300 text-sm mb-1">Partners who can add money from my wallet</span>
+              {approvers.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400 text-sm">Add a partner first.</p>
+              ) : (
+                <div className="space-y-1">
+                  {approvers.map(a => (
+                    <label key={a.userId} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={peerFundingUserIds.has(a.userId)}
+                        onChange={(e) => {
+                          const next = new Set(peerFundingUserIds);
+                          if (e.target.checked) next.add(a.userId);
+                          else next.delete(a.userId);
+                          setPeerFundingUserIds(next);
+                          setRulesSaved(false);
+                        }}
+                        className="accent-[#9E89FF]"
+                      />
+                      {a.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {allowPeerFunding && (
+            <div>
+              <label className="block text-gray-700 dark:text-gray-300 text-sm mb-1">Most partners can take every 30 days</label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">$</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={peerFundingLimitInput}
+                  onChange={(e) => {
+                    setPeerFundingLimitInput(e.target.value);
+                    setRulesSaved(false);
+                  }}
+                  className="w-full pl-7 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-gray-700 dark:text-gray-300 text-sm">Amount bands</span>
+              <button
+                type="button"
+                onClick={addBand}
+                className="text-[#9E89FF] text-sm flex items-center gap-1 hover:text-[#8B76F0]"
+              >
+                <Plus className="w-4 h-4" />
+                Add band
+              </button>
+            </div>
+            {approvalBands.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400 text-sm">No bands yet. Add one to require more approvers for larger amounts.</p>
+            ) : (
+              <div className="space-y-3">
+                {approvalBands.map((band, index) => (
+                  <div key={index} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min={0}
+                        value={band.minAmount}
+                        onChange={(e) => updateBand(index, { minAmount: parseFloat(e.target.value) || 0 })}
+                        className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                      />
+                      <span className="text-gray-600 dark:text-gray-400 text-sm">to</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={band.maxAmount ?? ''}
+                        placeholder="No limit"
+                        onChange={(e) => updateBand(index, { maxAmount: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                        className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeBand(index)}
+                        className="ml-auto text-red-600 dark:text-red-400 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min={1}
+                        value={band.minApprovers ?? ''}
+                        placeholder="Any"
+                        onChange={(e) => updateBand(index, { minApprovers: e.target.value === '' ? null : parseInt(e.target.value, 10) })}
+                        className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                      />
+                      <span className="text-gray-600 dark:text-gray-400 text-sm">approvers minimum</span>
+                    </div>
+                    <select
+                      value={band.policy?.type || ''}
+                      onChange={(e) => updateBand(index, {
+                        policy: e.target.value ? { type: e.target.value as 'all' | 'any' | 'majority' } : null
+                      })}
+                      className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                    >
+                      <option value="">Use the request's rule</option>
+                      <option value="all">Everyone must approve</option>
+                      <option value="majority">Majority of approvers</option>
+                      <option value="any">Any one approver</option>
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <button
+            type="button"
+            onClick={handleSaveApprovalRules}
+            disabled={isSavingRules}
+            className="w-full bg-[#9E89FF] text-white py-2 rounded-lg hover:bg-[#8B76F0] transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {rulesSaved && <Check className="w-4 h-4" />}
+            {isSavingRules ? 'Saving...' : rulesSaved ? 'Saved' : 'Save Approval Rules'}
+          </button>
+        </div>
+      </div>
+
       {/* Accountability Partners Section */}
       <div className="mb-6">
         <div className="flex items-center justify-between mb-3">
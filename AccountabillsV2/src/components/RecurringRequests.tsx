@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Repeat, Pause, Play, Trash2, CheckCircle, XCircle } from 'lucide-react';
+import { RecurringRequest, RecurringSchedule } from '../utils/api';
+
+interface RecurringRequestsProps {
+  recurringRequests: RecurringRequest[];
+  currentUserId?: string;
+  onToggleActive?: (id: string, active: boolean) => Promise<void>;
+  onDelete?: (id: string) => Promise<void>;
+  onRespondToPreApproval?: (id: string, decision: 'approve' | 'reject') => Promise<void>;
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+// Schedules run in UTC
+export const describeSchedule = (schedule: RecurringSchedule) => {
+  switch (schedule.frequency) {
+    case 'weekly':
+      return `Every ${DAY_NAMES[schedule.dayOfWeek]} at ${schedule.hour ?? 9}:00 UTC`;
+    case 'monthly':
+      return `Monthly on the ${ordinal(schedule.dayOfMonth)} at ${schedule.hour ?? 9}:00 UTC`;
+    default:
+      return `Custom schedule (${schedule.expression})`;
+  }
+};
+
+export function RecurringRequests({ recurringRequests, currentUserId, onToggleActive, onDelete, onRespondToPreApproval }: RecurringRequestsProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (recurringRequests.length === 0) return null;
+
+  // App surfaces the error
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch {
+      // already reported
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {recurringRequests.map(recurring => {
+        const isSender = recurring.senderId === currentUserId;
+        const myVote = recurring.preApproval?.approvers.find(a => a.userId === currentUserId);
+        const canVote = recurring.preApproval?.status === 'pending' && myVote?.status === 'pending';
+
+        return (
+          <div key={recurring.id} className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm border border-gray-200 dark:border-gray-700">
+            <div className="flex items-start justify-between mb-2">
+              <div className="flex-1">
+                <div className="flex items-center gap-2 mb-1">
+                  <Repeat className="w-4 h-4 text-[#9E89FF]" />
+                  <p className="text-gray-900 dark:text-white">{recurring.description}</p>
+                </div>
+                <p className="text-gray-600 dark:text-gray-400 text-sm">{describeSchedule(recurring.schedule)}</p>
+                {!isSender && (
+                  <p className="text-gray-600 dark:text-gray-400 text-sm">From: {recurring.senderName}</p>
+                )}
+              </div>
+              <div className="text-right ml-4">
+                <p className="text-gray-900 dark:text-white mb-1">${recurring.amount.toFixed(2)}</p>
+                <span className={`inline-block px-2 py-1 rounded text-white text-xs ${recurring.active ? 'bg-[#9E89FF]' : 'bg-gray-500 dark:bg-gray-600'}`}>
+                  {recurring.active ? 'Active' : 'Paused'}
+                </span>
+              </div>
+            </div>
+
+            {recurring.active && recurring.nextRunAt && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Next request {new Date(recurring.nextRunAt).toLocaleString()}</p>
+            )}
+
+            {recurring.preApproval && (
+              <p className={`text-sm mt-1 ${
+                recurring.preApproval.status === 'approved'
+                  ? 'text-green-600 dark:text-green-400'
+                  : recurring.preApproval.status === 'rejected'
+                  ? 'text-red-600 dark:text-red-400'
+                  : 'text-yellow-700 dark:text-yellow-400'
+              }`}>
+                {recurring.preApproval.status === 'approved'
+                  ? 'Pre-approved - each request is funded automatically'
+                  : recurring.preApproval.status === 'rejected'
+                  ? 'Pre-approval rejected - each request needs a vote'
+                  : 'Waiting for pre-approval'}
+              </p>
+            )}
+
+            {isSender && recurring.lastError && (
+              <p className="text-sm mt-1 text-red-600 dark:text-red-400">Last run skipped: {recurring.lastError}</p>
+            )}
+
+            {canVote && onRespondToPreApproval && (
+              <div className="flex gap-2 mt-3">
+                <button
+                  onClick={() => runAction(recurring.id, () => onRespondToPreApproval(recurring.id, 'approve'))}
+                  disabled={busyId === recurring.id}
+                  className="flex-1 bg-green-600 text-white py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  Pre-Approve
+                </button>
+                <button
+                  onClick={() => runAction(recurring.id, () => onRespondToPreApproval(recurring.id, 'reject'))}
+                  disabled={busyId === recurring.id}
+                  className="flex-1 bg-red-600 text-white py-2 rounded-lg hover:bg-red-700 disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                  <XCircle className="w-4 h-4" />
+                  Reject
+                </button>
+              </div>
+            )}
+
+            {isSender && (onToggleActive || onDelete) && (
+              <div className="mt-3 flex gap-2">
+                {onToggleActive && (
+                  <button
+                    onClick={() => runAction(recurring.id, () => onToggleActive(recurring.id, !recurring.active))}
+                    disabled={busyId === recurring.id}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+                  >
+                    {recurring.active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    {recurring.active ? 'Pause' : 'Resume'}
+                  </button>
+                )}
+                {onDelete && (
+                  <button
+                    onClick={() => {
+                      if (confirm(`Stop your recurring $${recurring.amount.toFixed(2)} request for ${recurring.description}? Requests it already created are kept.`)) {
+                        runAction(recurring.id, () => onDelete(recurring.id));
+                      }
+                    }}
+                    disabled={busyId === recurring.id}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-red-300 dark:border-red-800 text-red-600 dark:text-red-400 disabled:opacity-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Delete
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,26 +1,112 @@
-import React, { useState } from 'react';
-import { ArrowLeft, CheckCircle, XCircle, DollarSign, Calendar, Tag, User, MessageSquare } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, CheckCircle, XCircle, DollarSign, Calendar, Tag, User, MessageSquare, History, Repeat, Receipt } from 'lucide-react';
 import { MoneyRequest, RequestStatus } from '../App';
+import { getRequest, getRequestHistory, getRequestReconciliation, RequestEvent, RequestReconciliation } from '../utils/api';
+import { SpendReconciliation } from './SpendReconciliation';
+
+const EVENT_LABELS: Record<RequestEvent['type'], string> = {
+  created: 'submitted the request',
+  viewed: 'viewed the request',
+  approved: 'approved',
+  rejected: 'rejected',
+  counter_offered: 'sent a counter-offer',
+  counter_offer_accepted: 'accepted the counter-offer',
+  counter_offer_declined: 'declined the counter-offer',
+  edited: 'edited the request',
+  cancelled: 'cancelled the request',
+  resubmitted: 'resubmitted the request',
+  funded: 'funded the wallet',
+  funding_failed: 'could not fund the wallet',
+  funding_reversed: 'card purchase was reversed',
+  reminded: 'reminded approvers',
+  escalated: 'escalated to the backup approver',
+  expired: 'expired the request'
+};
+
+const EVENT_DOT_COLORS: Partial<Record<RequestEvent['type'], string>> = {
+  approved: 'bg-green-500',
+  funded: 'bg-green-500',
+  rejected: 'bg-red-500',
+  funding_failed: 'bg-red-500',
+  escalated: 'bg-yellow-500',
+  expired: 'bg-gray-400',
+  cancelled: 'bg-gray-400'
+};
+
+const describeEvent = (event: RequestEvent) => {
+  if (event.type === 'approved' && event.data.autoApproved) return 'auto-approved (under the approval threshold)';
+  if (event.type === 'approved' && event.data.viaCounterOffer) return `approved $${Number(event.data.amount).toFixed(2)} (counter-offer)`;
+  if (event.type === 'counter_offered') return `offered $${Number(event.data.amount).toFixed(2)} instead`;
+  if (event.type === 'edited' && event.data.changes) {
+    return `edited ${Object.keys(event.data.changes).join(', ')}`;
+  }
+  if (event.type === 'funded' && event.data.jit) {
+    return `funded a $${Number(event.data.amount).toFixed(2)} card purchase${event.data.merchant ? ` at ${event.data.merchant}` : ''}`;
+  }
+  if (event.type === 'funding_failed' && event.data.error) {
+    return `could not fund the wallet${event.data.final ? '' : ' (will retry)'}: ${event.data.error}`;
+  }
+  return EVENT_LABELS[event.type] || event.type;
+};
 
 interface ReviewRequestProps {
   request: MoneyRequest;
   onBack: () => void;
-  onReview: (requestId: string, status: 'approved' | 'rejected', comment: string, approver: string) => Promise<void>;
+  onReview: (requestId: string, status: 'approved' | 'rejected', comment: string, approver: string, amount?: number) => Promise<void>;
+  onCounterOffer?: (requestId: string, amount: number, comment: string) => Promise<void>;
 }
 
-export function ReviewRequest({ request, onBack, onReview }: ReviewRequestProps) {
+export function ReviewRequest({ request, onBack, onReview, onCounterOffer }: ReviewRequestProps) {
   const [comment, setComment] = useState('');
   const [showError, setShowError] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [events, setEvents] = useState<RequestEvent[]>([]);
+  const [reconciliation, setReconciliation] = useState<RequestReconciliation | null>(null);
+  const [reviewAmount, setReviewAmount] = useState(request.amount.toString());
+  const [amountError, setAmountError] = useState<string | null>(null);
+  const hasOpenCounterOffer = request.counterOffer?.status === 'pending';
+
+  // Opening the request through the API records a 'viewed' event, so load it before the history
+  useEffect(() => {
+    let cancelled = false;
+    getRequest(request.id)
+      .then(() => getRequestHistory(request.id))
+      .then(history => {
+        if (!cancelled) setEvents(history);
+      })
+      .catch(error => console.error('Failed to load request history:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [request.id]);
+
+  // Approvers can see how the money they approved was spent
+  useEffect(() => {
+    if (request.status !== 'approved') return;
+    let cancelled = false;
+    getRequestReconciliation(request.id)
+      .then(result => {
+        if (!cancelled) setReconciliation(result);
+      })
+      .catch(error => console.error('Failed to load spend reconciliation:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [request.id, request.status]);
 
   const handleApprove = async () => {
     if (!comment.trim()) {
       setShowError(true);
       return;
     }
+    const amount = parseFloat(reviewAmount);
+    if (!(amount > 0) || amount > request.amount) {
+      setAmountError(`Approve between $0.01 and $${request.amount.toFixed(2)}. To offer more, send a counter-offer.`);
+      return;
+    }
     setIsSubmitting(true);
     try {
-      await onReview(request.id, 'approved', comment, 'You');
+      await onReview(request.id, 'approved', comment, 'You', amount < request.amount ? amount : undefined);
       onBack();
     } catch (error) {
       // Error handling (alert) is done in onReview
@@ -30,6 +116,28 @@ export function ReviewRequest({ request, onBack, onReview }: ReviewRequestProps)
     }
   };
 
+  const handleCounterOffer = async () => {
+    if (!onCounterOffer) return;
+    if (!comment.trim()) {
+      setShowError(true);
+      return;
+    }
+    const amount = parseFloat(reviewAmount);
+    if (!(amount > 0) || amount === request.amount) {
+      setAmountError('Enter the amount you want to offer instead');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onCounterOffer(request.id, amount, comment);
+      onBack();
+    } catch (error) {
+      // Error handling (alert) is done in onCounterOffer
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleDeny = async () => {
     if (!comment.trim()) {
       setShowError(true);
@@ -78,13 +186,37 @@ export function ReviewRequest({ request, onBack, onReview }: ReviewRequestProps)
       <div className="p-4 space-y-4">
         {/* Amount Card */}
         <div className="bg-gradient-to-br from-[#9E89FF] to-[#8B76F0] rounded-2xl p-6 text-white shadow-lg">
-          <p className="text-purple-100 mb-2">Requested Amount</p>
-          <div className="flex items-center gap-2">
-            <DollarSign className="w-8 h-8" />
-            <h2 className="text-white">${request.amount.toFixed(2)}</h2>
-          </div>
+          {request.approvedAmount != null && request.approvedAmount !== request.amount ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-purple-100 mb-2">Requested</p>
+                <h2 className="text-white/70 line-through">${request.amount.toFixed(2)}</h2>
+              </div>
+              <div>
+                <p className="text-purple-100 mb-2">Approved</p>
+                <h2 className="text-white">${request.approvedAmount.toFixed(2)}</h2>
+              </div>
+            </div>
+          ) : (
+            <>
+              <p className="text-purple-100 mb-2">Requested Amount</p>
+              <div className="flex items-center gap-2">
+                <DollarSign className="w-8 h-8" />
+                <h2 className="text-white">${request.amount.toFixed(2)}</h2>
+              </div>
+            </>
+          )}
         </div>
 
+        {/* Open counter-offer */}
+        {request.status === 'pending' && hasOpenCounterOffer && (
+          <div className="bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-xl p-4">
+            <p className="text-gray-900 dark:text-white">
+              {request.counterOffer!.approverName} offered ${request.counterOffer!.amount.toFixed(2)} - waiting on the sender
+            </p>
+          </div>
+        )}
+
         {/* Status Banner for Reviewed Requests */}
         {request.status !== 'pending' && (
           <div className={`rounded-xl p-4 shadow-sm border ${
@@ -103,7 +235,7 @@ export function ReviewRequest({ request, onBack, onReview }: ReviewRequestProps)
                   ? 'text-green-900 dark:text-green-100'
                   : 'text-red-900 dark:text-red-100'
               }`}>
-                Request {request.status === 'approved' ? 'Approved' : 'Rejected'}
+                Request {request.status === 'approved' ? 'Approved' : request.status === 'expired' ? 'Expired' : request.status === 'cancelled' ? 'Cancelled' : 'Rejected'}
               </h3>
             </div>
             <p className={`${
@@ -113,6 +245,10 @@ export function ReviewRequest({ request, onBack, onReview }: ReviewRequestProps)
             }`}>
               {request.status === 'approved' 
                 ? `This request was approved by ${request.approvedBy?.join(', ')}`
+                : request.status === 'expired'
+                ? 'This request expired before it was approved'
+                : request.status === 'cancelled'
+                ? 'The sender cancelled this request'
                 : `This request was rejected by ${request.rejectedBy}`
               }
             </p>
@@ -168,6 +304,43 @@ export function ReviewRequest({ request, onBack, onReview }: ReviewRequestProps)
           </div>
         )}
 
+        {/* Spending vs approved */}
+        {reconciliation && (
+          <div className="bg-white dark:bg-gray-800 rounded-xl p-4 shadow-sm border border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-2 mb-3">
+              <Receipt className="w-5 h-5 text-[#9E89FF]" />
+              <p className="text-gray-600 dark:text-gray-400 text-sm">Spending</p>
+            </div>
+            <SpendReconciliation reconciliation={reconciliation} />
+          </div>
+        )}
+
+        {/* History Timeline */}
+        {events.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-xl p-4 shadow-sm border border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-2 mb-3">
+              <History className="w-5 h-5 text-[#9E89FF]" />
+              <p className="text-gray-600 dark:text-gray-400 text-sm">History</p>
+            </div>
+            <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-1.5 space-y-4">
+              {events.map(event => (
+                <li key={event.id} className="ml-4">
+                  <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${EVENT_DOT_COLORS[event.type] || 'bg-[#9E89FF]'}`} />
+                  <p className="text-gray-900 dark:text-white text-sm">
+                    <span className="font-medium">{event.actorName}</span> {describeEvent(event)}
+                  </p>
+                  {event.data.notes && (
+                    <p className="text-gray-600 dark:text-gray-400 text-sm">"{event.data.notes}"</p>
+                  )}
+                  <p className="text-gray-500 dark:text-gray-400 text-xs">
+                    {new Date(event.createdAt).toLocaleString()}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
         {/* Comment Section - Only show for pending requests */}
         {request.status === 'pending' && (
           <div className="bg-white dark:bg-gray-800 rounded-xl p-4 shadow-sm border border-gray-200 dark:border-gray-700">
@@ -197,6 +370,30 @@ export function ReviewRequest({ request, onBack, onReview }: ReviewRequestProps)
                 ⚠️ Please add a comment before reviewing this request
               </p>
             )}
+
+            <label className="block mt-4">
+              <span className="text-gray-900 dark:text-white">Amount</span>
+              <p className="text-gray-600 dark:text-gray-400 text-sm mb-2">
+                Lower it to approve part of the request, or propose a different amount as a counter-offer
+              </p>
+              <div className="relative">
+                <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-500">$</span>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={reviewAmount}
+                  onChange={(e) => {
+                    setReviewAmount(e.target.value);
+                    setAmountError(null);
+                  }}
+                  className="w-full pl-8 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#9E89FF] bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </div>
+            </label>
+            {amountError && (
+              <p className="text-red-600 dark:text-red-400 text-sm mt-2">{amountError}</p>
+            )}
           </div>
         )}
 
@@ -214,8 +411,25 @@ export function ReviewRequest({ request, onBack, onReview }: ReviewRequestProps)
                 ) : (
                   <CheckCircle className="w-6 h-6" />
                 )}
-                <span className="text-lg">{isSubmitting ? 'Processing...' : 'Approve Request'}</span>
+                <span className="text-lg">
+                  {isSubmitting
+                    ? 'Processing...'
+                    : parseFloat(reviewAmount) < request.amount
+                    ? `Approve $${(parseFloat(reviewAmount) || 0).toFixed(2)}`
+                    : 'Approve Request'}
+                </span>
               </button>
+
+              {onCounterOffer && !hasOpenCounterOffer && (
+                <button
+                  onClick={handleCounterOffer}
+                  disabled={isSubmitting}
+                  className="w-full bg-[#9E89FF] text-white py-4 rounded-xl hover:bg-[#8B76F0] transition-colors flex items-center justify-center gap-2 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Repeat className="w-6 h-6" />
+                  <span className="text-lg">Send Counter-Offer</span>
+                </button>
+              )}
               
               <button
                 onClick={handleDeny}
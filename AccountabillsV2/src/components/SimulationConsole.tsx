@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { FlaskConical, Loader2, Play } from 'lucide-react';
+import { simulateTransaction, CardData, SimulatedTransaction, SimulationOptions, SimulationScenario } from '../utils/api';
+
+interface SimulationConsoleProps {
+  options: SimulationOptions;
+  cards: CardData[];
+  defaultCardToken?: string;
+  onSimulated?: (transaction: SimulatedTransaction) => void;
+}
+
+const SCENARIO_LABELS: Record<SimulationScenario, string> = {
+  authorization: 'Authorize',
+  clearing: 'Clear',
+  reversal: 'Reverse',
+  refund: 'Refund',
+  decline: 'Decline'
+};
+
+// Sandbox only: run card transactions against the user's own cards, so the spend flow can be
+// tested end to end without a terminal
+export function SimulationConsole({ options, cards, defaultCardToken, onSimulated }: SimulationConsoleProps) {
+  const [scenario, setScenario] = useState<SimulationScenario>('authorization');
+  const [cardToken, setCardToken] = useState(defaultCardToken || '');
+  const [transactionToken, setTransactionToken] = useState('');
+  const [amount, setAmount] = useState('');
+  const [merchantName, setMerchantName] = useState('');
+  const [mcc, setMcc] = useState('');
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // This session's results, newest first
+  const [results, setResults] = useState<SimulatedTransaction[]>([]);
+
+  const followsTransaction = options.scenarios.find(s => s.scenario === scenario)?.followsTransaction ?? false;
+  const authorizations = results.filter(r => r.type === 'authorization' && r.state !== 'DECLINED');
+  const canRun = followsTransaction ? !!transactionToken : parseFloat(amount) > 0;
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const transaction = await simulateTransaction(scenario, followsTransaction
+        ? { transactionToken, amount: amount ? parseFloat(amount) : undefined }
+        : {
+          cardToken: cardToken || undefined,
+          amount: parseFloat(amount),
+          merchantName: merchantName || undefined,
+          mcc: mcc || undefined
+        });
+      setResults(prev => [transaction, ...prev]);
+      onSimulated?.(transaction);
+    } catch (error: any) {
+      console.error(`Failed to simulate ${scenario}:`, error);
+      setError(error.message || 'Simulation failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4 mb-6">
+      <div className="flex items-center gap-2 mb-1">
+        <FlaskConical className="w-4 h-4 text-[#9E89FF]" />
+        <p className="text-gray-900 dark:text-white">Simulation Console</p>
+        <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded-full">Sandbox</span>
+      </div>
+      <p className="text-gray-500 dark:text-gray-400 text-sm mb-3">
+        {options.scenarios.find(s => s.scenario === scenario)?.description}
+      </p>
+
+      <div className="flex gap-2 overflow-x-auto mb-3 pb-1">
+        {options.scenarios.map(s => (
+          <button
+            key={s.scenario}
+            onClick={() => setScenario(s.scenario)}
+            className={`flex-shrink-0 px-3 py-1.5 rounded-full text-sm transition-colors ${
+              scenario === s.scenario
+                ? 'bg-[#9E89FF] text-white'
+                : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600'
+            }`}
+          >
+            {SCENARIO_LABELS[s.scenario] || s.scenario}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2 mb-3">
+        {followsTransaction ? (
+          <>
+            {authorizations.length > 0 && (
+              <select
+                value={authorizations.some(a => a.token === transactionToken) ? transactionToken : ''}
+                onChange={(e) => setTransactionToken(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[#9E89FF]"
+              >
+                <option value="">Pick an authorization from this session</option>
+                {authorizations.map(a => (
+                  <option key={a.token} value={a.token}>
+                    ${a.amount.toFixed(2)} at {a.merchantName || 'merchant'} ({a.token.slice(0, 8)})
+                  </option>
+                ))}
+              </select>
+            )}
+            <input
+              type="text"
+              value={transactionToken}
+              onChange={(e) => setTransactionToken(e.target.value.trim())}
+              placeholder="Authorization transaction token"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[#9E89FF]"
+            />
+          </>
+        ) : (
+          <>
+            {cards.length > 1 && (
+              <select
+                value={cardToken}
+                onChange={(e) => setCardToken(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[#9E89FF]"
+              >
+                {cards.map(c => (
+                  <option key={c.token} value={c.token}>
+                    {c.purpose === 'request' ? c.label || 'Request card' : 'Main card'} ••{c.lastFour}
+                  </option>
+                ))}
+              </select>
+            )}
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={merchantName}
+                onChange={(e) => setMerchantName(e.target.value)}
+                placeholder="Merchant name"
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[#9E89FF]"
+              />
+              <input
+                type="text"
+                inputMode="numeric"
+                maxLength={4}
+                value={mcc}
+                onChange={(e) => setMcc(e.target.value.replace(/\D/g, ''))}
+                placeholder="MCC"
+                className="w-20 px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[#9E89FF]"
+              />
+            </div>
+          </>
+        )}
+        <div className="relative">
+          <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500 text-sm">$</span>
+          <input
+            type="number"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder={followsTransaction ? 'Original amount' : scenario === 'decline' ? 'Amount over balance' : '0.00'}
+            className="w-full pl-7 pr-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[#9E89FF]"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-3 mb-3">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      <button
+        onClick={handleRun}
+        disabled={running || !canRun}
+        className="w-full bg-[#9E89FF] text-white py-2 rounded-xl hover:bg-[#8B76F0] transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+      >
+        {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+        Run {SCENARIO_LABELS[scenario]}
+      </button>
+
+      {results.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {results.map(r => (
+            <div key={r.token} className="bg-white dark:bg-gray-700 rounded-lg p-3 text-sm">
+              <div className="flex items-center justify-between">
+                <p className="text-gray-900 dark:text-white">
+                  {r.type} · ${Number(r.amount || 0).toFixed(2)}{r.merchantName ? ` at ${r.merchantName}` : ''}
+                </p>
+                <span className={`text-xs ${r.state === 'DECLINED' ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>
+                  {r.state}
+                </span>
+              </div>
+              <p className="text-gray-500 dark:text-gray-400 text-xs font-mono mt-1">
+                {r.token}{r.responseMemo ? ` · ${r.responseMemo}` : ''}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { ReconciliationFlag, ReconciliationStatus, RequestReconciliation } from '../utils/api';
+
+interface SpendReconciliationProps {
+  reconciliation: RequestReconciliation;
+}
+
+const STATUS_LABELS: Record<ReconciliationStatus, string> = {
+  unspent: 'Not spent yet',
+  partially_spent: 'Partly spent',
+  spent: 'Spent',
+  overspent: 'Over-spent'
+};
+
+const FLAG_LABELS: Record<ReconciliationFlag, string> = {
+  overspent: 'Spent more than approved',
+  unspent: 'Funds left unspent',
+  off_purpose: 'Spent outside the category'
+};
+
+// How an approved request's money was actually spent, from card transactions
+export function SpendReconciliation({ reconciliation }: SpendReconciliationProps) {
+  const { spent, approvedAmount, status, flags, transactions } = reconciliation;
+  const percent = approvedAmount > 0 ? Math.min(100, (spent / approvedAmount) * 100) : 0;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm mb-1">
+        <p className="text-gray-600 dark:text-gray-400">{STATUS_LABELS[status]}</p>
+        <p className={status === 'overspent' ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}>
+          ${spent.toFixed(2)} of ${approvedAmount.toFixed(2)}
+        </p>
+      </div>
+      <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${status === 'overspent' ? 'bg-red-500' : 'bg-[#9E89FF]'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      {flags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {flags.map(flag => (
+            <span
+              key={flag}
+              className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200"
+            >
+              <AlertTriangle className="w-3 h-3" />
+              {FLAG_LABELS[flag]}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {transactions.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {transactions.map(tx => (
+            <li key={tx.token} className="flex items-center justify-between text-sm">
+              <div>
+                <p className="text-gray-900 dark:text-white">{tx.merchantName || 'Card purchase'}</p>
+                <p className="text-gray-500 dark:text-gray-400 text-xs">
+                  {new Date(tx.time).toLocaleDateString()}
+                  {!tx.settled && ' · pending'}
+                  {tx.onPurpose === false && ' · outside category'}
+                </p>
+              </div>
+              <p className={tx.onPurpose === false ? 'text-yellow-700 dark:text-yellow-300' : 'text-gray-900 dark:text-white'}>
+                ${tx.amount.toFixed(2)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,15 @@
 import { projectId, publicAnonKey } from './supabase/info';
 import { createClient } from '@supabase/supabase-js';
+// Requests and responses are typed from the contract shared with the backend
+import { createApiClient, endpoints } from '@accountabills/contract';
+import type {
+  BootData, PaymentRequest, Approver, Transaction, FundingSource, Withdrawal, CardData, CardRevealDetails,
+  ApprovalBand, UserSettings, BankAccount, FundingStatus, SpendControls, ReconciledPurchase, RequestReconciliation,
+  Reconciliation, SimulationOptions, SimulatedTransaction, ApprovalPolicy, RequestEvent, CounterOffer,
+  RecurringSchedule, RecurringPreApproval, RecurringRequest, RequestTemplate,
+  CreatePaymentRequestBody, EditPaymentRequestBody, ResubmitPaymentRequestBody, LinkBankAccountBody, UpdateSettingsBody,
+  CreateRecurringRequestBody, UpdateRecurringRequestBody, CreateRequestTemplateBody, UpdateRequestTemplateBody
+} from '@accountabills/contract';
 
 // Backend API URL - Express server
 // Use production URL in production, localhost for development
@@ -47,7 +57,8 @@ const fetchWithAuth = async (endpoint: string, options: RequestInit = {}) => {
   const data = await response.json().catch(() => ({ error: 'Request failed' }));
 
   if (!response.ok) {
-    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    // code (e.g. REAUTH_REQUIRED) lets callers react to specific errors
+    throw Object.assign(new Error(data.error || `HTTP error! status: ${response.status}`), { code: data.code });
   }
 
   return data;
@@ -150,170 +161,375 @@ export const getSession = async () => {
 };
 
 // ===== USER API (Express + Marqeta) =====
+// Every Express call goes through the typed client, so responses are typed from the contract and,
+// in development, checked against it (mismatches are logged with a [contract] prefix)
+
+const api = createApiClient(endpoints, { request: fetchWithAuth, checkResponses: import.meta.env.DEV });
+
+export type {
+  BootData,
+  PaymentRequest,
+  Approver as RequestApprover,
+  Transaction,
+  FundingSource,
+  Withdrawal,
+  CardData,
+  CardRevealDetails,
+  ApprovalBand,
+  UserSettings,
+  BankAccount,
+  FundingStatus,
+  SpendControls,
+  ReconciledPurchase,
+  RequestReconciliation,
+  Reconciliation,
+  SimulationOptions,
+  SimulatedTransaction,
+  ApprovalPolicy,
+  RequestEvent,
+  CounterOffer,
+  RecurringSchedule,
+  RecurringPreApproval,
+  RecurringRequest,
+  RequestTemplate
+};
 
 export const initializeUser = async (firstName?: string, lastName?: string) => {
-  const response = await fetchWithAuth('/users/initialize', {
-    method: 'POST',
-    body: JSON.stringify({ firstName, lastName }),
-  });
-  return response.data;
+  return api.initializeUser({ body: { firstName, lastName } });
 };
 
 // ===== BOOT API (Optimized single-call initialization) =====
-// Consolidates: balance, transactions, card, myRequests, requestsToApprove
-export interface BootData {
-  balance: number;
-  transactions: any[];
-  card: { hasCard: boolean; card: CardData | null };
-  myRequests: any[];
-  requestsToApprove: any[];
-}
-
+// Consolidates: balance, transactions, card, myRequests, requestsToApprove, requestsWatching
 export const boot = async (): Promise<BootData> => {
-  const response = await fetchWithAuth('/users/boot');
-  return response.data;
+  return api.boot();
 };
 
 export const getCurrentUser = async () => {
-  const response = await fetchWithAuth('/users/me');
-  return response.data;
+  return api.getCurrentUser();
 };
 
 // ===== WALLET API (Express + Marqeta) =====
 
 export const getWalletBalance = async () => {
-  const response = await fetchWithAuth('/users/balance');
-  return response.data;
+  return api.getWalletBalance();
+};
+
+export type FundingSourceType = FundingSource['source'];
+
+export const getFundingSources = async (): Promise<FundingSource[]> => {
+  return api.getFundingSources();
 };
 
-export const addMoney = async (amount: number, memo?: string) => {
-  const response = await fetchWithAuth('/users/wallet/add', {
-    method: 'POST',
-    body: JSON.stringify({ amount, memo }),
+// Pass the same idempotencyKey when retrying so the wallet is only funded once
+// Without a source the server uses program funding (sandbox only)
+export const addMoney = async (
+  amount: number,
+  memo?: string,
+  idempotencyKey?: string,
+  from?: { source: FundingSourceType; sourceId?: string }
+) => {
+  return api.addMoney({
+    headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+    body: { amount, memo, ...from },
   });
-  return response.data;
 };
 
-export const withdrawMoney = async (amount: number, instant: boolean = false) => {
-  // Note: Withdrawal to bank not implemented yet
-  throw new Error('Withdrawal to bank not yet implemented');
+// Instant withdrawals charge a fee on top of the amount; pass the same idempotencyKey when retrying
+export const withdrawMoney = async (
+  amount: number,
+  instant: boolean,
+  bankAccountId: string,
+  idempotencyKey?: string
+): Promise<{ withdrawal: Withdrawal; newBalance: number }> => {
+  return api.withdrawMoney({
+    headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+    body: { amount, bankAccountId, speed: instant ? 'instant' : 'standard' },
+  });
 };
 
-export const getTransactions = async () => {
-  const response = await fetchWithAuth('/users/transactions');
-  return response.data;
+export const getWithdrawals = async (): Promise<Withdrawal[]> => {
+  return api.getWithdrawals();
 };
 
-// ===== CARD API (Express + Marqeta) =====
+export const getTransactions = async (): Promise<Transaction[]> => {
+  return api.getTransactions();
+};
 
-export interface CardData {
-  token: string;
-  pan: string;
-  lastFour: string;
-  expiration: string;
-  expirationTime: string;
-  cvv: string;
-  state: string;
-  cardProductToken: string;
-  createdTime: string;
-}
+// ===== CARD API (Express + Marqeta) =====
 
 export const getCard = async (): Promise<{ hasCard: boolean; card: CardData | null }> => {
-  const response = await fetchWithAuth('/users/card');
-  // Response is { success: true, data: { hasCard, card } }
-  return response?.data || { hasCard: false, card: null };
+  return api.getCard();
 };
 
 export const createCard = async (): Promise<{ alreadyExists: boolean; card: CardData }> => {
-  const response = await fetchWithAuth('/users/card', {
-    method: 'POST',
-  });
-  // Response is { success: true, data: { alreadyExists, card } }
-  if (!response?.data?.card) {
+  const data = await api.createCard();
+  if (!data?.card) {
     throw new Error('Failed to create card - no card data in response');
   }
-  return response.data;
+  return data;
 };
 
-// ===== FUNDING STATUS API =====
+// Every card the user holds
+export const getCards = async (): Promise<CardData[]> => {
+  return api.getCards();
+};
 
-export interface FundingStatus {
-  mode: 'SANDBOX' | 'PRODUCTION';
-  isSandbox: boolean;
-  unlimitedFunds: boolean;
-  fundingSource: string;
-  baseUrl: string;
-  fundingInfo: any;
-  message: string;
-}
+export const getCardByToken = async (cardToken: string): Promise<CardData> => {
+  return api.getCardByToken({ params: { token: cardToken } });
+};
+
+// Single-use card for an approved request, capped at the approved amount
+export const issueRequestCard = async (requestId: string): Promise<CardData> => {
+  const { card } = await api.issueRequestCard({ body: { requestId } });
+  return card;
+};
+
+// Signing in again is what lets the user reveal card details for the next few minutes
+export const confirmPassword = async (password: string) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user?.email) throw new Error('Not signed in');
+
+  const { data, error } = await supabase.auth.signInWithPassword({ email: user.email, password });
+  if (error) throw error;
+
+  setAccessToken(data.session?.access_token ?? null);
+};
+
+// Full card number and CVV, through a one-time reveal token. Throws with code REAUTH_REQUIRED
+// when the user needs to confirmPassword first. Every reveal is logged on the server.
+export const revealCardDetails = async (cardToken: string): Promise<CardRevealDetails> => {
+  const { revealToken } = await api.createRevealToken({ params: { token: cardToken } });
+  return api.revealCard({ body: { revealToken } });
+};
+
+export type CardAction = 'freeze' | 'unfreeze' | 'terminate' | 'replace';
+
+// Freeze/unfreeze/terminate return the same card in its new state; replace returns the new card.
+// cardToken defaults to the main card.
+export const changeCardState = async (action: CardAction, reason?: string, cardToken?: string): Promise<CardData> => {
+  const { card } = await api.changeCardState({ params: { action }, body: { reason, cardToken } });
+  return card;
+};
+
+// ===== SETTINGS API (Express) =====
+
+export const getUserSettings = async (): Promise<UserSettings> => {
+  return api.getUserSettings();
+};
+
+export const updateUserSettings = async (updates: UpdateSettingsBody): Promise<UserSettings> => {
+  return api.updateUserSettings({ body: updates });
+};
+
+// ===== BANK ACCOUNTS API (Express) =====
+
+export type BankAccountStatus = BankAccount['status'];
+
+export type LinkBankAccountInput = LinkBankAccountBody;
+
+export const getBankAccounts = async (): Promise<BankAccount[]> => {
+  return api.getBankAccounts();
+};
+
+export const linkBankAccount = async (input: LinkBankAccountInput): Promise<BankAccount> => {
+  return api.linkBankAccount({ body: input });
+};
+
+// amounts are the two micro-deposits in dollars, in any order
+export const verifyBankAccount = async (id: string, amounts: number[]): Promise<BankAccount> => {
+  return api.verifyBankAccount({ params: { id }, body: { amounts } });
+};
+
+export const removeBankAccount = async (id: string) => {
+  return api.removeBankAccount({ params: { id } });
+};
+
+// ===== FUNDING STATUS API =====
 
 export const getFundingStatus = async (): Promise<FundingStatus> => {
-  const response = await fetchWithAuth('/users/funding-status');
-  return response?.data || { mode: 'UNKNOWN', isSandbox: false, unlimitedFunds: false };
+  return api.getFundingStatus();
+};
+
+// ===== SPEND CONTROLS API =====
+
+export type SpendLimit = SpendControls['limits'][number];
+
+export const getSpendControls = async (): Promise<SpendControls> => {
+  return api.getSpendControls();
+};
+
+// ===== RECONCILIATION API =====
+
+export type ReconciliationStatus = RequestReconciliation['status'];
+export type ReconciliationFlag = RequestReconciliation['flags'][number];
+
+// Card spend against the current user's approved requests
+export const getReconciliation = async (): Promise<Reconciliation> => {
+  return api.getReconciliation();
+};
+
+// One request's spend - for its sender or approvers. Null until it's approved and funded.
+export const getRequestReconciliation = async (requestId: string): Promise<RequestReconciliation | null> => {
+  return api.getRequestReconciliation({ query: { requestId } });
+};
+
+// ===== SIMULATION API (Marqeta sandbox only) =====
+
+export type SimulationScenario = SimulationOptions['scenarios'][number]['scenario'];
+
+export const getSimulationOptions = async (): Promise<SimulationOptions> => {
+  return api.getSimulationOptions();
+};
+
+// Clearing, reversal and refund act on an earlier authorization (transactionToken)
+export const simulateTransaction = async (
+  scenario: SimulationScenario,
+  params: { cardToken?: string; transactionToken?: string; amount?: number; merchantName?: string; mcc?: string }
+): Promise<SimulatedTransaction> => {
+  return api.simulateTransaction({ params: { scenario }, body: params });
 };
 
 // ===== REQUESTS API (Express + Marqeta) =====
 
-export interface CreateRequestData {
-  amount: number;
-  description: string;
-  category: string;
-  imageUrl?: string;
-  approvers: Array<{ userId: string; name: string; email: string }>;
-}
+export type CreateRequestData = CreatePaymentRequestBody;
 
-export const createRequest = async (requestData: CreateRequestData) => {
-  const response = await fetchWithAuth('/marqeta/payment-requests', {
-    method: 'POST',
-    body: JSON.stringify(requestData),
-  });
-  return response.data;
+export const createRequest = async (requestData: CreateRequestData): Promise<PaymentRequest> => {
+  return api.createRequest({ body: requestData });
 };
 
-export const getMyRequests = async () => {
-  const response = await fetchWithAuth('/marqeta/payment-requests?filter=mine');
-  return response.data;
+export const getMyRequests = async (): Promise<PaymentRequest[]> => {
+  return api.listRequests({ query: { filter: 'mine' } });
 };
 
-export const getRequestsToApprove = async () => {
-  const response = await fetchWithAuth('/marqeta/payment-requests?filter=to-approve');
-  return response.data;
+export const getRequestsToApprove = async (): Promise<PaymentRequest[]> => {
+  return api.listRequests({ query: { filter: 'to-approve' } });
 };
 
-export const getRequest = async (requestId: string) => {
-  const response = await fetchWithAuth(`/marqeta/payment-requests/${requestId}`);
-  return response.data;
+export const getRequest = async (requestId: string): Promise<PaymentRequest> => {
+  return api.getRequest({ params: { id: requestId } });
 };
 
-export const approveRequest = async (requestId: string, notes?: string) => {
-  const response = await fetchWithAuth(`/marqeta/payment-requests/${requestId}/approve`, {
-    method: 'POST',
-    body: JSON.stringify({ notes }),
+export type RequestEventType = RequestEvent['type'];
+
+// Append-only audit trail for a request, oldest first
+export const getRequestHistory = async (requestId: string): Promise<RequestEvent[]> => {
+  return api.getRequestHistory({ params: { id: requestId } });
+};
+
+// Pass amount to approve less than was requested
+export const approveRequest = async (requestId: string, notes?: string, amount?: number): Promise<PaymentRequest> => {
+  return api.approveRequest({
+    params: { id: requestId },
+    // Each user approves a request at most once, so a double-tap replays the first response
+    headers: { 'Idempotency-Key': `approve-${requestId}` },
+    body: { notes, amount },
   });
-  return response.data;
 };
 
-export const rejectRequest = async (requestId: string, notes?: string) => {
-  const response = await fetchWithAuth(`/marqeta/payment-requests/${requestId}/reject`, {
-    method: 'POST',
-    body: JSON.stringify({ notes }),
+export const rejectRequest = async (requestId: string, notes?: string): Promise<PaymentRequest> => {
+  return api.rejectRequest({ params: { id: requestId }, body: { notes } });
+};
+
+export const cancelRequest = async (requestId: string, reason?: string): Promise<PaymentRequest> => {
+  return api.cancelRequest({ params: { id: requestId }, body: { reason } });
+};
+
+export type EditRequestData = EditPaymentRequestBody;
+
+// Only allowed while the request is pending and nobody has approved it yet; resets approvals
+export const editRequest = async (requestId: string, updates: EditRequestData): Promise<PaymentRequest> => {
+  return api.editRequest({ params: { id: requestId }, body: updates });
+};
+
+// Creates a new request linked to a rejected, expired or cancelled one
+export const resubmitRequest = async (requestId: string, overrides: ResubmitPaymentRequestBody = {}): Promise<PaymentRequest> => {
+  return api.resubmitRequest({ params: { id: requestId }, body: overrides });
+};
+
+// Approver proposes a different amount instead of approving or rejecting
+export const sendCounterOffer = async (requestId: string, amount: number, notes?: string): Promise<PaymentRequest> => {
+  return api.sendCounterOffer({ params: { id: requestId }, body: { amount, notes } });
+};
+
+// Sender accepts (counts as that approver approving the offered amount) or declines.
+// offerCreatedAt identifies the offer, so a double-tap replays the first response but a later
+// offer on the same request gets a fresh key.
+export const respondToCounterOffer = async (
+  requestId: string,
+  decision: 'accept' | 'decline',
+  offerCreatedAt: string
+): Promise<PaymentRequest> => {
+  return api.respondToCounterOffer({
+    params: { id: requestId, decision },
+    headers: { 'Idempotency-Key': `counter-offer-${requestId}-${offerCreatedAt}` },
+    body: {},
   });
-  return response.data;
 };
 
 // Legacy function for compatibility with existing UI
 export const updateRequestStatus = async (
   requestId: string,
   status: 'approved' | 'rejected',
-  notes?: string
+  notes?: string,
+  amount?: number
 ) => {
   if (status === 'approved') {
-    return approveRequest(requestId, notes);
+    return approveRequest(requestId, notes, amount);
   } else {
     return rejectRequest(requestId, notes);
   }
 };
 
+// ===== RECURRING REQUESTS API (Express) =====
+
+export type CreateRecurringRequestData = CreateRecurringRequestBody;
+
+export const getRecurringRequests = async (): Promise<RecurringRequest[]> => {
+  return api.getRecurringRequests();
+};
+
+export const createRecurringRequest = async (data: CreateRecurringRequestData): Promise<RecurringRequest> => {
+  return api.createRecurringRequest({ body: data });
+};
+
+// Changing the amount, approvers or policy of a pre-approved template asks the approvers again
+export const updateRecurringRequest = async (id: string, updates: UpdateRecurringRequestBody): Promise<RecurringRequest> => {
+  return api.updateRecurringRequest({ params: { id }, body: updates });
+};
+
+export const deleteRecurringRequest = async (id: string) => {
+  return api.deleteRecurringRequest({ params: { id } });
+};
+
+export const respondToPreApproval = async (id: string, decision: 'approve' | 'reject'): Promise<RecurringRequest> => {
+  return api.respondToPreApproval({ params: { id, decision } });
+};
+
+// ===== REQUEST TEMPLATES API (Express) =====
+
+export type RequestTemplateData = CreateRequestTemplateBody;
+
+export const getRequestTemplates = async (): Promise<RequestTemplate[]> => {
+  return api.getRequestTemplates();
+};
+
+export const createRequestTemplate = async (data: RequestTemplateData): Promise<RequestTemplate> => {
+  return api.createRequestTemplate({ body: data });
+};
+
+// Copies amount, description, category, approvers and policy from one of your own requests
+export const saveRequestAsTemplate = async (requestId: string, name?: string): Promise<RequestTemplate> => {
+  return api.saveRequestAsTemplate({ params: { requestId }, body: { name } });
+};
+
+export const updateRequestTemplate = async (id: string, updates: UpdateRequestTemplateBody): Promise<RequestTemplate> => {
+  return api.updateRequestTemplate({ params: { id }, body: updates });
+};
+
+export const deleteRequestTemplate = async (id: string) => {
+  return api.deleteRequestTemplate({ params: { id } });
+};
+
 // ===== FRIENDS/PARTNERS API (Supabase) =====
 
 export interface Friend {
@@ -1044,7 +1260,7 @@ export const markMessagesAsRead = async (conversationId: string): Promise<void>
 export interface NotificationData {
   id: string;
   userId: string;
-  type: 'friend_request' | 'approval_request' | 'request_reviewed';
+  type: 'friend_request' | 'approval_request' | 'request_reviewed' | 'card_activity';
   title: string;
   message: string;
   read: boolean;
@@ -58,5 +58,9 @@
     server: {
       port: 3000,
       open: true,
+      // The API contract lives next to this project, shared with the backend
+      fs: {
+        allow: ['.', '../contract'],
+      },
     },
   });
\ No newline at end of file
@@ -3,9 +3,18 @@ import express from 'express';
 import cors from 'cors';
 import marqetaRoutes from '../routes/marqeta.js';
 import userRoutes from '../routes/users.js';
+import cronRoutes from '../routes/cron.js';
+import recurringRequestRoutes from '../routes/recurringRequests.js';
+import requestTemplateRoutes from '../routes/requestTemplates.js';
+import adminRoutes from '../routes/admin.js';
+import { apiLimiter, trustProxySetting } from '../middleware/rateLimit.js';
 
 const app = express();
 
+// Vercel's edge is the one proxy in front of the function and sets X-Forwarded-For itself, so
+// req.ip trusts exactly one hop. TRUST_PROXY overrides it for other deployments.
+app.set('trust proxy', trustProxySetting(1));
+
 // Middleware
 app.use(cors({
   origin: [
@@ -18,13 +27,23 @@ app.use(cors({
     'https://accountabills-hm0b99f71-intseans-projects.vercel.app',
     /\.vercel\.app$/  // Allow all vercel.app subdomains
   ],
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After', 'Idempotent-Replayed']
+}));
+app.use('/api', apiLimiter);
+app.use(express.json({
+  limit: '10mb',
+  // Keep the raw body for gateway signature checks
+  verify: (req, res, buf) => { req.rawBody = buf; }
 }));
-app.use(express.json({ limit: '10mb' }));
 
 // Routes
 app.use('/api/marqeta', marqetaRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/cron', cronRoutes);
+app.use('/api/recurring-requests', recurringRequestRoutes);
+app.use('/api/request-templates', requestTemplateRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
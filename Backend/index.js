@@ -3,20 +3,42 @@ import express from 'express';
 import cors from 'cors';
 import marqetaRoutes from './routes/marqeta.js';
 import userRoutes from './routes/users.js';
+import cronRoutes from './routes/cron.js';
+import recurringRequestRoutes from './routes/recurringRequests.js';
+import requestTemplateRoutes from './routes/requestTemplates.js';
+import adminRoutes from './routes/admin.js';
+import { apiLimiter, trustProxySetting } from './middleware/rateLimit.js';
+import requestSweepService from './services/requestSweepService.js';
+import fundingService from './services/fundingService.js';
+import recurringRequestService from './services/recurringRequestService.js';
+import withdrawalService from './services/withdrawalService.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// req.ip is the socket's address unless TRUST_PROXY says there's a proxy in front
+app.set('trust proxy', trustProxySetting(false));
+
 // Middleware
 app.use(cors({
   origin: ['http://localhost:3000', 'http://localhost:3001', 'http://localhost:5173', 'http://localhost:5174', 'http://127.0.0.1:3000'],
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After', 'Idempotent-Replayed']
+}));
+app.use('/api', apiLimiter);
+app.use(express.json({
+  limit: '10mb', // Increased for image uploads
+  // Keep the raw body for gateway signature checks
+  verify: (req, res, buf) => { req.rawBody = buf; }
 }));
-app.use(express.json({ limit: '10mb' })); // Increased for image uploads
 
 // Routes
 app.use('/api/marqeta', marqetaRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/cron', cronRoutes);
+app.use('/api/recurring-requests', recurringRequestRoutes);
+app.use('/api/request-templates', requestTemplateRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -27,3 +49,52 @@ app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
   console.log(`AccountaBills Backend API`);
 });
+
+// Background sweep for expiring/escalating pending requests (set to 0 to disable)
+const sweepIntervalMs = parseInt(process.env.REQUEST_SWEEP_INTERVAL_MS || '300000', 10);
+if (sweepIntervalMs > 0) {
+  setInterval(() => {
+    requestSweepService.runSweep().catch(error => {
+      console.error('Request sweep failed:', error.message);
+    });
+  }, sweepIntervalMs);
+}
+
+// Background funding retries and reconciliation against Marqeta (set to 0 to disable)
+const fundingRetryIntervalMs = parseInt(process.env.FUNDING_RETRY_INTERVAL_MS || '60000', 10);
+if (fundingRetryIntervalMs > 0) {
+  setInterval(() => {
+    fundingService.runRetries().catch(error => {
+      console.error('Funding retry run failed:', error.message);
+    });
+  }, fundingRetryIntervalMs);
+}
+
+const fundingReconcileIntervalMs = parseInt(process.env.FUNDING_RECONCILE_INTERVAL_MS || '900000', 10);
+if (fundingReconcileIntervalMs > 0) {
+  setInterval(() => {
+    fundingService.reconcile().catch(error => {
+      console.error('Funding reconciliation failed:', error.message);
+    });
+  }, fundingReconcileIntervalMs);
+}
+
+// Create payment requests from recurring templates that are due (set to 0 to disable)
+const recurringRequestsIntervalMs = parseInt(process.env.RECURRING_REQUESTS_INTERVAL_MS || '60000', 10);
+if (recurringRequestsIntervalMs > 0) {
+  setInterval(() => {
+    recurringRequestService.runDue().catch(error => {
+      console.error('Recurring request run failed:', error.message);
+    });
+  }, recurringRequestsIntervalMs);
+}
+
+// Send failed withdrawal refunds again (set to 0 to disable)
+const refundRetryIntervalMs = parseInt(process.env.WITHDRAWAL_REFUND_RETRY_INTERVAL_MS || '900000', 10);
+if (refundRetryIntervalMs > 0) {
+  setInterval(() => {
+    withdrawalService.retryRefunds().catch(error => {
+      console.error('Withdrawal refund retry run failed:', error.message);
+    });
+  }, refundRetryIntervalMs);
+}
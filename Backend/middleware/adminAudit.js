@@ -0,0 +1,30 @@
+import storageService from '../services/storageService.js';
+
+// Record every /api/admin call in admin_audit_log once the response is sent
+//
+// Reads are recorded as well as writes - looking at someone's balance or transactions is
+// exactly what the log is for. Request bodies are kept for writes so e.g. a fund's amount is
+// on record. Must run after validateToken.
+export function auditAdminAction(req, res, next) {
+  res.on('finish', () => {
+    const params = req.params || {};
+    const write = req.method !== 'GET';
+
+    storageService.recordAdminAction({
+      actorId: req.userId,
+      actorEmail: req.userEmail,
+      actorRole: req.userRole,
+      action: `${req.method} ${req.baseUrl}${req.route?.path || req.path}`,
+      target: params.userToken || params.token || params.userId || req.body?.userToken || null,
+      details: {
+        ...(Object.keys(params).length > 0 && { params }),
+        ...(Object.keys(req.query || {}).length > 0 && { query: req.query }),
+        ...(write && req.body && { body: req.body })
+      },
+      statusCode: res.statusCode,
+      ipAddress: req.ip
+    }).catch(error => console.error('Failed to record admin action:', error.message));
+  });
+
+  next();
+}
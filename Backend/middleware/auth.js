@@ -1,3 +1,4 @@
+import { createHmac, timingSafeEqual } from 'crypto';
 import { createClient } from '@supabase/supabase-js';
 
 const supabaseUrl = process.env.SUPABASE_URL;
@@ -11,6 +12,22 @@ const supabase = createClient(supabaseUrl, supabaseKey, {
   }
 });
 
+// Roles live in Supabase app_metadata.role (only the service role can write app_metadata).
+// Ordered from least to most access - each role can do everything the ones before it can.
+export const ROLES = ['user', 'support', 'admin'];
+
+export const roleOf = (user) => (ROLES.includes(user?.app_metadata?.role) ? user.app_metadata.role : 'user');
+
+// The access token's claims (iat, amr, session_id, ...). Only call this once Supabase has accepted
+// the token - it decodes without verifying.
+export function tokenClaims(token) {
+  try {
+    return JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+  } catch {
+    return {};
+  }
+}
+
 export async function validateToken(req, res, next) {
   const authHeader = req.headers.authorization;
 
@@ -36,6 +53,8 @@ export async function validateToken(req, res, next) {
     req.user = user;
     req.userId = user.id;
     req.userEmail = user.email;
+    req.userRole = roleOf(user);
+    req.authClaims = tokenClaims(token);
 
     // Get Marqeta token from user metadata if it exists
     req.marqetaUserToken = user.user_metadata?.marqeta_user_token || null;
@@ -66,6 +85,8 @@ export async function optionalAuth(req, res, next) {
       req.user = user;
       req.userId = user.id;
       req.userEmail = user.email;
+      req.userRole = roleOf(user);
+      req.authClaims = tokenClaims(token);
       req.marqetaUserToken = user.user_metadata?.marqeta_user_token || null;
     }
   } catch (error) {
@@ -75,4 +96,88 @@ export async function optionalAuth(req, res, next) {
   next();
 }
 
+// Only let users with at least minimumRole through - must run after validateToken
+//   router.get('/users', validateToken, requireRole('support'), ...)
+export function requireRole(minimumRole) {
+  if (!ROLES.includes(minimumRole)) {
+    throw new Error(`Unknown role: ${minimumRole}`);
+  }
+
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    if (ROLES.indexOf(req.userRole) < ROLES.indexOf(minimumRole)) {
+      return res.status(403).json({ success: false, error: `This requires the ${minimumRole} role` });
+    }
+
+    next();
+  };
+}
+
+// Scheduled jobs - Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`
+export function validateCronSecret(req, res, next) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    return res.status(503).json({ success: false, error: 'CRON_SECRET is not configured' });
+  }
+
+  if (req.headers.authorization !== `Bearer ${cronSecret}`) {
+    return res.status(401).json({ success: false, error: 'Invalid cron secret' });
+  }
+
+  next();
+}
+
+const safeEqual = (a, b) => {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+};
+
+const hasBasicAuth = (req, username, password) =>
+  safeEqual(req.headers.authorization || '', `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`);
+
+// Marqeta JIT funding gateway - Basic auth with the credentials configured on the gateway, plus an
+// HMAC-SHA256 of the raw body (hex) in X-Marqeta-Signature
+export function validateJitGateway(req, res, next) {
+  const username = process.env.MARQETA_JIT_USERNAME;
+  const password = process.env.MARQETA_JIT_PASSWORD;
+  const signingSecret = process.env.MARQETA_JIT_SIGNING_SECRET;
+
+  if (!username || !password || !signingSecret) {
+    return res.status(503).json({ success: false, error: 'JIT gateway credentials are not configured' });
+  }
+
+  if (!hasBasicAuth(req, username, password)) {
+    return res.status(401).json({ success: false, error: 'Invalid gateway credentials' });
+  }
+
+  const signature = req.headers['x-marqeta-signature'] || '';
+  const expectedSignature = createHmac('sha256', signingSecret).update(req.rawBody || '').digest('hex');
+  if (!safeEqual(signature, expectedSignature)) {
+    return res.status(401).json({ success: false, error: 'Invalid gateway signature' });
+  }
+
+  next();
+}
+
+// Marqeta webhooks - Basic auth with the credentials configured on the webhook
+export function validateMarqetaWebhook(req, res, next) {
+  const username = process.env.MARQETA_WEBHOOK_USERNAME;
+  const password = process.env.MARQETA_WEBHOOK_PASSWORD;
+
+  if (!username || !password) {
+    return res.status(503).json({ success: false, error: 'Webhook credentials are not configured' });
+  }
+
+  if (!hasBasicAuth(req, username, password)) {
+    return res.status(401).json({ success: false, error: 'Invalid webhook credentials' });
+  }
+
+  next();
+}
+
 export { supabase };
@@ -0,0 +1,86 @@
+import { createHash } from 'crypto';
+import storageService from '../services/storageService.js';
+
+// Keys are only honoured for a day; after that the same key starts a fresh request
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+const sha256 = (value) => createHash('sha256').update(value).digest('hex');
+
+/**
+ * Idempotency for money-moving routes
+ *
+ * Clients send an `Idempotency-Key` header (a fresh UUID per user action). The first request
+ * with a key runs normally and its response is stored per user; repeats get the stored
+ * response replayed with `Idempotent-Replayed: true`. The header is optional so older
+ * clients keep working.
+ *
+ * Sets req.idempotencyToken - a 36-char token derived from the user and key that routes pass
+ * to Marqeta as the GPA order token, so a duplicate that slips past us is rejected upstream.
+ *
+ * Must run after validateToken (or optionalAuth) so the key is scoped to req.userId.
+ */
+export async function idempotent(req, res, next) {
+  const key = req.get('Idempotency-Key');
+
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`
+    });
+  }
+
+  const scope = req.userId || 'anonymous';
+  const fingerprint = sha256(`${req.method} ${req.baseUrl}${req.path} ${JSON.stringify(req.body || {})}`);
+
+  try {
+    let { claimed, record } = await storageService.claimIdempotencyKey(scope, key, fingerprint);
+
+    if (!claimed && Date.now() - new Date(record.createdAt) > KEY_TTL_MS) {
+      await storageService.releaseIdempotencyKey(scope, key);
+      ({ claimed, record } = await storageService.claimIdempotencyKey(scope, key, fingerprint));
+    }
+
+    if (!claimed) {
+      if (record.fingerprint !== fingerprint) {
+        return res.status(422).json({
+          success: false,
+          error: 'This Idempotency-Key was already used for a different request'
+        });
+      }
+
+      if (record.status !== 'completed') {
+        return res.status(409).json({
+          success: false,
+          error: 'A request with this Idempotency-Key is still being processed'
+        });
+      }
+
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(record.responseStatus).json(record.responseBody);
+    }
+  } catch (error) {
+    console.error('Idempotency middleware error:', error.message);
+    return res.status(500).json({ success: false, error: 'Could not process Idempotency-Key' });
+  }
+
+  req.idempotencyToken = sha256(`${scope}:${key}`).slice(0, 36);
+
+  // Store successful responses before sending them. Errors release the key so the client can
+  // fix the request or retry with the same key.
+  const sendJson = res.json.bind(res);
+  res.json = (body) => {
+    const persist = res.statusCode >= 200 && res.statusCode < 300
+      ? storageService.completeIdempotencyKey(scope, key, res.statusCode, body)
+      : storageService.releaseIdempotencyKey(scope, key);
+
+    persist.finally(() => sendJson(body));
+    return res;
+  };
+
+  next();
+}
@@ -0,0 +1,202 @@
+import { createClient } from '@vercel/kv';
+
+/**
+ * Rate limiting
+ *
+ * Fixed-window counters, one per limiter per caller. Callers are keyed by req.userId when the
+ * limiter runs after validateToken, otherwise by client IP (req.ip - see trustProxySetting). Every metered response carries
+ * `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset` (seconds) and `RateLimit-Policy`;
+ * rejected ones get `429` with `Retry-After`.
+ *
+ * Counters live in memory unless KV_REST_API_URL/KV_REST_API_TOKEN (Vercel KV) or
+ * UPSTASH_REDIS_REST_URL/UPSTASH_REDIS_REST_TOKEN are set. Serverless instances don't share
+ * memory, so deployments should configure one.
+ *
+ * Configuration:
+ *   RATE_LIMIT_ENABLED=false        turns every limiter off
+ *   RATE_LIMIT_<NAME>=<limit>/<s>   overrides a limiter's budget, e.g. RATE_LIMIT_MONEY=20/60
+ *   RATE_LIMIT_EXEMPT_USERS=id,id   user ids that are never limited (load tests, ops accounts)
+ *
+ * If the store is unreachable requests are let through rather than taking the API down.
+ */
+
+// Keeps a single process's counters in a Map, pruning expired windows every minute
+class MemoryStore {
+  constructor() {
+    this.name = 'memory';
+    this.counters = new Map();
+
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, counter] of this.counters) {
+        if (counter.resetAt <= now) this.counters.delete(key);
+      }
+    }, 60 * 1000).unref();
+  }
+
+  async increment(key, windowMs) {
+    const now = Date.now();
+    let counter = this.counters.get(key);
+
+    if (!counter || counter.resetAt <= now) {
+      counter = { count: 0, resetAt: now + windowMs };
+      this.counters.set(key, counter);
+    }
+
+    counter.count += 1;
+    return { count: counter.count, resetAt: counter.resetAt };
+  }
+}
+
+// Shares counters across instances through Vercel KV / Upstash Redis
+class KvStore {
+  constructor(url, token) {
+    this.name = 'kv';
+    this.client = createClient({ url, token });
+  }
+
+  async increment(key, windowMs) {
+    // Window start is part of the key, so every instance agrees on when it resets
+    const windowStart = Math.floor(Date.now() / windowMs) * windowMs;
+    const windowKey = `${key}:${windowStart}`;
+
+    const [count] = await this.client.pipeline()
+      .incr(windowKey)
+      .pexpire(windowKey, windowMs)
+      .exec();
+
+    return { count, resetAt: windowStart + windowMs };
+  }
+}
+
+function createStore() {
+  const url = process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN;
+
+  return url && token ? new KvStore(url, token) : new MemoryStore();
+}
+
+export const rateLimitStore = createStore();
+
+const enabled = process.env.RATE_LIMIT_ENABLED !== 'false';
+const exemptUsers = new Set(
+  (process.env.RATE_LIMIT_EXEMPT_USERS || '').split(',').map(id => id.trim()).filter(Boolean)
+);
+
+// RATE_LIMIT_<NAME>=<limit>/<seconds>, falling back to the limiter's defaults
+function budgetFor(name, limit, windowMs) {
+  const override = process.env[`RATE_LIMIT_${name.toUpperCase()}`];
+  const match = override?.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+
+  if (override && !match) {
+    console.warn(`Ignoring RATE_LIMIT_${name.toUpperCase()}="${override}" (expected <limit>/<seconds>)`);
+  }
+
+  return match
+    ? { limit: parseInt(match[1], 10), windowMs: parseInt(match[2], 10) * 1000 }
+    : { limit, windowMs };
+}
+
+// req.ip honours the app's `trust proxy` setting, so a client can't pick its own IP by sending
+// X-Forwarded-For - only the proxies we trust get a say
+function clientIp(req) {
+  return req.ip || 'unknown';
+}
+
+/**
+ * Express's `trust proxy` setting, from TRUST_PROXY when it's set
+ *
+ * TRUST_PROXY is a hop count ("1"), "true"/"false", or addresses and subnets as Express takes them
+ * ("loopback", "10.0.0.0/8"). "true" trusts every hop, which lets clients spoof their IP.
+ */
+export function trustProxySetting(fallback) {
+  const value = process.env.TRUST_PROXY?.trim();
+
+  if (!value) return fallback;
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  if (value === 'true' || value === 'false') return value === 'true';
+  return value;
+}
+
+/**
+ * Build a rate limiting middleware
+ *
+ * name     - counter namespace and env override suffix; limiters with the same name share a budget
+ * limit    - requests allowed per window
+ * windowMs - window length
+ * skip     - optional (req) => boolean for requests that shouldn't be counted
+ */
+export function rateLimit({ name, limit, windowMs, skip }) {
+  const budget = budgetFor(name, limit, windowMs);
+  const windowSeconds = Math.ceil(budget.windowMs / 1000);
+
+  return async function rateLimitMiddleware(req, res, next) {
+    if (!enabled || skip?.(req) || (req.userId && exemptUsers.has(req.userId))) {
+      return next();
+    }
+
+    const subject = req.userId ? `user:${req.userId}` : `ip:${clientIp(req)}`;
+
+    let count;
+    let resetAt;
+    try {
+      ({ count, resetAt } = await rateLimitStore.increment(`ratelimit:${name}:${subject}`, budget.windowMs));
+    } catch (error) {
+      console.error(`Rate limit store error (${rateLimitStore.name}):`, error.message);
+      return next();
+    }
+
+    const resetSeconds = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+
+    res.set({
+      'RateLimit-Limit': String(budget.limit),
+      'RateLimit-Remaining': String(Math.max(0, budget.limit - count)),
+      'RateLimit-Reset': String(resetSeconds),
+      'RateLimit-Policy': `${budget.limit};w=${windowSeconds}`
+    });
+
+    if (count > budget.limit) {
+      res.set('Retry-After', String(resetSeconds));
+      return res.status(429).json({
+        success: false,
+        error: `Too many requests. Try again in ${resetSeconds} seconds.`
+      });
+    }
+
+    next();
+  };
+}
+
+// Marqeta's gateway and webhooks, cron and health checks aren't user traffic
+const UNMETERED_PATHS = ['/api/marqeta/jit', '/api/marqeta/webhooks', '/api/cron/', '/api/health'];
+
+// Everything under /api, per client IP (auth hasn't run yet at the app level)
+export const apiLimiter = rateLimit({
+  name: 'api',
+  limit: 300,
+  windowMs: 60 * 1000,
+  skip: (req) => UNMETERED_PATHS.some(path => req.originalUrl.startsWith(path))
+});
+
+// Adding, withdrawing and approving money, per user. Must run after validateToken.
+export const moneyLimiter = rateLimit({ name: 'money', limit: 10, windowMs: 60 * 1000 });
+
+// Actions that notify other people (new requests, counter-offers, resubmits, rejections), per user.
+// Must run after validateToken.
+export const notifyLimiter = rateLimit({ name: 'notify', limit: 20, windowMs: 15 * 60 * 1000 });
+
+// Showing a card's full number and CVV, per user - a reveal is two calls (token, then details).
+// Must run after validateToken.
+export const revealLimiter = rateLimit({ name: 'reveal', limit: 10, windowMs: 15 * 60 * 1000 });
+
+// Issuing, replacing, freezing and terminating cards, per user. Each one is a Marqeta call and
+// notifies the user's partners. Must run after validateToken.
+export const cardLimiter = rateLimit({ name: 'card', limit: 20, windowMs: 60 * 60 * 1000 });
+
+// Linking and verifying bank accounts, per user - linking sends micro-deposits, and verifying is a
+// guess at their amounts. Must run after validateToken.
+export const bankLimiter = rateLimit({ name: 'bank', limit: 10, windowMs: 60 * 60 * 1000 });
+
+// Sandbox card simulations, per user - each one drives authorizations through Marqeta, the JIT
+// gateway and webhooks. Must run after validateToken.
+export const simulateLimiter = rateLimit({ name: 'simulate', limit: 30, windowMs: 15 * 60 * 1000 });
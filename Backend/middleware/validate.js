@@ -0,0 +1,26 @@
+/**
+ * Check req.body against a body schema from contract/bodies
+ *
+ * Bad bodies get a 400 listing every problem:
+ *   { success: false, error: 'amount must be greater than 0; approvers[0].userId is required',
+ *     errors: [{ field: 'amount', message: 'must be greater than 0' }, ...] }
+ *
+ * Good ones replace req.body with the cleaned value (trimmed strings, unknown fields dropped),
+ * so handlers can trust the types. Runs before idempotent so rejected bodies never claim a key.
+ */
+export function validateBody(schema) {
+  return function validateBodyMiddleware(req, res, next) {
+    const { value, errors } = schema.parse(req.body ?? {});
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: errors.map(({ field, message }) => `${field || 'body'} ${message}`).join('; '),
+        errors
+      });
+    }
+
+    req.body = value;
+    next();
+  };
+}
@@ -0,0 +1,193 @@
+import express from 'express';
+import marqetaService from '../services/marqetaService.js';
+import storageService from '../services/storageService.js';
+import { validateToken, requireRole, supabase, ROLES } from '../middleware/auth.js';
+import { auditAdminAction } from '../middleware/adminAudit.js';
+import { idempotent } from '../middleware/idempotency.js';
+import { moneyLimiter } from '../middleware/rateLimit.js';
+
+const router = express.Router();
+
+// Direct Marqeta access for operators. Everything here needs at least the support role and is
+// recorded in admin_audit_log; anything that creates or moves money needs admin.
+router.use(validateToken, requireRole('support'), auditAdminAction);
+
+// ==================== USERS (Direct Marqeta) ====================
+
+// Create a new Marqeta user
+router.post('/users', requireRole('admin'), async (req, res) => {
+  try {
+    const user = await marqetaService.createUser(req.body);
+    res.json({ success: true, data: user });
+  } catch (error) {
+    console.error('Error creating user:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+// List all Marqeta users
+router.get('/users', async (req, res) => {
+  try {
+    const users = await marqetaService.listUsers();
+    res.json({ success: true, data: users });
+  } catch (error) {
+    console.error('Error listing users:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+// Get Marqeta user by token
+router.get('/users/:token', async (req, res) => {
+  try {
+    const user = await marqetaService.getUser(req.params.token);
+    res.json({ success: true, data: user });
+  } catch (error) {
+    console.error('Error getting user:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+// ==================== CARDS ====================
+
+router.get('/card-products', async (req, res) => {
+  try {
+    const products = await marqetaService.listCardProducts();
+    res.json({ success: true, data: products });
+  } catch (error) {
+    console.error('Error listing card products:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+router.post('/cards', requireRole('admin'), async (req, res) => {
+  try {
+    const { userToken, cardProductToken } = req.body;
+    const card = await marqetaService.createCard(userToken, cardProductToken);
+    res.json({ success: true, data: card });
+  } catch (error) {
+    console.error('Error creating card:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+router.get('/cards/user/:userToken', async (req, res) => {
+  try {
+    const cards = await marqetaService.getCardsForUser(req.params.userToken);
+    res.json({ success: true, data: cards });
+  } catch (error) {
+    console.error('Error getting cards:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+// ==================== BALANCES & FUNDING ====================
+
+router.get('/balance/:userToken', async (req, res) => {
+  try {
+    const balance = await marqetaService.getGPABalance(req.params.userToken);
+    res.json({ success: true, data: balance });
+  } catch (error) {
+    console.error('Error getting balance:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+router.post('/fund', requireRole('admin'), moneyLimiter, idempotent, async (req, res) => {
+  try {
+    const { userToken, amount, memo } = req.body;
+    const result = await marqetaService.fundGPA(userToken, amount, memo, req.idempotencyToken);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error funding GPA:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+// ==================== TRANSACTIONS ====================
+
+router.get('/transactions/:userToken', async (req, res) => {
+  try {
+    const transactions = await marqetaService.getTransactions(req.params.userToken);
+    res.json({ success: true, data: transactions });
+  } catch (error) {
+    console.error('Error getting transactions:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+// ==================== ROLES & AUDIT ====================
+
+// Set a user's role (stored in their Supabase app_metadata)
+router.put('/roles/:userId', requireRole('admin'), async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const { role } = req.body;
+
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({ success: false, error: `Role must be one of: ${ROLES.join(', ')}` });
+    }
+    // Keeps the last admin from locking everyone out
+    if (userId === req.userId) {
+      return res.status(400).json({ success: false, error: 'You cannot change your own role' });
+    }
+
+    const { data: existing, error: getError } = await supabase.auth.admin.getUserById(userId);
+    if (getError || !existing?.user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    const { data, error } = await supabase.auth.admin.updateUserById(userId, {
+      app_metadata: { ...existing.user.app_metadata, role }
+    });
+    if (error) throw error;
+
+    res.json({ success: true, data: { userId, email: data.user.email, role } });
+  } catch (error) {
+    console.error('Error setting role:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Recent /api/admin calls, newest first (?actorId= for one operator)
+router.get('/audit-log', requireRole('admin'), async (req, res) => {
+  try {
+    const { actorId, limit } = req.query;
+    const entries = await storageService.getAdminActions({
+      actorId: actorId || null,
+      limit: Math.min(parseInt(limit, 10) || 100, 500)
+    });
+    res.json({ success: true, data: entries });
+  } catch (error) {
+    console.error('Error getting audit log:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+export default router;
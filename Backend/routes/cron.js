@@ -0,0 +1,81 @@
+import express from 'express';
+import requestSweepService from '../services/requestSweepService.js';
+import fundingService from '../services/fundingService.js';
+import recurringRequestService from '../services/recurringRequestService.js';
+import withdrawalService from '../services/withdrawalService.js';
+import { validateCronSecret } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Expire, remind and escalate stale pending payment requests
+// GET so it can be triggered by Vercel Cron; POST for manual runs
+const sweepRequests = async (req, res) => {
+  try {
+    const summary = await requestSweepService.runSweep();
+    res.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Error sweeping payment requests:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+router.get('/sweep-requests', validateCronSecret, sweepRequests);
+router.post('/sweep-requests', validateCronSecret, sweepRequests);
+
+// Retry funding for approved requests whose backoff has elapsed
+const retryFunding = async (req, res) => {
+  try {
+    const summary = await fundingService.runRetries();
+    res.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Error retrying funding:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+router.get('/retry-funding', validateCronSecret, retryFunding);
+router.post('/retry-funding', validateCronSecret, retryFunding);
+
+// Check recorded funding state against Marqeta GPA orders
+const reconcileFunding = async (req, res) => {
+  try {
+    const summary = await fundingService.reconcile();
+    res.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Error reconciling funding:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+router.get('/reconcile-funding', validateCronSecret, reconcileFunding);
+router.post('/reconcile-funding', validateCronSecret, reconcileFunding);
+
+// Create payment requests from recurring templates that are due
+const runRecurringRequests = async (req, res) => {
+  try {
+    const summary = await recurringRequestService.runDue();
+    res.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Error running recurring requests:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+router.get('/recurring-requests', validateCronSecret, runRecurringRequests);
+router.post('/recurring-requests', validateCronSecret, runRecurringRequests);
+
+// Send refunds again for withdrawals whose refund to the wallet failed
+const retryWithdrawalRefunds = async (req, res) => {
+  try {
+    const summary = await withdrawalService.retryRefunds();
+    res.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Error retrying withdrawal refunds:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+router.get('/retry-refunds', validateCronSecret, retryWithdrawalRefunds);
+router.post('/retry-refunds', validateCronSecret, retryWithdrawalRefunds);
+
+export default router;
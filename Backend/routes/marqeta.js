@@ -1,193 +1,71 @@
 import express from 'express';
 import marqetaService from '../services/marqetaService.js';
 import storageService from '../services/storageService.js';
-import { validateToken, optionalAuth } from '../middleware/auth.js';
-import { v4 as uuidv4 } from 'uuid';
+import approvalPolicyService from '../services/approvalPolicyService.js';
+import approvalRulesService from '../services/approvalRulesService.js';
+import paymentRequestService from '../services/paymentRequestService.js';
+import jitFundingService from '../services/jitFundingService.js';
+import webhookService from '../services/webhookService.js';
+import simulationService, { SIMULATION_SCENARIOS } from '../services/simulationService.js';
+import requestAccessService from '../services/requestAccessService.js';
+import { validateToken, optionalAuth, validateJitGateway, validateMarqetaWebhook } from '../middleware/auth.js';
+import { idempotent } from '../middleware/idempotency.js';
+import { moneyLimiter, notifyLimiter, simulateLimiter } from '../middleware/rateLimit.js';
+import { validateBody } from '../middleware/validate.js';
+import {
+  createPaymentRequestBody,
+  resubmitPaymentRequestBody,
+  editPaymentRequestBody,
+  approveBody,
+  rejectBody,
+  cancelBody,
+  counterOfferBody,
+  counterOfferResponseBody,
+  simulateBody
+} from '@accountabills/contract/bodies/marqeta.js';
 
 const router = express.Router();
 
-// ==================== USERS (Direct Marqeta) ====================
-
-// Create a new Marqeta user
-router.post('/users', async (req, res) => {
-  try {
-    const user = await marqetaService.createUser(req.body);
-    res.json({ success: true, data: user });
-  } catch (error) {
-    console.error('Error creating user:', error.response?.data || error.message);
-    res.status(500).json({
-      success: false,
-      error: error.response?.data?.error_message || error.message
-    });
-  }
-});
-
-// List all Marqeta users
-router.get('/users', async (req, res) => {
-  try {
-    const users = await marqetaService.listUsers();
-    res.json({ success: true, data: users });
-  } catch (error) {
-    console.error('Error listing users:', error.response?.data || error.message);
-    res.status(500).json({
-      success: false,
-      error: error.response?.data?.error_message || error.message
-    });
-  }
-});
-
-// Get Marqeta user by token
-router.get('/users/:token', async (req, res) => {
-  try {
-    const user = await marqetaService.getUser(req.params.token);
-    res.json({ success: true, data: user });
-  } catch (error) {
-    console.error('Error getting user:', error.response?.data || error.message);
-    res.status(500).json({
-      success: false,
-      error: error.response?.data?.error_message || error.message
-    });
-  }
-});
-
-// ==================== CARDS ====================
-
-router.get('/card-products', async (req, res) => {
-  try {
-    const products = await marqetaService.listCardProducts();
-    res.json({ success: true, data: products });
-  } catch (error) {
-    console.error('Error listing card products:', error.response?.data || error.message);
-    res.status(500).json({
-      success: false,
-      error: error.response?.data?.error_message || error.message
-    });
-  }
-});
-
-router.post('/cards', async (req, res) => {
-  try {
-    const { userToken, cardProductToken } = req.body;
-    const card = await marqetaService.createCard(userToken, cardProductToken);
-    res.json({ success: true, data: card });
-  } catch (error) {
-    console.error('Error creating card:', error.response?.data || error.message);
-    res.status(500).json({
-      success: false,
-      error: error.response?.data?.error_message || error.message
-    });
-  }
-});
-
-router.get('/cards/user/:userToken', async (req, res) => {
-  try {
-    const cards = await marqetaService.getCardsForUser(req.params.userToken);
-    res.json({ success: true, data: cards });
-  } catch (error) {
-    console.error('Error getting cards:', error.response?.data || error.message);
-    res.status(500).json({
-      success: false,
-      error: error.response?.data?.error_message || error.message
-    });
-  }
-});
-
-// ==================== BALANCES & FUNDING ====================
-
-router.get('/balance/:userToken', async (req, res) => {
-  try {
-    const balance = await marqetaService.getGPABalance(req.params.userToken);
-    res.json({ success: true, data: balance });
-  } catch (error) {
-    console.error('Error getting balance:', error.response?.data || error.message);
-    res.status(500).json({
-      success: false,
-      error: error.response?.data?.error_message || error.message
-    });
-  }
-});
-
-router.post('/fund', async (req, res) => {
-  try {
-    const { userToken, amount, memo } = req.body;
-    const result = await marqetaService.fundGPA(userToken, amount, memo);
-    res.json({ success: true, data: result });
-  } catch (error) {
-    console.error('Error funding GPA:', error.response?.data || error.message);
-    res.status(500).json({
-      success: false,
-      error: error.response?.data?.error_message || error.message
-    });
-  }
-});
-
 // ==================== PAYMENT REQUESTS (Enhanced for AccountaBills) ====================
 
+// Append an event to the request's audit trail, acting as the authenticated user
+function recordEvent(req, requestId, type, data = {}) {
+  return storageService.recordPaymentRequestEvent({
+    requestId,
+    type,
+    actorId: req.userId,
+    actorName: req.user?.user_metadata?.name || req.userEmail,
+    data
+  });
+}
+
+// The authenticated user as the sender of a new payment request
+function senderFromRequest(req) {
+  return {
+    userId: req.userId,
+    email: req.userEmail,
+    name: req.user?.user_metadata?.name || req.userEmail
+  };
+}
+
 // Create a payment request
-router.post('/payment-requests', validateToken, async (req, res) => {
+router.post('/payment-requests', validateToken, notifyLimiter, validateBody(createPaymentRequestBody), async (req, res) => {
   try {
-    const { userId, userEmail, user } = req;
-    const {
-      amount,
-      description,
-      category,
-      imageUrl,
-      approvers // Array of { userId, name, email }
-    } = req.body;
-
-    if (!amount || amount <= 0) {
-      return res.status(400).json({ success: false, error: 'Amount must be greater than 0' });
-    }
-
-    if (!approvers || approvers.length === 0) {
-      return res.status(400).json({ success: false, error: 'At least one approver is required' });
-    }
-
-    const senderMarqetaToken = await storageService.getUserMarqetaToken(userId);
-    const senderName = user.user_metadata?.name || userEmail;
-
-    const requestId = uuidv4();
-    const paymentRequest = {
-      id: requestId,
-      senderId: userId,
-      senderEmail: userEmail,
-      senderName: senderName,
-      senderMarqetaToken: senderMarqetaToken,
-      amount: parseFloat(amount),
-      description: description || '',
-      category: category || 'Other',
-      imageUrl: imageUrl || null,
-      approvers: approvers.map(a => ({
-        userId: a.userId,
-        name: a.name,
-        email: a.email,
-        status: 'pending' // Each approver has their own status
-      })),
-      status: 'pending',
-      notes: null,
-      approvedBy: [],
-      rejectedBy: null,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    };
-
-    await storageService.createPaymentRequest(paymentRequest);
-
-    // Create notifications for approvers (using service role key - bypasses RLS)
-    for (const approver of approvers) {
-      // Don't notify the sender if they're in the approvers list
-      if (approver.userId !== userId) {
-        await storageService.createNotification({
-          userId: approver.userId,
-          type: 'approval_request',
-          title: 'New Approval Request',
-          message: `${senderName} submitted a $${parseFloat(amount).toFixed(2)} request for ${description || 'expense'}`,
-          requestId: requestId
-        });
+    // Requests started from a template that needs a receipt must include one
+    if (req.body.templateId) {
+      const template = await storageService.getRequestTemplate(req.body.templateId);
+      if (template?.userId === req.userId && template.receiptRequired && !req.body.imageUrl) {
+        return res.status(400).json({ success: false, error: `The "${template.name}" template requires a receipt photo` });
       }
     }
 
-    res.json({ success: true, data: paymentRequest });
+    const result = await paymentRequestService.submit(senderFromRequest(req), req.body);
+
+    if (result.error) {
+      return res.status(result.status).json({ success: false, error: result.error });
+    }
+
+    res.json({ success: true, data: result.paymentRequest });
   } catch (error) {
     console.error('Error creating payment request:', error.message);
     res.status(500).json({ success: false, error: error.message });
@@ -198,23 +76,23 @@ router.post('/payment-requests', validateToken, async (req, res) => {
 router.get('/payment-requests', validateToken, async (req, res) => {
   try {
     const { userId } = req;
-    const { filter } = req.query; // 'mine' | 'to-approve' | 'all'
+    const { filter } = req.query; // 'mine' | 'to-approve' | 'watching' | 'all'
 
-    let requests = await storageService.getAllPaymentRequests();
+    // Only ever requests the user can read - see requestAccessService
+    const { mine, toApprove, watching } = await requestAccessService.readableRequests(userId);
 
+    let requests;
     if (filter === 'mine') {
-      // Requests I submitted
-      requests = requests.filter(r => r.senderId === userId);
+      requests = mine;
     } else if (filter === 'to-approve') {
-      // Requests where I'm an approver
-      requests = requests.filter(r =>
-        r.approvers.some(a => a.userId === userId)
-      );
+      requests = toApprove;
+    } else if (filter === 'watching') {
+      requests = watching;
+    } else {
+      // A request can be in more than one list (e.g. the sender also listed as an approver)
+      const byId = new Map([...mine, ...toApprove, ...watching].map(r => [r.id, r]));
+      requests = [...byId.values()].sort((a, b) => new Date(b.createdAt) - new Date(a.createdAt));
     }
-    // 'all' or no filter returns all requests (for admin/debug)
-
-    // Sort by most recent first
-    requests.sort((a, b) => new Date(b.createdAt) - new Date(a.createdAt));
 
     res.json({ success: true, data: requests });
   } catch (error) {
@@ -226,12 +104,18 @@ router.get('/payment-requests', validateToken, async (req, res) => {
 // Get a single payment request
 router.get('/payment-requests/:id', validateToken, async (req, res) => {
   try {
+    const { userId } = req;
     const request = await storageService.getPaymentRequest(req.params.id);
 
-    if (!request) {
+    if (!request || !(await requestAccessService.canRead(userId, request))) {
       return res.status(404).json({ success: false, error: 'Payment request not found' });
     }
 
+    // Log the first time each person other than the sender opens the request
+    if (request.senderId !== userId && !(await storageService.hasPaymentRequestEvent(request.id, 'viewed', userId))) {
+      await recordEvent(req, request.id, 'viewed');
+    }
+
     res.json({ success: true, data: request });
   } catch (error) {
     console.error('Error getting payment request:', error.message);
@@ -239,11 +123,28 @@ router.get('/payment-requests/:id', validateToken, async (req, res) => {
   }
 });
 
+// Get the audit trail for a payment request, oldest first
+router.get('/payment-requests/:id/history', validateToken, async (req, res) => {
+  try {
+    const request = await storageService.getPaymentRequest(req.params.id);
+
+    if (!request || !(await requestAccessService.canRead(req.userId, request))) {
+      return res.status(404).json({ success: false, error: 'Payment request not found' });
+    }
+
+    const events = await storageService.getPaymentRequestEvents(req.params.id);
+    res.json({ success: true, data: events });
+  } catch (error) {
+    console.error('Error getting payment request history:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 // Approve a payment request
-router.post('/payment-requests/:id/approve', validateToken, async (req, res) => {
+router.post('/payment-requests/:id/approve', validateToken, moneyLimiter, validateBody(approveBody), idempotent, async (req, res) => {
   try {
     const { userId, user } = req;
-    const { notes } = req.body;
+    const { notes, amount } = req.body; // amount: optional, to approve less than was requested
 
     const paymentRequest = await storageService.getPaymentRequest(req.params.id);
 
@@ -269,54 +170,40 @@ router.post('/payment-requests/:id/approve', validateToken, async (req, res) =>
       return res.status(403).json({ success: false, error: 'You are not an approver for this request' });
     }
 
-    // Update approver status
-    paymentRequest.approvers[approverIndex].status = 'approved';
-    paymentRequest.approvers[approverIndex].approvedAt = new Date().toISOString();
-
-    // Add to approvedBy list
-    paymentRequest.approvedBy.push({
-      userId,
-      name: user.user_metadata?.name || userId,
-      approvedAt: new Date().toISOString()
-    });
+    if (paymentRequest.approvers[approverIndex].status !== 'pending') {
+      return res.status(400).json({ success: false, error: 'You have already reviewed this request' });
+    }
 
-    // Check if all approvers have approved
-    const allApproved = paymentRequest.approvers.every(a => a.status === 'approved');
-
-    if (allApproved && paymentRequest.senderMarqetaToken) {
-      // Fund the sender's GPA with the requested amount
-      try {
-        const fundResult = await marqetaService.fundGPA(
-          paymentRequest.senderMarqetaToken,
-          paymentRequest.amount,
-          `Approved: ${paymentRequest.description}`
-        );
-        paymentRequest.fundingResult = fundResult;
-      } catch (fundError) {
-        console.error('Error funding GPA:', fundError.message);
-        // Continue with approval even if funding fails
-        paymentRequest.fundingError = fundError.message;
-      }
+    const approvedAmount = amount ?? paymentRequest.amount;
+    if (approvedAmount > paymentRequest.amount) {
+      return res.status(400).json({
+        success: false,
+        error: `Approved amount must be no more than the requested $${paymentRequest.amount.toFixed(2)}. Send a counter-offer to propose more.`
+      });
     }
 
-    paymentRequest.status = allApproved ? 'approved' : 'pending';
+    const approverName = user.user_metadata?.name || user.email || 'Someone';
+    const outcome = paymentRequestService.applyApproval(paymentRequest, approverIndex, approvedAmount, approverName);
+    const isApproved = outcome === 'approved';
     paymentRequest.notes = notes || paymentRequest.notes;
-    paymentRequest.updatedAt = new Date().toISOString();
-
-    if (allApproved) {
-      paymentRequest.approvedAt = new Date().toISOString();
-    }
 
     await storageService.updatePaymentRequest(req.params.id, paymentRequest);
 
+    await recordEvent(req, req.params.id, 'approved', { outcome, amount: approvedAmount, notes: notes || null });
+
+    // Fund the sender's GPA with the approved amount
+    const result = isApproved ? await paymentRequestService.fundApprovedRequest(paymentRequest) : paymentRequest;
+
     // Notify the request submitter that their request was approved
-    const approverName = user.user_metadata?.name || user.email || 'Someone';
+    const isPartial = approvedAmount < paymentRequest.amount;
     try {
       await storageService.createNotification({
         userId: paymentRequest.senderId,
         type: 'request_reviewed',
-        title: 'Request Approved',
-        message: `${approverName} approved your $${paymentRequest.amount.toFixed(2)} request for ${paymentRequest.description}`,
+        title: isPartial ? 'Request Partially Approved' : 'Request Approved',
+        message: isPartial
+          ? `${approverName} approved $${approvedAmount.toFixed(2)} of your $${paymentRequest.amount.toFixed(2)} request for ${paymentRequest.description}`
+          : `${approverName} approved your $${paymentRequest.amount.toFixed(2)} request for ${paymentRequest.description}`,
         requestId: req.params.id
       });
     } catch (notifError) {
@@ -324,7 +211,7 @@ router.post('/payment-requests/:id/approve', validateToken, async (req, res) =>
       // Don't fail the request if notification fails
     }
 
-    res.json({ success: true, data: paymentRequest });
+    res.json({ success: true, data: result });
   } catch (error) {
     console.error('Error approving payment request:', error.response?.data || error.message);
     res.status(500).json({
@@ -335,7 +222,7 @@ router.post('/payment-requests/:id/approve', validateToken, async (req, res) =>
 });
 
 // Reject a payment request
-router.post('/payment-requests/:id/reject', validateToken, async (req, res) => {
+router.post('/payment-requests/:id/reject', validateToken, notifyLimiter, validateBody(rejectBody), async (req, res) => {
   try {
     const { userId, user } = req;
     const { notes } = req.body;
@@ -364,27 +251,46 @@ router.post('/payment-requests/:id/reject', validateToken, async (req, res) => {
       return res.status(403).json({ success: false, error: 'You are not an approver for this request' });
     }
 
-    // One rejection = whole request rejected
+    if (paymentRequest.approvers[approverIndex].status !== 'pending') {
+      return res.status(400).json({ success: false, error: 'You have already reviewed this request' });
+    }
+
     const rejecterName = user.user_metadata?.name || user.email || userId;
-    paymentRequest.status = 'rejected';
-    paymentRequest.rejectedBy = {
-      userId,
-      name: rejecterName,
-      rejectedAt: new Date().toISOString()
-    };
-    paymentRequest.notes = notes || null;
-    paymentRequest.rejectedAt = new Date().toISOString();
+    paymentRequest.approvers[approverIndex].status = 'rejected';
+    paymentRequest.approvers[approverIndex].rejectedAt = new Date().toISOString();
+
+    // The request is only rejected once its approval policy can no longer be satisfied
+    const outcome = approvalPolicyService.evaluate(paymentRequest);
+    const isRejected = outcome === 'rejected';
+
+    paymentRequest.status = outcome;
     paymentRequest.updatedAt = new Date().toISOString();
 
+    if (isRejected) {
+      paymentRequest.rejectedBy = {
+        userId,
+        name: rejecterName,
+        rejectedAt: new Date().toISOString()
+      };
+      paymentRequest.notes = notes || null;
+      paymentRequest.rejectedAt = new Date().toISOString();
+    } else {
+      paymentRequest.notes = notes || paymentRequest.notes;
+    }
+
     await storageService.updatePaymentRequest(req.params.id, paymentRequest);
 
+    await recordEvent(req, req.params.id, 'rejected', { outcome, notes: notes || null });
+
     // Notify the request submitter that their request was rejected
     try {
       await storageService.createNotification({
         userId: paymentRequest.senderId,
         type: 'request_reviewed',
-        title: 'Request Rejected',
-        message: `${rejecterName} rejected your $${paymentRequest.amount.toFixed(2)} request for ${paymentRequest.description}`,
+        title: isRejected ? 'Request Rejected' : 'Approver Declined',
+        message: isRejected
+          ? `${rejecterName} rejected your $${paymentRequest.amount.toFixed(2)} request for ${paymentRequest.description}`
+          : `${rejecterName} declined your $${paymentRequest.amount.toFixed(2)} request for ${paymentRequest.description}. It is still waiting on other approvers.`,
         requestId: req.params.id
       });
     } catch (notifError) {
@@ -399,32 +305,437 @@ router.post('/payment-requests/:id/reject', validateToken, async (req, res) => {
   }
 });
 
-// ==================== TRANSACTIONS & SIMULATIONS ====================
+// ==================== COUNTER-OFFERS ====================
 
-router.post('/simulate/authorization', async (req, res) => {
+// Propose a different amount (approver only). The sender can accept or decline it.
+router.post('/payment-requests/:id/counter-offer', validateToken, notifyLimiter, validateBody(counterOfferBody), async (req, res) => {
   try {
-    const { cardToken, amount, merchantName } = req.body;
-    const result = await marqetaService.simulateAuthorization(
-      cardToken,
-      parseFloat(amount),
-      merchantName || 'TEST_MERCHANT'
-    );
+    const { userId, user } = req;
+    const { amount, notes } = req.body;
+
+    const paymentRequest = await storageService.getPaymentRequest(req.params.id);
+
+    if (!paymentRequest) {
+      return res.status(404).json({ success: false, error: 'Payment request not found' });
+    }
+
+    if (paymentRequest.status !== 'pending') {
+      return res.status(400).json({ success: false, error: `Payment request is already ${paymentRequest.status}` });
+    }
+
+    const approver = paymentRequest.approvers.find(a => a.userId === userId);
+    if (!approver) {
+      return res.status(403).json({ success: false, error: 'You are not an approver for this request' });
+    }
+
+    if (approver.status !== 'pending') {
+      return res.status(400).json({ success: false, error: 'You have already reviewed this request' });
+    }
+
+    if (paymentRequest.counterOffer?.status === 'pending') {
+      return res.status(400).json({
+        success: false,
+        error: `${paymentRequest.counterOffer.approverName} already has a counter-offer waiting on the sender`
+      });
+    }
+
+    if (amount === paymentRequest.amount) {
+      return res.status(400).json({
+        success: false,
+        error: 'Counter-offer amount must be different from the requested amount'
+      });
+    }
+
+    const approverName = user.user_metadata?.name || user.email || userId;
+    const updated = await storageService.updatePaymentRequest(req.params.id, {
+      counterOffer: {
+        approverId: userId,
+        approverName,
+        amount,
+        notes: notes || null,
+        status: 'pending',
+        createdAt: new Date().toISOString()
+      }
+    });
+
+    await recordEvent(req, req.params.id, 'counter_offered', { amount, notes: notes || null });
+
+    try {
+      await storageService.createNotification({
+        userId: paymentRequest.senderId,
+        type: 'request_reviewed',
+        title: 'Counter-Offer Received',
+        message: `${approverName} offered $${amount.toFixed(2)} instead of $${paymentRequest.amount.toFixed(2)} for ${paymentRequest.description}`,
+        requestId: req.params.id
+      });
+    } catch (notifError) {
+      console.error('Error creating counter-offer notification:', notifError);
+    }
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Error creating counter-offer:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Accept or decline the open counter-offer (sender only).
+// Accepting counts as that approver approving the offered amount.
+router.post('/payment-requests/:id/counter-offer/:decision', validateToken, moneyLimiter, validateBody(counterOfferResponseBody), idempotent, async (req, res) => {
+  try {
+    const { userId } = req;
+    const { decision } = req.params;
+
+    if (!['accept', 'decline'].includes(decision)) {
+      return res.status(404).json({ success: false, error: 'Unknown counter-offer action. Use accept or decline.' });
+    }
+
+    const paymentRequest = await storageService.getPaymentRequest(req.params.id);
+
+    if (!paymentRequest) {
+      return res.status(404).json({ success: false, error: 'Payment request not found' });
+    }
+
+    if (paymentRequest.senderId !== userId) {
+      return res.status(403).json({ success: false, error: 'Only the sender can respond to a counter-offer' });
+    }
+
+    const offer = paymentRequest.counterOffer;
+    if (paymentRequest.status !== 'pending' || offer?.status !== 'pending') {
+      return res.status(400).json({ success: false, error: 'There is no open counter-offer on this request' });
+    }
+
+    const accepted = decision === 'accept';
+    paymentRequest.counterOffer = { ...offer, status: accepted ? 'accepted' : 'declined', respondedAt: new Date().toISOString() };
+
+    let outcome = 'pending';
+    const approverIndex = paymentRequest.approvers.findIndex(a => a.userId === offer.approverId);
+    if (accepted && approverIndex !== -1 && paymentRequest.approvers[approverIndex].status === 'pending') {
+      outcome = paymentRequestService.applyApproval(paymentRequest, approverIndex, offer.amount, offer.approverName);
+    }
+
+    await storageService.updatePaymentRequest(req.params.id, paymentRequest);
+
+    await recordEvent(req, req.params.id, accepted ? 'counter_offer_accepted' : 'counter_offer_declined', {
+      amount: offer.amount,
+      approverId: offer.approverId
+    });
+
+    let result = paymentRequest;
+    if (accepted) {
+      await storageService.recordPaymentRequestEvent({
+        requestId: req.params.id,
+        type: 'approved',
+        actorId: offer.approverId,
+        actorName: offer.approverName,
+        data: { outcome, amount: offer.amount, viaCounterOffer: true }
+      });
+
+      if (outcome === 'approved') {
+        result = await paymentRequestService.fundApprovedRequest(paymentRequest);
+      }
+    }
+
+    try {
+      await storageService.createNotification({
+        userId: offer.approverId,
+        type: 'request_reviewed',
+        title: accepted ? 'Counter-Offer Accepted' : 'Counter-Offer Declined',
+        message: `${paymentRequest.senderName} ${accepted ? 'accepted' : 'declined'} your $${offer.amount.toFixed(2)} counter-offer for ${paymentRequest.description}`,
+        requestId: req.params.id
+      });
+    } catch (notifError) {
+      console.error('Error creating counter-offer response notification:', notifError);
+    }
+
     res.json({ success: true, data: result });
   } catch (error) {
-    console.error('Error simulating authorization:', error.response?.data || error.message);
-    res.status(500).json({
-      success: false,
-      error: error.response?.data?.error_message || error.message
+    console.error('Error responding to counter-offer:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ==================== SENDER ACTIONS (cancel / edit / resubmit) ====================
+
+const EDITABLE_FIELDS = ['amount', 'description', 'category', 'imageUrl'];
+const RESUBMITTABLE_STATUSES = ['rejected', 'expired', 'cancelled'];
+
+// Cancel a pending request (sender only)
+router.post('/payment-requests/:id/cancel', validateToken, notifyLimiter, validateBody(cancelBody), async (req, res) => {
+  try {
+    const { userId } = req;
+    const { reason } = req.body;
+
+    const paymentRequest = await storageService.getPaymentRequest(req.params.id);
+
+    if (!paymentRequest) {
+      return res.status(404).json({ success: false, error: 'Payment request not found' });
+    }
+
+    if (paymentRequest.senderId !== userId) {
+      return res.status(403).json({ success: false, error: 'Only the sender can cancel this request' });
+    }
+
+    if (paymentRequest.status !== 'pending') {
+      return res.status(400).json({
+        success: false,
+        error: `Only pending requests can be cancelled (this one is ${paymentRequest.status})`
+      });
+    }
+
+    const updated = await storageService.updatePaymentRequest(req.params.id, {
+      status: 'cancelled',
+      cancelledAt: new Date().toISOString(),
+      notes: reason || paymentRequest.notes
+    });
+
+    await recordEvent(req, req.params.id, 'cancelled', { reason: reason || null });
+
+    // Let approvers who haven't acted know they no longer need to
+    for (const approver of paymentRequest.approvers) {
+      if (approver.userId !== userId && approver.status === 'pending') {
+        try {
+          await storageService.createNotification({
+            userId: approver.userId,
+            type: 'request_reviewed',
+            title: 'Request Cancelled',
+            message: `${paymentRequest.senderName} cancelled their $${paymentRequest.amount.toFixed(2)} request for ${paymentRequest.description}`,
+            requestId: req.params.id
+          });
+        } catch (notifError) {
+          console.error('Error creating cancellation notification:', notifError);
+        }
+      }
+    }
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Error cancelling payment request:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Edit a pending request (sender only, before anyone has approved)
+// Any edit resets approver decisions so everyone reviews the new version
+router.patch('/payment-requests/:id', validateToken, notifyLimiter, validateBody(editPaymentRequestBody), async (req, res) => {
+  try {
+    const { userId } = req;
+
+    const paymentRequest = await storageService.getPaymentRequest(req.params.id);
+
+    if (!paymentRequest) {
+      return res.status(404).json({ success: false, error: 'Payment request not found' });
+    }
+
+    if (paymentRequest.senderId !== userId) {
+      return res.status(403).json({ success: false, error: 'Only the sender can edit this request' });
+    }
+
+    if (paymentRequest.status !== 'pending') {
+      return res.status(400).json({
+        success: false,
+        error: `Only pending requests can be edited (this one is ${paymentRequest.status})`
+      });
+    }
+
+    if (paymentRequest.approvers.some(a => a.status === 'approved')) {
+      return res.status(400).json({
+        success: false,
+        error: 'This request can no longer be edited because an approver has already approved it. Cancel it and submit a new one instead.'
+      });
+    }
+
+    const changes = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (req.body[field] !== undefined && req.body[field] !== paymentRequest[field]) {
+        changes[field] = { from: paymentRequest[field], to: req.body[field] };
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ success: false, error: `Nothing to update. Editable fields: ${EDITABLE_FIELDS.join(', ')}` });
+    }
+
+    // An edit starts the wait over, so undo any escalation: the backup approver it added and the
+    // required_approver policy it switched to
+    let { approvers, approvalPolicy } = paymentRequest;
+    if (paymentRequest.escalatedAt && paymentRequest.preEscalation) {
+      const { approvalPolicy: previousPolicy, addedApproverId } = paymentRequest.preEscalation;
+      approvers = approvers.filter(a => a.userId !== addedApproverId);
+      approvalPolicy = previousPolicy;
+    }
+
+    const updates = {};
+    if (changes.amount) {
+      const { amount } = req.body;
+
+      // A new amount can land in a different approval band
+      const senderSettings = await storageService.getUserSettings(userId);
+      const rules = approvalRulesService.resolve(senderSettings, amount);
+      if (rules.minApprovers && approvers.length < rules.minApprovers) {
+        return res.status(400).json({
+          success: false,
+          error: `Requests of $${amount.toFixed(2)} need at least ${rules.minApprovers} approvers`
+        });
+      }
+      if (rules.policy) {
+        updates.approvalPolicy = approvalPolicyService.normalize(rules.policy);
+      }
+
+      updates.amount = amount;
+    }
+    if (changes.description) updates.description = req.body.description || '';
+    if (changes.category) updates.category = req.body.category || 'Other';
+    if (changes.imageUrl) updates.imageUrl = req.body.imageUrl || null;
+
+    const updated = await storageService.updatePaymentRequest(req.params.id, {
+      approvalPolicy,
+      ...updates,
+      approvers: approvers.map(({ approvedAt, rejectedAt, approvedAmount, ...a }) => ({ ...a, status: 'pending' })),
+      counterOffer: null,
+      // The sweep times reminders and escalation from editedAt
+      editedAt: new Date().toISOString(),
+      remindedAt: null,
+      escalatedAt: null,
+      preEscalation: null
+    });
+
+    await recordEvent(req, req.params.id, 'edited', { changes });
+
+    for (const approver of updated.approvers) {
+      if (approver.userId !== userId) {
+        try {
+          await storageService.createNotification({
+            userId: approver.userId,
+            type: 'approval_request',
+            title: 'Request Updated',
+            message: `${updated.senderName} updated their $${updated.amount.toFixed(2)} request for ${updated.description}. Please review it again.`,
+            requestId: req.params.id
+          });
+        } catch (notifError) {
+          console.error('Error creating edit notification:', notifError);
+        }
+      }
+    }
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Error editing payment request:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Resubmit a rejected, expired or cancelled request as a new request linked to the original
+// Body: any create fields to override (amount, description, category, imageUrl, approvers, ...)
+router.post('/payment-requests/:id/resubmit', validateToken, notifyLimiter, validateBody(resubmitPaymentRequestBody), async (req, res) => {
+  try {
+    const { userId } = req;
+
+    const original = await storageService.getPaymentRequest(req.params.id);
+
+    if (!original) {
+      return res.status(404).json({ success: false, error: 'Payment request not found' });
+    }
+
+    if (original.senderId !== userId) {
+      return res.status(403).json({ success: false, error: 'Only the sender can resubmit this request' });
+    }
+
+    if (!RESUBMITTABLE_STATUSES.includes(original.status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Only ${RESUBMITTABLE_STATUSES.join(', ')} requests can be resubmitted (this one is ${original.status})`
+      });
+    }
+
+    const result = await paymentRequestService.submit(senderFromRequest(req), {
+      amount: original.amount,
+      description: original.description,
+      category: original.category,
+      imageUrl: original.imageUrl,
+      approvers: original.approvers.map(({ userId, name, email }) => ({ userId, name, email })),
+      backupApprover: original.backupApprover,
+      ...req.body
+    }, { resubmittedFrom: original.id });
+
+    if (result.error) {
+      return res.status(result.status).json({ success: false, error: result.error });
+    }
+
+    await recordEvent(req, original.id, 'resubmitted', { resubmittedAs: result.paymentRequest.id });
+
+    res.json({ success: true, data: result.paymentRequest });
+  } catch (error) {
+    console.error('Error resubmitting payment request:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ==================== JIT FUNDING GATEWAY ====================
+
+// Called by Marqeta at authorization time when the card product uses JIT funding (FUNDING_MODE=jit).
+// Responds in Marqeta's gateway format: 200 approves, 402 with jit_funding.decline_reason declines.
+router.post('/jit', validateJitGateway, async (req, res) => {
+  try {
+    const { approved, jitFunding } = await jitFundingService.handle(req.body);
+    res.status(approved ? 200 : 402).json({ jit_funding: jitFunding });
+  } catch (error) {
+    // Decline rather than error out - Marqeta may stand in and approve on a 5xx
+    console.error('Error handling JIT funding request:', error.message);
+    const jitFunding = req.body?.gpa_order?.jit_funding || req.body?.jit_funding || {};
+    res.status(402).json({
+      jit_funding: { ...jitFunding, decline_reason: 'INSUFFICIENT_FUNDS', memo: 'Funding check failed' }
     });
   }
 });
 
-router.get('/transactions/:userToken', async (req, res) => {
+// ==================== WEBHOOKS ====================
+
+// Marqeta event notifications (transactions, GPA orders, card transitions). Events are stored and
+// deduped by token; a 500 makes Marqeta redeliver so failed events get another go.
+router.post('/webhooks', validateMarqetaWebhook, async (req, res) => {
   try {
-    const transactions = await marqetaService.getTransactions(req.params.userToken);
-    res.json({ success: true, data: transactions });
+    const summary = await webhookService.ingest(req.body);
+    res.status(summary.failed > 0 ? 500 : 200).json({ success: summary.failed === 0, data: summary });
+  } catch (error) {
+    console.error('Error ingesting Marqeta webhook:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ==================== SIMULATIONS ====================
+
+// Whether the simulation console is available (sandbox only) and what it can do
+router.get('/simulate', validateToken, simulateLimiter, (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      enabled: simulationService.isEnabled(),
+      scenarios: Object.entries(SIMULATION_SCENARIOS).map(([scenario, definition]) => ({ scenario, ...definition }))
+    }
+  });
+});
+
+// Simulate a card transaction on one of the user's own cards (sandbox only)
+// Body: { cardToken?, transactionToken?, amount?, merchantName?, mcc? } - see simulationService.run
+router.post('/simulate/:scenario', validateToken, simulateLimiter, validateBody(simulateBody), async (req, res) => {
+  try {
+    const { cardToken, transactionToken, amount, merchantName, mcc } = req.body;
+    const result = await simulationService.run(req.userId, req.params.scenario, {
+      cardToken,
+      transactionToken,
+      amount,
+      merchantName,
+      mcc
+    });
+
+    if (result.error) {
+      return res.status(result.status).json({ success: false, error: result.error });
+    }
+
+    res.json({ success: true, data: result.transaction });
   } catch (error) {
-    console.error('Error getting transactions:', error.response?.data || error.message);
+    console.error(`Error simulating ${req.params.scenario}:`, error.response?.data || error.message);
     res.status(500).json({
       success: false,
       error: error.response?.data?.error_message || error.message
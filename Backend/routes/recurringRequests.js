@@ -0,0 +1,289 @@
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import storageService from '../services/storageService.js';
+import approvalPolicyService, { DEFAULT_APPROVAL_POLICY } from '../services/approvalPolicyService.js';
+import recurringRequestService from '../services/recurringRequestService.js';
+import { validateToken } from '../middleware/auth.js';
+import { notifyLimiter } from '../middleware/rateLimit.js';
+import { validateBody } from '../middleware/validate.js';
+import { createRecurringRequestBody, updateRecurringRequestBody } from '@accountabills/contract/bodies/recurringRequests.js';
+
+const router = express.Router();
+
+// Changing any of these means the approvers are agreeing to something different
+const PRE_APPROVAL_FIELDS = ['amount', 'category', 'schedule', 'approvers', 'approvalPolicy'];
+
+// Validate the parts of a recurring request that are set on create and edit.
+// Returns an error message or null.
+function validateRecurringFields({ amount, approvers, approvalPolicy, schedule }) {
+  if (!amount || amount <= 0) {
+    return 'Amount must be greater than 0';
+  }
+
+  if (!approvers || approvers.length === 0) {
+    return 'At least one approver is required';
+  }
+
+  return approvalPolicyService.validate(approvalPolicy, approvers) || recurringRequestService.validateSchedule(schedule);
+}
+
+async function notifyApprovers(recurring, notification) {
+  for (const approver of recurring.approvers) {
+    if (approver.userId === recurring.senderId) continue;
+
+    try {
+      await storageService.createNotification({ ...notification, userId: approver.userId });
+    } catch (notifError) {
+      console.error('Error creating notification:', notifError);
+      // Don't fail the request if notification fails
+    }
+  }
+}
+
+function requestPreApproval(recurring) {
+  return notifyApprovers(recurring, {
+    type: 'approval_request',
+    title: 'Pre-Approval Requested',
+    message: `${recurring.senderName} wants to pre-approve a recurring $${recurring.amount.toFixed(2)} request for ${recurring.description || 'expense'}`
+  });
+}
+
+// List recurring requests the user sends or approves
+router.get('/', validateToken, async (req, res) => {
+  try {
+    const recurring = await storageService.getRecurringRequestsForUser(req.userId);
+    res.json({ success: true, data: recurring });
+  } catch (error) {
+    console.error('Error getting recurring requests:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Create a recurring request
+router.post('/', validateToken, notifyLimiter, validateBody(createRecurringRequestBody), async (req, res) => {
+  try {
+    const { userId, userEmail, user } = req;
+    const {
+      amount,
+      description,
+      category,
+      approvers, // Array of { userId, name, email }
+      approvalPolicy, // Optional { type, ... } - falls back to the sender's default policy
+      schedule, // { frequency: 'weekly' | 'monthly' | 'cron', ... }
+      preApprove // Ask the approvers to approve every run up front
+    } = req.body;
+
+    const settings = await storageService.getUserSettings(userId);
+    const policyConfig = approvalPolicy || settings.approvalPolicy || DEFAULT_APPROVAL_POLICY;
+
+    const validationError = validateRecurringFields({ amount, approvers, approvalPolicy: policyConfig, schedule });
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const normalizedSchedule = recurringRequestService.normalizeSchedule(schedule);
+    const cleanApprovers = approvers.map(({ userId, name, email }) => ({ userId, name, email }));
+
+    const recurring = await storageService.createRecurringRequest({
+      id: uuidv4(),
+      senderId: userId,
+      senderName: user.user_metadata?.name || userEmail,
+      senderEmail: userEmail,
+      amount: parseFloat(amount),
+      description: description || '',
+      category: category || 'Other',
+      approvers: cleanApprovers,
+      approvalPolicy: approvalPolicyService.normalize(policyConfig),
+      schedule: normalizedSchedule,
+      preApproval: preApprove ? recurringRequestService.pendingPreApproval(cleanApprovers) : null,
+      active: true,
+      nextRunAt: recurringRequestService.computeNextRun(normalizedSchedule).toISOString(),
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    });
+
+    if (recurring.preApproval) {
+      await requestPreApproval(recurring);
+    }
+
+    res.json({ success: true, data: recurring });
+  } catch (error) {
+    console.error('Error creating recurring request:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get a single recurring request
+router.get('/:id', validateToken, async (req, res) => {
+  try {
+    const recurring = await storageService.getRecurringRequest(req.params.id);
+
+    if (!recurring || (recurring.senderId !== req.userId && !recurring.approvers.some(a => a.userId === req.userId))) {
+      return res.status(404).json({ success: false, error: 'Recurring request not found' });
+    }
+
+    res.json({ success: true, data: recurring });
+  } catch (error) {
+    console.error('Error getting recurring request:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Edit, pause or resume a recurring request (sender only)
+// Changing the amount, category, schedule, approvers or policy sends a pre-approved template back
+// to its approvers
+router.patch('/:id', validateToken, notifyLimiter, validateBody(updateRecurringRequestBody), async (req, res) => {
+  try {
+    const recurring = await storageService.getRecurringRequest(req.params.id);
+
+    if (!recurring) {
+      return res.status(404).json({ success: false, error: 'Recurring request not found' });
+    }
+
+    if (recurring.senderId !== req.userId) {
+      return res.status(403).json({ success: false, error: 'Only the sender can edit a recurring request' });
+    }
+
+    const { amount, description, category, approvers, approvalPolicy, schedule, active, preApprove } = req.body;
+    const updates = {};
+
+    if (amount !== undefined) updates.amount = parseFloat(amount);
+    if (description !== undefined) updates.description = description;
+    if (category !== undefined) updates.category = category;
+    if (approvers !== undefined) updates.approvers = (approvers || []).map(({ userId, name, email }) => ({ userId, name, email }));
+    if (approvalPolicy !== undefined) updates.approvalPolicy = approvalPolicy;
+    if (schedule !== undefined) updates.schedule = schedule;
+    if (active !== undefined) updates.active = Boolean(active);
+
+    const merged = { ...recurring, ...updates };
+    const validationError = validateRecurringFields(merged);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    if (updates.approvalPolicy) {
+      updates.approvalPolicy = approvalPolicyService.normalize(updates.approvalPolicy);
+    }
+
+    // Reschedule from now when the schedule changes or a paused template is resumed
+    if (updates.schedule || (updates.active && !recurring.active)) {
+      updates.schedule = recurringRequestService.normalizeSchedule(merged.schedule);
+      updates.nextRunAt = recurringRequestService.computeNextRun(updates.schedule).toISOString();
+    }
+
+    const preApprovalChanged = PRE_APPROVAL_FIELDS.some(field => updates[field] !== undefined &&
+      JSON.stringify(updates[field]) !== JSON.stringify(recurring[field]));
+    const wantsPreApproval = preApprove !== undefined ? Boolean(preApprove) : Boolean(recurring.preApproval);
+
+    if (!wantsPreApproval) {
+      updates.preApproval = null;
+    } else if (!recurring.preApproval || preApprovalChanged) {
+      updates.preApproval = recurringRequestService.pendingPreApproval(merged.approvers);
+    }
+
+    const updated = await storageService.updateRecurringRequest(recurring.id, updates);
+
+    if (updates.preApproval) {
+      await requestPreApproval(updated);
+    }
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Error updating recurring request:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Delete a recurring request (sender only). Requests it already created are kept.
+router.delete('/:id', validateToken, async (req, res) => {
+  try {
+    const recurring = await storageService.getRecurringRequest(req.params.id);
+
+    if (!recurring) {
+      return res.status(404).json({ success: false, error: 'Recurring request not found' });
+    }
+
+    if (recurring.senderId !== req.userId) {
+      return res.status(403).json({ success: false, error: 'Only the sender can delete a recurring request' });
+    }
+
+    const deleted = await storageService.deleteRecurringRequest(recurring.id);
+    if (!deleted) {
+      return res.status(500).json({ success: false, error: 'Failed to delete recurring request' });
+    }
+
+    res.json({ success: true, data: { id: recurring.id } });
+  } catch (error) {
+    console.error('Error deleting recurring request:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Approve or reject a recurring request up front
+// decision: 'approve' | 'reject'
+router.post('/:id/pre-approval/:decision', validateToken, async (req, res) => {
+  try {
+    const { userId, userEmail, user } = req;
+    const { decision } = req.params;
+
+    if (!['approve', 'reject'].includes(decision)) {
+      return res.status(400).json({ success: false, error: 'Decision must be "approve" or "reject"' });
+    }
+
+    const recurring = await storageService.getRecurringRequest(req.params.id);
+
+    if (!recurring) {
+      return res.status(404).json({ success: false, error: 'Recurring request not found' });
+    }
+
+    if (!recurring.preApproval) {
+      return res.status(400).json({ success: false, error: 'This recurring request does not ask for pre-approval' });
+    }
+
+    const approverIndex = recurring.preApproval.approvers.findIndex(a => a.userId === userId);
+    if (approverIndex === -1) {
+      return res.status(403).json({ success: false, error: 'You are not an approver for this recurring request' });
+    }
+
+    if (recurring.preApproval.approvers[approverIndex].status !== 'pending') {
+      return res.status(400).json({ success: false, error: 'You have already responded to this pre-approval' });
+    }
+
+    if (recurring.preApproval.status !== 'pending') {
+      return res.status(400).json({ success: false, error: `Pre-approval has already been ${recurring.preApproval.status}` });
+    }
+
+    const outcome = recurringRequestService.applyPreApprovalDecision(
+      recurring,
+      approverIndex,
+      decision === 'approve' ? 'approved' : 'rejected'
+    );
+
+    const updated = await storageService.updateRecurringRequest(recurring.id, { preApproval: recurring.preApproval });
+
+    if (outcome !== 'pending') {
+      try {
+        const approverName = user.user_metadata?.name || userEmail;
+        await storageService.createNotification({
+          userId: recurring.senderId,
+          type: 'request_reviewed',
+          title: outcome === 'approved' ? 'Recurring Request Pre-Approved' : 'Pre-Approval Rejected',
+          message: outcome === 'approved'
+            ? `Your recurring $${recurring.amount.toFixed(2)} request for ${recurring.description || 'expense'} is pre-approved - future runs will be funded automatically`
+            : `${approverName} rejected pre-approval for your recurring $${recurring.amount.toFixed(2)} request for ${recurring.description || 'expense'} - each run will need a vote`,
+          approverId: userId
+        });
+      } catch (notifError) {
+        console.error('Error creating notification:', notifError);
+        // Don't fail the request if notification fails
+      }
+    }
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Error recording pre-approval:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+export default router;
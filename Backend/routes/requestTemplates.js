@@ -0,0 +1,186 @@
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import storageService from '../services/storageService.js';
+import approvalPolicyService from '../services/approvalPolicyService.js';
+import { validateToken } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { createRequestTemplateBody, updateRequestTemplateBody, templateFromRequestBody } from '@accountabills/contract/bodies/requestTemplates.js';
+
+const router = express.Router();
+
+// Validate the fields a template can be created or edited with. Returns an error message or null.
+function validateTemplateFields({ name, amount, approvers, approvalPolicy }) {
+  if (!name || !String(name).trim()) {
+    return 'Template name is required';
+  }
+
+  if (amount != null && !(amount > 0)) {
+    return 'Default amount must be greater than 0';
+  }
+
+  if (approvers != null && !Array.isArray(approvers)) {
+    return 'approvers must be an array';
+  }
+
+  if (approvers?.some(a => !a.userId)) {
+    return 'Every approver must include a userId';
+  }
+
+  if (approvalPolicy) {
+    return approvalPolicyService.validate(approvalPolicy, approvers?.length ? approvers : null);
+  }
+
+  return null;
+}
+
+const cleanApprovers = (approvers = []) => approvers.map(({ userId, name, email }) => ({ userId, name, email }));
+
+// List the user's templates
+router.get('/', validateToken, async (req, res) => {
+  try {
+    const templates = await storageService.getRequestTemplatesForUser(req.userId);
+    res.json({ success: true, data: templates });
+  } catch (error) {
+    console.error('Error getting request templates:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Create a template
+router.post('/', validateToken, validateBody(createRequestTemplateBody), async (req, res) => {
+  try {
+    const {
+      name,
+      amount, // Optional default amount
+      description,
+      category,
+      approvers, // Optional array of { userId, name, email }
+      groupId, // Optional approver group to preselect
+      approvalPolicy, // Optional { type, ... }
+      receiptRequired // Defaults to true
+    } = req.body;
+
+    const validationError = validateTemplateFields({ name, amount, approvers, approvalPolicy });
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const template = await storageService.createRequestTemplate({
+      id: uuidv4(),
+      userId: req.userId,
+      name: String(name).trim(),
+      amount: amount != null ? parseFloat(amount) : null,
+      description: description || '',
+      category: category || null,
+      approvers: cleanApprovers(approvers),
+      groupId: groupId || null,
+      approvalPolicy: approvalPolicy ? approvalPolicyService.normalize(approvalPolicy) : null,
+      receiptRequired: receiptRequired !== false,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    });
+
+    res.json({ success: true, data: template });
+  } catch (error) {
+    console.error('Error creating request template:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Save an existing payment request as a template (sender only)
+router.post('/from-request/:requestId', validateToken, validateBody(templateFromRequestBody), async (req, res) => {
+  try {
+    const request = await storageService.getPaymentRequest(req.params.requestId);
+
+    if (!request) {
+      return res.status(404).json({ success: false, error: 'Payment request not found' });
+    }
+
+    if (request.senderId !== req.userId) {
+      return res.status(403).json({ success: false, error: 'Only the sender can save a request as a template' });
+    }
+
+    const name = req.body.name || request.description || 'Untitled template';
+
+    const template = await storageService.createRequestTemplate({
+      id: uuidv4(),
+      userId: req.userId,
+      name: String(name).trim(),
+      amount: request.amount,
+      description: request.description,
+      category: request.category,
+      approvers: cleanApprovers(request.approvers),
+      groupId: null,
+      approvalPolicy: request.approvalPolicy,
+      receiptRequired: req.body.receiptRequired !== false,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    });
+
+    res.json({ success: true, data: template });
+  } catch (error) {
+    console.error('Error saving request as template:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Edit a template
+router.patch('/:id', validateToken, validateBody(updateRequestTemplateBody), async (req, res) => {
+  try {
+    const template = await storageService.getRequestTemplate(req.params.id);
+
+    if (!template || template.userId !== req.userId) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+
+    const { name, amount, description, category, approvers, groupId, approvalPolicy, receiptRequired } = req.body;
+    const updates = {};
+
+    if (name !== undefined) updates.name = String(name).trim();
+    if (amount !== undefined) updates.amount = amount != null ? parseFloat(amount) : null;
+    if (description !== undefined) updates.description = description;
+    if (category !== undefined) updates.category = category;
+    if (approvers !== undefined) updates.approvers = cleanApprovers(approvers || []);
+    if (groupId !== undefined) updates.groupId = groupId;
+    if (approvalPolicy !== undefined) updates.approvalPolicy = approvalPolicy;
+    if (receiptRequired !== undefined) updates.receiptRequired = Boolean(receiptRequired);
+
+    const validationError = validateTemplateFields({ ...template, ...updates });
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    if (updates.approvalPolicy) {
+      updates.approvalPolicy = approvalPolicyService.normalize(updates.approvalPolicy);
+    }
+
+    const updated = await storageService.updateRequestTemplate(template.id, updates);
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Error updating request template:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Delete a template
+router.delete('/:id', validateToken, async (req, res) => {
+  try {
+    const template = await storageService.getRequestTemplate(req.params.id);
+
+    if (!template || template.userId !== req.userId) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+
+    const deleted = await storageService.deleteRequestTemplate(template.id);
+    if (!deleted) {
+      return res.status(500).json({ success: false, error: 'Failed to delete template' });
+    }
+
+    res.json({ success: true, data: { id: template.id } });
+  } catch (error) {
+    console.error('Error deleting request template:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+export default router;
@@ -1,13 +1,37 @@
 import express from 'express';
 import marqetaService from '../services/marqetaService.js';
 import storageService from '../services/storageService.js';
+import approvalPolicyService from '../services/approvalPolicyService.js';
+import approvalRulesService from '../services/approvalRulesService.js';
+import spendControlService, { CATEGORY_MCC_GROUPS } from '../services/spendControlService.js';
+import cardService, { CARD_TRANSITIONS } from '../services/cardService.js';
+import cardRevealService from '../services/cardRevealService.js';
+import reconciliationService from '../services/reconciliationService.js';
+import bankAccountService from '../services/bankAccountService.js';
+import withdrawalService from '../services/withdrawalService.js';
+import fundingSourceService from '../services/fundingSourceService.js';
+import requestAccessService from '../services/requestAccessService.js';
 import { validateToken, supabase } from '../middleware/auth.js';
+import { idempotent } from '../middleware/idempotency.js';
+import { moneyLimiter, revealLimiter, cardLimiter, bankLimiter } from '../middleware/rateLimit.js';
+import { validateBody } from '../middleware/validate.js';
+import {
+  initializeBody,
+  addMoneyBody,
+  linkBankAccountBody,
+  verifyBankAccountBody,
+  withdrawBody,
+  revealCardBody,
+  issueRequestCardBody,
+  cardActionBody,
+  updateSettingsBody
+} from '@accountabills/contract/bodies/users.js';
 
 const router = express.Router();
 
 // Initialize user with Marqeta account
 // Called after Supabase signup to create corresponding Marqeta user
-router.post('/initialize', validateToken, async (req, res) => {
+router.post('/initialize', validateToken, validateBody(initializeBody), async (req, res) => {
   try {
     const { userId, userEmail, user } = req;
     const { firstName, lastName } = req.body;
@@ -145,6 +169,7 @@ router.get('/me', validateToken, async (req, res) => {
 //   - GET /api/users/card
 //   - GET /api/marqeta/payment-requests?filter=mine
 //   - GET /api/marqeta/payment-requests?filter=to-approve
+//   - GET /api/marqeta/payment-requests?filter=watching
 // ============================================================
 router.get('/boot', validateToken, async (req, res) => {
   try {
@@ -172,36 +197,17 @@ router.get('/boot', validateToken, async (req, res) => {
       
       // 3. Card
       (async () => {
-        try {
-          const cardsResponse = await marqetaService.getCardsForUser(marqetaToken);
-          const cards = cardsResponse.data || [];
-          if (cards.length === 0) return { hasCard: false, card: null };
-          
-          const activeCard = cards.find(c => c.state === 'ACTIVE') || cards[0];
-          const cardDetails = await marqetaService.getCardDetails(activeCard.token);
-          
-          return {
-            hasCard: true,
-            card: {
-              token: cardDetails.token,
-              pan: cardDetails.pan || null,
-              lastFour: cardDetails.last_four,
-              expiration: cardDetails.expiration,
-              expirationTime: cardDetails.expiration_time,
-              cvv: cardDetails.cvv_number || null,
-              state: cardDetails.state,
-              cardProductToken: cardDetails.card_product_token,
-              createdTime: cardDetails.created_time
-            }
-          };
-        } catch (err) {
-          if (err.response?.status === 404) return { hasCard: false, card: null };
-          throw err;
-        }
+        const cards = await cardService.listCards(userId, marqetaToken);
+        if (cards.length === 0) return { hasCard: false, card: null };
+
+        const currentCard = cardService.pickCurrentCard(cards);
+        const cardDetails = await marqetaService.getCardDetails(currentCard.token);
+        return { hasCard: true, card: cardService.toCardData(cardDetails, currentCard.metadata) };
       })(),
       
-      // 4. Payment requests (both mine and to-approve in single optimized query)
-      storageService.getUserPaymentRequests(userId)
+      // 4. Payment requests - mine, to approve and watching, through the same access rules as
+      //    GET /api/marqeta/payment-requests
+      requestAccessService.readableRequests(userId)
     ]);
 
     // Extract results, handling failures gracefully
@@ -219,7 +225,7 @@ router.get('/boot', validateToken, async (req, res) => {
     
     const requests = requestsResult.status === 'fulfilled'
       ? requestsResult.value
-      : { myRequests: [], toApprove: [] };
+      : { mine: [], toApprove: [], watching: [] };
 
     // Log any errors for debugging
     [balanceResult, transactionsResult, cardResult, requestsResult].forEach((result, i) => {
@@ -235,8 +241,9 @@ router.get('/boot', validateToken, async (req, res) => {
         balance,
         transactions,
         card,
-        myRequests: requests.myRequests,
-        requestsToApprove: requests.toApprove
+        myRequests: requests.mine,
+        requestsToApprove: requests.toApprove,
+        requestsWatching: requests.watching
       }
     });
   } catch (error) {
@@ -280,40 +287,37 @@ router.get('/balance', validateToken, async (req, res) => {
   }
 });
 
-// Add money to wallet (fund GPA)
-router.post('/wallet/add', validateToken, async (req, res) => {
+// Get the funding sources the user can add money from, with their bank accounts / partners
+router.get('/funding-sources', validateToken, async (req, res) => {
   try {
-    const { userId } = req;
-    const { amount, memo } = req.body;
-
-    if (!amount || amount <= 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Amount must be greater than 0'
-      });
-    }
-
-    const marqetaToken = await storageService.getUserMarqetaToken(userId);
+    const sources = await fundingSourceService.listForUser(req.userId);
+    res.json({ success: true, data: sources });
+  } catch (error) {
+    console.error('Error getting funding sources:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
 
-    if (!marqetaToken) {
-      return res.status(400).json({
-        success: false,
-        error: 'User not initialized with Marqeta'
-      });
+// Add money to wallet (fund GPA) from a funding source - 'program' when none is given
+router.post('/wallet/add', validateToken, moneyLimiter, validateBody(addMoneyBody), idempotent, async (req, res) => {
+  try {
+    const { amount, memo, source, sourceId } = req.body;
+    const user = {
+      userId: req.userId,
+      name: req.user.user_metadata?.name || req.userEmail || 'Someone'
+    };
+
+    const result = await fundingSourceService.addMoney(user, { amount, source, sourceId, memo }, req.idempotencyToken);
+    if (result.error) {
+      return res.status(result.status).json({ success: false, error: result.error });
     }
 
-    const result = await marqetaService.fundGPA(
-      marqetaToken,
-      parseFloat(amount),
-      memo || 'Added funds to wallet'
-    );
-
     res.json({
       success: true,
-      data: {
-        transaction: result,
-        newBalance: result.gpa?.available_balance
-      }
+      data: result
     });
   } catch (error) {
     console.error('Error adding money:', error.response?.data || error.message);
@@ -364,6 +368,96 @@ router.get('/transactions', validateToken, async (req, res) => {
   }
 });
 
+// ===== BANK ACCOUNT ENDPOINTS =====
+
+// Get the user's linked bank accounts (masked)
+router.get('/bank-accounts', validateToken, async (req, res) => {
+  try {
+    const accounts = await bankAccountService.list(req.userId);
+    res.json({ success: true, data: accounts });
+  } catch (error) {
+    console.error('Error getting bank accounts:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Link a bank account by routing and account number; sends two micro-deposits to verify it
+router.post('/bank-accounts', validateToken, bankLimiter, validateBody(linkBankAccountBody), async (req, res) => {
+  try {
+    const { holderName, routingNumber, accountNumber, accountType, nickname } = req.body;
+    const result = await bankAccountService.link(req.userId, { holderName, routingNumber, accountNumber, accountType, nickname });
+    if (result.error) {
+      return res.status(result.status).json({ success: false, error: result.error });
+    }
+
+    res.json({ success: true, data: result.account });
+  } catch (error) {
+    console.error('Error linking bank account:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Confirm the micro-deposit amounts
+router.post('/bank-accounts/:id/verify', validateToken, bankLimiter, validateBody(verifyBankAccountBody), async (req, res) => {
+  try {
+    const result = await bankAccountService.verify(req.userId, req.params.id, req.body.amounts);
+    if (result.error) {
+      return res.status(result.status).json({ success: false, error: result.error });
+    }
+
+    res.json({ success: true, data: result.account });
+  } catch (error) {
+    console.error('Error verifying bank account:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Unlink a bank account
+router.delete('/bank-accounts/:id', validateToken, async (req, res) => {
+  try {
+    const result = await bankAccountService.remove(req.userId, req.params.id);
+    if (result.error) {
+      return res.status(result.status).json({ success: false, error: result.error });
+    }
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error removing bank account:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Withdraw from the wallet to a verified bank account
+// speed 'instant' arrives right away and charges INSTANT_WITHDRAWAL_FEE_PERCENT on top
+router.post('/wallet/withdraw', validateToken, moneyLimiter, validateBody(withdrawBody), idempotent, async (req, res) => {
+  try {
+    const { amount, bankAccountId, speed } = req.body;
+    const result = await withdrawalService.withdraw(req.userId, { amount, bankAccountId, speed });
+    if (result.error) {
+      return res.status(result.status).json({ success: false, error: result.error });
+    }
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error withdrawing:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+// Get the user's withdrawals, newest first
+router.get('/withdrawals', validateToken, async (req, res) => {
+  try {
+    const withdrawals = await storageService.getWithdrawals(req.userId);
+    res.json({ success: true, data: withdrawals });
+  } catch (error) {
+    console.error('Error getting withdrawals:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 // ===== CARD ENDPOINTS =====
 
 // Get user's card(s)
@@ -380,18 +474,7 @@ router.get('/card', validateToken, async (req, res) => {
     }
 
     // Get user's cards
-    let cards = [];
-    try {
-      const cardsResponse = await marqetaService.getCardsForUser(marqetaToken);
-      cards = cardsResponse.data || [];
-    } catch (cardsError) {
-      // Handle "not found" as no cards
-      if (cardsError.response?.status === 404) {
-        cards = [];
-      } else {
-        throw cardsError;
-      }
-    }
+    const cards = await cardService.listCards(userId, marqetaToken);
 
     if (cards.length === 0) {
       return res.json({
@@ -403,25 +486,15 @@ router.get('/card', validateToken, async (req, res) => {
       });
     }
 
-    // Get the first active card with full details
-    const activeCard = cards.find(c => c.state === 'ACTIVE') || cards[0];
-    const cardDetails = await marqetaService.getCardDetails(activeCard.token);
+    // Get the main card (active, then frozen)
+    const currentCard = cardService.pickCurrentCard(cards);
+    const cardDetails = await marqetaService.getCardDetails(currentCard.token);
 
     res.json({
       success: true,
       data: {
         hasCard: true,
-        card: {
-          token: cardDetails.token,
-          pan: cardDetails.pan || null,
-          lastFour: cardDetails.last_four,
-          expiration: cardDetails.expiration,
-          expirationTime: cardDetails.expiration_time,
-          cvv: cardDetails.cvv_number || null,
-          state: cardDetails.state,
-          cardProductToken: cardDetails.card_product_token,
-          createdTime: cardDetails.created_time
-        }
+        card: cardService.toCardData(cardDetails, currentCard.metadata)
       }
     });
   } catch (error) {
@@ -434,7 +507,7 @@ router.get('/card', validateToken, async (req, res) => {
 });
 
 // Create a card for the user
-router.post('/card', validateToken, async (req, res) => {
+router.post('/card', validateToken, cardLimiter, async (req, res) => {
   try {
     const { userId } = req;
     const marqetaToken = await storageService.getUserMarqetaToken(userId);
@@ -446,35 +519,19 @@ router.post('/card', validateToken, async (req, res) => {
       });
     }
 
-    // Check if user already has a card
-    let existingCards = { data: [] };
-    try {
-      existingCards = await marqetaService.getCardsForUser(marqetaToken);
-    } catch (cardsError) {
-      if (cardsError.response?.status !== 404) {
-        throw cardsError;
-      }
-    }
-    
-    if (existingCards.data && existingCards.data.length > 0) {
-      const activeCard = existingCards.data.find(c => c.state === 'ACTIVE') || existingCards.data[0];
-      const cardDetails = await marqetaService.getCardDetails(activeCard.token);
-      
+    // Check if user already has a main card (terminated and request cards don't count)
+    const existingCards = (await cardService.listCards(userId, marqetaToken))
+      .filter(c => c.state !== 'TERMINATED' && c.metadata.purpose !== 'request');
+
+    if (existingCards.length > 0) {
+      const currentCard = cardService.pickCurrentCard(existingCards);
+      const cardDetails = await marqetaService.getCardDetails(currentCard.token);
+
       return res.json({
         success: true,
         data: {
           alreadyExists: true,
-          card: {
-            token: cardDetails.token,
-            pan: cardDetails.pan || null,
-            lastFour: cardDetails.last_four,
-            expiration: cardDetails.expiration,
-            expirationTime: cardDetails.expiration_time,
-            cvv: cardDetails.cvv_number || null,
-            state: cardDetails.state,
-            cardProductToken: cardDetails.card_product_token,
-            createdTime: cardDetails.created_time
-          }
+          card: cardService.toCardData(cardDetails, currentCard.metadata)
         }
       });
     }
@@ -493,22 +550,13 @@ router.post('/card', validateToken, async (req, res) => {
 
     // Create the card
     const newCard = await marqetaService.createCard(marqetaToken, cardProductToken);
+    await cardService.recordPrimaryCard(userId, newCard);
 
     res.json({
       success: true,
       data: {
         alreadyExists: false,
-        card: {
-          token: newCard.token,
-          pan: newCard.pan || null,
-          lastFour: newCard.last_four,
-          expiration: newCard.expiration,
-          expirationTime: newCard.expiration_time,
-          cvv: newCard.cvv_number || null,
-          state: newCard.state,
-          cardProductToken: newCard.card_product_token,
-          createdTime: newCard.created_time
-        }
+        card: cardService.toCardData(newCard)
       }
     });
   } catch (error) {
@@ -520,6 +568,260 @@ router.post('/card', validateToken, async (req, res) => {
   }
 });
 
+// List all of the user's cards (main card first, then request cards, newest first)
+router.get('/cards', validateToken, async (req, res) => {
+  try {
+    const marqetaToken = await storageService.getUserMarqetaToken(req.userId);
+    if (!marqetaToken) {
+      return res.status(400).json({ success: false, error: 'User not initialized with Marqeta' });
+    }
+
+    const cards = (await cardService.listCards(req.userId, marqetaToken))
+      .sort((a, b) => (a.metadata.purpose === 'request') - (b.metadata.purpose === 'request')
+        || new Date(b.created_time) - new Date(a.created_time));
+
+    res.json({ success: true, data: cards.map(card => cardService.toCardData(card)) });
+  } catch (error) {
+    console.error('Error listing cards:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+// Get one of the user's cards
+router.get('/cards/:token', validateToken, async (req, res) => {
+  try {
+    const marqetaToken = await storageService.getUserMarqetaToken(req.userId);
+    if (!marqetaToken) {
+      return res.status(400).json({ success: false, error: 'User not initialized with Marqeta' });
+    }
+
+    const card = (await cardService.listCards(req.userId, marqetaToken)).find(c => c.token === req.params.token);
+    if (!card) {
+      return res.status(404).json({ success: false, error: 'Card not found' });
+    }
+
+    const cardDetails = await marqetaService.getCardDetails(card.token);
+    res.json({ success: true, data: cardService.toCardData(cardDetails, card.metadata) });
+  } catch (error) {
+    console.error('Error getting card:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+// Start a card reveal: needs a recent sign-in, returns a one-time token for this card
+router.post('/cards/:token/reveal-token', validateToken, revealLimiter, async (req, res) => {
+  try {
+    const result = await cardRevealService.issueToken(req.user, req.params.token, req.authClaims);
+    if (result.error) {
+      return res.status(result.status).json({ success: false, error: result.error, code: result.code });
+    }
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error issuing card reveal token:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+// Exchange a reveal token for the card's full number and CVV (recorded in card_events)
+router.post('/cards/reveal', validateToken, revealLimiter, validateBody(revealCardBody), async (req, res) => {
+  try {
+    const { revealToken } = req.body;
+    const result = await cardRevealService.reveal(req.user, revealToken, {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    if (result.error) {
+      return res.status(result.status).json({ success: false, error: result.error });
+    }
+
+    res.set('Cache-Control', 'no-store');
+    res.json({ success: true, data: result.details });
+  } catch (error) {
+    console.error('Error revealing card:', error.response?.data?.error_message || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+const cardHolder = (req) => ({
+  userId: req.userId,
+  name: req.user.user_metadata?.name || req.userEmail || 'Someone'
+});
+
+// Issue a single-use card for an approved request, capped at the approved amount
+router.post('/cards', validateToken, cardLimiter, validateBody(issueRequestCardBody), async (req, res) => {
+  try {
+    const result = await cardService.issueRequestCard(cardHolder(req), req.body.requestId);
+    if (result.error) {
+      return res.status(result.status).json({ success: false, error: result.error });
+    }
+
+    res.json({ success: true, data: { card: result.card } });
+  } catch (error) {
+    console.error('Error issuing request card:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+// Card lifecycle history, newest first
+router.get('/card/history', validateToken, async (req, res) => {
+  try {
+    const events = await storageService.getCardEvents(req.userId);
+    res.json({ success: true, data: events });
+  } catch (error) {
+    console.error('Error getting card history:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Reissue the card with a new PAN (e.g. lost or stolen) and terminate the old one
+// Registered before /card/:action so "replace" isn't treated as a state change
+router.post('/card/replace', validateToken, cardLimiter, validateBody(cardActionBody), async (req, res) => {
+  try {
+    const { cardToken, reason } = req.body;
+    const result = await cardService.replace(cardHolder(req), { cardToken, reason });
+
+    if (result.error) {
+      return res.status(result.status).json({ success: false, error: result.error });
+    }
+
+    res.json({ success: true, data: { card: result.card } });
+  } catch (error) {
+    console.error('Error replacing card:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+// Freeze, unfreeze or terminate the card
+router.post('/card/:action', validateToken, cardLimiter, validateBody(cardActionBody), async (req, res) => {
+  try {
+    const { action } = req.params;
+    if (!CARD_TRANSITIONS[action]) {
+      return res.status(404).json({ success: false, error: `Unknown card action: ${action}` });
+    }
+
+    const { cardToken, reason } = req.body;
+    const result = await cardService.transition(cardHolder(req), action, { cardToken, reason });
+
+    if (result.error) {
+      return res.status(result.status).json({ success: false, error: result.error });
+    }
+
+    res.json({ success: true, data: { card: result.card } });
+  } catch (error) {
+    console.error(`Error changing card state (${req.params.action}):`, error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+// ===== SETTINGS ENDPOINTS =====
+
+// Get the current user's server-side settings
+router.get('/settings', validateToken, async (req, res) => {
+  try {
+    const settings = await storageService.getUserSettings(req.userId);
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    console.error('Error getting settings:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Update the current user's settings
+// Body: {
+//   approvalPolicy?: { type, ... } | null  - default policy for new requests
+//   approvalThreshold?: number | null      - requests below this are auto-approved
+//   approvalBands?: Array<{ minAmount, maxAmount?, minApprovers?, policy? }>
+//   backupApprover?: { userId, name, email } | null - receives stale requests on escalation
+//   allowPeerFunding?: boolean             - let partners add money from your wallet
+//   peerFundingLimit?: number              - ...up to this much in total per 30 days
+//   peerFundingUserIds?: string[]          - ...and only these partners
+// }
+router.put('/settings', validateToken, validateBody(updateSettingsBody), async (req, res) => {
+  try {
+    const { userId } = req;
+    const { approvalPolicy, approvalThreshold, approvalBands, backupApprover, allowPeerFunding, peerFundingLimit, peerFundingUserIds } = req.body;
+    const updates = {};
+
+    if (approvalPolicy !== undefined) {
+      if (approvalPolicy !== null) {
+        const policyError = approvalPolicyService.validate(approvalPolicy);
+        if (policyError) {
+          return res.status(400).json({ success: false, error: policyError });
+        }
+      }
+      updates.approvalPolicy = approvalPolicy && approvalPolicyService.normalize(approvalPolicy);
+    }
+
+    if (approvalThreshold !== undefined) {
+      const thresholdError = approvalRulesService.validateThreshold(approvalThreshold);
+      if (thresholdError) {
+        return res.status(400).json({ success: false, error: thresholdError });
+      }
+      updates.approvalThreshold = approvalThreshold;
+    }
+
+    if (approvalBands !== undefined) {
+      const bandsError = approvalRulesService.validateBands(approvalBands);
+      if (bandsError) {
+        return res.status(400).json({ success: false, error: bandsError });
+      }
+      updates.approvalBands = approvalRulesService.normalizeBands(approvalBands);
+    }
+
+    if (backupApprover !== undefined) {
+      if (backupApprover?.userId === userId) {
+        return res.status(400).json({ success: false, error: 'You cannot be your own backup approver' });
+      }
+      updates.backupApprover = backupApprover;
+    }
+
+    if (allowPeerFunding !== undefined) {
+      updates.allowPeerFunding = allowPeerFunding;
+    }
+
+    if (peerFundingLimit !== undefined) {
+      updates.peerFundingLimit = peerFundingLimit;
+    }
+
+    if (peerFundingUserIds !== undefined) {
+      const ids = [...new Set(peerFundingUserIds)];
+      const partners = await Promise.all(ids.map(id => storageService.isAccountabilityPartner(userId, id)));
+      if (partners.includes(false)) {
+        return res.status(400).json({ success: false, error: 'You can only allow top-ups for your own accountability partners' });
+      }
+      updates.peerFundingUserIds = ids;
+    }
+
+    const settings = await storageService.updateUserSettings(userId, updates);
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    console.error('Error updating settings:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 // Get Marqeta sandbox/funding status
 router.get('/funding-status', validateToken, async (req, res) => {
   try {
@@ -532,6 +834,7 @@ router.get('/funding-status', validateToken, async (req, res) => {
         isSandbox: status.isSandbox,
         unlimitedFunds: status.unlimitedFunds,
         fundingSource: status.fundingSource,
+        fundingSources: status.fundingSources,
         baseUrl: status.baseUrl,
         fundingInfo: status.fundingInfo,
         message: status.isSandbox 
@@ -548,4 +851,53 @@ router.get('/funding-status', validateToken, async (req, res) => {
   }
 });
 
+// Get per-category spending limits on the user's card (set from funded requests)
+router.get('/spend-controls', validateToken, async (req, res) => {
+  try {
+    const limits = await spendControlService.getLimitsForUser(req.userId);
+
+    res.json({
+      success: true,
+      data: {
+        limits,
+        restrictedCategories: Object.keys(CATEGORY_MCC_GROUPS)
+      }
+    });
+  } catch (error) {
+    console.error('Error getting spend controls:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
+// Card spend matched against approved requests, with over-spend, unspent and off-purpose flags
+// ?requestId=... returns one request, to anyone who can read it (see requestAccessService)
+router.get('/reconciliation', validateToken, async (req, res) => {
+  try {
+    const { userId } = req;
+    const { requestId } = req.query;
+
+    if (!requestId) {
+      const reconciliation = await reconciliationService.reconcileForSender(userId);
+      return res.json({ success: true, data: reconciliation });
+    }
+
+    const request = await storageService.getPaymentRequest(requestId);
+    if (!request || !(await requestAccessService.canRead(userId, request))) {
+      return res.status(404).json({ success: false, error: 'Payment request not found' });
+    }
+
+    const reconciliation = await reconciliationService.reconcileRequest(request);
+    res.json({ success: true, data: reconciliation });
+  } catch (error) {
+    console.error('Error reconciling spend:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: error.response?.data?.error_message || error.message
+    });
+  }
+});
+
 export default router;
@@ -0,0 +1,187 @@
+// Approval quorum policies for payment requests
+//
+// A policy looks at each approver's individual status ('pending' | 'approved' | 'rejected')
+// and decides whether the request as a whole is still pending, approved, or can no longer
+// be approved. Both the approve and reject routes go through evaluate() so the rules live
+// in one place.
+
+export const DEFAULT_APPROVAL_POLICY = { type: 'all' };
+
+function tally(approvers = []) {
+  return {
+    total: approvers.length,
+    approved: approvers.filter(a => a.status === 'approved').length,
+    rejected: approvers.filter(a => a.status === 'rejected').length,
+    pending: approvers.filter(a => !a.status || a.status === 'pending').length
+  };
+}
+
+// Approved once `required` approvers say yes, rejected once that is no longer reachable
+function evaluateQuorum(approvers, required) {
+  const counts = tally(approvers);
+  if (counts.approved >= required) return 'approved';
+  if (counts.approved + counts.pending < required) return 'rejected';
+  return 'pending';
+}
+
+// Every approver must approve; a single rejection kills the request
+class AllApproversPolicy {
+  static type = 'all';
+
+  validate(approvers) {
+    return null;
+  }
+
+  evaluate(approvers) {
+    const counts = tally(approvers);
+    if (counts.rejected > 0) return 'rejected';
+    if (counts.approved === counts.total) return 'approved';
+    return 'pending';
+  }
+
+  toJSON() {
+    return { type: AllApproversPolicy.type };
+  }
+}
+
+// The first approval is enough; rejected only when everyone has rejected
+class AnyApproverPolicy {
+  static type = 'any';
+
+  validate(approvers) {
+    return null;
+  }
+
+  evaluate(approvers) {
+    return evaluateQuorum(approvers, 1);
+  }
+
+  toJSON() {
+    return { type: AnyApproverPolicy.type };
+  }
+}
+
+// At least `required` of the listed approvers must approve
+class NOfMPolicy {
+  static type = 'n_of_m';
+
+  constructor(config) {
+    this.required = parseInt(config.required, 10);
+  }
+
+  validate(approvers) {
+    if (!Number.isInteger(this.required) || this.required < 1) {
+      return 'N-of-M policy requires a positive "required" count';
+    }
+    if (approvers && this.required > approvers.length) {
+      return `N-of-M policy requires ${this.required} approvals but only ${approvers.length} approver(s) were listed`;
+    }
+    return null;
+  }
+
+  evaluate(approvers) {
+    return evaluateQuorum(approvers, this.required);
+  }
+
+  toJSON() {
+    return { type: NOfMPolicy.type, required: this.required };
+  }
+}
+
+// More than half of the listed approvers must approve
+class MajorityPolicy {
+  static type = 'majority';
+
+  validate(approvers) {
+    return null;
+  }
+
+  evaluate(approvers) {
+    return evaluateQuorum(approvers, Math.floor(approvers.length / 2) + 1);
+  }
+
+  toJSON() {
+    return { type: MajorityPolicy.type };
+  }
+}
+
+// A named approver must approve, and the base policy (everyone, by default) must also be met.
+// Their approval is necessary but not enough on its own unless the base is "any".
+class RequiredApproverPolicy {
+  static type = 'required_approver';
+
+  constructor(config) {
+    this.approverId = config.approverId;
+    this.base = config.base;
+  }
+
+  // The base can be any policy except another required approver
+  resolveBase() {
+    const Policy = BASE_POLICIES.get(this.base?.type) || AllApproversPolicy;
+    return new Policy(this.base || DEFAULT_APPROVAL_POLICY);
+  }
+
+  validate(approvers) {
+    if (!this.approverId) {
+      return 'Required-approver policy needs an approverId';
+    }
+    if (approvers && !approvers.some(a => a.userId === this.approverId)) {
+      return 'The required approver must be one of the listed approvers';
+    }
+    if (this.base?.type && !BASE_POLICIES.has(this.base.type)) {
+      return `A required approver's base policy must be one of: ${Array.from(BASE_POLICIES.keys()).join(', ')}`;
+    }
+    return this.resolveBase().validate(approvers);
+  }
+
+  evaluate(approvers) {
+    const required = approvers.find(a => a.userId === this.approverId);
+    if (!required || required.status === 'rejected') return 'rejected';
+
+    const base = this.resolveBase().evaluate(approvers);
+    if (base === 'rejected') return 'rejected';
+    if (required.status === 'approved' && base === 'approved') return 'approved';
+    return 'pending';
+  }
+
+  toJSON() {
+    return { type: RequiredApproverPolicy.type, approverId: this.approverId, base: this.resolveBase().toJSON() };
+  }
+}
+
+const BASE_POLICIES = new Map([AllApproversPolicy, AnyApproverPolicy, NOfMPolicy, MajorityPolicy].map(Policy => [Policy.type, Policy]));
+const POLICIES = [...BASE_POLICIES.values(), RequiredApproverPolicy];
+
+class ApprovalPolicyService {
+  constructor() {
+    this.policies = new Map(POLICIES.map(Policy => [Policy.type, Policy]));
+  }
+
+  // Build a policy instance from its stored config (falls back to "all approvers")
+  resolve(config) {
+    const Policy = this.policies.get(config?.type) || AllApproversPolicy;
+    return new Policy(config || DEFAULT_APPROVAL_POLICY);
+  }
+
+  // Returns an error message, or null if the config is usable with these approvers.
+  // Pass approvers = null to check a default policy before any approvers are chosen.
+  validate(config, approvers = null) {
+    if (config?.type && !this.policies.has(config.type)) {
+      return `Unknown approval policy "${config.type}". Expected one of: ${Array.from(this.policies.keys()).join(', ')}`;
+    }
+    return this.resolve(config).validate(approvers);
+  }
+
+  // Strip unknown fields so only the policy's own settings get persisted
+  normalize(config) {
+    return this.resolve(config).toJSON();
+  }
+
+  // 'approved' | 'rejected' | 'pending' for the request's current approver statuses
+  evaluate(paymentRequest) {
+    return this.resolve(paymentRequest.approvalPolicy).evaluate(paymentRequest.approvers || []);
+  }
+}
+
+const approvalPolicyService = new ApprovalPolicyService();
+export default approvalPolicyService;
@@ -0,0 +1,96 @@
+import approvalPolicyService from './approvalPolicyService.js';
+
+// Amount-tiered approval rules
+//
+// Each user can store an approval threshold and a list of amount bands in user_settings:
+//   - amounts below approvalThreshold are auto-approved and funded immediately
+//   - amounts at or above it use the first band whose [minAmount, maxAmount) range matches,
+//     which can require a minimum number of approvers and/or enforce a stricter policy
+//
+// Band shape: { minAmount: number, maxAmount?: number | null, minApprovers?: number, policy?: { type, ... } }
+
+class ApprovalRulesService {
+  // Returns an error message, or null if the threshold is usable
+  validateThreshold(threshold) {
+    if (threshold === null) return null;
+    if (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold < 0) {
+      return 'Approval threshold must be a number greater than or equal to 0';
+    }
+    return null;
+  }
+
+  // Returns an error message, or null if the bands are usable
+  validateBands(bands) {
+    if (!Array.isArray(bands)) {
+      return 'Approval bands must be an array';
+    }
+
+    for (const [i, band] of bands.entries()) {
+      const label = `Band ${i + 1}`;
+      if (typeof band?.minAmount !== 'number' || band.minAmount < 0) {
+        return `${label}: minAmount must be a number greater than or equal to 0`;
+      }
+      if (band.maxAmount != null && (typeof band.maxAmount !== 'number' || band.maxAmount <= band.minAmount)) {
+        return `${label}: maxAmount must be greater than minAmount`;
+      }
+      if (band.minApprovers != null && (!Number.isInteger(band.minApprovers) || band.minApprovers < 1)) {
+        return `${label}: minApprovers must be a positive whole number`;
+      }
+      if (band.policy) {
+        const policyError = approvalPolicyService.validate(band.policy);
+        if (policyError) return `${label}: ${policyError}`;
+      }
+    }
+
+    const sorted = this.sortBands(bands);
+    for (let i = 1; i < sorted.length; i++) {
+      const previous = sorted[i - 1];
+      if (previous.maxAmount == null || sorted[i].minAmount < previous.maxAmount) {
+        return 'Approval bands must not overlap';
+      }
+    }
+
+    return null;
+  }
+
+  // Sort by minAmount and keep only the fields we persist
+  normalizeBands(bands) {
+    return this.sortBands(bands).map(band => ({
+      minAmount: band.minAmount,
+      maxAmount: band.maxAmount ?? null,
+      minApprovers: band.minApprovers ?? null,
+      policy: band.policy ? approvalPolicyService.normalize(band.policy) : null
+    }));
+  }
+
+  sortBands(bands) {
+    return [...bands].sort((a, b) => a.minAmount - b.minAmount);
+  }
+
+  findBand(bands = [], amount) {
+    return bands.find(band =>
+      amount >= band.minAmount && (band.maxAmount == null || amount < band.maxAmount)
+    ) || null;
+  }
+
+  /**
+   * Work out which rules apply to a new request of `amount` for a user with `settings`
+   * Returns { autoApprove, minApprovers, policy } - policy is null when no band enforces one
+   */
+  resolve(settings, amount) {
+    const threshold = settings?.approvalThreshold;
+    if (threshold != null && amount < threshold) {
+      return { autoApprove: true, minApprovers: null, policy: null };
+    }
+
+    const band = this.findBand(settings?.approvalBands, amount);
+    return {
+      autoApprove: false,
+      minApprovers: band?.minApprovers || null,
+      policy: band?.policy || null
+    };
+  }
+}
+
+const approvalRulesService = new ApprovalRulesService();
+export default approvalRulesService;
@@ -0,0 +1,159 @@
+import storageService from './storageService.js';
+import bankRail from './bankRails.js';
+
+const ACCOUNT_TYPES = ['checking', 'savings'];
+const MAX_VERIFICATION_ATTEMPTS = 3;
+
+// ABA routing numbers carry a weighted checksum (3, 7, 1 repeating) that must be a multiple of 10
+function isValidRoutingNumber(routingNumber) {
+  if (!/^\d{9}$/.test(routingNumber)) return false;
+  const weights = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+  const sum = routingNumber.split('').reduce((total, digit, i) => total + Number(digit) * weights[i], 0);
+  return sum % 10 === 0;
+}
+
+const sameAmounts = (expected, given) => {
+  const cents = (amounts) => amounts.map(a => Math.round(Number(a) * 100)).sort((a, b) => a - b);
+  const [a, b] = [cents(expected), cents(given)];
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+};
+
+// Linked bank accounts
+//
+// Linking sends the account details to the bank rail (see bankRails.js), which keeps the full
+// number; we only store the routing number, the last four digits and the provider's id. Two
+// micro-deposits are sent straight away, and the account can't receive withdrawals until the
+// user confirms both amounts. After MAX_VERIFICATION_ATTEMPTS wrong guesses it has to be
+// linked again.
+class BankAccountService {
+  // Account shape returned to the frontend
+  toBankAccountData(account) {
+    return {
+      id: account.id,
+      nickname: account.nickname,
+      holderName: account.holderName,
+      accountType: account.accountType,
+      routingNumber: account.routingNumber,
+      lastFour: account.accountLastFour,
+      status: account.status,
+      verificationAttemptsLeft: Math.max(0, MAX_VERIFICATION_ATTEMPTS - account.verificationAttempts),
+      verifiedAt: account.verifiedAt,
+      createdAt: account.createdAt
+    };
+  }
+
+  async list(userId) {
+    const accounts = await storageService.getBankAccounts(userId);
+    return accounts.map(account => this.toBankAccountData(account));
+  }
+
+  /**
+   * Link a bank account and send its micro-deposits
+   *   details: holderName, routingNumber, accountNumber, accountType, nickname?
+   * Returns { account } or { status, error }. With the fake rail, account.sandboxMicroDeposits
+   * holds the amounts so they can be entered without a bank statement.
+   */
+  async link(userId, details) {
+    const holderName = details.holderName?.trim();
+    const routingNumber = String(details.routingNumber || '').replace(/\s/g, '');
+    const accountNumber = String(details.accountNumber || '').replace(/\s/g, '');
+    const accountType = details.accountType || 'checking';
+
+    if (!holderName) {
+      return { status: 400, error: 'Account holder name is required' };
+    }
+    if (!isValidRoutingNumber(routingNumber)) {
+      return { status: 400, error: 'Routing number must be a valid 9-digit ABA routing number' };
+    }
+    if (!/^\d{4,17}$/.test(accountNumber)) {
+      return { status: 400, error: 'Account number must be 4 to 17 digits' };
+    }
+    if (!ACCOUNT_TYPES.includes(accountType)) {
+      return { status: 400, error: `Account type must be one of: ${ACCOUNT_TYPES.join(', ')}` };
+    }
+
+    const accountLastFour = accountNumber.slice(-4);
+    const existing = await storageService.getBankAccounts(userId);
+    if (existing.some(a => a.routingNumber === routingNumber && a.accountLastFour === accountLastFour)) {
+      return { status: 409, error: 'This bank account is already linked' };
+    }
+
+    const { providerAccountId } = await bankRail.linkAccount({ holderName, routingNumber, accountNumber, accountType });
+    const { amounts } = await bankRail.sendMicroDeposits(providerAccountId);
+
+    const account = await storageService.createBankAccount({
+      userId,
+      nickname: details.nickname?.trim() || null,
+      holderName,
+      accountType,
+      routingNumber,
+      accountLastFour,
+      provider: bankRail.name,
+      providerAccountId,
+      microDepositAmounts: amounts
+    });
+
+    return {
+      account: {
+        ...this.toBankAccountData(account),
+        ...(bankRail.isFake && { sandboxMicroDeposits: amounts })
+      }
+    };
+  }
+
+  /**
+   * Confirm the two micro-deposit amounts (in dollars, any order)
+   * Returns { account } or { status, error }
+   */
+  async verify(userId, accountId, amounts) {
+    const account = await storageService.getBankAccount(accountId);
+    if (!account || account.userId !== userId || account.status === 'removed') {
+      return { status: 404, error: 'Bank account not found' };
+    }
+    if (account.status === 'verified') {
+      return { account: this.toBankAccountData(account) };
+    }
+    if (account.status !== 'pending_verification') {
+      return { status: 409, error: 'Too many wrong attempts - remove this account and link it again' };
+    }
+    if (!Array.isArray(amounts) || amounts.length !== 2) {
+      return { status: 400, error: 'Enter both micro-deposit amounts' };
+    }
+
+    if (sameAmounts(account.microDepositAmounts, amounts)) {
+      const verified = await storageService.updateBankAccount(account.id, {
+        status: 'verified',
+        verifiedAt: new Date().toISOString()
+      });
+      return { account: this.toBankAccountData(verified) };
+    }
+
+    const attempts = account.verificationAttempts + 1;
+    const updated = await storageService.updateBankAccount(account.id, {
+      verificationAttempts: attempts,
+      ...(attempts >= MAX_VERIFICATION_ATTEMPTS && { status: 'verification_failed' })
+    });
+
+    const attemptsLeft = this.toBankAccountData(updated).verificationAttemptsLeft;
+    return {
+      status: 400,
+      error: attemptsLeft > 0
+        ? `Those amounts don't match. ${attemptsLeft} ${attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`
+        : 'Those amounts don\'t match. Remove this account and link it again.'
+    };
+  }
+
+  // Unlinked accounts are kept (marked removed) so past withdrawals still point somewhere
+  async remove(userId, accountId) {
+    const account = await storageService.getBankAccount(accountId);
+    if (!account || account.userId !== userId || account.status === 'removed') {
+      return { status: 404, error: 'Bank account not found' };
+    }
+
+    await storageService.updateBankAccount(account.id, { status: 'removed' });
+    return { removed: true };
+  }
+}
+
+const bankAccountService = new BankAccountService();
+export default bankAccountService;
@@ -0,0 +1,77 @@
+import { createHash, randomInt } from 'crypto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bank rail providers - how micro-deposits and withdrawals reach a user's bank
+//
+// A provider implements:
+//   isFake                                   - true when no real money moves
+//   linkAccount({ holderName, routingNumber, accountNumber, accountType })
+//     -> { providerAccountId }               - the provider keeps the full account number, we don't
+//   sendMicroDeposits(providerAccountId)     -> { amounts: [number, number] }
+//   sendTransfer(providerAccountId, { amount, speed, reference })
+//     -> { providerTransferId, status, expectedArrivalAt }
+//        speed is 'standard' or 'instant'; status is 'completed' or 'processing'
+//   pullTransfer(providerAccountId, { amount, reference })
+//     -> { providerTransferId, status }      - ACH debit from the user's bank (adding money)
+// Pick one with BANK_RAIL_PROVIDER. Only 'fake' exists so far.
+
+// Local stand-in for a real rail. Nothing leaves the server: account ids are derived from the
+// account details, micro-deposits are random cents, and transfers succeed unless the account
+// number ends in 0000 (for testing failed withdrawals and top-ups). Pulls settle immediately.
+class FakeBankRail {
+  constructor() {
+    this.name = 'fake';
+    this.isFake = true;
+  }
+
+  async linkAccount({ routingNumber, accountNumber }) {
+    const digest = createHash('sha256').update(`${routingNumber}:${accountNumber}`).digest('hex');
+    // The failure trigger has to survive in the id because the account number isn't kept
+    const failing = accountNumber.endsWith('0000') ? 'fail_' : '';
+    return { providerAccountId: `fake_${failing}${digest.slice(0, 24)}` };
+  }
+
+  async sendMicroDeposits(providerAccountId) {
+    const amounts = [randomInt(1, 100) / 100, randomInt(1, 100) / 100];
+    console.log(`[BankRail:fake] Micro-deposits to ${providerAccountId}: ${amounts.join(', ')}`);
+    return { amounts };
+  }
+
+  async sendTransfer(providerAccountId, { amount, speed, reference }) {
+    if (providerAccountId.startsWith('fake_fail_')) {
+      throw new Error('The receiving bank rejected the transfer');
+    }
+
+    console.log(`[BankRail:fake] ${speed} transfer of $${amount.toFixed(2)} to ${providerAccountId} (${reference})`);
+    return {
+      providerTransferId: `fake_tr_${reference}`,
+      status: speed === 'instant' ? 'completed' : 'processing',
+      expectedArrivalAt: new Date(Date.now() + (speed === 'instant' ? 0 : 3 * DAY_MS)).toISOString()
+    };
+  }
+
+  async pullTransfer(providerAccountId, { amount, reference }) {
+    if (providerAccountId.startsWith('fake_fail_')) {
+      throw new Error('The bank declined the debit');
+    }
+
+    console.log(`[BankRail:fake] Pull of $${amount.toFixed(2)} from ${providerAccountId} (${reference})`);
+    return { providerTransferId: `fake_pull_${reference}`, status: 'completed' };
+  }
+}
+
+const PROVIDERS = {
+  fake: FakeBankRail
+};
+
+export function createBankRail(name = process.env.BANK_RAIL_PROVIDER || 'fake') {
+  const Provider = PROVIDERS[name];
+  if (!Provider) {
+    throw new Error(`Unknown BANK_RAIL_PROVIDER: ${name}`);
+  }
+  return new Provider();
+}
+
+const bankRail = createBankRail();
+export default bankRail;
@@ -0,0 +1,110 @@
+import { createHash, randomBytes } from 'crypto';
+import storageService from './storageService.js';
+import marqetaService from './marqetaService.js';
+import cardService from './cardService.js';
+
+const hashToken = (token) => createHash('sha256').update(token).digest('hex');
+
+// Showing a card's full number and CVV
+//
+// Card responses never include the PAN or CVV. To see them the cardholder:
+//   1. signs in again - the session they're calling with must have authenticated within
+//      CARD_REVEAL_REAUTH_SECONDS
+//   2. gets a one-time reveal token for one card, valid for CARD_REVEAL_TOKEN_SECONDS
+//   3. exchanges the token for the details, which records a 'reveal' entry in card_events
+// Only a hash of the token is stored. The details are fetched from Marqeta on the exchange and
+// never stored on our side.
+class CardRevealService {
+  constructor() {
+    this.reauthSeconds = parseInt(process.env.CARD_REVEAL_REAUTH_SECONDS || '300', 10);
+    this.tokenSeconds = parseInt(process.env.CARD_REVEAL_TOKEN_SECONDS || '60', 10);
+  }
+
+  // claims are the bearer token's (req.authClaims). Its amr entries say when this session last
+  // proved who the user is - refreshing the token keeps them, signing in again adds one. The
+  // account-wide last_sign_in_at won't do: a sign-in on any other device would count.
+  recentlyAuthenticated(claims) {
+    const times = (claims?.amr || []).map(m => m.timestamp).filter(Number.isFinite);
+    const authenticatedAt = times.length ? Math.max(...times) * 1000 : 0;
+    return Date.now() - authenticatedAt <= this.reauthSeconds * 1000;
+  }
+
+  /**
+   * Issue a one-time token for revealing one of the user's cards
+   *   claims: the bearer token's claims (req.authClaims)
+   * Returns { revealToken, expiresAt } or { status, error, code }
+   */
+  async issueToken(user, cardToken, claims) {
+    if (!this.recentlyAuthenticated(claims)) {
+      return { status: 403, code: 'REAUTH_REQUIRED', error: 'Please confirm your password to view card details' };
+    }
+
+    const marqetaToken = await storageService.getUserMarqetaToken(user.id);
+    if (!marqetaToken) {
+      return { status: 400, error: 'User not initialized with Marqeta' };
+    }
+
+    const card = (await cardService.getCards(marqetaToken)).find(c => c.token === cardToken);
+    if (!card) {
+      return { status: 404, error: 'Card not found' };
+    }
+    if (card.state === 'TERMINATED') {
+      return { status: 409, error: 'This card has been terminated' };
+    }
+
+    const revealToken = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + this.tokenSeconds * 1000).toISOString();
+
+    await storageService.createCardRevealToken({
+      tokenHash: hashToken(revealToken),
+      userId: user.id,
+      cardToken: card.token,
+      expiresAt
+    });
+
+    return { revealToken, expiresAt };
+  }
+
+  /**
+   * Exchange a reveal token for the card's full details
+   *   context: ipAddress, userAgent - recorded with the audit entry
+   * Returns { details } or { status, error }
+   */
+  async reveal(user, revealToken, { ipAddress = null, userAgent = null } = {}) {
+    const record = await storageService.consumeCardRevealToken(hashToken(revealToken), user.id);
+    if (!record) {
+      return { status: 410, error: 'This reveal token has expired or was already used' };
+    }
+
+    const card = await marqetaService.getCardDetails(record.cardToken, true);
+    if (!card.pan) {
+      return { status: 503, error: 'Full card details are not available for this card program' };
+    }
+
+    // No audit entry, no details
+    const audit = await storageService.recordCardEvent({
+      userId: user.id,
+      cardToken: card.token,
+      action: 'reveal',
+      toState: card.state,
+      ipAddress,
+      userAgent
+    });
+    if (!audit) {
+      return { status: 500, error: 'Could not record this reveal - please try again' };
+    }
+
+    return {
+      details: {
+        token: card.token,
+        pan: card.pan,
+        cvv: card.cvv_number || null,
+        expiration: card.expiration,
+        lastFour: card.last_four
+      }
+    };
+  }
+}
+
+const cardRevealService = new CardRevealService();
+export default cardRevealService;
@@ -0,0 +1,316 @@
+import storageService from './storageService.js';
+import marqetaService from './marqetaService.js';
+import fundingService, { FUNDING_STATUS } from './fundingService.js';
+
+// State changes a cardholder can make, keyed by the action in the route (POST /api/users/card/:action)
+export const CARD_TRANSITIONS = {
+  freeze: { from: ['ACTIVE'], to: 'SUSPENDED', verb: 'froze', title: 'Card Frozen' },
+  unfreeze: { from: ['SUSPENDED'], to: 'ACTIVE', verb: 'unfroze', title: 'Card Unfrozen' },
+  terminate: { from: ['ACTIVE', 'SUSPENDED', 'UNACTIVATED'], to: 'TERMINATED', verb: 'terminated', title: 'Card Terminated' }
+};
+
+// Which of a user's cards to show: a usable one first, terminated cards last
+const STATE_PRIORITY = ['ACTIVE', 'SUSPENDED', 'UNACTIVATED'];
+
+// Cards created before user_cards existed (or outside the app) are treated as the main card
+const DEFAULT_METADATA = { purpose: 'primary', requestId: null, label: null, singleUse: false, amountLimit: null };
+
+// Cards and their lifecycle: freeze, unfreeze, terminate and replace
+//
+// Every change goes through Marqeta's /cardtransitions, is recorded in card_events, and is sent to
+// the user's accountability partners so nobody can quietly swap or unfreeze a card.
+//
+// A user has one main card plus optional single-use cards, each tied to an approved request and
+// capped at its approved amount. Only the JIT gateway can enforce that cap - Marqeta velocity
+// controls attach to a user or card product, not a single card - so request cards are only issued
+// with FUNDING_MODE=jit. A single-use card is terminated after its first clearing, which we hear
+// about through the Marqeta webhook.
+class CardService {
+  // The main card to show: ignores request cards unless they're all the user has
+  pickCurrentCard(cards) {
+    const primary = cards.filter(c => c.metadata?.purpose !== 'request');
+    const candidates = primary.length ? primary : cards;
+
+    for (const state of STATE_PRIORITY) {
+      const card = candidates.find(c => c.state === state);
+      if (card) return card;
+    }
+    return candidates[0] || null;
+  }
+
+  // Card shape returned to the frontend - never the full PAN or CVV (see cardRevealService)
+  toCardData(card, metadata = null) {
+    const meta = metadata || card.metadata || DEFAULT_METADATA;
+    return {
+      token: card.token,
+      lastFour: card.last_four,
+      expiration: card.expiration,
+      expirationTime: card.expiration_time,
+      state: card.state,
+      cardProductToken: card.card_product_token,
+      createdTime: card.created_time,
+      purpose: meta.purpose,
+      requestId: meta.requestId,
+      label: meta.label,
+      singleUse: meta.singleUse,
+      amountLimit: meta.amountLimit
+    };
+  }
+
+  // The user's cards in Marqeta (a 404 means none yet)
+  async getCards(marqetaToken) {
+    try {
+      const response = await marqetaService.getCardsForUser(marqetaToken);
+      return response.data || [];
+    } catch (error) {
+      if (error.response?.status === 404) return [];
+      throw error;
+    }
+  }
+
+  // The user's cards with our metadata attached as card.metadata
+  async listCards(userId, marqetaToken) {
+    const [cards, metadata] = await Promise.all([
+      this.getCards(marqetaToken),
+      storageService.getUserCards(userId)
+    ]);
+    const byToken = new Map(metadata.map(m => [m.cardToken, m]));
+
+    return cards.map(card => ({ ...card, metadata: byToken.get(card.token) || DEFAULT_METADATA }));
+  }
+
+  // Record metadata for a newly created main card. Failing here shouldn't lose the card.
+  async recordPrimaryCard(userId, card) {
+    try {
+      await storageService.createUserCard({ cardToken: card.token, userId, purpose: 'primary' });
+    } catch (error) {
+      console.error(`[Cards] Failed to save metadata for card ${card.token}:`, error.message);
+    }
+  }
+
+  /**
+   * Issue a single-use card for one of the user's approved requests, capped at the approved amount
+   * Returns { card } or { status, error }
+   */
+  async issueRequestCard(user, requestId) {
+    const request = await storageService.getPaymentRequest(requestId);
+    if (!request || request.senderId !== user.userId) {
+      return { status: 404, error: 'Payment request not found' };
+    }
+
+    // In GPA mode nothing would stop the card spending the whole wallet
+    if (fundingService.mode !== 'jit') {
+      return { status: 409, error: 'Request cards need JIT funding to enforce their limit' };
+    }
+
+    if (request.status !== 'approved' || request.fundingStatus !== FUNDING_STATUS.JIT_AVAILABLE) {
+      return { status: 409, error: 'Cards can only be issued for approved requests that haven\'t been spent' };
+    }
+
+    const existing = (await storageService.getUserCardsForRequest(requestId)).find(c => !c.closedAt);
+    if (existing) {
+      return { status: 409, error: 'This request already has a card' };
+    }
+
+    const marqetaToken = await storageService.getUserMarqetaToken(user.userId);
+    if (!marqetaToken) {
+      return { status: 400, error: 'User not initialized with Marqeta' };
+    }
+
+    const cardProductToken = await this._cardProductFor(user.userId, marqetaToken);
+    if (!cardProductToken) {
+      return { status: 400, error: 'No card products available. Please configure a card product in Marqeta.' };
+    }
+
+    const amountLimit = request.approvedAmount ?? request.amount;
+    const newCard = await marqetaService.createCard(marqetaToken, cardProductToken);
+    const metadata = await storageService.createUserCard({
+      cardToken: newCard.token,
+      userId: user.userId,
+      purpose: 'request',
+      requestId,
+      label: request.description || null,
+      singleUse: true,
+      amountLimit
+    });
+
+    await storageService.recordCardEvent({
+      userId: user.userId,
+      cardToken: newCard.token,
+      action: 'issue',
+      toState: newCard.state,
+      reason: `Single-use card for request ${requestId}`
+    });
+
+    await this._notifyPartners(user, 'Request Card Issued', `${user.name} got a single-use card ending ${newCard.last_four} for their $${amountLimit.toFixed(2)} request for ${request.description}`);
+
+    return { card: this.toCardData(newCard, metadata) };
+  }
+
+  // Webhook hook: close a single-use card once its first purchase clears
+  async handleTransaction(tx) {
+    if (tx.type !== 'authorization.clearing' || !tx.card_token) return;
+
+    const metadata = await storageService.getUserCard(tx.card_token);
+    if (!metadata?.singleUse || metadata.closedAt) return;
+
+    await marqetaService.createCardTransition(tx.card_token, 'TERMINATED', 'Single-use card cleared');
+
+    const now = new Date().toISOString();
+    await storageService.updateUserCard(tx.card_token, { usedAt: now, closedAt: now });
+    await storageService.recordCardEvent({
+      userId: metadata.userId,
+      cardToken: tx.card_token,
+      action: 'expire',
+      toState: 'TERMINATED',
+      reason: `Single-use card cleared $${Number(tx.amount || 0).toFixed(2)}`
+    });
+  }
+
+  /**
+   * Move the user's card to a new state
+   *   user:    { userId, name }
+   *   action:  key of CARD_TRANSITIONS
+   *   options: cardToken - which card (defaults to the current one)
+   *            reason    - free text, e.g. "Lost"
+   * Returns { card } or { status, error }
+   */
+  async transition(user, action, { cardToken = null, reason = null } = {}) {
+    const transition = CARD_TRANSITIONS[action];
+    if (!transition) {
+      return { status: 400, error: `Unknown card action: ${action}` };
+    }
+
+    const resolved = await this._resolveCard(user.userId, cardToken);
+    if (resolved.error) return resolved;
+
+    const { card } = resolved;
+    if (!transition.from.includes(card.state)) {
+      return { status: 409, error: `Can't ${action} a card that is ${card.state.toLowerCase()}` };
+    }
+
+    await marqetaService.createCardTransition(card.token, transition.to, reason || `${action} requested by cardholder`);
+
+    if (transition.to === 'TERMINATED') {
+      await storageService.updateUserCard(card.token, { closedAt: new Date().toISOString() });
+    }
+
+    await storageService.recordCardEvent({
+      userId: user.userId,
+      cardToken: card.token,
+      action,
+      fromState: card.state,
+      toState: transition.to,
+      reason
+    });
+
+    await this._notifyPartners(user, transition.title, `${user.name} ${transition.verb} their card ending ${card.last_four}${reason ? ` (${reason})` : ''}`);
+
+    const updated = await marqetaService.getCardDetails(card.token);
+    return { card: this.toCardData(updated, card.metadata) };
+  }
+
+  /**
+   * Reissue the user's card with a new PAN and terminate the old one
+   * Returns { card } (the new card) or { status, error }
+   */
+  async replace(user, { cardToken = null, reason = null } = {}) {
+    const resolved = await this._resolveCard(user.userId, cardToken);
+    if (resolved.error) return resolved;
+
+    const { card, marqetaToken } = resolved;
+    if (card.state === 'TERMINATED') {
+      return { status: 409, error: 'This card has already been terminated - create a new card instead' };
+    }
+
+    const newCard = await marqetaService.createCard(marqetaToken, card.card_product_token, {
+      new_pan_from_card_token: card.token
+    });
+
+    // The new card takes over the old one's purpose (main card, or the same request and limit)
+    const { purpose, requestId, label, singleUse, amountLimit } = card.metadata;
+    let metadata = card.metadata;
+    try {
+      metadata = await storageService.createUserCard({
+        cardToken: newCard.token,
+        userId: user.userId,
+        purpose,
+        requestId,
+        label,
+        singleUse,
+        amountLimit
+      });
+      await storageService.updateUserCard(card.token, { closedAt: new Date().toISOString() });
+    } catch (error) {
+      console.error(`[Cards] Failed to save metadata for replacement card ${newCard.token}:`, error.message);
+    }
+
+    // The old number must stop working even if the reissue kept it active
+    try {
+      await marqetaService.createCardTransition(card.token, 'TERMINATED', reason || 'Replaced by cardholder');
+    } catch (error) {
+      const message = error.response?.data?.error_message || error.message;
+      console.error(`[Cards] Failed to terminate replaced card ${card.token}:`, message);
+    }
+
+    await storageService.recordCardEvent({
+      userId: user.userId,
+      cardToken: card.token,
+      action: 'replace',
+      fromState: card.state,
+      toState: 'TERMINATED',
+      newCardToken: newCard.token,
+      reason
+    });
+
+    await this._notifyPartners(user, 'Card Replaced', `${user.name} replaced their card ending ${card.last_four} with a new card ending ${newCard.last_four}${reason ? ` (${reason})` : ''}`);
+
+    return { card: this.toCardData(newCard, metadata) };
+  }
+
+  async _resolveCard(userId, cardToken) {
+    const marqetaToken = await storageService.getUserMarqetaToken(userId);
+    if (!marqetaToken) {
+      return { status: 400, error: 'User not initialized with Marqeta' };
+    }
+
+    const cards = await this.listCards(userId, marqetaToken);
+    const card = cardToken ? cards.find(c => c.token === cardToken) : this.pickCurrentCard(cards);
+
+    if (!card) {
+      return { status: 404, error: cardToken ? 'Card not found' : 'You do not have a card yet' };
+    }
+
+    return { card, marqetaToken };
+  }
+
+  // Same product as the user's main card, else the program's first card product
+  async _cardProductFor(userId, marqetaToken) {
+    const current = this.pickCurrentCard(await this.listCards(userId, marqetaToken));
+    if (current) return current.card_product_token;
+
+    const cardProducts = await marqetaService.listCardProducts();
+    return cardProducts.data?.[0]?.token || null;
+  }
+
+  async _notifyPartners(user, title, message) {
+    const partnerIds = await storageService.getAccountabilityPartnerIds(user.userId);
+
+    for (const partnerId of partnerIds) {
+      try {
+        await storageService.createNotification({
+          userId: partnerId,
+          type: 'card_activity',
+          title,
+          message
+        });
+      } catch (notifError) {
+        console.error('[Cards] Error creating notification:', notifError);
+        // Don't fail the card change if a notification fails
+      }
+    }
+  }
+}
+
+const cardService = new CardService();
+export default cardService;
@@ -0,0 +1,305 @@
+import storageService from './storageService.js';
+import marqetaService, { SUCCESSFUL_GPA_ORDER_STATES } from './marqetaService.js';
+import spendControlService from './spendControlService.js';
+
+export const FUNDING_STATUS = {
+  APPROVED_UNFUNDED: 'approved_unfunded',
+  FUNDING: 'funding',
+  FUNDED: 'funded',
+  FUNDING_FAILED: 'funding_failed',
+  // JIT mode: nothing is loaded on approval - the request waits for a matching card authorization
+  JIT_AVAILABLE: 'jit_available',
+  JIT_CONSUMED: 'jit_consumed'
+};
+
+// States that involve a GPA order, for retries and reconciliation
+const GPA_FUNDING_STATUSES = [
+  FUNDING_STATUS.APPROVED_UNFUNDED,
+  FUNDING_STATUS.FUNDING,
+  FUNDING_STATUS.FUNDED,
+  FUNDING_STATUS.FUNDING_FAILED
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Partial approvals and accepted counter-offers fund a different amount than was requested
+const fundingAmount = (request) => request.approvedAmount ?? request.amount;
+
+// Funding state machine for approved payment requests
+//
+//   approved_unfunded --claim--> funding --success--> funded
+//                                        --error----> approved_unfunded (retry scheduled with backoff)
+//                                        --error, out of attempts--> funding_failed
+//
+// The GPA order token is the payment request id, so retrying after a lost response can't fund
+// twice: Marqeta rejects the duplicate token and we pick up the original order instead.
+//
+// With FUNDING_MODE=jit, approved requests skip the GPA order and wait in jit_available until
+// jitFundingService matches them to a card authorization (jit_available -> jit_consumed).
+class FundingService {
+  constructor() {
+    this.mode = process.env.FUNDING_MODE === 'jit' ? 'jit' : 'gpa';
+    this.maxAttempts = parseInt(process.env.FUNDING_MAX_ATTEMPTS || '5', 10);
+    this.retryBaseMs = parseInt(process.env.FUNDING_RETRY_BASE_MS || '60000', 10);
+    this.stuckAfterMs = parseInt(process.env.FUNDING_STUCK_AFTER_MS || '600000', 10);
+    this.reconcileWindowMs = parseFloat(process.env.FUNDING_RECONCILE_WINDOW_HOURS || '48') * HOUR_MS;
+    this.isRetrying = false;
+    this.isReconciling = false;
+  }
+
+  // Funding state for a request that has just been approved
+  approvedStatus() {
+    return this.mode === 'jit' ? FUNDING_STATUS.JIT_AVAILABLE : FUNDING_STATUS.APPROVED_UNFUNDED;
+  }
+
+  /**
+   * Try to fund an approved request that is waiting in approved_unfunded
+   * Safe to call more than once - only the caller that claims the request places an order.
+   * Returns the latest version of the request.
+   */
+  async fundRequest(request) {
+    const claimed = await storageService.claimPaymentRequestFunding(request.id, [FUNDING_STATUS.APPROVED_UNFUNDED]);
+    if (!claimed) {
+      // Already funded, given up, or another worker is on it
+      return await storageService.getPaymentRequest(request.id);
+    }
+
+    const attempt = (claimed.fundingAttempts || 0) + 1;
+
+    try {
+      const order = await this._placeOrder(claimed);
+      return await this._markFunded(claimed, order, attempt);
+    } catch (error) {
+      const message = error.response?.data?.error_message || error.message;
+      console.error(`[Funding] Attempt ${attempt} for request ${claimed.id} failed:`, message);
+      return await this._markAttemptFailed(claimed, message, attempt);
+    }
+  }
+
+  // Retry requests whose backoff has elapsed
+  async runRetries(now = new Date()) {
+    if (this.isRetrying) {
+      return { skipped: true };
+    }
+
+    this.isRetrying = true;
+    const summary = { checked: 0, funded: 0, retrying: 0, failed: 0 };
+
+    try {
+      const waiting = await storageService.getPaymentRequestsByFundingStatus([FUNDING_STATUS.APPROVED_UNFUNDED]);
+      const due = waiting.filter(r => !r.nextFundingAttemptAt || new Date(r.nextFundingAttemptAt) <= now);
+      summary.checked = due.length;
+
+      for (const request of due) {
+        try {
+          const result = await this.fundRequest(request);
+          if (result?.fundingStatus === FUNDING_STATUS.FUNDED) summary.funded++;
+          else if (result?.fundingStatus === FUNDING_STATUS.FUNDING_FAILED) summary.failed++;
+          else summary.retrying++;
+        } catch (error) {
+          console.error(`[Funding] Failed to retry request ${request.id}:`, error.message);
+          summary.retrying++;
+        }
+      }
+    } finally {
+      this.isRetrying = false;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Compare our funding state with Marqeta's GPA orders
+   *   - an order exists but we never recorded it (lost response)  -> mark funded
+   *   - stuck in 'funding' with no order (worker died mid-attempt) -> release for retry
+   *   - recently marked funded but the order is missing or failed  -> mark funding_failed
+   */
+  async reconcile(now = new Date()) {
+    if (this.isReconciling) {
+      return { skipped: true };
+    }
+
+    this.isReconciling = true;
+    const summary = { checked: 0, recovered: 0, released: 0, mismatched: 0, failed: 0 };
+
+    try {
+      const requests = (await storageService.getPaymentRequestsByFundingStatus(GPA_FUNDING_STATUSES))
+        .filter(r => r.fundingStatus !== FUNDING_STATUS.FUNDED || now - new Date(r.fundedAt) <= this.reconcileWindowMs);
+      summary.checked = requests.length;
+
+      for (const request of requests) {
+        try {
+          const action = await this._reconcileRequest(request, now);
+          if (action) summary[action]++;
+        } catch (error) {
+          console.error(`[Funding] Failed to reconcile request ${request.id}:`, error.message);
+          summary.failed++;
+        }
+      }
+    } finally {
+      this.isReconciling = false;
+    }
+
+    return summary;
+  }
+
+  async _reconcileRequest(request, now) {
+    const order = await marqetaService.getGPAOrder(request.gpaOrderToken || request.id);
+    const orderSucceeded = order && SUCCESSFUL_GPA_ORDER_STATES.includes(order.state);
+
+    if (request.fundingStatus === FUNDING_STATUS.FUNDED) {
+      if (orderSucceeded) return null;
+      await this._giveUp(request, order ? `GPA order is ${order.state}` : 'GPA order not found in Marqeta', request.fundingAttempts, {
+        reconciliation: true
+      });
+      return 'mismatched';
+    }
+
+    if (orderSucceeded) {
+      await this._markFunded(request, order, request.fundingAttempts || 1, { reconciliation: true });
+      return 'recovered';
+    }
+
+    if (request.fundingStatus === FUNDING_STATUS.FUNDING && now - new Date(request.updatedAt) >= this.stuckAfterMs) {
+      await storageService.updatePaymentRequest(request.id, {
+        fundingStatus: FUNDING_STATUS.APPROVED_UNFUNDED,
+        nextFundingAttemptAt: now.toISOString()
+      });
+      return 'released';
+    }
+
+    return null;
+  }
+
+  async _placeOrder(request) {
+    const userToken = request.senderMarqetaToken || await storageService.getUserMarqetaToken(request.senderId);
+    if (!userToken) {
+      throw new Error('Sender does not have a Marqeta account yet');
+    }
+
+    return await marqetaService.fundGPA(
+      userToken,
+      fundingAmount(request),
+      `${request.autoApproved ? 'Auto-approved' : 'Approved'}: ${request.description}`,
+      request.id
+    );
+  }
+
+  async _markFunded(request, order, attempt, extra = {}) {
+    const updated = await storageService.updatePaymentRequest(request.id, {
+      fundingStatus: FUNDING_STATUS.FUNDED,
+      fundingAttempts: attempt,
+      nextFundingAttemptAt: null,
+      fundingError: null,
+      gpaOrderToken: order.token || request.id,
+      fundedAt: new Date().toISOString()
+    });
+
+    await storageService.recordPaymentRequestEvent({
+      requestId: request.id,
+      type: 'funded',
+      data: { amount: fundingAmount(request), gpaOrderToken: order.token || request.id, attempt, ...extra }
+    });
+
+    await this._syncSpendControls(request);
+
+    // The approval notification already covers funding that worked first time
+    if (attempt > 1 || extra.reconciliation) {
+      await this._notifyParticipants(request, {
+        title: 'Funds Delivered',
+        senderMessage: `$${fundingAmount(request).toFixed(2)} for ${request.description} has been added to your wallet`,
+        approverMessage: `${request.senderName}'s approved $${fundingAmount(request).toFixed(2)} request for ${request.description} has now been funded`
+      });
+    }
+
+    return updated;
+  }
+
+  async _markAttemptFailed(request, message, attempt) {
+    if (attempt >= this.maxAttempts) {
+      return await this._giveUp(request, message, attempt);
+    }
+
+    const nextAttemptAt = new Date(Date.now() + this.retryBaseMs * 2 ** (attempt - 1)).toISOString();
+
+    const updated = await storageService.updatePaymentRequest(request.id, {
+      fundingStatus: FUNDING_STATUS.APPROVED_UNFUNDED,
+      fundingAttempts: attempt,
+      nextFundingAttemptAt: nextAttemptAt,
+      fundingError: message
+    });
+
+    await storageService.recordPaymentRequestEvent({
+      requestId: request.id,
+      type: 'funding_failed',
+      data: { amount: fundingAmount(request), error: message, attempt, final: false, nextAttemptAt }
+    });
+
+    return updated;
+  }
+
+  async _giveUp(request, message, attempt, extra = {}) {
+    const updated = await storageService.updatePaymentRequest(request.id, {
+      fundingStatus: FUNDING_STATUS.FUNDING_FAILED,
+      fundingAttempts: attempt,
+      nextFundingAttemptAt: null,
+      fundingError: message
+    });
+
+    await storageService.recordPaymentRequestEvent({
+      requestId: request.id,
+      type: 'funding_failed',
+      data: { amount: fundingAmount(request), error: message, attempt, final: true, ...extra }
+    });
+
+    // Reconciliation can take back funds we had recorded as delivered
+    if (request.fundingStatus === FUNDING_STATUS.FUNDED) {
+      await this._syncSpendControls(request);
+    }
+
+    await this._notifyParticipants(request, {
+      title: 'Funding Failed',
+      senderMessage: `We couldn't add $${fundingAmount(request).toFixed(2)} for ${request.description} to your wallet: ${message}`,
+      approverMessage: `${request.senderName}'s approved $${fundingAmount(request).toFixed(2)} request for ${request.description} could not be funded`
+    });
+
+    return updated;
+  }
+
+  // Switches off category velocity controls left by earlier versions (see spendControlService).
+  // A failure here is logged - the money has still moved.
+  async _syncSpendControls(request) {
+    try {
+      await spendControlService.syncForRequest(request);
+    } catch (error) {
+      console.error(`[Funding] Failed to update spend controls for request ${request.id}:`, error.response?.data?.error_message || error.message);
+    }
+  }
+
+  async _notifyParticipants(request, { title, senderMessage, approverMessage }) {
+    const notifications = [
+      { userId: request.senderId, message: senderMessage },
+      ...(request.approvers || [])
+        .filter(a => a.userId !== request.senderId)
+        .map(a => ({ userId: a.userId, message: approverMessage }))
+    ];
+
+    for (const { userId, message } of notifications) {
+      try {
+        await storageService.createNotification({
+          userId,
+          type: 'request_reviewed',
+          title,
+          message,
+          requestId: request.id
+        });
+      } catch (notifError) {
+        console.error('[Funding] Error creating notification:', notifError);
+        // Don't fail the funding flow if a notification fails
+      }
+    }
+  }
+}
+
+const fundingService = new FundingService();
+export default fundingService;
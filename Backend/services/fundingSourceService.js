@@ -0,0 +1,231 @@
+import storageService from './storageService.js';
+import marqetaService from './marqetaService.js';
+import bankRail from './bankRails.js';
+import { availableFundingSources, isFundingSourceAvailable, FUNDING_SOURCES } from './fundingSources.js';
+
+const PEER_FUNDING_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+const round2 = (amount) => Math.round(amount * 100) / 100;
+
+// Adding money to a user's wallet from one of the FUNDING_SOURCES
+//
+// Every source ends in the user's GPA. The idempotency token from the route becomes the GPA
+// order or peer transfer token, so a retried top-up is rejected by Marqeta rather than doubled.
+//
+// Peer top-ups take money from someone else's wallet, so consent is read from the partner's side
+// only: they must have added the user as a partner themselves, turned on allowPeerFunding and
+// picked the user in peerFundingUserIds. The user's own friends rows are never enough - a client
+// can write those. The partner caps what everyone together can take per 30 days
+// (peerFundingLimit) and is notified of every top-up.
+class FundingSourceService {
+  /**
+   * The sources this user can add money from, each with the options to pick between
+   * (bank accounts for ach, partners for peer)
+   */
+  async listForUser(userId) {
+    const sources = availableFundingSources(marqetaService.isSandbox());
+
+    return await Promise.all(sources.map(async (source) => ({
+      ...source,
+      options: source.available ? await this._options(userId, source.source) : []
+    })));
+  }
+
+  /**
+   * Add money to the user's wallet
+   *   user: { userId, name }
+   *   options: amount, source, sourceId (bank account id for ach, partner's user id for peer), memo
+   * Returns { transaction, newBalance, source } or { status, error }
+   */
+  async addMoney(user, { amount, source = 'program', sourceId, memo }, token = null) {
+    amount = parseFloat(amount);
+    if (!(amount > 0)) {
+      return { status: 400, error: 'Amount must be greater than 0' };
+    }
+    if (!FUNDING_SOURCES[source]) {
+      return { status: 400, error: `Funding source must be one of: ${Object.keys(FUNDING_SOURCES).join(', ')}` };
+    }
+    if (!isFundingSourceAvailable(source, marqetaService.isSandbox())) {
+      return { status: 403, error: `${FUNDING_SOURCES[source].label} is not available in this environment` };
+    }
+
+    const marqetaToken = await storageService.getUserMarqetaToken(user.userId);
+    if (!marqetaToken) {
+      return { status: 400, error: 'User not initialized with Marqeta' };
+    }
+
+    let result;
+    if (source === 'ach') {
+      result = await this._fromBankAccount(user, marqetaToken, amount, sourceId, memo, token);
+    } else if (source === 'peer') {
+      result = await this._fromPartner(user, marqetaToken, amount, sourceId, memo, token);
+    } else {
+      result = { transaction: await marqetaService.fundGPA(marqetaToken, amount, memo || 'Added funds to wallet', token) };
+    }
+    if (result.error) return result;
+
+    const balance = await marqetaService.getGPABalance(marqetaToken);
+    return { ...result, newBalance: balance?.gpa?.available_balance || 0, source };
+  }
+
+  async _options(userId, source) {
+    if (source === 'ach') {
+      const accounts = await storageService.getBankAccounts(userId);
+      return accounts
+        .filter(a => a.status === 'verified')
+        .map(a => ({ id: a.id, label: `${a.nickname || (a.accountType === 'savings' ? 'Savings' : 'Checking')} ••••${a.accountLastFour}` }));
+    }
+
+    if (source === 'peer') {
+      const partners = await this._fundingPartners(userId);
+      return partners.map(p => ({ id: p.userId, label: p.name || p.email }));
+    }
+
+    return [];
+  }
+
+  // Partners who let the user top up from their wallet, with each one's settings
+  async _fundingPartners(userId) {
+    const partners = await storageService.getAccountabilityPartners(userId);
+    const allowed = await Promise.all(partners.map(async (partner) => {
+      const settings = await this._peerFundingConsent(partner.userId, userId);
+      return settings && { ...partner, settings };
+    }));
+    return allowed.filter(Boolean);
+  }
+
+  // The partner's settings if they let userId take from their wallet, otherwise null
+  async _peerFundingConsent(partnerId, userId) {
+    const settings = await storageService.getUserSettings(partnerId);
+    if (!settings.allowPeerFunding || !settings.peerFundingUserIds.includes(userId)) {
+      return null;
+    }
+    return await storageService.isAccountabilityPartner(partnerId, userId) ? settings : null;
+  }
+
+  async _fromBankAccount(user, marqetaToken, amount, bankAccountId, memo, token) {
+    const account = bankAccountId ? await storageService.getBankAccount(bankAccountId) : null;
+    if (!account || account.userId !== user.userId || account.status === 'removed') {
+      return { status: 404, error: 'Bank account not found' };
+    }
+    if (account.status !== 'verified') {
+      return { status: 409, error: 'Verify this bank account before adding money from it' };
+    }
+
+    // The pull is recorded before the bank is debited. With an Idempotency-Key its reference is
+    // the key's token, so a retry after a failed credit finds the debit and only redoes the credit.
+    const reference = token || `${user.userId}:${Date.now()}`;
+    let pull = token ? await storageService.getBankPull(reference) : null;
+    if (pull && (pull.userId !== user.userId || pull.bankAccountId !== account.id || pull.amount !== amount)) {
+      return { status: 422, error: 'This Idempotency-Key was already used for a different top-up' };
+    }
+    if (pull?.status === 'pending') {
+      return { status: 409, error: 'This top-up is still being processed' };
+    }
+
+    if (!pull || pull.status === 'failed') {
+      pull = pull || await storageService.createBankPull({ reference, userId: user.userId, bankAccountId: account.id, amount });
+      try {
+        const transfer = await bankRail.pullTransfer(account.providerAccountId, { amount, reference });
+        await storageService.updateBankPull(pull.id, { status: 'pulled', providerTransferId: transfer.providerTransferId });
+      } catch (error) {
+        await storageService.updateBankPull(pull.id, { status: 'failed' });
+        return { status: 502, error: `Could not debit the account ending ${account.accountLastFour}: ${error.message}` };
+      }
+    }
+
+    // The debited money lands in the program account, which then funds the GPA. The GPA order
+    // token is the pull's reference too, so redoing a credit that did go through is a no-op.
+    let transaction;
+    try {
+      transaction = await marqetaService.fundGPA(
+        marqetaToken,
+        amount,
+        memo || `Added from account ending ${account.accountLastFour}`,
+        reference
+      );
+    } catch (error) {
+      console.error(`[AddMoney] Bank pull ${reference} debited but the wallet credit failed:`, error.message);
+      return token
+        ? { status: 502, error: `Your account ending ${account.accountLastFour} was debited but your wallet wasn't credited yet. Try again to finish adding it.` }
+        : await this._reverseBankPull(pull, account);
+    }
+
+    await storageService.updateBankPull(pull.id, { status: 'credited' });
+    return { transaction };
+  }
+
+  // Send a debited amount back when there's no Idempotency-Key to finish the credit with later
+  async _reverseBankPull(pull, account) {
+    try {
+      await bankRail.sendTransfer(account.providerAccountId, { amount: pull.amount, speed: 'standard', reference: `${pull.reference}:reversal` });
+      await storageService.updateBankPull(pull.id, { status: 'reversed' });
+      return { status: 502, error: `Could not add the money to your wallet. The debit from your account ending ${account.accountLastFour} is being returned.` };
+    } catch (error) {
+      console.error(`[AddMoney] Bank pull ${pull.reference} needs reconciliation: reversal failed:`, error.message);
+      await storageService.updateBankPull(pull.id, { status: 'reverse_failed' });
+      return { status: 502, error: `Could not add the money to your wallet. The debit from your account ending ${account.accountLastFour} couldn't be returned automatically and has been flagged for support.` };
+    }
+  }
+
+  async _fromPartner(user, marqetaToken, amount, partnerId, memo, token) {
+    const partner = partnerId && (await this._fundingPartners(user.userId)).find(p => p.userId === partnerId);
+    if (!partner) {
+      return { status: 403, error: 'This partner has not allowed you to add money from their wallet' };
+    }
+
+    const partnerName = partner.name || 'Your partner';
+    const limit = partner.settings.peerFundingLimit;
+    if (amount > limit) {
+      return { status: 403, error: `${partnerName} allows at most $${limit.toFixed(2)} every 30 days` };
+    }
+
+    const partnerToken = await storageService.getUserMarqetaToken(partner.userId);
+    const partnerBalance = partnerToken ? await marqetaService.getGPABalance(partnerToken) : null;
+    if ((partnerBalance?.gpa?.available_balance || 0) < amount) {
+      return { status: 400, error: `${partnerName} doesn't have enough in their wallet` };
+    }
+
+    // Reserve the amount before checking the limit, so a top-up running alongside this one sees it
+    // and the two can't both slip under
+    const reservation = await storageService.createPeerFunding({ partnerId: partner.userId, userId: user.userId, amount });
+    const since = new Date(Date.now() - PEER_FUNDING_WINDOW_MS).toISOString();
+    const used = await storageService.getPeerFundingTotal(partner.userId, since);
+    if (used > limit) {
+      await storageService.updatePeerFunding(reservation.id, 'declined');
+      const left = Math.max(0, round2(limit - (used - amount)));
+      return { status: 403, error: `That's over ${partnerName}'s limit - $${left.toFixed(2)} of $${limit.toFixed(2)} is left for the next 30 days` };
+    }
+
+    let transaction;
+    try {
+      transaction = await marqetaService.createPeerTransfer({
+        token,
+        senderUserToken: partnerToken,
+        recipientUserToken: marqetaToken,
+        amount,
+        memo: memo || `Wallet top-up for ${user.name}`
+      });
+    } catch (error) {
+      await storageService.updatePeerFunding(reservation.id, 'failed');
+      throw error;
+    }
+    await storageService.updatePeerFunding(reservation.id, 'completed');
+
+    try {
+      await storageService.createNotification({
+        userId: partner.userId,
+        type: 'peer_funding',
+        title: 'Money moved from your wallet',
+        message: `${user.name} added $${amount.toFixed(2)} to their wallet from yours. $${round2(limit - used).toFixed(2)} of your $${limit.toFixed(2)} limit is left for the next 30 days.`
+      });
+    } catch (notifyError) {
+      console.error('Failed to notify partner of peer funding:', notifyError.message);
+    }
+
+    return { transaction };
+  }
+}
+
+const fundingSourceService = new FundingSourceService();
+export default fundingSourceService;
@@ -0,0 +1,34 @@
+import bankRail from './bankRails.js';
+
+// Funding sources - where "add money" draws from
+//
+//   program - the Marqeta program funding source (MARQETA_PROGRAM_FUNDING_SOURCE_TOKEN). Only
+//             offered in sandbox, where it's unlimited test money; in production it would be
+//             the program paying users' top-ups.
+//   ach     - one of the user's verified bank accounts, debited through the bank rail and then
+//             credited from the program funding source. Needs a real rail outside sandbox.
+//   peer    - another user's wallet, moved with a Marqeta peer transfer. That user has to be one
+//             of the requester's accountability partners and have allowPeerFunding on.
+export const FUNDING_SOURCES = {
+  program: { label: 'Program funding', description: 'Test money from the Marqeta sandbox program' },
+  ach: { label: 'Bank account', description: 'Pull from a verified linked bank account' },
+  peer: { label: 'Accountability partner', description: 'Move money from a partner\'s wallet' }
+};
+
+export function isFundingSourceAvailable(source, isSandbox) {
+  switch (source) {
+    case 'program': return isSandbox;
+    case 'ach': return isSandbox || !bankRail.isFake;
+    case 'peer': return true;
+    default: return false;
+  }
+}
+
+// Every source with whether it can be used in this environment
+export function availableFundingSources(isSandbox) {
+  return Object.entries(FUNDING_SOURCES).map(([source, info]) => ({
+    source,
+    ...info,
+    available: isFundingSourceAvailable(source, isSandbox)
+  }));
+}
@@ -0,0 +1,159 @@
+import storageService from './storageService.js';
+import { FUNDING_STATUS } from './fundingService.js';
+import { categoryAllowsMcc } from './spendControlService.js';
+
+export const JIT_METHODS = {
+  AUTHORIZATION: 'pgfs.authorization',
+  INCREMENTAL: 'pgfs.authorization.incremental',
+  REVERSAL: 'pgfs.authorization.reversal'
+};
+
+const approvedAmount = (request) => request.approvedAmount ?? request.amount;
+
+// Just-in-time funding gateway
+//
+// In JIT mode (FUNDING_MODE=jit) approval doesn't load the sender's GPA. Instead Marqeta asks us
+// to fund each card authorization as it happens, and we only approve it if it matches one of the
+// cardholder's approved, unspent requests:
+//   - the authorization amount is within JIT_AMOUNT_WINDOW_PERCENT of the approved amount
+//   - a request in a restricted category (Travel, Software, ...) only matches merchants whose MCC
+//     is in that category's group; Other matches any merchant
+//   - the closest amount wins, oldest request first on a tie
+//   - the request is consumed atomically, so two authorizations can't spend the same approval
+//   - a single-use request card only matches its own request, and never above its limit
+// A reversal puts the request back so it can be spent again.
+class JitFundingService {
+  constructor() {
+    this.windowPercent = parseFloat(process.env.JIT_AMOUNT_WINDOW_PERCENT || '10');
+  }
+
+  /**
+   * Decide on a JIT funding request from Marqeta
+   * Returns { approved, jitFunding } where jitFunding is the body's jit_funding object to send back
+   * (with decline_reason set when declined).
+   */
+  async handle(event) {
+    const jitFunding = event.gpa_order?.jit_funding || event.jit_funding;
+    if (!jitFunding?.token || !jitFunding.user_token) {
+      return this._decline(jitFunding || {}, 'INVALID_AMOUNT', 'Missing jit_funding details');
+    }
+
+    switch (jitFunding.method) {
+      case JIT_METHODS.AUTHORIZATION:
+        return await this._authorize(event, jitFunding);
+      case JIT_METHODS.INCREMENTAL:
+        // An approval covers one charge - topping up a hold would spend more than was approved
+        return this._decline(jitFunding, 'INSUFFICIENT_FUNDS', 'Incremental authorizations are not funded');
+      case JIT_METHODS.REVERSAL:
+        await this._release(jitFunding);
+        return this._approve(jitFunding);
+      default:
+        // Captures, refunds and balance inquiries move no new money out of an approval
+        return this._approve(jitFunding);
+    }
+  }
+
+  // Approved, unspent requests an authorization at a merchant with this MCC could draw on, best match first
+  findMatches(requests, amount, mcc = null) {
+    const window = this.windowPercent / 100;
+
+    return requests
+      .filter(r => r.status === 'approved' && r.fundingStatus === FUNDING_STATUS.JIT_AVAILABLE)
+      .filter(r => categoryAllowsMcc(r.category, mcc))
+      .filter(r => {
+        const approved = approvedAmount(r);
+        return amount >= approved * (1 - window) && amount <= approved * (1 + window);
+      })
+      .sort((a, b) => {
+        const diff = Math.abs(approvedAmount(a) - amount) - Math.abs(approvedAmount(b) - amount);
+        return diff !== 0 ? diff : new Date(a.createdAt) - new Date(b.createdAt);
+      });
+  }
+
+  async _authorize(event, jitFunding) {
+    const amount = Number(jitFunding.amount);
+    if (!(amount > 0)) {
+      return this._decline(jitFunding, 'INVALID_AMOUNT', 'Authorization amount must be greater than 0');
+    }
+
+    // Marqeta resends a request it didn't get an answer to - don't spend a second approval on it
+    const alreadyConsumed = await storageService.getPaymentRequestByJitFundingToken(jitFunding.token);
+    if (alreadyConsumed) {
+      return this._approve(jitFunding);
+    }
+
+    const userId = await storageService.getUserByMarqetaToken(jitFunding.user_token);
+    if (!userId) {
+      return this._decline(jitFunding, 'INVALID_AMOUNT', 'Unknown cardholder');
+    }
+
+    const merchant = event.card_acceptor?.name || null;
+    const mcc = event.card_acceptor?.mcc || null;
+    let requests = await storageService.getPaymentRequestsBySender(userId);
+
+    // A request card can only spend its own request, up to the approved amount
+    const cardToken = event.card_token || jitFunding.card_token;
+    const card = cardToken ? await storageService.getUserCard(cardToken) : null;
+    if (card?.requestId) {
+      if (card.amountLimit != null && amount > card.amountLimit) {
+        return this._decline(jitFunding, 'INSUFFICIENT_FUNDS', `Over this card's $${card.amountLimit.toFixed(2)} limit`);
+      }
+      requests = requests.filter(r => r.id === card.requestId);
+    }
+
+    const candidates = this.findMatches(requests, amount, mcc);
+
+    // Another authorization may consume a candidate first - fall through to the next one
+    for (const candidate of candidates) {
+      const consumed = await storageService.consumeJitPaymentRequest(candidate.id, {
+        jitFundingToken: jitFunding.token,
+        amount,
+        merchant
+      });
+      if (!consumed) continue;
+
+      await storageService.recordPaymentRequestEvent({
+        requestId: consumed.id,
+        type: 'funded',
+        data: {
+          amount,
+          jit: true,
+          jitFundingToken: jitFunding.token,
+          merchant,
+          mcc
+        }
+      });
+
+      console.log(`[JIT] Approved $${amount.toFixed(2)} for request ${consumed.id} (${jitFunding.token})`);
+      return this._approve(jitFunding);
+    }
+
+    console.log(`[JIT] Declined $${amount.toFixed(2)} for user ${userId}: no matching approved request`);
+    return this._decline(jitFunding, 'INSUFFICIENT_FUNDS', 'No approved request matches this amount and merchant');
+  }
+
+  async _release(jitFunding) {
+    const originalToken = jitFunding.original_jit_funding_token;
+    if (!originalToken) return;
+
+    const released = await storageService.releaseJitPaymentRequest(originalToken);
+    if (!released) return;
+
+    await storageService.recordPaymentRequestEvent({
+      requestId: released.id,
+      type: 'funding_reversed',
+      data: { amount: Number(jitFunding.amount) || null, jitFundingToken: originalToken }
+    });
+  }
+
+  _approve(jitFunding) {
+    return { approved: true, jitFunding: { ...jitFunding } };
+  }
+
+  _decline(jitFunding, declineReason, memo) {
+    return { approved: false, jitFunding: { ...jitFunding, decline_reason: declineReason, memo } };
+  }
+}
+
+const jitFundingService = new JitFundingService();
+export default jitFundingService;
@@ -1,10 +1,16 @@
 import axios from 'axios';
+import { availableFundingSources } from './fundingSources.js';
+
+// GPA order states that mean the money is on its way or already there
+export const SUCCESSFUL_GPA_ORDER_STATES = ['PENDING', 'CLEARED', 'COMPLETION'];
 
 class MarqetaService {
   constructor() {
     this.baseURL = process.env.MARQETA_BASE_URL || 'https://sandbox-api.marqeta.com/v3';
     this.applicationToken = process.env.MARQETA_APPLICATION_TOKEN;
     this.adminAccessToken = process.env.MARQETA_ADMIN_ACCESS_TOKEN;
+    // Program funding source that GPA orders draw from (sandbox's is unlimited)
+    this.programFundingSourceToken = process.env.MARQETA_PROGRAM_FUNDING_SOURCE_TOKEN || 'sandbox_program_funding';
     
     // Create axios instance with Basic Auth
     this.client = axios.create({
@@ -59,25 +65,28 @@ class MarqetaService {
   }
 
   // Create a card for a user
-  async createCard(userToken, cardProductToken) {
-    try {
-      // Try to create with full PAN/CVV visible
-      const response = await this.client.post('/cards?show_pan=true&show_cvv_number=true', {
-        user_token: userToken,
-        card_product_token: cardProductToken,
-      });
-      return response.data;
-    } catch (error) {
-      // If permission denied for full PAN, create without and fetch basic details
-      if (error.response?.status === 403 || error.response?.data?.error_message?.includes('permission')) {
-        const response = await this.client.post('/cards', {
-          user_token: userToken,
-          card_product_token: cardProductToken,
-        });
-        return response.data;
-      }
-      throw error;
-    }
+  // Pass options.new_pan_from_card_token to reissue an existing card with a new PAN
+  // The response has no PAN or CVV - those are only fetched through the reveal flow (getCardDetails)
+  async createCard(userToken, cardProductToken, options = {}) {
+    const response = await this.client.post('/cards', {
+      user_token: userToken,
+      card_product_token: cardProductToken,
+      ...options,
+    });
+    return response.data;
+  }
+
+  // Move a card to a new state (ACTIVE, SUSPENDED, TERMINATED)
+  // reason_code 01 = "Requested by you" - see https://www.marqeta.com/docs/core-api/card-transitions
+  async createCardTransition(cardToken, state, reason) {
+    const response = await this.client.post('/cardtransitions', {
+      card_token: cardToken,
+      state,
+      channel: 'API',
+      reason_code: '01',
+      reason,
+    });
+    return response.data;
   }
 
   // Get cards for a user
@@ -86,9 +95,9 @@ class MarqetaService {
     return response.data;
   }
 
-  // Get a single card with full details (PAN, CVV)
+  // Get a single card. Pass showSensitive to include the full PAN and CVV (card reveal only)
   // Falls back to basic details if full PAN permission not available
-  async getCardDetails(cardToken, showSensitive = true) {
+  async getCardDetails(cardToken, showSensitive = false) {
     try {
       if (showSensitive) {
         const response = await this.client.get(`/cards/${cardToken}?show_pan=true&show_cvv_number=true`);
@@ -108,17 +117,157 @@ class MarqetaService {
   }
 
   // Fund user's GPA (General Purpose Account)
-  async fundGPA(userToken, amount, memo = 'Payment request approved') {
-    const response = await this.client.post('/gpaorders', {
+  // Pass a token to make the order idempotent - Marqeta rejects a second order with the same
+  // token, in which case the original order is returned instead of an error
+  async fundGPA(userToken, amount, memo = 'Payment request approved', token = null) {
+    try {
+      const response = await this.client.post('/gpaorders', {
+        ...(token && { token }),
+        user_token: userToken,
+        amount: amount,
+        currency_code: 'USD',
+        memo: memo,
+        funding_source_token: this.programFundingSourceToken,
+      });
+      return response.data;
+    } catch (error) {
+      // An earlier attempt may have gone through even though the caller never saw the response
+      const existing = token ? await this.getGPAOrder(token).catch(() => null) : null;
+      if (existing && SUCCESSFUL_GPA_ORDER_STATES.includes(existing.state)) {
+        return existing;
+      }
+      throw error;
+    }
+  }
+
+  // Move money from one user's GPA to another's
+  // See https://www.marqeta.com/docs/core-api/peer-transfers
+  async createPeerTransfer({ token, senderUserToken, recipientUserToken, amount, memo }) {
+    const response = await this.client.post('/peertransfers', {
+      ...(token && { token }),
+      sender_user_token: senderUserToken,
+      recipient_user_token: recipientUserToken,
+      amount,
+      currency_code: 'USD',
+      memo,
+    });
+    return response.data;
+  }
+
+  // Move money out of a user's GPA into the program funding account (withdrawals and their fees)
+  // See https://www.marqeta.com/docs/core-api/program-transfers
+  async createProgramTransfer({ token, userToken, amount, typeToken, memo }) {
+    const response = await this.client.post('/programtransfers', {
+      token,
       user_token: userToken,
-      amount: amount,
+      amount,
       currency_code: 'USD',
-      memo: memo,
-      funding_source_token: 'sandbox_program_funding', // Sandbox funding source
+      type_token: typeToken,
+      memo,
+    });
+    return response.data;
+  }
+
+  // Get a program transfer type by token (null if it doesn't exist)
+  async getProgramTransferType(token) {
+    try {
+      const response = await this.client.get(`/programtransfers/types/${token}`);
+      return response.data;
+    } catch (error) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async createProgramTransferType(token, memo) {
+    const response = await this.client.post('/programtransfers/types', {
+      token,
+      program_funding_source_token: this.programFundingSourceToken,
+      memo,
+    });
+    return response.data;
+  }
+
+  // Look up a GPA order by token (null if it doesn't exist)
+  async getGPAOrder(token) {
+    try {
+      const response = await this.client.get(`/gpaorders/${token}`);
+      return response.data;
+    } catch (error) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Get an MCC group by token (null if it doesn't exist)
+  async getMccGroup(token) {
+    try {
+      const response = await this.client.get(`/mccgroups/${token}`);
+      return response.data;
+    } catch (error) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Create a named set of merchant category codes - mccs accepts single codes and ranges ("3000-3350")
+  async createMccGroup(token, name, mccs) {
+    const response = await this.client.post('/mccgroups', {
+      token,
+      name,
+      mccs,
+      active: true,
     });
     return response.data;
   }
 
+  async updateMccGroup(token, updates) {
+    const response = await this.client.put(`/mccgroups/${token}`, updates);
+    return response.data;
+  }
+
+  // Get a velocity control by token (null if it doesn't exist)
+  async getVelocityControl(token) {
+    try {
+      const response = await this.client.get(`/velocitycontrols/${token}`);
+      return response.data;
+    } catch (error) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Create a spending limit - see https://www.marqeta.com/docs/core-api/velocity-controls
+  async createVelocityControl(control) {
+    const response = await this.client.post('/velocitycontrols', control);
+    return response.data;
+  }
+
+  async updateVelocityControl(token, updates) {
+    const response = await this.client.put(`/velocitycontrols/${token}`, updates);
+    return response.data;
+  }
+
+  // Velocity controls that apply to a user
+  async listVelocityControlsForUser(userToken) {
+    const response = await this.client.get(`/velocitycontrols?user_token=${userToken}&count=100`);
+    return response.data;
+  }
+
+  // How much the user can still spend under each of their velocity controls
+  async getVelocityControlBalances(userToken) {
+    const response = await this.client.get(`/velocitycontrols/user/${userToken}/available?count=100`);
+    return response.data;
+  }
+
   // Get user's GPA balance
   async getGPABalance(userToken) {
     const response = await this.client.get(`/balances/${userToken}`);
@@ -126,23 +275,49 @@ class MarqetaService {
   }
 
   // Simulate an authorization (test spending)
-  async simulateAuthorization(cardToken, amount, mid = 'TEST_MERCHANT') {
+  // cardAcceptor sets the merchant, e.g. { name: 'Coffee Shop', mcc: '5814' }
+  async simulateAuthorization(cardToken, amount, mid = 'TEST_MERCHANT', cardAcceptor = null) {
     const response = await this.client.post('/simulate/authorization', {
       card_token: cardToken,
       amount: amount,
       mid: mid,
+      ...(cardAcceptor && { card_acceptor: cardAcceptor }),
     });
     return response.data;
   }
 
-  // Simulate clearing a transaction
-  async simulateClearing(transactionToken) {
+  // Simulate clearing a transaction - with isRefund, a refund against it instead
+  async simulateClearing(transactionToken, amount, isRefund = false) {
     const response = await this.client.post('/simulate/clearing', {
       original_transaction_token: transactionToken,
+      amount: amount,
+      ...(isRefund && { is_refund: true }),
     });
     return response.data;
   }
 
+  // Simulate the merchant releasing an authorization
+  async simulateReversal(transactionToken, amount) {
+    const response = await this.client.post('/simulate/reversal', {
+      original_transaction_token: transactionToken,
+      amount: amount,
+    });
+    return response.data;
+  }
+
+  // Get a single transaction (null if it doesn't exist)
+  async getTransaction(token) {
+    try {
+      const response = await this.client.get(`/transactions/${token}`);
+      return response.data;
+    } catch (error) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   // Get transactions for a user
   async getTransactions(userToken) {
     const response = await this.client.get(`/transactions/user/${userToken}?count=50`);
@@ -152,8 +327,7 @@ class MarqetaService {
   // Get program funding source info (sandbox has unlimited funds)
   async getFundingSourceInfo() {
     try {
-      // Try to get the sandbox program funding source
-      const response = await this.client.get('/fundingsources/program/sandbox_program_funding');
+      const response = await this.client.get(`/fundingsources/program/${this.programFundingSourceToken}`);
       return response.data;
     } catch (error) {
       // If specific source not found, list all program funding sources
@@ -162,9 +336,13 @@ class MarqetaService {
     }
   }
 
+  isSandbox() {
+    return this.baseURL.includes('sandbox');
+  }
+
   // Check if we're in sandbox mode
   async checkSandboxStatus() {
-    const isSandbox = this.baseURL.includes('sandbox');
+    const isSandbox = this.isSandbox();
     let fundingInfo = null;
     
     try {
@@ -176,8 +354,10 @@ class MarqetaService {
     return {
       isSandbox,
       baseUrl: this.baseURL,
-      fundingSource: isSandbox ? 'sandbox_program_funding' : 'production',
+      fundingSource: this.programFundingSourceToken,
       fundingInfo,
+      // Where add-money can draw from here - see fundingSources.js
+      fundingSources: availableFundingSources(isSandbox),
       unlimitedFunds: isSandbox // Sandbox has unlimited funds
     };
   }
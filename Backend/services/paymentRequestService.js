@@ -0,0 +1,227 @@
+import { v4 as uuidv4 } from 'uuid';
+import storageService from './storageService.js';
+import approvalPolicyService, { DEFAULT_APPROVAL_POLICY } from './approvalPolicyService.js';
+import approvalRulesService from './approvalRulesService.js';
+import fundingService from './fundingService.js';
+
+// Creating and approving payment requests
+//
+// Shared by the payment request routes and the recurring request scheduler, so a request created
+// on a schedule goes through exactly the same rules as one created by hand.
+class PaymentRequestService {
+  /**
+   * Validate and store a new payment request, applying the sender's approval rules
+   *   sender:  { userId, email, name }
+   *   fields:  create body - amount, description, category, imageUrl, approvers, approvalPolicy, expiresAt, backupApprover
+   *   options: resubmittedFrom    - id of the request this one replaces
+   *            recurringRequestId - id of the recurring request that generated it
+   *            preApproved        - skip the vote (the recurring request was approved up front)
+   *            actor              - { actorId, actorName } for the 'created' event (defaults to the sender)
+   * Returns { paymentRequest } or { status, error }
+   */
+  async submit(sender, fields, { resubmittedFrom = null, recurringRequestId = null, preApproved = false, actor = null } = {}) {
+    const {
+      amount,
+      description,
+      category,
+      imageUrl,
+      approvers, // Array of { userId, name, email }
+      approvalPolicy, // Optional { type, ... } - falls back to the sender's default policy
+      expiresAt, // Optional ISO timestamp - the request expires if still pending by then
+      backupApprover // Optional { userId, name, email } - falls back to the sender's backup approver
+    } = fields;
+
+    if (!amount || amount <= 0) {
+      return { status: 400, error: 'Amount must be greater than 0' };
+    }
+
+    if (!approvers || approvers.length === 0) {
+      return { status: 400, error: 'At least one approver is required' };
+    }
+
+    if (expiresAt && !(new Date(expiresAt) > new Date())) {
+      return { status: 400, error: 'expiresAt must be a valid date in the future' };
+    }
+
+    if (backupApprover && !backupApprover.userId) {
+      return { status: 400, error: 'backupApprover must include a userId' };
+    }
+
+    // Amount-tiered rules from the sender's settings: auto-approve below the threshold,
+    // otherwise the matching band may require more approvers or a stricter policy
+    const senderSettings = await storageService.getUserSettings(sender.userId);
+    const rules = approvalRulesService.resolve(senderSettings, parseFloat(amount));
+
+    if (rules.minApprovers && approvers.length < rules.minApprovers) {
+      return {
+        status: 400,
+        error: `Requests of $${parseFloat(amount).toFixed(2)} need at least ${rules.minApprovers} approvers`
+      };
+    }
+
+    const policyConfig = rules.policy || approvalPolicy || senderSettings.approvalPolicy || DEFAULT_APPROVAL_POLICY;
+    const policyError = approvalPolicyService.validate(policyConfig, approvers);
+    if (policyError) {
+      return { status: 400, error: policyError };
+    }
+
+    const senderMarqetaToken = await storageService.getUserMarqetaToken(sender.userId);
+    const isApproved = rules.autoApprove || preApproved;
+
+    const requestId = uuidv4();
+    const paymentRequest = {
+      id: requestId,
+      senderId: sender.userId,
+      senderEmail: sender.email,
+      senderName: sender.name,
+      senderMarqetaToken: senderMarqetaToken,
+      amount: parseFloat(amount),
+      description: description || '',
+      category: category || 'Other',
+      imageUrl: imageUrl || null,
+      approvers: approvers.map(a => ({
+        userId: a.userId,
+        name: a.name,
+        email: a.email,
+        status: 'pending' // Each approver has their own status
+      })),
+      status: isApproved ? 'approved' : 'pending',
+      approvalPolicy: approvalPolicyService.normalize(policyConfig),
+      autoApproved: rules.autoApprove,
+      preApproved: !rules.autoApprove && preApproved,
+      expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+      backupApprover: backupApprover
+        ? { userId: backupApprover.userId, name: backupApprover.name, email: backupApprover.email }
+        : null,
+      resubmittedFrom: resubmittedFrom || null,
+      recurringRequestId: recurringRequestId || null,
+      notes: null,
+      approvedBy: [],
+      rejectedBy: null,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+
+    if (isApproved) {
+      paymentRequest.approvedAt = new Date().toISOString();
+      paymentRequest.approvedAmount = paymentRequest.amount;
+      paymentRequest.fundingStatus = fundingService.approvedStatus();
+    }
+
+    await storageService.createPaymentRequest(paymentRequest);
+
+    await storageService.recordPaymentRequestEvent({
+      requestId,
+      type: 'created',
+      ...(actor || { actorId: sender.userId, actorName: sender.name }),
+      data: {
+        amount: paymentRequest.amount,
+        category: paymentRequest.category,
+        approvers: paymentRequest.approvers.map(a => a.userId),
+        approvalPolicy: paymentRequest.approvalPolicy,
+        resubmittedFrom: paymentRequest.resubmittedFrom,
+        recurringRequestId: paymentRequest.recurringRequestId
+      }
+    });
+
+    if (isApproved) {
+      await storageService.recordPaymentRequestEvent({
+        requestId,
+        type: 'approved',
+        data: rules.autoApprove
+          ? { outcome: 'approved', autoApproved: true, threshold: senderSettings.approvalThreshold }
+          : { outcome: 'approved', preApproved: true, recurringRequestId }
+      });
+    }
+
+    const fundedRequest = isApproved ? await this.fundApprovedRequest(paymentRequest) : paymentRequest;
+
+    // Create notifications for approvers (using service role key - bypasses RLS)
+    const amountText = `$${parseFloat(amount).toFixed(2)}`;
+    const descriptionText = description || 'expense';
+    for (const approver of approvers) {
+      // Don't notify the sender if they're in the approvers list
+      if (approver.userId === sender.userId) continue;
+
+      let notification;
+      if (rules.autoApprove) {
+        notification = {
+          type: 'request_reviewed',
+          title: 'Request Auto-Approved',
+          message: `${sender.name}'s ${amountText} request for ${descriptionText} was under their approval threshold and was approved automatically`
+        };
+      } else if (preApproved) {
+        notification = {
+          type: 'request_reviewed',
+          title: 'Recurring Request Funded',
+          message: `${sender.name}'s pre-approved recurring ${amountText} request for ${descriptionText} was created and approved automatically`
+        };
+      } else {
+        notification = {
+          type: 'approval_request',
+          title: resubmittedFrom ? 'Request Resubmitted' : 'New Approval Request',
+          message: `${sender.name} ${resubmittedFrom ? 'resubmitted' : 'submitted'} a ${amountText} request for ${descriptionText}`
+        };
+      }
+
+      await storageService.createNotification({ ...notification, userId: approver.userId, requestId });
+    }
+
+    return { paymentRequest: fundedRequest };
+  }
+
+  // Kick off funding for a newly approved request. Anything that fails here is left in
+  // approved_unfunded for the funding retry worker, so approval itself never fails on funding.
+  // In JIT mode the request is in jit_available and fundRequest leaves it for the card to claim.
+  async fundApprovedRequest(paymentRequest) {
+    try {
+      return await fundingService.fundRequest(paymentRequest);
+    } catch (error) {
+      console.error('Error starting funding for payment request:', error.message);
+      return paymentRequest;
+    }
+  }
+
+  // Record an approver's sign-off (possibly for less than was asked) and let the request's approval
+  // policy decide the outcome. Mutates paymentRequest and returns the outcome.
+  applyApproval(paymentRequest, approverIndex, approvedAmount, approverName) {
+    const now = new Date().toISOString();
+    const approver = paymentRequest.approvers[approverIndex];
+
+    approver.status = 'approved';
+    approver.approvedAt = now;
+    approver.approvedAmount = approvedAmount;
+
+    paymentRequest.approvedBy.push({
+      userId: approver.userId,
+      name: approverName,
+      approvedAt: now,
+      amount: approvedAmount
+    });
+
+    // Let the request's approval policy decide whether quorum has been reached
+    const outcome = approvalPolicyService.evaluate(paymentRequest);
+
+    paymentRequest.status = outcome;
+    paymentRequest.updatedAt = now;
+
+    if (outcome === 'approved') {
+      paymentRequest.approvedAt = now;
+      paymentRequest.approvedAmount = this.resolveApprovedAmount(paymentRequest);
+      paymentRequest.fundingStatus = fundingService.approvedStatus();
+    }
+
+    return outcome;
+  }
+
+  // The amount to fund once a request is approved: the smallest amount any approver signed off on
+  resolveApprovedAmount(paymentRequest) {
+    const amounts = paymentRequest.approvers
+      .filter(a => a.status === 'approved')
+      .map(a => a.approvedAmount ?? paymentRequest.amount);
+    return amounts.length ? Math.min(...amounts) : paymentRequest.amount;
+  }
+}
+
+const paymentRequestService = new PaymentRequestService();
+export default paymentRequestService;
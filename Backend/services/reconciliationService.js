@@ -0,0 +1,208 @@
+import storageService from './storageService.js';
+import marqetaService from './marqetaService.js';
+import { FUNDING_STATUS } from './fundingService.js';
+import { mccMatchesCategory } from './spendControlService.js';
+
+// Requests whose approved money reached the sender (or is waiting on their card in JIT mode)
+const RECONCILED_FUNDING_STATUSES = [FUNDING_STATUS.FUNDED, FUNDING_STATUS.JIT_AVAILABLE, FUNDING_STATUS.JIT_CONSUMED];
+
+const FAILED_TRANSACTION_STATES = ['DECLINED', 'ERROR'];
+const REFUND_TYPES = ['refund', 'authorization.clearing.refund'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (amount) => Math.round(amount * 100) / 100;
+const approvedAmount = (request) => request.approvedAmount ?? request.amount;
+const transactionTime = (tx) => new Date(tx.user_transaction_time || tx.created_time);
+
+// Spending vs approved, per request
+//
+// Card spend comes from Marqeta's transactions for the sender. Each purchase is an authorization,
+// netted against its clearings, reversals and refunds. Purchases are matched to approved requests:
+//   1. exactly, when the JIT gateway funded it from the request or it was made on the request's card
+//   2. otherwise, for GPA-funded requests, within the request's time window (created until
+//      RECONCILIATION_WINDOW_DAYS after funding), preferring merchants in the request's category,
+//      then amounts within RECONCILIATION_AMOUNT_WINDOW_PERCENT of what's left on the request
+// Each request is then flagged for over-spend, funds left unspent after its window, and purchases
+// at merchants outside its category.
+class ReconciliationService {
+  constructor() {
+    this.windowDays = parseInt(process.env.RECONCILIATION_WINDOW_DAYS || '30', 10);
+    this.amountWindowPercent = parseFloat(process.env.RECONCILIATION_AMOUNT_WINDOW_PERCENT || '10');
+  }
+
+  /**
+   * Reconcile everything a sender was approved for
+   * Returns { requests, unmatchedTransactions, summary }
+   */
+  async reconcileForSender(senderId) {
+    const marqetaToken = await storageService.getUserMarqetaToken(senderId);
+
+    const [allRequests, transactions, userCards] = await Promise.all([
+      storageService.getPaymentRequestsBySender(senderId),
+      marqetaToken ? this._getTransactions(marqetaToken) : [],
+      storageService.getUserCards(senderId)
+    ]);
+
+    const requests = allRequests
+      .filter(r => r.status === 'approved' && RECONCILED_FUNDING_STATUSES.includes(r.fundingStatus))
+      .sort((a, b) => new Date(a.createdAt) - new Date(b.createdAt));
+    const cardRequests = new Map(userCards.filter(c => c.requestId).map(c => [c.cardToken, c.requestId]));
+
+    const matches = new Map(requests.map(r => [r.id, []]));
+    const unmatched = [];
+
+    for (const purchase of this.purchases(transactions)) {
+      const match = this._match(purchase, requests, matches, cardRequests);
+      if (match) {
+        matches.get(match.request.id).push({ ...purchase, matchedBy: match.matchedBy, onPurpose: mccMatchesCategory(purchase.mcc, match.request.category) });
+      } else {
+        unmatched.push(purchase);
+      }
+    }
+
+    const results = requests.map(r => this._summarizeRequest(r, matches.get(r.id)));
+
+    return {
+      requests: results,
+      unmatchedTransactions: unmatched,
+      summary: {
+        approved: round2(results.reduce((sum, r) => sum + r.approvedAmount, 0)),
+        spent: round2(results.reduce((sum, r) => sum + r.spent, 0)),
+        unmatchedSpend: round2(unmatched.reduce((sum, p) => sum + p.amount, 0)),
+        flagged: results.filter(r => r.flags.length > 0).length
+      }
+    };
+  }
+
+  /**
+   * One request's reconciliation (null if it isn't approved and funded)
+   * Matching still runs over all of the sender's requests so purchases land where they would in
+   * the full view.
+   */
+  async reconcileRequest(request) {
+    const { requests } = await this.reconcileForSender(request.senderId);
+    return requests.find(r => r.requestId === request.id) || null;
+  }
+
+  // Net purchases from a list of Marqeta transactions, oldest first
+  purchases(transactions) {
+    const followUps = new Map();
+    for (const tx of transactions) {
+      const original = tx.preceding_related_transaction_token;
+      if (!original || FAILED_TRANSACTION_STATES.includes(tx.state)) continue;
+      if (!followUps.has(original)) followUps.set(original, []);
+      followUps.get(original).push(tx);
+    }
+
+    const authorizationTokens = new Set(transactions.filter(tx => tx.type === 'authorization').map(tx => tx.token));
+
+    return transactions
+      .filter(tx => !FAILED_TRANSACTION_STATES.includes(tx.state))
+      // Authorizations, plus clearings that arrived without one (force posts)
+      .filter(tx => tx.type === 'authorization'
+        || (tx.type === 'authorization.clearing' && !authorizationTokens.has(tx.preceding_related_transaction_token)))
+      .map(tx => {
+        const related = followUps.get(tx.token) || [];
+        const sum = (types) => related.filter(r => types.includes(r.type)).reduce((total, r) => total + Number(r.amount || 0), 0);
+
+        const clearings = related.filter(r => r.type === 'authorization.clearing');
+        const charged = clearings.length > 0 ? sum(['authorization.clearing']) : Number(tx.amount || 0);
+        const amount = round2(charged - sum(['authorization.reversal']) - sum(REFUND_TYPES));
+
+        return {
+          token: tx.token,
+          amount,
+          cardToken: tx.card_token,
+          merchantName: tx.card_acceptor?.name || null,
+          mcc: tx.card_acceptor?.mcc || null,
+          jitFundingToken: tx.gpa_order?.jit_funding?.token || null,
+          time: transactionTime(tx).toISOString(),
+          settled: clearings.length > 0 || tx.type === 'authorization.clearing'
+        };
+      })
+      .filter(p => p.amount > 0)
+      .sort((a, b) => new Date(a.time) - new Date(b.time));
+  }
+
+  // When a request's money should have been spent by
+  windowEndsAt(request) {
+    const start = new Date(request.fundedAt || request.updatedAt || request.createdAt);
+    return new Date(start.getTime() + this.windowDays * DAY_MS);
+  }
+
+  _match(purchase, requests, matches, cardRequests) {
+    const exact = purchase.jitFundingToken && requests.find(r => r.jitFundingToken === purchase.jitFundingToken);
+    if (exact) return { request: exact, matchedBy: 'jit' };
+
+    const cardRequestId = cardRequests.get(purchase.cardToken);
+    const cardRequest = cardRequestId && requests.find(r => r.id === cardRequestId);
+    if (cardRequest) return { request: cardRequest, matchedBy: 'card' };
+
+    const window = this.amountWindowPercent / 100;
+    const time = new Date(purchase.time);
+    const remaining = (r) => approvedAmount(r) - matches.get(r.id).reduce((sum, p) => sum + p.amount, 0);
+    const requestsWithCards = new Set(cardRequests.values());
+
+    const candidates = requests
+      // JIT requests and requests with their own card are only matched exactly
+      .filter(r => r.fundingStatus === FUNDING_STATUS.FUNDED && !requestsWithCards.has(r.id))
+      .filter(r => time >= new Date(r.createdAt) && time <= this.windowEndsAt(r) && remaining(r) > 0)
+      .map(r => ({
+        request: r,
+        onPurpose: mccMatchesCategory(purchase.mcc, r.category) === true,
+        amountFits: Math.abs(remaining(r) - purchase.amount) <= remaining(r) * window,
+        diff: Math.abs(remaining(r) - purchase.amount)
+      }))
+      .filter(c => c.onPurpose || c.amountFits)
+      .sort((a, b) => (b.onPurpose - a.onPurpose) || (b.amountFits - a.amountFits) || (a.diff - b.diff));
+
+    if (candidates.length === 0) return null;
+    return { request: candidates[0].request, matchedBy: candidates[0].onPurpose ? 'category' : 'amount' };
+  }
+
+  _summarizeRequest(request, purchases) {
+    const approved = approvedAmount(request);
+    const spent = round2(purchases.reduce((sum, p) => sum + p.amount, 0));
+    const remaining = round2(approved - spent);
+    const window = this.amountWindowPercent / 100;
+    const windowEndsAt = this.windowEndsAt(request);
+
+    let status;
+    if (spent === 0) status = 'unspent';
+    else if (spent > approved + 0.01) status = 'overspent';
+    else if (spent >= approved * (1 - window)) status = 'spent';
+    else status = 'partially_spent';
+
+    const flags = [];
+    if (status === 'overspent') flags.push('overspent');
+    if (remaining > approved * window && windowEndsAt < new Date()) flags.push('unspent');
+    if (purchases.some(p => p.onPurpose === false)) flags.push('off_purpose');
+
+    return {
+      requestId: request.id,
+      description: request.description,
+      category: request.category,
+      approvedAmount: approved,
+      spent,
+      remaining,
+      status,
+      flags,
+      windowEndsAt: windowEndsAt.toISOString(),
+      transactions: purchases
+    };
+  }
+
+  async _getTransactions(marqetaToken) {
+    try {
+      const response = await marqetaService.getTransactions(marqetaToken);
+      return response.data || [];
+    } catch (error) {
+      if (error.response?.status === 404) return [];
+      throw error;
+    }
+  }
+}
+
+const reconciliationService = new ReconciliationService();
+export default reconciliationService;
@@ -0,0 +1,309 @@
+import storageService from './storageService.js';
+import approvalPolicyService from './approvalPolicyService.js';
+import paymentRequestService from './paymentRequestService.js';
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_HOUR = 9;
+
+// Field ranges for cron expressions: minute hour day-of-month month day-of-week
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 6 }
+];
+
+// Parse one cron field ("*", "5", "1-5", "*/15", "1,15", "10-50/10") into the set of values it allows
+function parseCronField(field, { name, min, max }) {
+  const values = new Set();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid ${name} "${part}"`);
+    }
+
+    const [, start, end, step] = match;
+    const from = start === '*' ? min : parseInt(start, 10);
+    const to = end !== undefined ? parseInt(end, 10) : (start === '*' || step ? max : from);
+    const every = step ? parseInt(step, 10) : 1;
+
+    if (from < min || to > max || from > to || every < 1) {
+      throw new Error(`Invalid ${name} "${part}" (allowed ${min}-${max})`);
+    }
+
+    for (let value = from; value <= to; value += every) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseCron(expression) {
+  const fields = String(expression).trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error('Cron expressions need 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((f, i) => parseCronField(f, CRON_FIELDS[i]));
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // Standard cron: when both day fields are restricted, either one matching is enough
+    anyDay: fields[2] !== '*' && fields[4] !== '*'
+  };
+}
+
+const daysInMonth = (year, month) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Recurring payment requests
+//
+// A recurring request is a template (amount, category, approvers, policy) plus a schedule. The
+// scheduler - run on an interval from index.js or from /api/cron/recurring-requests - creates a
+// normal payment request from every template whose nextRunAt has passed, then moves nextRunAt on.
+// Missed runs aren't back-filled: a server that was down for three weeks creates one request, not three.
+//
+// Schedules are in UTC:
+//   { frequency: 'weekly',  dayOfWeek: 0-6 (Sunday = 0), hour?: 0-23 }
+//   { frequency: 'monthly', dayOfMonth: 1-31, hour?: 0-23 }   - 31 means the last day in shorter months
+//   { frequency: 'cron',    expression: 'minute hour day-of-month month day-of-week' }
+//                                 - at most once a day, so one minute and one hour
+//
+// A template can be pre-approved: its approvers vote once on the template (under its approval
+// policy) and every run after that is created already approved and funded straight away.
+class RecurringRequestService {
+  constructor() {
+    this.isRunning = false;
+  }
+
+  // Returns an error message, or null if the schedule is usable
+  validateSchedule(schedule) {
+    if (!schedule || typeof schedule !== 'object') {
+      return 'schedule is required';
+    }
+
+    const { frequency, hour } = schedule;
+
+    if (hour !== undefined && !(Number.isInteger(hour) && hour >= 0 && hour <= 23)) {
+      return 'schedule.hour must be an integer from 0 to 23';
+    }
+
+    switch (frequency) {
+      case 'weekly':
+        if (!(Number.isInteger(schedule.dayOfWeek) && schedule.dayOfWeek >= 0 && schedule.dayOfWeek <= 6)) {
+          return 'schedule.dayOfWeek must be an integer from 0 (Sunday) to 6 (Saturday)';
+        }
+        return null;
+      case 'monthly':
+        if (!(Number.isInteger(schedule.dayOfMonth) && schedule.dayOfMonth >= 1 && schedule.dayOfMonth <= 31)) {
+          return 'schedule.dayOfMonth must be an integer from 1 to 31';
+        }
+        return null;
+      case 'cron': {
+        let cron;
+        try {
+          cron = parseCron(schedule.expression);
+          this._nextCronRun(cron, new Date());
+        } catch (error) {
+          return `schedule.expression is invalid: ${error.message}`;
+        }
+        // Every run of a pre-approved template is funded without a vote, so a schedule can't
+        // fire more than once a day
+        if (cron.minutes.size > 1 || cron.hours.size > 1) {
+          return 'schedule.expression can run at most once a day: use a single minute and a single hour';
+        }
+        return null;
+      }
+      default:
+        return 'schedule.frequency must be one of: weekly, monthly, cron';
+    }
+  }
+
+  // Strip unknown fields so only the schedule's own settings get persisted
+  normalizeSchedule(schedule) {
+    switch (schedule.frequency) {
+      case 'weekly':
+        return { frequency: 'weekly', dayOfWeek: schedule.dayOfWeek, hour: schedule.hour ?? DEFAULT_HOUR };
+      case 'monthly':
+        return { frequency: 'monthly', dayOfMonth: schedule.dayOfMonth, hour: schedule.hour ?? DEFAULT_HOUR };
+      default:
+        return { frequency: 'cron', expression: String(schedule.expression).trim() };
+    }
+  }
+
+  // The first run strictly after `from`
+  computeNextRun(schedule, from = new Date()) {
+    switch (schedule.frequency) {
+      case 'weekly':
+        return this._nextCronRun(parseCron(`0 ${schedule.hour ?? DEFAULT_HOUR} * * ${schedule.dayOfWeek}`), from);
+      case 'monthly':
+        return this._nextMonthlyRun(schedule, from);
+      default:
+        return this._nextCronRun(parseCron(schedule.expression), from);
+    }
+  }
+
+  _nextMonthlyRun({ dayOfMonth, hour = DEFAULT_HOUR }, from) {
+    let year = from.getUTCFullYear();
+    let month = from.getUTCMonth();
+
+    for (;;) {
+      const day = Math.min(dayOfMonth, daysInMonth(year, month));
+      const candidate = new Date(Date.UTC(year, month, day, hour));
+      if (candidate > from) return candidate;
+
+      month++;
+      if (month > 11) {
+        month = 0;
+        year++;
+      }
+    }
+  }
+
+  // Walk forward from `from`, skipping a whole month/day/hour at a time when that field can't match
+  _nextCronRun(cron, from) {
+    const next = new Date(Math.floor(from.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+    const limit = new Date(from.getTime() + 5 * 366 * 24 * 60 * MINUTE_MS);
+
+    while (next <= limit) {
+      if (!cron.months.has(next.getUTCMonth() + 1)) {
+        next.setUTCMonth(next.getUTCMonth() + 1, 1);
+        next.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+
+      const domMatches = cron.daysOfMonth.has(next.getUTCDate());
+      const dowMatches = cron.daysOfWeek.has(next.getUTCDay());
+      if (cron.anyDay ? !(domMatches || dowMatches) : !(domMatches && dowMatches)) {
+        next.setUTCDate(next.getUTCDate() + 1);
+        next.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!cron.hours.has(next.getUTCHours())) {
+        next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+
+      if (!cron.minutes.has(next.getUTCMinutes())) {
+        next.setUTCMinutes(next.getUTCMinutes() + 1, 0, 0);
+        continue;
+      }
+
+      return next;
+    }
+
+    throw new Error('Schedule never runs');
+  }
+
+  // Fresh pre-approval state: every approver has to vote on the template again
+  pendingPreApproval(approvers) {
+    return {
+      status: 'pending',
+      approvers: approvers.map(({ userId, name, email }) => ({ userId, name, email, status: 'pending' }))
+    };
+  }
+
+  /**
+   * Record an approver's vote on a template's pre-approval. Mutates recurring.preApproval and
+   * returns the outcome of the template's approval policy.
+   */
+  applyPreApprovalDecision(recurring, approverIndex, decision) {
+    const now = new Date().toISOString();
+    const approver = recurring.preApproval.approvers[approverIndex];
+
+    approver.status = decision;
+    approver.decidedAt = now;
+
+    const outcome = approvalPolicyService.evaluate({
+      approvalPolicy: recurring.approvalPolicy,
+      approvers: recurring.preApproval.approvers
+    });
+
+    recurring.preApproval.status = outcome;
+    if (outcome !== 'pending') {
+      recurring.preApproval.decidedAt = now;
+    }
+
+    return outcome;
+  }
+
+  // Create payment requests for every active template that is due
+  async runDue(now = new Date()) {
+    // Overlapping runs (slow interval + cron) would create the same request twice
+    if (this.isRunning) {
+      return { skipped: true };
+    }
+
+    this.isRunning = true;
+    const summary = { checked: 0, created: 0, preApproved: 0, invalid: 0, failed: 0 };
+
+    try {
+      const due = await storageService.getDueRecurringRequests(now);
+      summary.checked = due.length;
+
+      for (const recurring of due) {
+        try {
+          const action = await this._run(recurring, now);
+          summary[action]++;
+        } catch (error) {
+          console.error(`[Recurring] Failed to run recurring request ${recurring.id}:`, error.message);
+          summary.failed++;
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+
+    return summary;
+  }
+
+  async _run(recurring, now) {
+    const preApproved = recurring.preApproval?.status === 'approved';
+
+    const result = await paymentRequestService.submit(
+      { userId: recurring.senderId, email: recurring.senderEmail, name: recurring.senderName },
+      {
+        amount: recurring.amount,
+        description: recurring.description,
+        category: recurring.category,
+        approvers: recurring.approvers,
+        approvalPolicy: recurring.approvalPolicy
+      },
+      { recurringRequestId: recurring.id, preApproved, actor: { actorId: null, actorName: 'System' } }
+    );
+
+    await storageService.updateRecurringRequest(recurring.id, {
+      lastRunAt: now.toISOString(),
+      nextRunAt: this.computeNextRun(recurring.schedule, now).toISOString(),
+      ...(result.error
+        ? { lastError: result.error }
+        : { lastRequestId: result.paymentRequest.id, lastError: null })
+    });
+
+    if (result.error) {
+      // e.g. the sender's approval rules changed since the template was set up
+      try {
+        await storageService.createNotification({
+          userId: recurring.senderId,
+          type: 'request_reviewed',
+          title: 'Recurring Request Skipped',
+          message: `Your recurring $${recurring.amount.toFixed(2)} request for ${recurring.description || 'expense'} couldn't be created: ${result.error}`
+        });
+      } catch (notifError) {
+        console.error('[Recurring] Error creating notification:', notifError);
+      }
+      return 'invalid';
+    }
+
+    return preApproved ? 'preApproved' : 'created';
+  }
+}
+
+const recurringRequestService = new RecurringRequestService();
+export default recurringRequestService;
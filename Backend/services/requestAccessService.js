@@ -0,0 +1,65 @@
+import storageService from './storageService.js';
+
+export const REQUEST_ACCESS = {
+  SENDER: 'sender',
+  APPROVER: 'approver',
+  VIEWER: 'viewer'
+};
+
+const byNewest = (a, b) => new Date(b.createdAt) - new Date(a.createdAt);
+
+// How many of the newest requests each list returns
+export const READ_LIMITS = { mine: 50, toApprove: 100, watching: 50 };
+
+// Who may read a payment request (its amount, notes and receipt)
+//   sender   - whoever submitted it
+//   approver - anyone listed in its approvers
+//   viewer   - the sender's accepted partners with the viewer role, who follow along without voting
+// Anyone else is told the request doesn't exist.
+class RequestAccessService {
+  // How userId can see the request, or null if they can't
+  async accessFor(userId, request) {
+    if (!userId || !request) return null;
+    if (request.senderId === userId) return REQUEST_ACCESS.SENDER;
+    if (request.approvers?.some(a => a.userId === userId)) return REQUEST_ACCESS.APPROVER;
+
+    const partners = await storageService.getAccountabilityPartners(request.senderId);
+    if (partners.some(p => p.userId === userId && p.role === 'viewer')) return REQUEST_ACCESS.VIEWER;
+
+    return null;
+  }
+
+  async canRead(userId, request) {
+    return (await this.accessFor(userId, request)) !== null;
+  }
+
+  /**
+   * The newest requests userId can read, up to READ_LIMITS per list
+   * Returns { mine, toApprove, watching }
+   */
+  async readableRequests(userId) {
+    const [mine, toApprove, watching] = await Promise.all([
+      storageService.getPaymentRequestsBySender(userId, { limit: READ_LIMITS.mine }),
+      storageService.getPaymentRequestsByReceiver(userId, { limit: READ_LIMITS.toApprove }),
+      this.watchedRequests(userId)
+    ]);
+
+    return { mine: mine.sort(byNewest), toApprove: toApprove.sort(byNewest), watching };
+  }
+
+  // Requests from people who added userId as a viewer, except ones userId also approves
+  async watchedRequests(userId) {
+    const senderIds = await storageService.getUsersWithPartner(userId, 'viewer');
+    const requests = await Promise.all(senderIds.map(id =>
+      storageService.getPaymentRequestsBySender(id, { limit: READ_LIMITS.watching })));
+
+    return requests
+      .flat()
+      .filter(r => !r.approvers?.some(a => a.userId === userId))
+      .sort(byNewest)
+      .slice(0, READ_LIMITS.watching);
+  }
+}
+
+const requestAccessService = new RequestAccessService();
+export default requestAccessService;
@@ -0,0 +1,192 @@
+import storageService from './storageService.js';
+import approvalPolicyService from './approvalPolicyService.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Background sweep over pending payment requests
+//
+// Run on an interval from index.js or from the /api/cron/sweep-requests route. Each pass:
+//   1. expires requests whose expiresAt has passed
+//   2. reminds approvers who haven't acted once a request has waited REQUEST_REMINDER_HOURS
+//   3. escalates to the sender's backup approver once it has waited REQUEST_ESCALATION_HOURS
+// A request waits from when it was created, or from its last edit.
+// Every transition notifies the people involved and is recorded in the request's event log.
+class RequestSweepService {
+  constructor() {
+    this.reminderAfterMs = parseFloat(process.env.REQUEST_REMINDER_HOURS || '24') * HOUR_MS;
+    this.escalateAfterMs = parseFloat(process.env.REQUEST_ESCALATION_HOURS || '72') * HOUR_MS;
+    this.isRunning = false;
+  }
+
+  async runSweep(now = new Date()) {
+    // Overlapping runs (slow interval + cron) would send duplicate notifications
+    if (this.isRunning) {
+      return { skipped: true };
+    }
+
+    this.isRunning = true;
+    const summary = { checked: 0, expired: 0, reminded: 0, escalated: 0, failed: 0 };
+
+    try {
+      const pending = await storageService.getPendingPaymentRequests();
+      summary.checked = pending.length;
+
+      for (const request of pending) {
+        try {
+          const action = await this._processRequest(request, now);
+          if (action) summary[action]++;
+        } catch (error) {
+          console.error(`[Sweep] Failed to process request ${request.id}:`, error.message);
+          summary.failed++;
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+
+    return summary;
+  }
+
+  async _processRequest(request, now) {
+    const age = now - new Date(request.editedAt || request.createdAt);
+
+    if (request.expiresAt && now >= new Date(request.expiresAt)) {
+      await this._expire(request, now);
+      return 'expired';
+    }
+
+    if (!request.escalatedAt && age >= this.escalateAfterMs) {
+      const escalated = await this._escalate(request, now);
+      if (escalated) return 'escalated';
+    }
+
+    if (!request.remindedAt && age >= this.reminderAfterMs) {
+      await this._remind(request, now);
+      return 'reminded';
+    }
+
+    return null;
+  }
+
+  async _expire(request, now) {
+    const pendingApprovers = this._pendingApprovers(request);
+
+    await storageService.updatePaymentRequest(request.id, {
+      status: 'expired',
+      expiredAt: now.toISOString()
+    });
+
+    await this._recordEvent(request, 'expired', now, { expiresAt: request.expiresAt });
+
+    await this._notify({
+      userId: request.senderId,
+      type: 'request_reviewed',
+      title: 'Request Expired',
+      message: `Your $${request.amount.toFixed(2)} request for ${request.description} expired before it was approved`,
+      requestId: request.id
+    });
+
+    for (const approver of pendingApprovers) {
+      await this._notify({
+        userId: approver.userId,
+        type: 'request_reviewed',
+        title: 'Request Expired',
+        message: `${request.senderName}'s $${request.amount.toFixed(2)} request for ${request.description} has expired`,
+        requestId: request.id
+      });
+    }
+  }
+
+  async _remind(request, now) {
+    const pendingApprovers = this._pendingApprovers(request);
+
+    for (const approver of pendingApprovers) {
+      await this._notify({
+        userId: approver.userId,
+        type: 'approval_request',
+        title: 'Approval Reminder',
+        message: `${request.senderName}'s $${request.amount.toFixed(2)} request for ${request.description} is still waiting for your review`,
+        requestId: request.id
+      });
+    }
+
+    await storageService.updatePaymentRequest(request.id, {
+      remindedAt: now.toISOString()
+    });
+
+    await this._recordEvent(request, 'reminded', now, { approverIds: pendingApprovers.map(a => a.userId) });
+  }
+
+  // Hands the final say to the sender's backup approver. Returns false if there is none to escalate to.
+  async _escalate(request, now) {
+    const settings = await storageService.getUserSettings(request.senderId);
+    const backup = request.backupApprover || settings.backupApprover;
+
+    if (!backup?.userId || backup.userId === request.senderId) {
+      return false;
+    }
+
+    const alreadyApprover = request.approvers.some(a => a.userId === backup.userId);
+    const approvers = alreadyApprover
+      ? request.approvers
+      : [...request.approvers, { userId: backup.userId, name: backup.name, email: backup.email, status: 'pending' }];
+
+    // Kept so an edit can undo the escalation (see PATCH /payment-requests/:id)
+    await storageService.updatePaymentRequest(request.id, {
+      approvers,
+      approvalPolicy: approvalPolicyService.normalize({ type: 'required_approver', approverId: backup.userId, base: { type: 'any' } }),
+      escalatedAt: now.toISOString(),
+      preEscalation: { approvalPolicy: request.approvalPolicy, addedApproverId: alreadyApprover ? null : backup.userId }
+    });
+
+    await this._recordEvent(request, 'escalated', now, {
+      backupApproverId: backup.userId,
+      previousPolicy: request.approvalPolicy
+    });
+
+    await this._notify({
+      userId: backup.userId,
+      type: 'approval_request',
+      title: 'Escalated Approval Request',
+      message: `${request.senderName}'s $${request.amount.toFixed(2)} request for ${request.description} was escalated to you after going unanswered`,
+      requestId: request.id
+    });
+
+    await this._notify({
+      userId: request.senderId,
+      type: 'request_reviewed',
+      title: 'Request Escalated',
+      message: `Your $${request.amount.toFixed(2)} request for ${request.description} was escalated to ${backup.name || 'your backup approver'}`,
+      requestId: request.id
+    });
+
+    return true;
+  }
+
+  _pendingApprovers(request) {
+    return (request.approvers || []).filter(a =>
+      (!a.status || a.status === 'pending') && a.userId !== request.senderId
+    );
+  }
+
+  _recordEvent(request, type, now, data) {
+    return storageService.recordPaymentRequestEvent({
+      requestId: request.id,
+      type,
+      data,
+      createdAt: now.toISOString()
+    });
+  }
+
+  async _notify(notification) {
+    try {
+      await storageService.createNotification(notification);
+    } catch (notifError) {
+      console.error('[Sweep] Error creating notification:', notifError);
+      // Don't stop the sweep if a notification fails
+    }
+  }
+}
+
+const requestSweepService = new RequestSweepService();
+export default requestSweepService;
@@ -0,0 +1,133 @@
+import storageService from './storageService.js';
+import marqetaService from './marqetaService.js';
+import cardService from './cardService.js';
+
+// What each scenario does. Scenarios with followsTransaction act on an earlier authorization
+// (transactionToken), the rest start a new one on a card.
+export const SIMULATION_SCENARIOS = {
+  authorization: { followsTransaction: false, description: 'A purchase at a merchant' },
+  clearing: { followsTransaction: true, description: 'The merchant settles an authorization' },
+  reversal: { followsTransaction: true, description: 'The merchant releases an authorization' },
+  refund: { followsTransaction: true, description: 'The merchant refunds a purchase' },
+  decline: { followsTransaction: false, description: 'A purchase for more than the card can spend' }
+};
+
+const round2 = (amount) => Math.round(amount * 100) / 100;
+
+// Sandbox card transaction simulations
+//
+// Runs Marqeta's /simulate endpoints against the user's own cards so the whole spend flow - JIT
+// funding, spend controls, webhooks, single-use cards - can be exercised without a terminal.
+// Only available when the Marqeta base URL is the sandbox.
+class SimulationService {
+  isEnabled() {
+    return marqetaService.isSandbox();
+  }
+
+  /**
+   * Run a scenario for the user
+   *   options: cardToken        - which card (defaults to the main card; new authorizations only)
+   *            transactionToken - the authorization to clear, reverse or refund
+   *            amount           - defaults to the original amount for follow-ups
+   *            merchantName, mcc
+   * Returns { transaction } or { status, error }
+   */
+  async run(userId, scenario, options = {}) {
+    if (!this.isEnabled()) {
+      return { status: 403, error: 'Simulations are only available in the Marqeta sandbox' };
+    }
+
+    const definition = SIMULATION_SCENARIOS[scenario];
+    if (!definition) {
+      return { status: 400, error: `Unknown scenario: ${scenario}` };
+    }
+
+    const amount = options.amount != null ? parseFloat(options.amount) : null;
+    if (amount != null && !(amount > 0)) {
+      return { status: 400, error: 'Amount must be greater than 0' };
+    }
+
+    const marqetaToken = await storageService.getUserMarqetaToken(userId);
+    if (!marqetaToken) {
+      return { status: 400, error: 'User not initialized with Marqeta' };
+    }
+
+    const cards = await cardService.getCards(marqetaToken);
+
+    if (definition.followsTransaction) {
+      return await this._followUp(scenario, cards, options.transactionToken, amount);
+    }
+
+    const card = options.cardToken ? cards.find(c => c.token === options.cardToken) : cardService.pickCurrentCard(cards);
+    if (!card) {
+      return { status: 404, error: options.cardToken ? 'Card not found' : 'You do not have a card yet' };
+    }
+
+    if (amount == null) {
+      return { status: 400, error: 'Amount is required' };
+    }
+
+    const merchantName = options.merchantName?.trim() || 'Test Merchant';
+    const cardAcceptor = { name: merchantName, ...(options.mcc && { mcc: String(options.mcc) }) };
+
+    let authAmount = amount;
+    if (scenario === 'decline') {
+      // Over the wallet balance, so GPA funding can't cover it and JIT has no request this size
+      const balance = await marqetaService.getGPABalance(marqetaToken);
+      authAmount = round2((balance?.gpa?.available_balance || 0) + amount);
+    }
+
+    const result = await marqetaService.simulateAuthorization(card.token, authAmount, merchantName, cardAcceptor);
+    return { transaction: this.summarize(result.transaction || result) };
+  }
+
+  async _followUp(scenario, cards, transactionToken, amount) {
+    if (!transactionToken) {
+      return { status: 400, error: `transactionToken is required to simulate a ${scenario}` };
+    }
+
+    const original = await marqetaService.getTransaction(transactionToken);
+    if (!original || !cards.some(c => c.token === original.card_token)) {
+      return { status: 404, error: 'Transaction not found' };
+    }
+    if (original.type !== 'authorization') {
+      return { status: 400, error: `Only authorizations can be followed by a ${scenario}` };
+    }
+
+    const followUpAmount = amount ?? original.amount;
+    let result;
+    switch (scenario) {
+      case 'clearing':
+        result = await marqetaService.simulateClearing(original.token, followUpAmount);
+        break;
+      case 'refund':
+        result = await marqetaService.simulateClearing(original.token, followUpAmount, true);
+        break;
+      case 'reversal':
+        result = await marqetaService.simulateReversal(original.token, followUpAmount);
+        break;
+    }
+
+    return { transaction: this.summarize(result.transaction || result) };
+  }
+
+  // The parts of a Marqeta transaction worth showing in the console
+  summarize(tx) {
+    return {
+      token: tx.token,
+      type: tx.type,
+      state: tx.state,
+      amount: tx.amount,
+      cardToken: tx.card_token,
+      merchantName: tx.card_acceptor?.name || null,
+      mcc: tx.card_acceptor?.mcc || null,
+      responseCode: tx.response?.code || null,
+      responseMemo: tx.response?.memo || null,
+      precedingTransactionToken: tx.preceding_related_transaction_token || null,
+      createdTime: tx.created_time || tx.user_transaction_time || null
+    };
+  }
+}
+
+const simulationService = new SimulationService();
+export default simulationService;
@@ -0,0 +1,146 @@
+import { createHash } from 'crypto';
+import storageService from './storageService.js';
+import marqetaService from './marqetaService.js';
+import { FUNDING_STATUS } from './fundingService.js';
+
+// Request categories (the options in NewRequestModal) mapped to Marqeta MCC groups.
+// MCCs are single codes or ranges. 'Other' has no group, so its funds can be spent anywhere.
+export const CATEGORY_MCC_GROUPS = {
+  Travel: {
+    token: 'accountabills_travel',
+    name: 'AccountaBills - Travel',
+    // Airlines, car rental and hotel chains, rail, bus, taxis, ferries, travel agencies, lodging
+    mccs: ['3000-3299', '3351-3441', '3501-3999', '4011', '4111', '4112', '4121', '4131', '4411', '4511', '4582', '4722', '4789', '7011', '7512', '7513', '7519']
+  },
+  Software: {
+    token: 'accountabills_software',
+    name: 'AccountaBills - Software',
+    // Software stores, digital goods, computer services and network services
+    mccs: ['4816', '5734', '5817', '5818', '7372', '7379']
+  },
+  Office: {
+    token: 'accountabills_office',
+    name: 'AccountaBills - Office',
+    // Office supplies, stationery, office equipment and furniture, copy shops
+    mccs: ['5021', '5044', '5111', '5943', '5978', '7338']
+  },
+  Events: {
+    token: 'accountabills_events',
+    name: 'AccountaBills - Events',
+    // Caterers, ticket agencies, bands and entertainers, recreation services
+    mccs: ['5811', '7922', '7929', '7941', '7991', '7999']
+  },
+  Entertainment: {
+    token: 'accountabills_entertainment',
+    name: 'AccountaBills - Entertainment',
+    // Restaurants, bars, fast food, cinemas, bowling, amusement parks
+    mccs: ['5812', '5813', '5814', '7832', '7841', '7933', '7996', '7998']
+  },
+  Equipment: {
+    token: 'accountabills_equipment',
+    name: 'AccountaBills - Equipment',
+    // Electronics and hardware stores, electrical parts, cameras, equipment rental
+    mccs: ['5045', '5065', '5072', '5200', '5251', '5732', '5946', '7394']
+  }
+};
+
+/**
+ * Whether a merchant category code belongs to a request category's MCC group
+ * Returns null when the category isn't restricted or the MCC is unknown.
+ */
+export function mccMatchesCategory(mcc, category) {
+  const group = CATEGORY_MCC_GROUPS[category];
+  if (!group || !mcc) return null;
+
+  const code = parseInt(mcc, 10);
+  return group.mccs.some(entry => {
+    const [low, high = low] = entry.split('-').map(n => parseInt(n, 10));
+    return code >= low && code <= high;
+  });
+}
+
+/**
+ * Whether approved funds for a category may be spent at a merchant with this MCC
+ * Unrestricted categories (Other) may be spent anywhere; restricted ones only at an MCC in their
+ * group, so an authorization without an MCC doesn't match them.
+ */
+export function categoryAllowsMcc(category, mcc) {
+  if (!CATEGORY_MCC_GROUPS[category]) return true;
+  return mccMatchesCategory(mcc, category) === true;
+}
+
+const approvedAmount = (request) => request.approvedAmount ?? request.amount;
+const round2 = (amount) => Math.round(amount * 100) / 100;
+
+// Spend controls for approved funds
+//
+// A request's category is enforced as an allow-list when its funds are spent: in JIT mode
+// (FUNDING_MODE=jit) jitFundingService only matches an authorization to a request in a restricted
+// category if the merchant's MCC is in that category's group (categoryAllowsMcc). Money loaded onto
+// the GPA in gpa mode is pooled with the user's own funds, so its category can't be enforced.
+//
+// Earlier versions raised a per-user Marqeta velocity control for each funded category instead.
+// That capped the user's own money at the category's merchants without tying the approved funds
+// to them, so syncForRequest now switches those controls off when a request in that category is
+// funded.
+class SpendControlService {
+  constructor() {
+    this.enabled = process.env.SPEND_CONTROLS_ENABLED !== 'false';
+  }
+
+  mccGroupFor(category) {
+    return CATEGORY_MCC_GROUPS[category] || null;
+  }
+
+  // The token earlier versions gave each (user, category) velocity control (Marqeta tokens max 36 chars)
+  controlToken(userToken, category) {
+    return createHash('sha256').update(`${userToken}:${category}`).digest('hex').slice(0, 36);
+  }
+
+  /**
+   * Switch off the velocity control an earlier version created for the request's category
+   * Returns the updated control, or null when there's nothing to switch off.
+   */
+  async syncForRequest(request) {
+    if (!this.enabled || !this.mccGroupFor(request.category)) return null;
+
+    const userToken = request.senderMarqetaToken || await storageService.getUserMarqetaToken(request.senderId);
+    if (!userToken) return null;
+
+    const token = this.controlToken(userToken, request.category);
+    const existing = await marqetaService.getVelocityControl(token);
+    if (!existing?.active) return null;
+
+    return await marqetaService.updateVelocityControl(token, { active: false });
+  }
+
+  /**
+   * Per-category JIT approvals for a user: the approved total, what's still unspent and what's
+   * been spent. Only restricted categories with JIT-funded requests are listed.
+   */
+  async getLimitsForUser(userId) {
+    const requests = (await storageService.getPaymentRequestsBySender(userId))
+      .filter(r => r.status === 'approved' && this.mccGroupFor(r.category))
+      .filter(r => [FUNDING_STATUS.JIT_AVAILABLE, FUNDING_STATUS.JIT_CONSUMED].includes(r.fundingStatus));
+
+    return Object.keys(CATEGORY_MCC_GROUPS)
+      .map((category) => {
+        const inCategory = requests.filter(r => r.category === category);
+        if (inCategory.length === 0) return null;
+
+        const total = (status) => round2(inCategory
+          .filter(r => !status || r.fundingStatus === status)
+          .reduce((sum, r) => sum + approvedAmount(r), 0));
+        return {
+          category,
+          limit: total(),
+          available: total(FUNDING_STATUS.JIT_AVAILABLE),
+          spent: total(FUNDING_STATUS.JIT_CONSUMED)
+        };
+      })
+      .filter(Boolean);
+  }
+}
+
+const spendControlService = new SpendControlService();
+export default spendControlService;
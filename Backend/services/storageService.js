@@ -12,6 +12,9 @@ const supabase = createClient(supabaseUrl, supabaseKey, {
   }
 });
 
+// What partners may take from a wallet per 30 days until the user sets their own limit
+const DEFAULT_PEER_FUNDING_LIMIT = 100;
+
 class StorageService {
   constructor() {
     // In-memory cache for faster lookups
@@ -115,6 +118,15 @@ class StorageService {
         approved_by: request.approvedBy,
         rejected_by: request.rejectedBy,
         notes: request.notes,
+        approval_policy: request.approvalPolicy,
+        auto_approved: request.autoApproved || false,
+        expires_at: request.expiresAt || null,
+        backup_approver: request.backupApprover || null,
+        resubmitted_from: request.resubmittedFrom || null,
+        pre_approved: request.preApproved || false,
+        recurring_request_id: request.recurringRequestId || null,
+        funding_status: request.fundingStatus || null,
+        approved_amount: request.approvedAmount ?? null,
         created_at: request.createdAt,
         updated_at: request.updatedAt
       });
@@ -152,31 +164,153 @@ class StorageService {
     return null;
   }
 
-  async getAllPaymentRequests() {
+  // Pending requests for the expiry/escalation sweep
+  async getPendingPaymentRequests() {
     const { data, error } = await supabase
       .from('payment_requests')
       .select('*')
-      .order('created_at', { ascending: false });
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
 
     if (error) {
-      console.error('Error fetching all payment requests:', error);
-      return Array.from(this.paymentRequestsCache.values());
+      console.error('Error fetching pending payment requests:', error);
+      return Array.from(this.paymentRequestsCache.values()).filter(req => req.status === 'pending');
     }
 
     const requests = data.map(row => this._mapDbToRequest(row));
+    requests.forEach(req => this.paymentRequestsCache.set(req.id, req));
 
-    // Update cache
+    return requests;
+  }
+
+  // Approved requests in any of the given funding states, for the funding worker and reconciliation
+  async getPaymentRequestsByFundingStatus(statuses) {
+    const { data, error } = await supabase
+      .from('payment_requests')
+      .select('*')
+      .in('funding_status', statuses)
+      .order('updated_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching payment requests by funding status:', error);
+      return Array.from(this.paymentRequestsCache.values()).filter(req => statuses.includes(req.fundingStatus));
+    }
+
+    const requests = data.map(row => this._mapDbToRequest(row));
     requests.forEach(req => this.paymentRequestsCache.set(req.id, req));
 
     return requests;
   }
 
-  async getPaymentRequestsBySender(userId) {
+  // Atomically move a request into 'funding' if it is currently in one of fromStatuses.
+  // Returns the claimed request, or null if another worker got there first.
+  async claimPaymentRequestFunding(id, fromStatuses) {
+    const { data, error } = await supabase
+      .from('payment_requests')
+      .update({ funding_status: 'funding', updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .in('funding_status', fromStatuses)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error claiming payment request for funding:', error);
+      throw error;
+    }
+
+    if (!data) return null;
+
+    const request = this._mapDbToRequest(data);
+    this.paymentRequestsCache.set(id, request);
+    return request;
+  }
+
+  // Atomically mark a jit_available request as spent by a card authorization.
+  // Returns the consumed request, or null if it was already used or is no longer available.
+  async consumeJitPaymentRequest(id, { jitFundingToken, amount, merchant }) {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('payment_requests')
+      .update({
+        funding_status: 'jit_consumed',
+        jit_funding_token: jitFundingToken,
+        jit_amount: amount,
+        jit_merchant: merchant || null,
+        funded_at: now,
+        updated_at: now
+      })
+      .eq('id', id)
+      .eq('status', 'approved')
+      .eq('funding_status', 'jit_available')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error consuming payment request for JIT funding:', error);
+      throw error;
+    }
+
+    if (!data) return null;
+
+    const request = this._mapDbToRequest(data);
+    this.paymentRequestsCache.set(id, request);
+    return request;
+  }
+
+  async getPaymentRequestByJitFundingToken(jitFundingToken) {
+    const { data, error } = await supabase
+      .from('payment_requests')
+      .select('*')
+      .eq('jit_funding_token', jitFundingToken)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching payment request by JIT funding token:', error);
+      throw error;
+    }
+
+    return data ? this._mapDbToRequest(data) : null;
+  }
+
+  // Put a consumed request back (its authorization was reversed). Returns null if it wasn't consumed
+  // by that authorization.
+  async releaseJitPaymentRequest(jitFundingToken) {
     const { data, error } = await supabase
+      .from('payment_requests')
+      .update({
+        funding_status: 'jit_available',
+        jit_funding_token: null,
+        jit_amount: null,
+        jit_merchant: null,
+        funded_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('jit_funding_token', jitFundingToken)
+      .eq('funding_status', 'jit_consumed')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error releasing JIT payment request:', error);
+      throw error;
+    }
+
+    if (!data) return null;
+
+    const request = this._mapDbToRequest(data);
+    this.paymentRequestsCache.set(request.id, request);
+    return request;
+  }
+
+  async getPaymentRequestsBySender(userId, { limit } = {}) {
+    let query = supabase
       .from('payment_requests')
       .select('*')
       .eq('sender_id', userId)
       .order('created_at', { ascending: false });
+    if (limit) query = query.limit(limit);
+
+    const { data, error } = await query;
 
     if (error) {
       console.error('Error fetching payment requests by sender:', error);
@@ -186,11 +320,16 @@ class StorageService {
     return data.map(row => this._mapDbToRequest(row));
   }
 
-  async getPaymentRequestsByReceiver(userId) {
-    const { data, error } = await supabase
+  async getPaymentRequestsByReceiver(userId, { limit } = {}) {
+    // approvers is JSONB, so containment matches any entry with this userId
+    let query = supabase
       .from('payment_requests')
       .select('*')
+      .contains('approvers', JSON.stringify([{ userId }]))
       .order('created_at', { ascending: false });
+    if (limit) query = query.limit(limit);
+
+    const { data, error } = await query;
 
     if (error) {
       console.error('Error fetching payment requests:', error);
@@ -199,10 +338,7 @@ class StorageService {
       );
     }
 
-    // Filter for requests where the user is an approver
-    return data
-      .map(row => this._mapDbToRequest(row))
-      .filter(req => req.approvers && req.approvers.some(a => a.userId === userId));
+    return data.map(row => this._mapDbToRequest(row));
   }
 
   // =====================
@@ -269,11 +405,33 @@ class StorageService {
     const { error } = await supabase
       .from('payment_requests')
       .update({
+        amount: updated.amount,
+        description: updated.description,
+        category: updated.category,
+        image_url: updated.imageUrl,
         status: updated.status,
         approvers: updated.approvers,
         approved_by: updated.approvedBy,
         rejected_by: updated.rejectedBy,
         notes: updated.notes,
+        approval_policy: updated.approvalPolicy,
+        reminded_at: updated.remindedAt || null,
+        escalated_at: updated.escalatedAt || null,
+        pre_escalation: updated.preEscalation || null,
+        edited_at: updated.editedAt || null,
+        expired_at: updated.expiredAt || null,
+        cancelled_at: updated.cancelledAt || null,
+        approved_amount: updated.approvedAmount ?? null,
+        counter_offer: updated.counterOffer || null,
+        funding_status: updated.fundingStatus || null,
+        funding_attempts: updated.fundingAttempts || 0,
+        next_funding_attempt_at: updated.nextFundingAttemptAt || null,
+        funding_error: updated.fundingError || null,
+        gpa_order_token: updated.gpaOrderToken || null,
+        funded_at: updated.fundedAt || null,
+        jit_funding_token: updated.jitFundingToken || null,
+        jit_amount: updated.jitAmount ?? null,
+        jit_merchant: updated.jitMerchant || null,
         updated_at: updated.updatedAt
       })
       .eq('id', id);
@@ -317,11 +475,1264 @@ class StorageService {
       approvedBy: row.approved_by,
       rejectedBy: row.rejected_by,
       notes: row.notes,
+      approvalPolicy: row.approval_policy || { type: 'all' },
+      autoApproved: row.auto_approved || false,
+      expiresAt: row.expires_at || null,
+      backupApprover: row.backup_approver || null,
+      remindedAt: row.reminded_at || null,
+      escalatedAt: row.escalated_at || null,
+      preEscalation: row.pre_escalation || null,
+      editedAt: row.edited_at || null,
+      expiredAt: row.expired_at || null,
+      cancelledAt: row.cancelled_at || null,
+      resubmittedFrom: row.resubmitted_from || null,
+      preApproved: row.pre_approved || false,
+      recurringRequestId: row.recurring_request_id || null,
+      approvedAmount: row.approved_amount != null ? Number(row.approved_amount) : null,
+      counterOffer: row.counter_offer || null,
+      fundingStatus: row.funding_status || null,
+      fundingAttempts: row.funding_attempts || 0,
+      nextFundingAttemptAt: row.next_funding_attempt_at || null,
+      fundingError: row.funding_error || null,
+      gpaOrderToken: row.gpa_order_token || null,
+      fundedAt: row.funded_at || null,
+      jitFundingToken: row.jit_funding_token || null,
+      jitAmount: row.jit_amount != null ? Number(row.jit_amount) : null,
+      jitMerchant: row.jit_merchant || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  // =====================
+  // Payment Request Events (append-only audit trail)
+  // =====================
+
+  // Events are never updated or deleted. A failed write is logged rather than thrown so the
+  // action being audited still goes through.
+  async recordPaymentRequestEvent(event) {
+    const { data, error } = await supabase
+      .from('payment_request_events')
+      .insert({
+        request_id: event.requestId,
+        type: event.type,
+        actor_id: event.actorId || null,
+        actor_name: event.actorName || 'System',
+        data: event.data || {},
+        created_at: event.createdAt || new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error(`Error recording ${event.type} event for payment request ${event.requestId}:`, error);
+      return null;
+    }
+
+    return this._mapDbToEvent(data);
+  }
+
+  async getPaymentRequestEvents(requestId) {
+    const { data, error } = await supabase
+      .from('payment_request_events')
+      .select('*')
+      .eq('request_id', requestId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching payment request events:', error);
+      throw error;
+    }
+
+    return (data || []).map(row => this._mapDbToEvent(row));
+  }
+
+  async hasPaymentRequestEvent(requestId, type, actorId) {
+    const { count, error } = await supabase
+      .from('payment_request_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('request_id', requestId)
+      .eq('type', type)
+      .eq('actor_id', actorId);
+
+    if (error) {
+      console.error('Error checking payment request events:', error);
+      return false;
+    }
+
+    return count > 0;
+  }
+
+  _mapDbToEvent(row) {
+    return {
+      id: row.id,
+      requestId: row.request_id,
+      type: row.type,
+      actorId: row.actor_id,
+      actorName: row.actor_name,
+      data: row.data || {},
+      createdAt: row.created_at
+    };
+  }
+
+  // =====================
+  // Recurring Requests (templates the scheduler turns into payment requests)
+  // =====================
+
+  async createRecurringRequest(recurring) {
+    const { data, error } = await supabase
+      .from('recurring_requests')
+      .insert({
+        id: recurring.id,
+        sender_id: recurring.senderId,
+        sender_name: recurring.senderName,
+        sender_email: recurring.senderEmail,
+        amount: recurring.amount,
+        description: recurring.description,
+        category: recurring.category,
+        approvers: recurring.approvers,
+        approval_policy: recurring.approvalPolicy,
+        schedule: recurring.schedule,
+        pre_approval: recurring.preApproval || null,
+        active: recurring.active,
+        next_run_at: recurring.nextRunAt,
+        created_at: recurring.createdAt,
+        updated_at: recurring.updatedAt
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving recurring request:', error);
+      throw error;
+    }
+
+    return this._mapDbToRecurringRequest(data);
+  }
+
+  async getRecurringRequest(id) {
+    const { data, error } = await supabase
+      .from('recurring_requests')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      console.error('Error fetching recurring request:', error);
+    }
+
+    return data ? this._mapDbToRecurringRequest(data) : null;
+  }
+
+  // Recurring requests the user sends or approves
+  async getRecurringRequestsForUser(userId) {
+    const { data, error } = await supabase
+      .from('recurring_requests')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching recurring requests:', error);
+      throw error;
+    }
+
+    return (data || [])
+      .map(row => this._mapDbToRecurringRequest(row))
+      .filter(r => r.senderId === userId || r.approvers?.some(a => a.userId === userId));
+  }
+
+  async getDueRecurringRequests(now) {
+    const { data, error } = await supabase
+      .from('recurring_requests')
+      .select('*')
+      .eq('active', true)
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching due recurring requests:', error);
+      throw error;
+    }
+
+    return (data || []).map(row => this._mapDbToRecurringRequest(row));
+  }
+
+  async updateRecurringRequest(id, updates) {
+    const recurring = await this.getRecurringRequest(id);
+    if (!recurring) return null;
+
+    const updated = { ...recurring, ...updates, updatedAt: new Date().toISOString() };
+
+    const { error } = await supabase
+      .from('recurring_requests')
+      .update({
+        amount: updated.amount,
+        description: updated.description,
+        category: updated.category,
+        approvers: updated.approvers,
+        approval_policy: updated.approvalPolicy,
+        schedule: updated.schedule,
+        pre_approval: updated.preApproval || null,
+        active: updated.active,
+        next_run_at: updated.nextRunAt || null,
+        last_run_at: updated.lastRunAt || null,
+        last_request_id: updated.lastRequestId || null,
+        last_error: updated.lastError || null,
+        updated_at: updated.updatedAt
+      })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating recurring request:', error);
+      throw error;
+    }
+
+    return updated;
+  }
+
+  async deleteRecurringRequest(id) {
+    const { error } = await supabase
+      .from('recurring_requests')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting recurring request:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  _mapDbToRecurringRequest(row) {
+    return {
+      id: row.id,
+      senderId: row.sender_id,
+      senderName: row.sender_name,
+      senderEmail: row.sender_email,
+      amount: Number(row.amount),
+      description: row.description,
+      category: row.category,
+      approvers: row.approvers || [],
+      approvalPolicy: row.approval_policy || { type: 'all' },
+      schedule: row.schedule,
+      preApproval: row.pre_approval || null,
+      active: row.active,
+      nextRunAt: row.next_run_at || null,
+      lastRunAt: row.last_run_at || null,
+      lastRequestId: row.last_request_id || null,
+      lastError: row.last_error || null,
       createdAt: row.created_at,
       updatedAt: row.updated_at
     };
   }
 
+  // =====================
+  // Request Templates (saved presets for new requests)
+  // =====================
+
+  async createRequestTemplate(template) {
+    const { data, error } = await supabase
+      .from('request_templates')
+      .insert({
+        id: template.id,
+        user_id: template.userId,
+        name: template.name,
+        amount: template.amount ?? null,
+        description: template.description || null,
+        category: template.category || null,
+        approvers: template.approvers || [],
+        group_id: template.groupId || null,
+        approval_policy: template.approvalPolicy || null,
+        receipt_required: template.receiptRequired,
+        created_at: template.createdAt,
+        updated_at: template.updatedAt
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving request template:', error);
+      throw error;
+    }
+
+    return this._mapDbToRequestTemplate(data);
+  }
+
+  async getRequestTemplate(id) {
+    const { data, error } = await supabase
+      .from('request_templates')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      console.error('Error fetching request template:', error);
+    }
+
+    return data ? this._mapDbToRequestTemplate(data) : null;
+  }
+
+  async getRequestTemplatesForUser(userId) {
+    const { data, error } = await supabase
+      .from('request_templates')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching request templates:', error);
+      throw error;
+    }
+
+    return (data || []).map(row => this._mapDbToRequestTemplate(row));
+  }
+
+  async updateRequestTemplate(id, updates) {
+    const template = await this.getRequestTemplate(id);
+    if (!template) return null;
+
+    const updated = { ...template, ...updates, updatedAt: new Date().toISOString() };
+
+    const { error } = await supabase
+      .from('request_templates')
+      .update({
+        name: updated.name,
+        amount: updated.amount ?? null,
+        description: updated.description || null,
+        category: updated.category || null,
+        approvers: updated.approvers || [],
+        group_id: updated.groupId || null,
+        approval_policy: updated.approvalPolicy || null,
+        receipt_required: updated.receiptRequired,
+        updated_at: updated.updatedAt
+      })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating request template:', error);
+      throw error;
+    }
+
+    return updated;
+  }
+
+  async deleteRequestTemplate(id) {
+    const { error } = await supabase
+      .from('request_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting request template:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  _mapDbToRequestTemplate(row) {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      amount: row.amount != null ? Number(row.amount) : null,
+      description: row.description || '',
+      category: row.category || null,
+      approvers: row.approvers || [],
+      groupId: row.group_id || null,
+      approvalPolicy: row.approval_policy || null,
+      receiptRequired: row.receipt_required !== false,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  // =====================
+  // Idempotency Keys
+  // =====================
+
+  // Claim a key for a user. Returns { claimed: true } for a new key, or { claimed: false, record }
+  // with the stored record when the key has been used before.
+  async claimIdempotencyKey(userId, key, fingerprint) {
+    const { error } = await supabase
+      .from('idempotency_keys')
+      .insert({
+        user_id: userId,
+        key,
+        fingerprint,
+        status: 'in_progress',
+        created_at: new Date().toISOString()
+      });
+
+    if (!error) {
+      return { claimed: true };
+    }
+
+    // 23505 = unique violation, i.e. the key already exists
+    if (error.code !== '23505') {
+      console.error('Error claiming idempotency key:', error);
+      throw error;
+    }
+
+    const { data, error: fetchError } = await supabase
+      .from('idempotency_keys')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('key', key)
+      .single();
+
+    if (fetchError) {
+      console.error('Error fetching idempotency key:', fetchError);
+      throw fetchError;
+    }
+
+    return { claimed: false, record: this._mapDbToIdempotencyKey(data) };
+  }
+
+  async completeIdempotencyKey(userId, key, responseStatus, responseBody) {
+    const { error } = await supabase
+      .from('idempotency_keys')
+      .update({
+        status: 'completed',
+        response_status: responseStatus,
+        response_body: responseBody,
+        completed_at: new Date().toISOString()
+      })
+      .eq('user_id', userId)
+      .eq('key', key);
+
+    if (error) {
+      console.error('Error saving idempotent response:', error);
+    }
+  }
+
+  // Release a key so the client can retry with it (used when the request failed server-side)
+  async releaseIdempotencyKey(userId, key) {
+    const { error } = await supabase
+      .from('idempotency_keys')
+      .delete()
+      .eq('user_id', userId)
+      .eq('key', key);
+
+    if (error) {
+      console.error('Error releasing idempotency key:', error);
+    }
+  }
+
+  _mapDbToIdempotencyKey(row) {
+    return {
+      userId: row.user_id,
+      key: row.key,
+      fingerprint: row.fingerprint,
+      status: row.status,
+      responseStatus: row.response_status,
+      responseBody: row.response_body,
+      createdAt: row.created_at,
+      completedAt: row.completed_at
+    };
+  }
+
+  // =====================
+  // User Cards (our metadata for Marqeta cards)
+  // =====================
+
+  async createUserCard(card) {
+    const { data, error } = await supabase
+      .from('user_cards')
+      .insert({
+        card_token: card.cardToken,
+        user_id: card.userId,
+        purpose: card.purpose,
+        request_id: card.requestId || null,
+        label: card.label || null,
+        single_use: card.singleUse || false,
+        amount_limit: card.amountLimit ?? null,
+        created_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving user card:', error);
+      throw error;
+    }
+
+    return this._mapDbToUserCard(data);
+  }
+
+  async getUserCards(userId) {
+    const { data, error } = await supabase
+      .from('user_cards')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching user cards:', error);
+      return [];
+    }
+
+    return data.map(row => this._mapDbToUserCard(row));
+  }
+
+  async getUserCard(cardToken) {
+    const { data, error } = await supabase
+      .from('user_cards')
+      .select('*')
+      .eq('card_token', cardToken)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      console.error('Error fetching user card:', error);
+    }
+
+    return data ? this._mapDbToUserCard(data) : null;
+  }
+
+  async getUserCardsForRequest(requestId) {
+    const { data, error } = await supabase
+      .from('user_cards')
+      .select('*')
+      .eq('request_id', requestId);
+
+    if (error) {
+      console.error('Error fetching cards for request:', error);
+      return [];
+    }
+
+    return data.map(row => this._mapDbToUserCard(row));
+  }
+
+  async updateUserCard(cardToken, updates) {
+    const row = {};
+    if (updates.label !== undefined) row.label = updates.label;
+    if (updates.usedAt !== undefined) row.used_at = updates.usedAt;
+    if (updates.closedAt !== undefined) row.closed_at = updates.closedAt;
+
+    const { data, error } = await supabase
+      .from('user_cards')
+      .update(row)
+      .eq('card_token', cardToken)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating user card:', error);
+      return null;
+    }
+
+    return data ? this._mapDbToUserCard(data) : null;
+  }
+
+  _mapDbToUserCard(row) {
+    return {
+      cardToken: row.card_token,
+      userId: row.user_id,
+      purpose: row.purpose,
+      requestId: row.request_id || null,
+      label: row.label || null,
+      singleUse: row.single_use || false,
+      amountLimit: row.amount_limit != null ? Number(row.amount_limit) : null,
+      usedAt: row.used_at || null,
+      closedAt: row.closed_at || null,
+      createdAt: row.created_at
+    };
+  }
+
+  // =====================
+  // Bank Accounts (linked for withdrawals - only the last four digits are stored)
+  // =====================
+
+  async createBankAccount(account) {
+    const { data, error } = await supabase
+      .from('bank_accounts')
+      .insert({
+        user_id: account.userId,
+        nickname: account.nickname || null,
+        holder_name: account.holderName,
+        account_type: account.accountType,
+        routing_number: account.routingNumber,
+        account_last_four: account.accountLastFour,
+        provider: account.provider,
+        provider_account_id: account.providerAccountId,
+        status: 'pending_verification',
+        micro_deposit_amounts: account.microDepositAmounts,
+        created_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving bank account:', error);
+      throw error;
+    }
+
+    return this._mapDbToBankAccount(data);
+  }
+
+  // Everything but removed accounts, oldest first
+  async getBankAccounts(userId) {
+    const { data, error } = await supabase
+      .from('bank_accounts')
+      .select('*')
+      .eq('user_id', userId)
+      .neq('status', 'removed')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching bank accounts:', error);
+      return [];
+    }
+
+    return data.map(row => this._mapDbToBankAccount(row));
+  }
+
+  async getBankAccount(id) {
+    const { data, error } = await supabase
+      .from('bank_accounts')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      console.error('Error fetching bank account:', error);
+    }
+
+    return data ? this._mapDbToBankAccount(data) : null;
+  }
+
+  async updateBankAccount(id, updates) {
+    const row = {};
+    if (updates.status !== undefined) row.status = updates.status;
+    if (updates.nickname !== undefined) row.nickname = updates.nickname;
+    if (updates.verificationAttempts !== undefined) row.verification_attempts = updates.verificationAttempts;
+    if (updates.verifiedAt !== undefined) row.verified_at = updates.verifiedAt;
+
+    const { data, error } = await supabase
+      .from('bank_accounts')
+      .update(row)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating bank account:', error);
+      throw error;
+    }
+
+    return data ? this._mapDbToBankAccount(data) : null;
+  }
+
+  _mapDbToBankAccount(row) {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      nickname: row.nickname || null,
+      holderName: row.holder_name,
+      accountType: row.account_type,
+      routingNumber: row.routing_number,
+      accountLastFour: row.account_last_four,
+      provider: row.provider,
+      providerAccountId: row.provider_account_id,
+      status: row.status,
+      microDepositAmounts: (row.micro_deposit_amounts || []).map(Number),
+      verificationAttempts: row.verification_attempts || 0,
+      verifiedAt: row.verified_at || null,
+      createdAt: row.created_at
+    };
+  }
+
+  // =====================
+  // Withdrawals (wallet to bank)
+  // =====================
+
+  async createWithdrawal(withdrawal) {
+    const { data, error } = await supabase
+      .from('withdrawals')
+      .insert({
+        user_id: withdrawal.userId,
+        bank_account_id: withdrawal.bankAccountId,
+        amount: withdrawal.amount,
+        fee: withdrawal.fee,
+        speed: withdrawal.speed,
+        status: 'pending',
+        created_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating withdrawal:', error);
+      throw error;
+    }
+
+    return this._mapDbToWithdrawal(data);
+  }
+
+  async updateWithdrawal(id, updates) {
+    const row = { updated_at: new Date().toISOString() };
+    if (updates.status !== undefined) row.status = updates.status;
+    if (updates.providerTransferId !== undefined) row.provider_transfer_id = updates.providerTransferId;
+    if (updates.expectedArrivalAt !== undefined) row.expected_arrival_at = updates.expectedArrivalAt;
+    if (updates.failureReason !== undefined) row.failure_reason = updates.failureReason;
+    if (updates.refundAmount !== undefined) row.refund_amount = updates.refundAmount;
+
+    const { data, error } = await supabase
+      .from('withdrawals')
+      .update(row)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Error updating withdrawal ${id}:`, error);
+      throw error;
+    }
+
+    return data ? this._mapDbToWithdrawal(data) : null;
+  }
+
+  // Newest first
+  async getWithdrawals(userId, limit = 50) {
+    const { data, error } = await supabase
+      .from('withdrawals')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching withdrawals:', error);
+      return [];
+    }
+
+    return data.map(row => this._mapDbToWithdrawal(row));
+  }
+
+  // Oldest first, across all users
+  async getWithdrawalsByStatus(status) {
+    const { data, error } = await supabase
+      .from('withdrawals')
+      .select('*')
+      .eq('status', status)
+      .order('updated_at', { ascending: true });
+
+    if (error) {
+      console.error(`Error fetching ${status} withdrawals:`, error);
+      return [];
+    }
+
+    return data.map(row => this._mapDbToWithdrawal(row));
+  }
+
+  _mapDbToWithdrawal(row) {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      bankAccountId: row.bank_account_id,
+      amount: Number(row.amount),
+      fee: Number(row.fee),
+      speed: row.speed,
+      status: row.status,
+      providerTransferId: row.provider_transfer_id || null,
+      expectedArrivalAt: row.expected_arrival_at || null,
+      failureReason: row.failure_reason || null,
+      refundAmount: row.refund_amount == null ? null : Number(row.refund_amount),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at || null
+    };
+  }
+
+  // =====================
+  // Peer Fundings (top-ups from a partner's wallet)
+  // =====================
+
+  // Starts as 'pending' so it counts against the partner's limit while the transfer runs
+  async createPeerFunding({ partnerId, userId, amount }) {
+    const { data, error } = await supabase
+      .from('peer_fundings')
+      .insert({
+        partner_id: partnerId,
+        user_id: userId,
+        amount,
+        status: 'pending',
+        created_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating peer funding:', error);
+      throw error;
+    }
+
+    return { id: data.id, partnerId: data.partner_id, userId: data.user_id, amount: Number(data.amount), status: data.status };
+  }
+
+  async updatePeerFunding(id, status) {
+    const { error } = await supabase
+      .from('peer_fundings')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Error updating peer funding ${id}:`, error);
+    }
+  }
+
+  // What has left (or is leaving) partnerId's wallet through peer funding since `since`
+  async getPeerFundingTotal(partnerId, since) {
+    const { data, error } = await supabase
+      .from('peer_fundings')
+      .select('amount')
+      .eq('partner_id', partnerId)
+      .in('status', ['pending', 'completed'])
+      .gte('created_at', since);
+
+    // Throw rather than report 0 - the caller uses this to enforce a limit
+    if (error) {
+      console.error('Error fetching peer funding total:', error);
+      throw error;
+    }
+
+    return Math.round(data.reduce((sum, row) => sum + Number(row.amount), 0) * 100) / 100;
+  }
+
+  // =====================
+  // Bank Pulls (adding money from a bank account)
+  // =====================
+
+  // Recorded before the bank is debited, keyed by the pull's reference (the idempotency token
+  // when the client sent a key), so a retry can tell whether its bank was already debited
+  async createBankPull({ reference, userId, bankAccountId, amount }) {
+    const { data, error } = await supabase
+      .from('bank_pulls')
+      .insert({
+        reference,
+        user_id: userId,
+        bank_account_id: bankAccountId,
+        amount,
+        status: 'pending',
+        created_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating bank pull:', error);
+      throw error;
+    }
+
+    return this._mapDbToBankPull(data);
+  }
+
+  async getBankPull(reference) {
+    const { data, error } = await supabase
+      .from('bank_pulls')
+      .select('*')
+      .eq('reference', reference)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching bank pull:', error);
+      throw error;
+    }
+
+    return data ? this._mapDbToBankPull(data) : null;
+  }
+
+  async updateBankPull(id, updates) {
+    const { error } = await supabase
+      .from('bank_pulls')
+      .update({
+        status: updates.status,
+        ...(updates.providerTransferId !== undefined && { provider_transfer_id: updates.providerTransferId }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Error updating bank pull ${id}:`, error);
+    }
+  }
+
+  _mapDbToBankPull(row) {
+    return {
+      id: row.id,
+      reference: row.reference,
+      userId: row.user_id,
+      bankAccountId: row.bank_account_id,
+      amount: Number(row.amount),
+      status: row.status,
+      providerTransferId: row.provider_transfer_id || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at || null
+    };
+  }
+
+  // =====================
+  // Card Events (lifecycle audit trail)
+  // =====================
+
+  async recordCardEvent(event) {
+    const { data, error } = await supabase
+      .from('card_events')
+      .insert({
+        user_id: event.userId,
+        card_token: event.cardToken,
+        action: event.action,
+        from_state: event.fromState || null,
+        to_state: event.toState || null,
+        new_card_token: event.newCardToken || null,
+        reason: event.reason || null,
+        ip_address: event.ipAddress || null,
+        user_agent: event.userAgent || null,
+        created_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error(`Error recording ${event.action} event for card ${event.cardToken}:`, error);
+      return null;
+    }
+
+    return this._mapDbToCardEvent(data);
+  }
+
+  // Newest first
+  async getCardEvents(userId, limit = 50) {
+    const { data, error } = await supabase
+      .from('card_events')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching card events:', error);
+      return [];
+    }
+
+    return data.map(row => this._mapDbToCardEvent(row));
+  }
+
+  _mapDbToCardEvent(row) {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      cardToken: row.card_token,
+      action: row.action,
+      fromState: row.from_state,
+      toState: row.to_state,
+      newCardToken: row.new_card_token,
+      reason: row.reason,
+      ipAddress: row.ip_address,
+      userAgent: row.user_agent,
+      createdAt: row.created_at
+    };
+  }
+
+  // People the user added as approvers or viewers (accepted only)
+  async getAccountabilityPartnerIds(userId) {
+    const { data, error } = await supabase
+      .from('friends')
+      .select('friend_id')
+      .eq('user_id', userId)
+      .eq('status', 'accepted');
+
+    if (error) {
+      console.error('Error fetching accountability partners:', error);
+      return [];
+    }
+
+    return data.map(row => row.friend_id);
+  }
+
+  // Same as above, with the names the user saved them under and their role ('approver' or 'viewer')
+  async getAccountabilityPartners(userId) {
+    const { data, error } = await supabase
+      .from('friends')
+      .select('friend_id, friend_name, friend_email, role')
+      .eq('user_id', userId)
+      .eq('status', 'accepted');
+
+    if (error) {
+      console.error('Error fetching accountability partners:', error);
+      return [];
+    }
+
+    return data.map(row => ({ userId: row.friend_id, name: row.friend_name, email: row.friend_email, role: row.role }));
+  }
+
+  // Whether userId has added partnerId as an accepted partner - from userId's own rows only
+  async isAccountabilityPartner(userId, partnerId) {
+    const { data, error } = await supabase
+      .from('friends')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('friend_id', partnerId)
+      .eq('status', 'accepted')
+      .limit(1);
+
+    if (error) {
+      console.error('Error checking accountability partner:', error);
+      return false;
+    }
+
+    return data.length > 0;
+  }
+
+  // The other direction: people who added partnerId as an accepted partner with this role
+  async getUsersWithPartner(partnerId, role) {
+    const { data, error } = await supabase
+      .from('friends')
+      .select('user_id')
+      .eq('friend_id', partnerId)
+      .eq('role', role)
+      .eq('status', 'accepted');
+
+    if (error) {
+      console.error('Error fetching users with partner:', error);
+      return [];
+    }
+
+    return data.map(row => row.user_id);
+  }
+
+  // =====================
+  // Card Reveal Tokens (one-time, stored hashed)
+  // =====================
+
+  async createCardRevealToken(reveal) {
+    const { error } = await supabase
+      .from('card_reveal_tokens')
+      .insert({
+        token_hash: reveal.tokenHash,
+        user_id: reveal.userId,
+        card_token: reveal.cardToken,
+        expires_at: reveal.expiresAt,
+        created_at: new Date().toISOString()
+      });
+
+    if (error) {
+      console.error('Error creating card reveal token:', error);
+      throw error;
+    }
+  }
+
+  // Mark the token used if it's the user's, unused and unexpired. Returns null otherwise.
+  async consumeCardRevealToken(tokenHash, userId) {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('card_reveal_tokens')
+      .update({ used_at: now })
+      .eq('token_hash', tokenHash)
+      .eq('user_id', userId)
+      .is('used_at', null)
+      .gt('expires_at', now)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error consuming card reveal token:', error);
+      throw error;
+    }
+
+    return data ? { userId: data.user_id, cardToken: data.card_token, expiresAt: data.expires_at } : null;
+  }
+
+  // =====================
+  // Admin Audit Log (who did what under /api/admin)
+  // =====================
+
+  async recordAdminAction(entry) {
+    const { error } = await supabase
+      .from('admin_audit_log')
+      .insert({
+        actor_id: entry.actorId,
+        actor_email: entry.actorEmail || null,
+        actor_role: entry.actorRole,
+        action: entry.action,
+        target: entry.target || null,
+        details: entry.details || null,
+        status_code: entry.statusCode,
+        ip_address: entry.ipAddress || null,
+        created_at: new Date().toISOString()
+      });
+
+    if (error) {
+      console.error(`Error recording admin action ${entry.action}:`, error);
+      throw error;
+    }
+  }
+
+  // Newest first, optionally for one actor
+  async getAdminActions({ actorId = null, limit = 100 } = {}) {
+    let query = supabase
+      .from('admin_audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (actorId) {
+      query = query.eq('actor_id', actorId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching admin actions:', error);
+      return [];
+    }
+
+    return data.map(row => ({
+      id: row.id,
+      actorId: row.actor_id,
+      actorEmail: row.actor_email,
+      actorRole: row.actor_role,
+      action: row.action,
+      target: row.target,
+      details: row.details,
+      statusCode: row.status_code,
+      ipAddress: row.ip_address,
+      createdAt: row.created_at
+    }));
+  }
+
+  // =====================
+  // Marqeta Webhook Events
+  // =====================
+
+  // Store a raw webhook event. Returns { claimed: true } the first time a token is seen, or
+  // { claimed: false, record } for a redelivery.
+  async claimWebhookEvent(event) {
+    const { error } = await supabase
+      .from('marqeta_webhook_events')
+      .insert({
+        token: event.token,
+        category: event.category,
+        type: event.type || null,
+        user_token: event.userToken || null,
+        user_id: event.userId || null,
+        payload: event.payload,
+        received_at: new Date().toISOString()
+      });
+
+    if (!error) {
+      return { claimed: true };
+    }
+
+    // 23505 = unique violation, i.e. we already have this event
+    if (error.code !== '23505') {
+      console.error('Error storing webhook event:', error);
+      throw error;
+    }
+
+    const { data, error: fetchError } = await supabase
+      .from('marqeta_webhook_events')
+      .select('*')
+      .eq('token', event.token)
+      .single();
+
+    if (fetchError) {
+      console.error('Error fetching webhook event:', fetchError);
+      throw fetchError;
+    }
+
+    return { claimed: false, record: this._mapDbToWebhookEvent(data) };
+  }
+
+  async completeWebhookEvent(token, processingError = null) {
+    const { error } = await supabase
+      .from('marqeta_webhook_events')
+      .update({
+        processed_at: processingError ? null : new Date().toISOString(),
+        error: processingError
+      })
+      .eq('token', token);
+
+    if (error) {
+      console.error('Error completing webhook event:', error);
+    }
+  }
+
+  _mapDbToWebhookEvent(row) {
+    return {
+      token: row.token,
+      category: row.category,
+      type: row.type,
+      userToken: row.user_token,
+      userId: row.user_id,
+      payload: row.payload,
+      receivedAt: row.received_at,
+      processedAt: row.processed_at || null,
+      error: row.error || null
+    };
+  }
+
+  // =====================
+  // User Settings (Supabase-backed)
+  // =====================
+
+  async getUserSettings(userId) {
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      console.error('Error fetching user settings:', error);
+    }
+
+    return this._mapDbToSettings(data || { user_id: userId });
+  }
+
+  async updateUserSettings(userId, updates) {
+    const current = await this.getUserSettings(userId);
+    const updated = { ...current, ...updates, updatedAt: new Date().toISOString() };
+
+    const { error } = await supabase
+      .from('user_settings')
+      .upsert({
+        user_id: userId,
+        approval_policy: updated.approvalPolicy,
+        approval_threshold: updated.approvalThreshold,
+        approval_bands: updated.approvalBands,
+        backup_approver: updated.backupApprover,
+        allow_peer_funding: updated.allowPeerFunding,
+        peer_funding_limit: updated.peerFundingLimit,
+        peer_funding_user_ids: updated.peerFundingUserIds,
+        updated_at: updated.updatedAt
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Error saving user settings:', error);
+      throw error;
+    }
+
+    return updated;
+  }
+
+  _mapDbToSettings(row) {
+    return {
+      userId: row.user_id,
+      approvalPolicy: row.approval_policy || null,
+      approvalThreshold: row.approval_threshold != null ? Number(row.approval_threshold) : null,
+      approvalBands: row.approval_bands || [],
+      backupApprover: row.backup_approver || null,
+      // Partners may top up their wallet from this user's balance
+      allowPeerFunding: row.allow_peer_funding === true,
+      // ...up to this much in total per 30 days
+      peerFundingLimit: row.peer_funding_limit != null ? Number(row.peer_funding_limit) : DEFAULT_PEER_FUNDING_LIMIT,
+      // ...but only the partners this user picked
+      peerFundingUserIds: row.peer_funding_user_ids || [],
+      updatedAt: row.updated_at || null
+    };
+  }
+
   // Create a notification (uses service role key - bypasses RLS)
   async createNotification(notification) {
     const { data, error } = await supabase
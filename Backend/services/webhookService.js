@@ -0,0 +1,151 @@
+import storageService from './storageService.js';
+import cardService from './cardService.js';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const money = (amount) => `$${Number(amount || 0).toFixed(2)}`;
+
+const merchantName = (tx) => tx.card_acceptor?.name || tx.merchant?.name || 'a merchant';
+
+// Turn a card transaction into a notification for the cardholder (null = nothing worth telling them).
+// Clearings aren't announced - the cardholder already heard about the authorization.
+function describeTransaction(tx) {
+  if (tx.state === 'DECLINED') {
+    return {
+      title: 'Card Declined',
+      message: `A ${money(tx.amount)} charge at ${merchantName(tx)} was declined`
+    };
+  }
+
+  switch (tx.type) {
+    case 'authorization':
+      return {
+        title: 'Card Charged',
+        message: `Your card was charged ${money(tx.amount)} at ${merchantName(tx)}`
+      };
+    case 'authorization.reversal':
+      return {
+        title: 'Charge Reversed',
+        message: `The ${money(tx.amount)} charge at ${merchantName(tx)} was reversed`
+      };
+    case 'refund':
+    case 'authorization.clearing.refund':
+      return {
+        title: 'Refund Received',
+        message: `${merchantName(tx)} refunded ${money(tx.amount)} to your card`
+      };
+    default:
+      return null;
+  }
+}
+
+async function describeGpaOrder(order) {
+  // Orders placed for approved requests (token = request id) already produce request notifications
+  if (UUID_PATTERN.test(order.token) && await storageService.getPaymentRequest(order.token)) {
+    return null;
+  }
+
+  if (order.state === 'COMPLETION') {
+    return { title: 'Wallet Funded', message: `${money(order.amount)} was added to your wallet` };
+  }
+
+  if (order.state === 'DECLINED') {
+    return { title: 'Wallet Funding Failed', message: `We couldn't add ${money(order.amount)} to your wallet` };
+  }
+
+  return null;
+}
+
+function describeCardTransition(transition) {
+  const lastFour = transition.last_four || transition.card?.last_four;
+  const card = lastFour ? `Your card ending ${lastFour}` : 'Your card';
+
+  switch (transition.state) {
+    case 'ACTIVE':
+      return { title: 'Card Active', message: `${card} is active and ready to use` };
+    case 'SUSPENDED':
+      return { title: 'Card Suspended', message: `${card} has been suspended` };
+    case 'TERMINATED':
+      return { title: 'Card Terminated', message: `${card} has been terminated` };
+    default:
+      return null;
+  }
+}
+
+// Event categories we turn into notifications. Every category is still stored.
+const DESCRIBERS = {
+  transactions: describeTransaction,
+  gpaorders: describeGpaOrder,
+  cardtransitions: describeCardTransition
+};
+
+// Marqeta webhook ingestion
+//
+// A webhook body groups events by category ({ transactions: [...], gpaorders: [...], ... }). Each
+// event is stored raw, keyed by its token, before anything else happens, so a redelivery is
+// recognised and not announced twice. Events whose processing failed are picked up again when
+// Marqeta redelivers them - the route returns 500 in that case so it does.
+class WebhookService {
+  async ingest(body) {
+    const summary = { received: 0, duplicates: 0, notified: 0, failed: 0 };
+
+    for (const [category, events] of Object.entries(body || {})) {
+      if (!Array.isArray(events)) continue;
+
+      for (const event of events) {
+        if (!event?.token) continue;
+        summary.received++;
+
+        try {
+          const outcome = await this._ingestEvent(category, event);
+          if (outcome) summary[outcome]++;
+        } catch (error) {
+          console.error(`[Webhooks] Failed to process ${category} event ${event.token}:`, error.message);
+          await storageService.completeWebhookEvent(event.token, error.message);
+          summary.failed++;
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  async _ingestEvent(category, event) {
+    const userToken = event.user_token || event.card?.user_token || null;
+    const userId = userToken ? await storageService.getUserByMarqetaToken(userToken) : null;
+
+    const { claimed, record } = await storageService.claimWebhookEvent({
+      token: event.token,
+      category,
+      type: event.type || event.state || null,
+      userToken,
+      userId,
+      payload: event
+    });
+
+    if (!claimed && record.processedAt) {
+      return 'duplicates';
+    }
+
+    const notification = userId && DESCRIBERS[category] ? await DESCRIBERS[category](event) : null;
+
+    if (notification) {
+      await storageService.createNotification({
+        userId,
+        type: 'card_activity',
+        title: notification.title,
+        message: notification.message
+      });
+    }
+
+    if (category === 'transactions') {
+      await cardService.handleTransaction(event);
+    }
+
+    await storageService.completeWebhookEvent(event.token);
+    return notification ? 'notified' : null;
+  }
+}
+
+const webhookService = new WebhookService();
+export default webhookService;
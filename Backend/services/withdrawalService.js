@@ -0,0 +1,227 @@
+import { createHash } from 'crypto';
+import storageService from './storageService.js';
+import marqetaService from './marqetaService.js';
+import bankRail from './bankRails.js';
+
+export const WITHDRAWAL_SPEEDS = ['standard', 'instant'];
+
+// Program transfer types the withdrawn amount and instant fee are booked under
+const TRANSFER_TYPES = {
+  amount: { token: 'accountabills_withdrawal', memo: 'Withdrawal to linked bank account' },
+  fee: { token: 'accountabills_withdrawal_fee', memo: 'Instant withdrawal fee' }
+};
+
+const round2 = (amount) => Math.round(amount * 100) / 100;
+
+// Marqeta tokens are at most 36 characters, so the fee's token is derived from the withdrawal id
+const feeTransferToken = (withdrawalId) => createHash('sha256').update(`fee:${withdrawalId}`).digest('hex').slice(0, 36);
+
+// Withdrawals from the wallet (GPA) to a verified bank account
+//
+// The amount and any fee leave the GPA as Marqeta program transfers, tokened from the withdrawal
+// row so a retry can't debit twice, then the bank rail sends the amount. Standard withdrawals are
+// free and arrive in a few days; instant ones arrive right away for INSTANT_WITHDRAWAL_FEE_PERCENT
+// of the amount. If the rail refuses the transfer, the debited total goes back to the GPA. If that
+// refund fails too, the withdrawal is left as refund_failed with the amount owed, and retryRefunds
+// sends it again until it goes through - the refund is tokened from the withdrawal id, so sending
+// it again can't pay out twice.
+class WithdrawalService {
+  constructor() {
+    this.instantFeePercent = parseFloat(process.env.INSTANT_WITHDRAWAL_FEE_PERCENT || '1.95');
+    this.ensuredTypes = new Set();
+  }
+
+  feeFor(amount, speed) {
+    return speed === 'instant' ? round2(amount * this.instantFeePercent / 100) : 0;
+  }
+
+  /**
+   * Withdraw from the user's wallet
+   *   options: amount, bankAccountId, speed ('standard' | 'instant')
+   * Returns { withdrawal, newBalance } or { status, error }
+   */
+  async withdraw(userId, { amount, bankAccountId, speed = 'standard' }) {
+    amount = round2(parseFloat(amount));
+    if (!(amount > 0)) {
+      return { status: 400, error: 'Amount must be greater than 0' };
+    }
+    if (!WITHDRAWAL_SPEEDS.includes(speed)) {
+      return { status: 400, error: `Speed must be one of: ${WITHDRAWAL_SPEEDS.join(', ')}` };
+    }
+    if (bankRail.isFake && !marqetaService.isSandbox()) {
+      return { status: 503, error: 'Withdrawals are not available yet' };
+    }
+
+    const account = bankAccountId ? await storageService.getBankAccount(bankAccountId) : null;
+    if (!account || account.userId !== userId || account.status === 'removed') {
+      return { status: 404, error: 'Bank account not found' };
+    }
+    if (account.status !== 'verified') {
+      return { status: 409, error: 'Verify this bank account before withdrawing to it' };
+    }
+
+    const marqetaToken = await storageService.getUserMarqetaToken(userId);
+    if (!marqetaToken) {
+      return { status: 400, error: 'User not initialized with Marqeta' };
+    }
+
+    const fee = this.feeFor(amount, speed);
+    const total = round2(amount + fee);
+    const balance = await marqetaService.getGPABalance(marqetaToken);
+    if ((balance?.gpa?.available_balance || 0) < total) {
+      return {
+        status: 400,
+        error: fee > 0
+          ? `Insufficient balance - this withdrawal needs $${total.toFixed(2)} including the $${fee.toFixed(2)} fee`
+          : 'Insufficient balance'
+      };
+    }
+
+    const withdrawal = await storageService.createWithdrawal({ userId, bankAccountId: account.id, amount, fee, speed });
+
+    try {
+      await this._ensureTransferTypes();
+      await marqetaService.createProgramTransfer({
+        token: withdrawal.id,
+        userToken: marqetaToken,
+        amount,
+        typeToken: TRANSFER_TYPES.amount.token,
+        memo: `Withdrawal to account ending ${account.accountLastFour}`
+      });
+    } catch (error) {
+      // Nothing has left the GPA yet, so there's nothing to refund
+      console.error(`Withdrawal ${withdrawal.id} failed:`, error.response?.data || error.message);
+      await storageService.updateWithdrawal(withdrawal.id, { status: 'failed', failureReason: 'Could not debit the wallet' });
+      return { status: 502, error: 'Withdrawal failed: could not debit your wallet. Your balance was not charged.' };
+    }
+    if (fee > 0) {
+      try {
+        await marqetaService.createProgramTransfer({
+          token: feeTransferToken(withdrawal.id),
+          userToken: marqetaToken,
+          amount: fee,
+          typeToken: TRANSFER_TYPES.fee.token,
+          memo: `Instant withdrawal fee (${this.instantFeePercent}%)`
+        });
+      } catch (error) {
+        return await this._fail(withdrawal, marqetaToken, amount, 'Could not charge the instant withdrawal fee', error);
+      }
+    }
+
+    let transfer;
+    try {
+      transfer = await bankRail.sendTransfer(account.providerAccountId, { amount, speed, reference: withdrawal.id });
+    } catch (error) {
+      return await this._fail(withdrawal, marqetaToken, total, error.message, error);
+    }
+
+    const completed = await storageService.updateWithdrawal(withdrawal.id, {
+      status: transfer.status,
+      providerTransferId: transfer.providerTransferId,
+      expectedArrivalAt: transfer.expectedArrivalAt
+    });
+    const newBalance = await marqetaService.getGPABalance(marqetaToken);
+
+    return { withdrawal: completed, newBalance: newBalance?.gpa?.available_balance || 0 };
+  }
+
+  // Mark the withdrawal failed and put what was debited back in the GPA
+  //
+  // The failure is recorded first so the row is right whatever the refund does. A refund that
+  // throws leaves the withdrawal refund_failed instead of propagating - the user has been debited
+  // and someone needs to send it again.
+  async _fail(withdrawal, marqetaToken, refundAmount, reason, error) {
+    console.error(`Withdrawal ${withdrawal.id} failed:`, error.response?.data || error.message);
+
+    await this._record(withdrawal, { status: 'failed', failureReason: reason });
+
+    try {
+      await marqetaService.fundGPA(marqetaToken, refundAmount, 'Withdrawal returned', withdrawal.id);
+    } catch (refundError) {
+      console.error(`[Withdrawals] Refund of $${refundAmount.toFixed(2)} for withdrawal ${withdrawal.id} failed, needs reconciliation:`,
+        refundError.response?.data || refundError.message);
+      await this._record(withdrawal, { status: 'refund_failed', refundAmount });
+
+      return {
+        status: 502,
+        error: `Withdrawal failed: ${reason}. We couldn't return $${refundAmount.toFixed(2)} to your balance yet - we'll keep trying and let you know when it's back.`
+      };
+    }
+
+    return { status: 502, error: `Withdrawal failed: ${reason}. Your balance has been restored.` };
+  }
+
+  /**
+   * Send the refund again for every refund_failed withdrawal
+   * A refunded withdrawal goes back to failed and the user is told the money is back.
+   * Returns { checked, refunded, failed }
+   */
+  async retryRefunds() {
+    const withdrawals = await storageService.getWithdrawalsByStatus('refund_failed');
+    const summary = { checked: withdrawals.length, refunded: 0, failed: 0 };
+
+    for (const withdrawal of withdrawals) {
+      try {
+        // Rows from before refundAmount was recorded can't tell a failed fee from a failed rail
+        if (withdrawal.refundAmount == null) {
+          throw new Error('No refund amount recorded, refund it manually');
+        }
+
+        const marqetaToken = await storageService.getUserMarqetaToken(withdrawal.userId);
+        if (!marqetaToken) {
+          throw new Error('User not initialized with Marqeta');
+        }
+
+        await marqetaService.fundGPA(marqetaToken, withdrawal.refundAmount, 'Withdrawal returned', withdrawal.id);
+        await storageService.updateWithdrawal(withdrawal.id, { status: 'failed' });
+        summary.refunded++;
+
+        await this._notifyRefunded(withdrawal);
+      } catch (error) {
+        console.error(`[Withdrawals] Refund retry for withdrawal ${withdrawal.id} failed, needs reconciliation:`,
+          error.response?.data || error.message);
+        summary.failed++;
+      }
+    }
+
+    return summary;
+  }
+
+  async _notifyRefunded(withdrawal) {
+    try {
+      await storageService.createNotification({
+        userId: withdrawal.userId,
+        type: 'withdrawal_refunded',
+        title: 'Withdrawal Refunded',
+        message: `$${withdrawal.refundAmount.toFixed(2)} from your failed withdrawal is back in your balance.`
+      });
+    } catch (error) {
+      console.error('[Withdrawals] Error creating notification:', error);
+    }
+  }
+
+  // Failing to record a failure mustn't stop the refund (storageService logs the error)
+  async _record(withdrawal, updates) {
+    try {
+      await storageService.updateWithdrawal(withdrawal.id, updates);
+    } catch {
+      // Already logged
+    }
+  }
+
+  async _ensureTransferTypes() {
+    for (const type of Object.values(TRANSFER_TYPES)) {
+      if (this.ensuredTypes.has(type.token)) continue;
+
+      const existing = await marqetaService.getProgramTransferType(type.token);
+      if (!existing) {
+        await marqetaService.createProgramTransferType(type.token, type.memo);
+      }
+
+      this.ensuredTypes.add(type.token);
+    }
+  }
+}
+
+const withdrawalService = new WithdrawalService();
+export default withdrawalService;
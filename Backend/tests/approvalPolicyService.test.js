@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import approvalPolicyService from '../services/approvalPolicyService.js';
+
+const approvers = (...statuses) => statuses.map((status, i) => ({ userId: `u${i}`, status }));
+const evaluate = (approvalPolicy, list) => approvalPolicyService.evaluate({ approvalPolicy, approvers: list });
+
+test('all: approved only when everyone approves, rejected on any rejection', () => {
+  assert.equal(evaluate({ type: 'all' }, approvers('approved', 'pending')), 'pending');
+  assert.equal(evaluate({ type: 'all' }, approvers('approved', 'approved')), 'approved');
+  assert.equal(evaluate({ type: 'all' }, approvers('approved', 'rejected')), 'rejected');
+});
+
+test('n_of_m and majority: rejected once the quorum is out of reach', () => {
+  assert.equal(evaluate({ type: 'n_of_m', required: 2 }, approvers('approved', 'approved', 'pending')), 'approved');
+  assert.equal(evaluate({ type: 'n_of_m', required: 2 }, approvers('rejected', 'rejected', 'pending')), 'rejected');
+  assert.equal(evaluate({ type: 'majority' }, approvers('approved', 'pending', 'pending')), 'pending');
+  assert.equal(evaluate({ type: 'majority' }, approvers('approved', 'approved', 'rejected')), 'approved');
+});
+
+test('required_approver: the named approver alone is not enough with the default base', () => {
+  const policy = { type: 'required_approver', approverId: 'u0' };
+  assert.equal(evaluate(policy, approvers('approved', 'pending')), 'pending');
+  assert.equal(evaluate(policy, approvers('approved', 'approved')), 'approved');
+  assert.equal(evaluate(policy, approvers('pending', 'approved')), 'pending');
+  assert.equal(evaluate(policy, approvers('rejected', 'approved')), 'rejected');
+  assert.equal(evaluate(policy, approvers('approved', 'rejected')), 'rejected');
+});
+
+test('required_approver: the base policy decides what else is needed', () => {
+  const majority = { type: 'required_approver', approverId: 'u0', base: { type: 'majority' } };
+  assert.equal(evaluate(majority, approvers('approved', 'approved', 'pending')), 'approved');
+  assert.equal(evaluate(majority, approvers('pending', 'approved', 'approved')), 'pending');
+
+  const any = { type: 'required_approver', approverId: 'u0', base: { type: 'any' } };
+  assert.equal(evaluate(any, approvers('approved', 'pending')), 'approved');
+});
+
+test('required_approver: validates the base and persists it', () => {
+  assert.match(
+    approvalPolicyService.validate({ type: 'required_approver', approverId: 'u0', base: { type: 'required_approver' } }, approvers('pending')),
+    /base policy must be one of/
+  );
+  assert.match(
+    approvalPolicyService.validate({ type: 'required_approver', approverId: 'u0', base: { type: 'n_of_m', required: 3 } }, approvers('pending', 'pending')),
+    /requires 3 approvals/
+  );
+  assert.deepEqual(
+    approvalPolicyService.normalize({ type: 'required_approver', approverId: 'u0', extra: true }),
+    { type: 'required_approver', approverId: 'u0', base: { type: 'all' } }
+  );
+});
@@ -0,0 +1,53 @@
+import { signIn, call } from './helpers.js';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import userRoutes from '../routes/users.js';
+import storageService from '../services/storageService.js';
+import cardService from '../services/cardService.js';
+
+const sam = { id: 'sam', email: 'sam@example.com', user_metadata: {}, app_metadata: {} };
+const now = () => Math.floor(Date.now() / 1000);
+
+const requestRevealToken = (claims) =>
+  call(userRoutes, { method: 'POST', path: '/cards/card-1/reveal-token', token: signIn(sam, claims) });
+
+describe('POST /cards/:token/reveal-token', () => {
+  beforeEach((t) => {
+    t.mock.method(storageService, 'getUserMarqetaToken', async () => 'mq-sam');
+    t.mock.method(storageService, 'createCardRevealToken', async () => {});
+    t.mock.method(cardService, 'getCards', async () => [{ token: 'card-1', state: 'ACTIVE' }]);
+  });
+
+  test('issues a token when this session signed in just now', async () => {
+    const res = await requestRevealToken({ iat: now(), amr: [{ method: 'password', timestamp: now() - 10 }] });
+
+    assert.equal(res.status, 200);
+    assert.ok(res.body.data.revealToken);
+    assert.equal(storageService.createCardRevealToken.mock.callCount(), 1);
+  });
+
+  test('a refreshed token from an old sign-in needs the password again', async () => {
+    // iat moves on every refresh; amr keeps the original sign-in
+    const res = await requestRevealToken({ iat: now(), amr: [{ method: 'password', timestamp: now() - 3600 }] });
+
+    assert.equal(res.status, 403);
+    assert.equal(res.body.code, 'REAUTH_REQUIRED');
+    assert.equal(storageService.createCardRevealToken.mock.callCount(), 0);
+  });
+
+  test('a recent sign-in on another device doesn\'t count', async () => {
+    const res = await call(userRoutes, {
+      method: 'POST',
+      path: '/cards/card-1/reveal-token',
+      token: signIn({ ...sam, last_sign_in_at: new Date().toISOString() }, { amr: [{ method: 'password', timestamp: now() - 3600 }] })
+    });
+
+    assert.equal(res.status, 403);
+    assert.equal(res.body.code, 'REAUTH_REQUIRED');
+  });
+
+  test('a token without amr needs the password again', async () => {
+    const res = await requestRevealToken({ iat: now() });
+    assert.equal(res.status, 403);
+  });
+});
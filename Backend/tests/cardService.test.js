@@ -0,0 +1,76 @@
+import './helpers.js';
+import { describe, test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import cardService from '../services/cardService.js';
+import fundingService from '../services/fundingService.js';
+import storageService from '../services/storageService.js';
+import marqetaService from '../services/marqetaService.js';
+
+const sender = { userId: 'sam', name: 'Sam' };
+
+const approvedRequest = (overrides = {}) => ({
+  id: 'req-1',
+  senderId: sender.userId,
+  description: 'Groceries',
+  amount: 50,
+  approvedAmount: 40,
+  status: 'approved',
+  fundingStatus: 'jit_available',
+  ...overrides
+});
+
+describe('issueRequestCard', () => {
+  const mode = fundingService.mode;
+  let request;
+
+  beforeEach((t) => {
+    request = approvedRequest();
+    t.mock.method(storageService, 'getPaymentRequest', async () => request);
+    t.mock.method(storageService, 'getUserCardsForRequest', async () => []);
+    t.mock.method(storageService, 'getUserMarqetaToken', async () => 'mq-sam');
+    t.mock.method(storageService, 'createUserCard', async (card) => ({ ...card, closedAt: null }));
+    t.mock.method(storageService, 'recordCardEvent', async () => {});
+    t.mock.method(storageService, 'getAccountabilityPartnerIds', async () => []);
+    t.mock.method(cardService, 'listCards', async () => []);
+    t.mock.method(marqetaService, 'listCardProducts', async () => ({ data: [{ token: 'product-1' }] }));
+    t.mock.method(marqetaService, 'createCard', async () => ({ token: 'card-1', last_four: '4242', state: 'ACTIVE' }));
+  });
+
+  afterEach(() => {
+    fundingService.mode = mode;
+  });
+
+  test('is refused in GPA mode, where nothing would cap the card', async () => {
+    fundingService.mode = 'gpa';
+    const result = await cardService.issueRequestCard(sender, request.id);
+
+    assert.equal(result.status, 409);
+    assert.equal(marqetaService.createCard.mock.callCount(), 0);
+  });
+
+  test('issues a single-use card capped at the approved amount in JIT mode', async () => {
+    fundingService.mode = 'jit';
+    const result = await cardService.issueRequestCard(sender, request.id);
+
+    assert.equal(result.card.token, 'card-1');
+    assert.equal(result.card.amountLimit, 40);
+    assert.equal(result.card.singleUse, true);
+    assert.equal(result.card.requestId, request.id);
+  });
+
+  test('needs an unspent JIT request', async () => {
+    fundingService.mode = 'jit';
+    for (const fundingStatus of ['funded', 'jit_consumed', 'approved_unfunded']) {
+      request = approvedRequest({ fundingStatus });
+      const result = await cardService.issueRequestCard(sender, request.id);
+      assert.equal(result.status, 409, fundingStatus);
+    }
+    assert.equal(marqetaService.createCard.mock.callCount(), 0);
+  });
+
+  test('only for the sender\'s own requests', async () => {
+    fundingService.mode = 'jit';
+    const result = await cardService.issueRequestCard({ userId: 'stu', name: 'Stu' }, request.id);
+    assert.equal(result.status, 404);
+  });
+});
@@ -0,0 +1,147 @@
+import { signIn, call } from './helpers.js';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import marqetaRoutes from '../routes/marqeta.js';
+import storageService from '../services/storageService.js';
+import paymentRequestService from '../services/paymentRequestService.js';
+import fundingService from '../services/fundingService.js';
+
+const sam = { id: 'sam', email: 'sam@example.com', user_metadata: { name: 'Sam' }, app_metadata: {} };
+const alex = { id: 'alex', email: 'alex@example.com', user_metadata: { name: 'Alex' }, app_metadata: {} };
+const val = { id: 'val', email: 'val@example.com', user_metadata: {}, app_metadata: {} };
+
+// Sam asked Alex and Val for $50; Alex offered $35 instead
+let request;
+let events;
+
+const openRequest = (overrides = {}) => ({
+  id: 'req-1',
+  senderId: 'sam',
+  senderName: 'Sam',
+  description: 'Groceries',
+  amount: 50,
+  status: 'pending',
+  approvalPolicy: { type: 'any' },
+  approvers: [
+    { userId: 'alex', name: 'Alex', status: 'pending' },
+    { userId: 'val', name: 'Val', status: 'pending' }
+  ],
+  approvedBy: [],
+  counterOffer: { approverId: 'alex', approverName: 'Alex', amount: 35, notes: null, status: 'pending', createdAt: new Date().toISOString() },
+  ...overrides
+});
+
+const respond = (decision, { who = sam, headers } = {}) => call(marqetaRoutes, {
+  method: 'POST',
+  path: `/payment-requests/${request.id}/counter-offer/${decision}`,
+  token: signIn(who),
+  body: {},
+  headers
+});
+
+describe('responding to a counter-offer', () => {
+  beforeEach((t) => {
+    request = openRequest();
+    events = [];
+    fundingService.mode = 'gpa';
+
+    t.mock.method(storageService, 'getPaymentRequest', async (id) => (id === request.id ? structuredClone(request) : null));
+    t.mock.method(storageService, 'updatePaymentRequest', async (id, updates) => {
+      request = { ...request, ...structuredClone(updates) };
+      return structuredClone(request);
+    });
+    t.mock.method(storageService, 'recordPaymentRequestEvent', async (event) => { events.push(event); });
+    t.mock.method(storageService, 'createNotification', async () => {});
+    t.mock.method(paymentRequestService, 'fundApprovedRequest', async (paymentRequest) => ({ ...paymentRequest, fundingStatus: 'funded' }));
+  });
+
+  test('accepting counts as the approver approving the offered amount and funds it', async () => {
+    const res = await respond('accept');
+
+    assert.equal(res.status, 200);
+    assert.equal(request.status, 'approved');
+    assert.equal(request.approvedAmount, 35);
+    assert.equal(request.counterOffer.status, 'accepted');
+    assert.deepEqual(request.approvers.map(a => a.status), ['approved', 'pending']);
+    assert.equal(paymentRequestService.fundApprovedRequest.mock.callCount(), 1);
+    assert.equal(paymentRequestService.fundApprovedRequest.mock.calls[0].arguments[0].approvedAmount, 35);
+    assert.equal(res.body.data.fundingStatus, 'funded');
+
+    assert.deepEqual(events.map(e => e.type), ['counter_offer_accepted', 'approved']);
+    assert.deepEqual(events[1].data, { outcome: 'approved', amount: 35, viaCounterOffer: true });
+    assert.equal(events[1].actorId, 'alex');
+  });
+
+  test('an accepted offer that doesn\'t reach quorum leaves the request pending and unfunded', async () => {
+    request = openRequest({ approvalPolicy: { type: 'all' } });
+    const res = await respond('accept');
+
+    assert.equal(res.status, 200);
+    assert.equal(request.status, 'pending');
+    assert.equal(request.approvers[0].approvedAmount, 35);
+    assert.equal(paymentRequestService.fundApprovedRequest.mock.callCount(), 0);
+  });
+
+  test('declining closes the offer and leaves the approver\'s review open', async () => {
+    const res = await respond('decline');
+
+    assert.equal(res.status, 200);
+    assert.equal(request.status, 'pending');
+    assert.equal(request.counterOffer.status, 'declined');
+    assert.deepEqual(request.approvers.map(a => a.status), ['pending', 'pending']);
+    assert.deepEqual(events.map(e => e.type), ['counter_offer_declined']);
+    assert.equal(storageService.createNotification.mock.calls[0].arguments[0].userId, 'alex');
+  });
+
+  test('only the sender can respond', async () => {
+    const res = await respond('accept', { who: alex });
+
+    assert.equal(res.status, 403);
+    assert.equal(request.status, 'pending');
+  });
+
+  test('an offer can only be answered once', async () => {
+    await respond('accept');
+    const again = await respond('accept');
+
+    assert.equal(again.status, 400);
+    assert.equal(paymentRequestService.fundApprovedRequest.mock.callCount(), 1);
+  });
+
+  test('approving directly records the approver\'s name, or their email without one', async () => {
+    const res = await call(marqetaRoutes, {
+      method: 'POST',
+      path: `/payment-requests/${request.id}/approve`,
+      token: signIn(val),
+      body: {}
+    });
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(request.approvedBy.map(a => a.name), ['val@example.com']);
+    assert.match(storageService.createNotification.mock.calls[0].arguments[0].message, /^val@example\.com approved/);
+  });
+
+  test('unknown decisions are a 404', async () => {
+    const res = await respond('maybe');
+    assert.equal(res.status, 404);
+  });
+
+  test('a retried accept with the same Idempotency-Key replays instead of funding twice', async (t) => {
+    const keys = new Map();
+    t.mock.method(storageService, 'claimIdempotencyKey', async (userId, key, fingerprint) => {
+      if (keys.has(key)) return { claimed: false, record: keys.get(key) };
+      keys.set(key, { fingerprint, status: 'processing', createdAt: new Date().toISOString() });
+      return { claimed: true, record: null };
+    });
+    t.mock.method(storageService, 'completeIdempotencyKey', async (userId, key, responseStatus, responseBody) => {
+      Object.assign(keys.get(key), { status: 'completed', responseStatus, responseBody });
+    });
+
+    const first = await respond('accept', { headers: { 'Idempotency-Key': 'accept-1' } });
+    const retry = await respond('accept', { headers: { 'Idempotency-Key': 'accept-1' } });
+
+    assert.equal(retry.status, 200);
+    assert.deepEqual(retry.body, first.body);
+    assert.equal(paymentRequestService.fundApprovedRequest.mock.callCount(), 1);
+  });
+});
@@ -0,0 +1,28 @@
+import { call } from './helpers.js';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import cronRoutes from '../routes/cron.js';
+
+const vercel = JSON.parse(readFileSync(new URL('../vercel.json', import.meta.url)));
+
+const cronPaths = cronRoutes.stack
+  .filter(layer => layer.route?.methods.get)
+  .map(layer => `/api/cron${layer.route.path}`);
+
+describe('cron routes', () => {
+  test('every job is scheduled on Vercel, which doesn\'t run index.js', () => {
+    assert.ok(cronPaths.length > 0);
+    assert.deepEqual(vercel.crons.map(c => c.path).sort(), [...cronPaths].sort());
+  });
+
+  test('need the cron secret', async (t) => {
+    t.after(() => { delete process.env.CRON_SECRET; });
+    process.env.CRON_SECRET = 'cron-secret';
+
+    for (const path of cronPaths) {
+      const res = await call(cronRoutes, { path: path.replace('/api/cron', ''), headers: { Authorization: 'Bearer wrong' } });
+      assert.equal(res.status, 401, path);
+    }
+  });
+});
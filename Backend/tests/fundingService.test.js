@@ -0,0 +1,192 @@
+import './helpers.js';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fundingService, { FUNDING_STATUS } from '../services/fundingService.js';
+import storageService from '../services/storageService.js';
+import marqetaService from '../services/marqetaService.js';
+import spendControlService from '../services/spendControlService.js';
+
+const { APPROVED_UNFUNDED, FUNDING, FUNDED, FUNDING_FAILED, JIT_AVAILABLE } = FUNDING_STATUS;
+const HOUR_MS = 60 * 60 * 1000;
+
+// payment_requests, by id
+let rows;
+// Marqeta's GPA orders, by token
+let orders;
+let events;
+
+const approvedRequest = (overrides = {}) => ({
+  id: 'req-1',
+  senderId: 'sam',
+  senderName: 'Sam',
+  description: 'Groceries',
+  amount: 40,
+  approvers: [{ userId: 'alex' }],
+  fundingStatus: APPROVED_UNFUNDED,
+  fundingAttempts: 0,
+  updatedAt: new Date().toISOString(),
+  ...overrides
+});
+
+const save = (request) => {
+  rows.set(request.id, { ...request });
+  return rows.get(request.id);
+};
+
+describe('fundingService', () => {
+  beforeEach((t) => {
+    rows = new Map();
+    orders = new Map();
+    events = [];
+
+    fundingService.mode = 'gpa';
+    fundingService.maxAttempts = 3;
+    fundingService.retryBaseMs = 1000;
+    fundingService.stuckAfterMs = 10 * 60 * 1000;
+
+    t.mock.method(storageService, 'claimPaymentRequestFunding', async (id, from) => {
+      const row = rows.get(id);
+      if (!row || !from.includes(row.fundingStatus)) return null;
+      row.fundingStatus = FUNDING;
+      return { ...row };
+    });
+    t.mock.method(storageService, 'getPaymentRequest', async (id) => ({ ...rows.get(id) }));
+    t.mock.method(storageService, 'updatePaymentRequest', async (id, updates) => {
+      Object.assign(rows.get(id), updates);
+      return { ...rows.get(id) };
+    });
+    t.mock.method(storageService, 'getPaymentRequestsByFundingStatus', async (statuses) =>
+      [...rows.values()].filter(r => statuses.includes(r.fundingStatus)).map(r => ({ ...r })));
+    t.mock.method(storageService, 'getUserMarqetaToken', async (id) => `mq-${id}`);
+    t.mock.method(storageService, 'recordPaymentRequestEvent', async (event) => { events.push(event); });
+    t.mock.method(storageService, 'createNotification', async () => {});
+    t.mock.method(spendControlService, 'syncForRequest', async () => {});
+    t.mock.method(marqetaService, 'fundGPA', async (userToken, amount, memo, token) => {
+      // Marqeta rejects a duplicate token, so a second order for the same request can't succeed
+      if (orders.has(token)) throw new Error('Duplicate token');
+      orders.set(token, { token, amount, state: 'COMPLETION' });
+      return orders.get(token);
+    });
+    t.mock.method(marqetaService, 'getGPAOrder', async (token) => orders.get(token) || null);
+  });
+
+  test('approved requests wait for a GPA order, or for JIT in jit mode', () => {
+    assert.equal(fundingService.approvedStatus(), APPROVED_UNFUNDED);
+    fundingService.mode = 'jit';
+    assert.equal(fundingService.approvedStatus(), JIT_AVAILABLE);
+  });
+
+  test('funds the approved amount with the request id as the order token', async () => {
+    const result = await fundingService.fundRequest(save(approvedRequest({ approvedAmount: 25 })));
+
+    assert.equal(result.fundingStatus, FUNDED);
+    assert.equal(result.gpaOrderToken, 'req-1');
+    assert.deepEqual(marqetaService.fundGPA.mock.calls[0].arguments.slice(0, 2), ['mq-sam', 25]);
+    assert.deepEqual(events.map(e => e.type), ['funded']);
+    assert.equal(spendControlService.syncForRequest.mock.callCount(), 1);
+  });
+
+  test('only the caller that claims the request places an order', async () => {
+    const request = save(approvedRequest());
+    const results = await Promise.all([fundingService.fundRequest(request), fundingService.fundRequest(request)]);
+
+    assert.equal(marqetaService.fundGPA.mock.callCount(), 1);
+    assert.equal(results[0].fundingStatus, FUNDED);
+    assert.equal(rows.get('req-1').fundingStatus, FUNDED);
+  });
+
+  test('a failed attempt goes back to approved_unfunded with a backoff', async () => {
+    marqetaService.fundGPA.mock.mockImplementation(async () => { throw new Error('Marqeta is down'); });
+    const before = Date.now();
+    const result = await fundingService.fundRequest(save(approvedRequest({ fundingAttempts: 1 })));
+
+    assert.equal(result.fundingStatus, APPROVED_UNFUNDED);
+    assert.equal(result.fundingAttempts, 2);
+    assert.equal(result.fundingError, 'Marqeta is down');
+    // Second attempt: twice the base delay
+    assert.ok(new Date(result.nextFundingAttemptAt) - before >= 2000);
+    assert.deepEqual(events.map(e => [e.type, e.data.final]), [['funding_failed', false]]);
+  });
+
+  test('gives up after the last attempt and tells the sender and approvers', async () => {
+    marqetaService.fundGPA.mock.mockImplementation(async () => { throw new Error('Marqeta is down'); });
+    const result = await fundingService.fundRequest(save(approvedRequest({ fundingAttempts: 2 })));
+
+    assert.equal(result.fundingStatus, FUNDING_FAILED);
+    assert.equal(result.nextFundingAttemptAt, null);
+    assert.deepEqual(events.map(e => [e.type, e.data.final]), [['funding_failed', true]]);
+    assert.deepEqual(storageService.createNotification.mock.calls.map(c => c.arguments[0].userId), ['sam', 'alex']);
+  });
+
+  test('a sender without a Marqeta account is a failed attempt, not a crash', async () => {
+    storageService.getUserMarqetaToken.mock.mockImplementation(async () => null);
+    const result = await fundingService.fundRequest(save(approvedRequest()));
+
+    assert.equal(result.fundingStatus, APPROVED_UNFUNDED);
+    assert.match(result.fundingError, /Marqeta account/);
+  });
+
+  test('runRetries only picks up requests whose backoff has passed', async () => {
+    const now = new Date();
+    save(approvedRequest({ id: 'due', nextFundingAttemptAt: new Date(now - 1000).toISOString() }));
+    save(approvedRequest({ id: 'later', nextFundingAttemptAt: new Date(now.getTime() + HOUR_MS).toISOString() }));
+    save(approvedRequest({ id: 'done', fundingStatus: FUNDED }));
+
+    const summary = await fundingService.runRetries(now);
+
+    assert.deepEqual(summary, { checked: 1, funded: 1, retrying: 0, failed: 0 });
+    assert.equal(rows.get('due').fundingStatus, FUNDED);
+    assert.equal(rows.get('later').fundingStatus, APPROVED_UNFUNDED);
+  });
+
+  describe('reconcile', () => {
+    test('records an order whose response was lost', async () => {
+      save(approvedRequest({ fundingStatus: FUNDING }));
+      orders.set('req-1', { token: 'req-1', state: 'COMPLETION' });
+
+      const summary = await fundingService.reconcile();
+
+      assert.equal(summary.recovered, 1);
+      assert.equal(rows.get('req-1').fundingStatus, FUNDED);
+      assert.equal(events[0].data.reconciliation, true);
+    });
+
+    test('releases a request stuck in funding with no order', async () => {
+      const now = new Date();
+      save(approvedRequest({ fundingStatus: FUNDING, updatedAt: new Date(now - HOUR_MS).toISOString() }));
+
+      const summary = await fundingService.reconcile(now);
+
+      assert.equal(summary.released, 1);
+      assert.equal(rows.get('req-1').fundingStatus, APPROVED_UNFUNDED);
+    });
+
+    test('leaves a request that is still being funded alone', async () => {
+      save(approvedRequest({ fundingStatus: FUNDING }));
+
+      const summary = await fundingService.reconcile();
+
+      assert.deepEqual(summary, { checked: 1, recovered: 0, released: 0, mismatched: 0, failed: 0 });
+      assert.equal(rows.get('req-1').fundingStatus, FUNDING);
+    });
+
+    test('fails a recently funded request whose order is missing and resyncs spend controls', async () => {
+      save(approvedRequest({ fundingStatus: FUNDED, fundedAt: new Date().toISOString() }));
+
+      const summary = await fundingService.reconcile();
+
+      assert.equal(summary.mismatched, 1);
+      assert.equal(rows.get('req-1').fundingStatus, FUNDING_FAILED);
+      assert.equal(spendControlService.syncForRequest.mock.callCount(), 1);
+    });
+
+    test('doesn\'t recheck requests funded outside the window', async () => {
+      save(approvedRequest({ fundingStatus: FUNDED, fundedAt: new Date(Date.now() - 72 * HOUR_MS).toISOString() }));
+
+      const summary = await fundingService.reconcile();
+
+      assert.equal(summary.checked, 0);
+      assert.equal(marqetaService.getGPAOrder.mock.callCount(), 0);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import './helpers.js';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fundingSourceService from '../services/fundingSourceService.js';
+import storageService from '../services/storageService.js';
+import marqetaService from '../services/marqetaService.js';
+import bankRail from '../services/bankRails.js';
+
+// Sam tops up from Alex's wallet. Alex allows it up to their limit; Stu is a partner who doesn't.
+// Val turned peer funding on but only for someone else.
+const sam = { userId: 'sam', name: 'Sam' };
+
+let settings;
+// Accepted friends rows, as [userId, partnerId]
+let friends;
+let balances;
+let ledger;
+
+const addFromPartner = (amount, sourceId = 'alex', token = null) =>
+  fundingSourceService.addMoney(sam, { amount, source: 'peer', sourceId }, token);
+
+describe('addMoney from a partner', () => {
+  beforeEach((t) => {
+    settings = {
+      alex: { allowPeerFunding: true, peerFundingLimit: 100, peerFundingUserIds: ['sam'] },
+      stu: { allowPeerFunding: false, peerFundingLimit: 100, peerFundingUserIds: ['sam'] },
+      val: { allowPeerFunding: true, peerFundingLimit: 100, peerFundingUserIds: ['wes'] }
+    };
+    friends = [['sam', 'alex'], ['alex', 'sam'], ['sam', 'stu'], ['stu', 'sam'], ['sam', 'val'], ['val', 'sam'], ['sam', 'olive']];
+    balances = { 'mq-sam': 0, 'mq-alex': 500 };
+    ledger = [];
+
+    t.mock.method(marqetaService, 'isSandbox', () => true);
+    t.mock.method(storageService, 'getUserMarqetaToken', async (id) => `mq-${id}`);
+    t.mock.method(storageService, 'getAccountabilityPartners', async (id) => friends
+      .filter(([userId]) => userId === id)
+      .map(([, partnerId]) => ({ userId: partnerId, name: partnerId, role: 'approver' })));
+    t.mock.method(storageService, 'isAccountabilityPartner', async (userId, partnerId) =>
+      friends.some(([a, b]) => a === userId && b === partnerId));
+    t.mock.method(storageService, 'getUserSettings', async (id) =>
+      settings[id] || { allowPeerFunding: false, peerFundingLimit: 100, peerFundingUserIds: [] });
+    t.mock.method(storageService, 'createPeerFunding', async (funding) => {
+      const row = { id: `pf-${ledger.length + 1}`, status: 'pending', ...funding };
+      ledger.push(row);
+      return row;
+    });
+    t.mock.method(storageService, 'getPeerFundingTotal', async (partnerId) => ledger
+      .filter(r => r.partnerId === partnerId && ['pending', 'completed'].includes(r.status))
+      .reduce((sum, r) => sum + r.amount, 0));
+    t.mock.method(storageService, 'updatePeerFunding', async (id, status) => {
+      ledger.find(r => r.id === id).status = status;
+    });
+    t.mock.method(storageService, 'createNotification', async () => {});
+    t.mock.method(marqetaService, 'getGPABalance', async (token) => ({ gpa: { available_balance: balances[token] } }));
+    t.mock.method(marqetaService, 'createPeerTransfer', async ({ senderUserToken, recipientUserToken, amount }) => {
+      balances[senderUserToken] -= amount;
+      balances[recipientUserToken] += amount;
+      return { token: 'transfer' };
+    });
+  });
+
+  test('moves the money, records it and tells the partner what\'s left', async () => {
+    const result = await addFromPartner(30, 'alex', 'key-1');
+
+    assert.equal(result.newBalance, 30);
+    assert.deepEqual(ledger.map(r => [r.amount, r.status]), [[30, 'completed']]);
+    assert.equal(marqetaService.createPeerTransfer.mock.calls[0].arguments[0].token, 'key-1');
+
+    const [notification] = storageService.createNotification.mock.calls[0].arguments;
+    assert.equal(notification.userId, 'alex');
+    assert.match(notification.message, /\$70\.00 of your \$100\.00 limit/);
+  });
+
+  test('only from partners who opted in', async () => {
+    const result = await addFromPartner(10, 'stu');
+
+    assert.equal(result.status, 403);
+    assert.equal(marqetaService.createPeerTransfer.mock.callCount(), 0);
+  });
+
+  test('not from someone who isn\'t the user\'s partner', async () => {
+    const result = await addFromPartner(10, 'wes');
+    assert.equal(result.status, 403);
+  });
+
+  test('only from partners who picked this user', async () => {
+    const result = await addFromPartner(10, 'val');
+
+    assert.equal(result.status, 403);
+    assert.equal(marqetaService.createPeerTransfer.mock.callCount(), 0);
+  });
+
+  test('adding someone as a partner from the user\'s side alone isn\'t consent', async () => {
+    // Sam's own row for Olive can be written by Sam's client; Olive never added Sam
+    settings.olive = { allowPeerFunding: true, peerFundingLimit: 100, peerFundingUserIds: ['sam'] };
+    const result = await addFromPartner(10, 'olive');
+
+    assert.equal(result.status, 403);
+    assert.equal(marqetaService.createPeerTransfer.mock.callCount(), 0);
+  });
+
+  test('lists only the partners who allow it', async () => {
+    const peer = (await fundingSourceService.listForUser('sam')).find(s => s.source === 'peer');
+    assert.deepEqual(peer.options.map(o => o.id), ['alex']);
+  });
+
+  test('stops at the partner\'s 30-day limit', async () => {
+    assert.ok(!(await addFromPartner(60)).error);
+    const result = await addFromPartner(50);
+
+    assert.equal(result.status, 403);
+    assert.match(result.error, /\$40\.00 of \$100\.00 is left/);
+    assert.deepEqual(ledger.map(r => r.status), ['completed', 'declined']);
+    assert.equal(balances['mq-alex'], 440);
+  });
+
+  test('a single top-up over the limit is refused before anything is reserved', async () => {
+    const result = await addFromPartner(150);
+
+    assert.equal(result.status, 403);
+    assert.equal(ledger.length, 0);
+  });
+
+  test('checks the partner\'s balance before moving anything', async () => {
+    balances['mq-alex'] = 20;
+    const result = await addFromPartner(30);
+
+    assert.equal(result.status, 400);
+    assert.equal(ledger.length, 0);
+    assert.equal(marqetaService.createPeerTransfer.mock.callCount(), 0);
+  });
+
+  test('two top-ups at once can\'t both get under the limit', async () => {
+    const results = await Promise.all([addFromPartner(60), addFromPartner(60)]);
+
+    assert.ok(results.filter(r => !r.error).length <= 1);
+    assert.ok(balances['mq-alex'] >= 400);
+  });
+
+  test('a failed transfer releases its reservation', async () => {
+    marqetaService.createPeerTransfer.mock.mockImplementation(async () => { throw new Error('Marqeta is down'); });
+
+    await assert.rejects(addFromPartner(30), /Marqeta is down/);
+    assert.deepEqual(ledger.map(r => r.status), ['failed']);
+  });
+});
+
+describe('addMoney from a bank account', () => {
+  const account = { id: 'bank-1', userId: 'sam', status: 'verified', accountLastFour: '6789', providerAccountId: 'fake_abc' };
+
+  // bank_pulls, by reference
+  let pulls;
+  let debits;
+  let credits;
+
+  const addFromBank = (token, amount = 25) => fundingSourceService.addMoney(sam, { amount, source: 'ach', sourceId: account.id }, token);
+
+  beforeEach((t) => {
+    pulls = new Map();
+    debits = [];
+    credits = [];
+
+    t.mock.method(marqetaService, 'isSandbox', () => true);
+    t.mock.method(storageService, 'getUserMarqetaToken', async () => 'mq-sam');
+    t.mock.method(storageService, 'getBankAccount', async (id) => (id === account.id ? account : null));
+    t.mock.method(storageService, 'getBankPull', async (reference) => (pulls.has(reference) ? { ...pulls.get(reference) } : null));
+    t.mock.method(storageService, 'createBankPull', async (pull) => {
+      pulls.set(pull.reference, { id: `pull-${pulls.size + 1}`, status: 'pending', ...pull });
+      return { ...pulls.get(pull.reference) };
+    });
+    t.mock.method(storageService, 'updateBankPull', async (id, { status }) => {
+      [...pulls.values()].find(p => p.id === id).status = status;
+    });
+    t.mock.method(bankRail, 'pullTransfer', async (providerAccountId, { amount, reference }) => {
+      debits.push([amount, reference]);
+      return { providerTransferId: `tr-${reference}`, status: 'completed' };
+    });
+    t.mock.method(bankRail, 'sendTransfer', async () => ({ providerTransferId: 'rev', status: 'processing' }));
+    t.mock.method(marqetaService, 'fundGPA', async (userToken, amount, memo, token) => {
+      credits.push([amount, token]);
+      return { token };
+    });
+    t.mock.method(marqetaService, 'getGPABalance', async () => ({ gpa: { available_balance: 25 } }));
+  });
+
+  test('records the pull, debits the bank, then credits the wallet under the same token', async () => {
+    const result = await addFromBank('key-token');
+
+    assert.equal(result.newBalance, 25);
+    assert.deepEqual(debits, [[25, 'key-token']]);
+    assert.deepEqual(credits, [[25, 'key-token']]);
+    assert.equal(pulls.get('key-token').status, 'credited');
+  });
+
+  test('a retry after a failed credit redoes the credit without debiting again', async () => {
+    marqetaService.fundGPA.mock.mockImplementationOnce(async () => { throw new Error('Marqeta is down'); });
+
+    const failed = await addFromBank('key-token');
+    assert.equal(failed.status, 502);
+    assert.match(failed.error, /debited/);
+    assert.equal(pulls.get('key-token').status, 'pulled');
+
+    const retried = await addFromBank('key-token');
+    assert.ok(!retried.error);
+    assert.equal(debits.length, 1);
+    assert.equal(pulls.get('key-token').status, 'credited');
+  });
+
+  test('a failed debit can be retried with the same key', async () => {
+    bankRail.pullTransfer.mock.mockImplementationOnce(async () => { throw new Error('The bank declined the debit'); });
+
+    assert.equal((await addFromBank('key-token')).status, 502);
+    assert.equal(pulls.get('key-token').status, 'failed');
+    assert.equal(credits.length, 0);
+
+    assert.ok(!(await addFromBank('key-token')).error);
+    assert.equal(pulls.get('key-token').status, 'credited');
+  });
+
+  test('the same key for a different amount is refused', async () => {
+    await addFromBank('key-token', 25);
+    const result = await addFromBank('key-token', 30);
+
+    assert.equal(result.status, 422);
+    assert.equal(debits.length, 1);
+  });
+
+  test('without a key a failed credit sends the debit back', async () => {
+    marqetaService.fundGPA.mock.mockImplementation(async () => { throw new Error('Marqeta is down'); });
+    const result = await addFromBank(null);
+
+    assert.equal(result.status, 502);
+    assert.match(result.error, /being returned/);
+    assert.equal(bankRail.sendTransfer.mock.calls[0].arguments[1].amount, 25);
+    assert.deepEqual([...pulls.values()].map(p => p.status), ['reversed']);
+  });
+});
@@ -0,0 +1,60 @@
+// Shared setup for route tests - import it before anything from the app
+//
+// The app's modules create their Supabase clients on import, so the environment has to be set
+// first. Auth is faked: signIn(user, claims) returns an unsigned JWT carrying claims, which
+// validateToken resolves to user. Everything else a route touches (storageService,
+// marqetaService, ...) is stubbed per test with t.mock.method.
+import { once } from 'node:events';
+import { mock } from 'node:test';
+import express from 'express';
+
+process.env.SUPABASE_URL ??= 'http://supabase.test';
+process.env.SUPABASE_ANON_KEY ??= 'test-anon-key';
+
+const { supabase } = await import('../middleware/auth.js');
+
+const signedIn = new Map();
+
+mock.method(supabase.auth, 'getUser', async (token) => {
+  const user = signedIn.get(token);
+  return user
+    ? { data: { user }, error: null }
+    : { data: { user: null }, error: { message: 'Invalid or expired token' } };
+});
+
+const base64url = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// A bearer token for user ({ id, email, ... } as Supabase returns it). claims are added to the
+// token's payload, e.g. { amr: [{ method: 'password', timestamp }] }.
+export function signIn(user, claims = {}) {
+  const token = [base64url({ alg: 'none' }), base64url({ sub: user.id, ...claims }), 'test'].join('.');
+  signedIn.set(token, user);
+  return token;
+}
+
+// Mounts router on a throwaway app and sends it one request
+// Returns { status, headers, body } with body parsed as JSON
+export async function call(router, { method = 'GET', path, token, body, headers = {} }) {
+  const app = express();
+  app.use(express.json());
+  app.use(router);
+
+  const server = app.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+
+  try {
+    const res = await fetch(`http://127.0.0.1:${server.address().port}${path}`, {
+      method,
+      headers: {
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        ...headers
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    return { status: res.status, headers: res.headers, body: await res.json() };
+  } finally {
+    server.close();
+    server.closeAllConnections();
+  }
+}
@@ -0,0 +1,152 @@
+import { call } from './helpers.js';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { idempotent } from '../middleware/idempotency.js';
+import storageService from '../services/storageService.js';
+
+// idempotency_keys, keyed by `${userId}:${key}`
+let keys;
+let charges;
+
+// A money-moving route: every call that gets through charges once. X-Test-User stands in for
+// validateToken; an amount over 100 is refused.
+function chargeApp() {
+  const app = express();
+  app.use(express.json());
+  app.post('/charge', (req, res, next) => {
+    req.userId = req.get('X-Test-User') || 'sam';
+    next();
+  }, idempotent, (req, res) => {
+    if (req.body.amount > 100) {
+      return res.status(400).json({ success: false, error: 'Too much' });
+    }
+    charges.push({ amount: req.body.amount, token: req.idempotencyToken });
+    res.json({ success: true, data: { chargeId: `ch-${charges.length}` } });
+  });
+  return app;
+}
+
+const charge = (app, { key, amount = 10, user = 'sam' } = {}) => call(app, {
+  method: 'POST',
+  path: '/charge',
+  body: { amount },
+  headers: { 'X-Test-User': user, ...(key && { 'Idempotency-Key': key }) }
+});
+
+describe('idempotent', () => {
+  beforeEach((t) => {
+    keys = new Map();
+    charges = [];
+
+    t.mock.method(storageService, 'claimIdempotencyKey', async (userId, key, fingerprint) => {
+      const id = `${userId}:${key}`;
+      if (keys.has(id)) return { claimed: false, record: keys.get(id) };
+      keys.set(id, { fingerprint, status: 'processing', createdAt: new Date().toISOString() });
+      return { claimed: true, record: null };
+    });
+    t.mock.method(storageService, 'completeIdempotencyKey', async (userId, key, responseStatus, responseBody) => {
+      Object.assign(keys.get(`${userId}:${key}`), { status: 'completed', responseStatus, responseBody });
+    });
+    t.mock.method(storageService, 'releaseIdempotencyKey', async (userId, key) => {
+      keys.delete(`${userId}:${key}`);
+    });
+  });
+
+  test('a repeated key replays the first response without running the route again', async () => {
+    const app = chargeApp();
+    const first = await charge(app, { key: 'key-1' });
+    const second = await charge(app, { key: 'key-1' });
+
+    assert.equal(charges.length, 1);
+    assert.deepEqual(second.body, first.body);
+    assert.equal(second.headers.get('idempotent-replayed'), 'true');
+    assert.equal(first.headers.get('idempotent-replayed'), null);
+  });
+
+  test('without a key every request runs', async () => {
+    const app = chargeApp();
+    await charge(app);
+    await charge(app);
+
+    assert.equal(charges.length, 2);
+    assert.equal(charges[0].token, undefined);
+  });
+
+  test('the same key with a different body is a 422', async () => {
+    const app = chargeApp();
+    await charge(app, { key: 'key-1', amount: 10 });
+    const res = await charge(app, { key: 'key-1', amount: 20 });
+
+    assert.equal(res.status, 422);
+    assert.equal(charges.length, 1);
+  });
+
+  test('a key still being processed is a 409', async () => {
+    keys.set('sam:key-1', { fingerprint: null, status: 'processing', createdAt: new Date().toISOString() });
+    storageService.claimIdempotencyKey.mock.mockImplementation(async (userId, key, fingerprint) => {
+      const record = keys.get(`${userId}:${key}`);
+      record.fingerprint = fingerprint;
+      return { claimed: false, record };
+    });
+    const res = await charge(chargeApp(), { key: 'key-1' });
+
+    assert.equal(res.status, 409);
+    assert.equal(charges.length, 0);
+  });
+
+  test('keys are scoped to the user', async () => {
+    const app = chargeApp();
+    await charge(app, { key: 'key-1', user: 'sam' });
+    await charge(app, { key: 'key-1', user: 'alex' });
+
+    assert.equal(charges.length, 2);
+    assert.notEqual(charges[0].token, charges[1].token);
+  });
+
+  test('an error releases the key so the client can retry with it', async () => {
+    const app = chargeApp();
+    const refused = await charge(app, { key: 'key-1', amount: 500 });
+    assert.equal(refused.status, 400);
+    assert.equal(keys.size, 0);
+
+    const retried = await charge(app, { key: 'key-1', amount: 500 });
+    assert.equal(retried.status, 400);
+    assert.equal(retried.headers.get('idempotent-replayed'), null);
+  });
+
+  test('a key older than a day starts a fresh request', async () => {
+    const app = chargeApp();
+    await charge(app, { key: 'key-1' });
+    keys.get('sam:key-1').createdAt = new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString();
+
+    const res = await charge(app, { key: 'key-1' });
+
+    assert.equal(charges.length, 2);
+    assert.equal(res.headers.get('idempotent-replayed'), null);
+  });
+
+  test('passes routes a 36-character token derived from the user and key', async () => {
+    const app = chargeApp();
+    await charge(app, { key: 'key-1' });
+    await charge(app, { key: 'key-2' });
+
+    assert.equal(charges[0].token.length, 36);
+    assert.notEqual(charges[0].token, charges[1].token);
+  });
+
+  test('rejects keys over 255 characters', async () => {
+    const res = await charge(chargeApp(), { key: 'k'.repeat(256) });
+
+    assert.equal(res.status, 400);
+    assert.equal(storageService.claimIdempotencyKey.mock.callCount(), 0);
+  });
+
+  test('a storage failure is a 500, not a charge', async () => {
+    storageService.claimIdempotencyKey.mock.mockImplementation(async () => { throw new Error('Database unavailable'); });
+    const res = await charge(chargeApp(), { key: 'key-1' });
+
+    assert.equal(res.status, 500);
+    assert.equal(charges.length, 0);
+  });
+});
@@ -0,0 +1,218 @@
+import './helpers.js';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import jitFundingService, { JIT_METHODS } from '../services/jitFundingService.js';
+import { FUNDING_STATUS } from '../services/fundingService.js';
+import storageService from '../services/storageService.js';
+
+const { JIT_AVAILABLE, JIT_CONSUMED } = FUNDING_STATUS;
+
+// Sam's payment requests, by id
+let rows;
+let events;
+
+const request = (id, amount, overrides = {}) => ({
+  id,
+  senderId: 'sam',
+  amount,
+  status: 'approved',
+  fundingStatus: JIT_AVAILABLE,
+  createdAt: '2026-01-01T00:00:00Z',
+  ...overrides
+});
+
+let authCount = 0;
+
+const authorize = (amount, { cardToken = 'card-sam' } = {}) => jitFundingService.handle({
+  card_token: cardToken,
+  card_acceptor: { name: 'Corner Shop', mcc: '5411' },
+  gpa_order: { jit_funding: { token: `jit-${++authCount}`, user_token: 'mq-sam', method: JIT_METHODS.AUTHORIZATION, amount } }
+});
+
+describe('findMatches', () => {
+  beforeEach(() => {
+    jitFundingService.windowPercent = 10;
+  });
+
+  test('matches amounts within the window either side of the approved amount', () => {
+    const requests = [request('r50', 50)];
+
+    assert.equal(jitFundingService.findMatches(requests, 45).length, 1);
+    assert.equal(jitFundingService.findMatches(requests, 55).length, 1);
+    assert.equal(jitFundingService.findMatches(requests, 44.99).length, 0);
+    assert.equal(jitFundingService.findMatches(requests, 55.01).length, 0);
+  });
+
+  test('uses the approved amount of a partial approval or counter-offer', () => {
+    const requests = [request('r50', 50, { approvedAmount: 20 })];
+
+    assert.equal(jitFundingService.findMatches(requests, 21).length, 1);
+    assert.equal(jitFundingService.findMatches(requests, 50).length, 0);
+  });
+
+  test('closest amount first, then the oldest request', () => {
+    const requests = [
+      request('newer', 50, { createdAt: '2026-02-01T00:00:00Z' }),
+      request('close', 52),
+      request('older', 50)
+    ];
+
+    assert.deepEqual(jitFundingService.findMatches(requests, 51.5).map(r => r.id), ['close', 'older', 'newer']);
+    assert.deepEqual(jitFundingService.findMatches(requests, 50).map(r => r.id), ['older', 'newer', 'close']);
+  });
+
+  test('only approved requests that haven\'t been spent', () => {
+    const requests = [
+      request('pending', 50, { status: 'pending' }),
+      request('spent', 50, { fundingStatus: JIT_CONSUMED }),
+      request('gpa', 50, { fundingStatus: FUNDING_STATUS.FUNDED })
+    ];
+
+    assert.deepEqual(jitFundingService.findMatches(requests, 50), []);
+  });
+
+  test('the window is configurable', () => {
+    jitFundingService.windowPercent = 0;
+
+    assert.equal(jitFundingService.findMatches([request('r50', 50)], 50).length, 1);
+    assert.equal(jitFundingService.findMatches([request('r50', 50)], 50.01).length, 0);
+  });
+});
+
+describe('handle', () => {
+  beforeEach((t) => {
+    jitFundingService.windowPercent = 10;
+    rows = new Map([request('groceries', 50), request('books', 20)].map(r => [r.id, r]));
+    events = [];
+
+    t.mock.method(storageService, 'getPaymentRequestByJitFundingToken', async (token) =>
+      [...rows.values()].find(r => r.jitFundingToken === token) || null);
+    t.mock.method(storageService, 'getUserByMarqetaToken', async (token) => (token === 'mq-sam' ? 'sam' : null));
+    t.mock.method(storageService, 'getPaymentRequestsBySender', async () => [...rows.values()].map(r => ({ ...r })));
+    t.mock.method(storageService, 'getUserCard', async (token) =>
+      (token === 'card-books' ? { token, requestId: 'books', amountLimit: 20 } : { token }));
+    t.mock.method(storageService, 'consumeJitPaymentRequest', async (id, { jitFundingToken }) => {
+      const row = rows.get(id);
+      if (row.fundingStatus !== JIT_AVAILABLE) return null;
+      Object.assign(row, { fundingStatus: JIT_CONSUMED, jitFundingToken });
+      return { ...row };
+    });
+    t.mock.method(storageService, 'releaseJitPaymentRequest', async (token) => {
+      const row = [...rows.values()].find(r => r.jitFundingToken === token);
+      if (!row) return null;
+      Object.assign(row, { fundingStatus: JIT_AVAILABLE, jitFundingToken: null });
+      return { ...row };
+    });
+    t.mock.method(storageService, 'recordPaymentRequestEvent', async (event) => { events.push(event); });
+  });
+
+  test('declines a request\'s funds at a merchant outside its category', async () => {
+    rows.get('groceries').category = 'Travel';
+    const result = await authorize(50);
+
+    assert.equal(result.approved, false);
+    assert.equal(rows.get('groceries').fundingStatus, JIT_AVAILABLE);
+  });
+
+  test('approves an authorization that matches a request and consumes it', async () => {
+    const result = await authorize(52.5);
+
+    assert.equal(result.approved, true);
+    assert.equal(rows.get('groceries').fundingStatus, JIT_CONSUMED);
+    assert.deepEqual(events.map(e => [e.requestId, e.type, e.data.merchant]), [['groceries', 'funded', 'Corner Shop']]);
+  });
+
+  test('declines an amount outside every request\'s window', async () => {
+    const result = await authorize(35);
+
+    assert.equal(result.approved, false);
+    assert.equal(result.jitFunding.decline_reason, 'INSUFFICIENT_FUNDS');
+    assert.equal(events.length, 0);
+  });
+
+  test('an approval can only be spent once', async () => {
+    assert.equal((await authorize(50)).approved, true);
+    assert.equal((await authorize(50)).approved, false);
+  });
+
+  test('two authorizations at once can\'t both spend one approval', async () => {
+    const results = await Promise.all([authorize(50), authorize(50)]);
+
+    assert.deepEqual(results.map(r => r.approved).sort(), [false, true]);
+  });
+
+  test('a resent authorization is approved again without spending another request', async () => {
+    rows.set('groceries2', request('groceries2', 50));
+    const event = {
+      card_token: 'card-sam',
+      gpa_order: { jit_funding: { token: 'jit-resent', user_token: 'mq-sam', method: JIT_METHODS.AUTHORIZATION, amount: 50 } }
+    };
+
+    await jitFundingService.handle(event);
+    const resent = await jitFundingService.handle(event);
+
+    assert.equal(resent.approved, true);
+    assert.equal(storageService.consumeJitPaymentRequest.mock.callCount(), 1);
+    assert.equal(rows.get('groceries2').fundingStatus, JIT_AVAILABLE);
+  });
+
+  test('a reversal puts the request back', async () => {
+    const { jitFunding } = await authorize(50);
+
+    const result = await jitFundingService.handle({
+      gpa_order: { jit_funding: { token: 'rev-1', user_token: 'mq-sam', method: JIT_METHODS.REVERSAL, amount: 50, original_jit_funding_token: jitFunding.token } }
+    });
+
+    assert.equal(result.approved, true);
+    assert.equal(rows.get('groceries').fundingStatus, JIT_AVAILABLE);
+    assert.equal(events.at(-1).type, 'funding_reversed');
+  });
+
+  test('incremental authorizations are declined', async () => {
+    await authorize(50);
+    const result = await jitFundingService.handle({
+      gpa_order: { jit_funding: { token: 'inc-1', user_token: 'mq-sam', method: JIT_METHODS.INCREMENTAL, amount: 5 } }
+    });
+
+    assert.equal(result.approved, false);
+  });
+
+  test('a request card only spends its own request, up to its limit', async () => {
+    assert.equal((await authorize(50, { cardToken: 'card-books' })).approved, false);
+    assert.equal((await authorize(21, { cardToken: 'card-books' })).approved, false);
+    assert.equal((await authorize(19, { cardToken: 'card-books' })).approved, true);
+    assert.equal(rows.get('books').fundingStatus, JIT_CONSUMED);
+    assert.equal(rows.get('groceries').fundingStatus, JIT_AVAILABLE);
+  });
+
+  test('declines an unknown cardholder or a zero amount', async () => {
+    const unknown = await jitFundingService.handle({
+      gpa_order: { jit_funding: { token: 'jit-x', user_token: 'mq-olive', method: JIT_METHODS.AUTHORIZATION, amount: 50 } }
+    });
+
+    assert.equal(unknown.approved, false);
+    assert.equal((await authorize(0)).approved, false);
+  });
+});
+
+describe('category allow-list', () => {
+  beforeEach(() => {
+    jitFundingService.windowPercent = 10;
+  });
+
+  test('a restricted request only matches merchants in its category', () => {
+    const requests = [request('flight', 300, { category: 'Travel' })];
+
+    // 4511 is an airline, 5812 a restaurant
+    assert.equal(jitFundingService.findMatches(requests, 300, '4511').length, 1);
+    assert.equal(jitFundingService.findMatches(requests, 300, '5812').length, 0);
+    assert.equal(jitFundingService.findMatches(requests, 300, null).length, 0);
+  });
+
+  test('Other matches any merchant', () => {
+    const requests = [request('misc', 30, { category: 'Other' })];
+
+    assert.equal(jitFundingService.findMatches(requests, 30, '5812').length, 1);
+    assert.equal(jitFundingService.findMatches(requests, 30, null).length, 1);
+  });
+});
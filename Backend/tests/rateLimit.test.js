@@ -0,0 +1,147 @@
+import { call } from './helpers.js';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import {
+  rateLimit,
+  trustProxySetting,
+  moneyLimiter,
+  notifyLimiter,
+  revealLimiter,
+  cardLimiter,
+  bankLimiter,
+  simulateLimiter
+} from '../middleware/rateLimit.js';
+import marqetaRoutes from '../routes/marqeta.js';
+import userRoutes from '../routes/users.js';
+import recurringRoutes from '../routes/recurringRequests.js';
+
+let limiterCount = 0;
+
+// An app with one limited route allowing `limit` requests a minute. X-Test-User stands in for
+// validateToken.
+function limitedApp({ limit = 2, trustProxy = false } = {}) {
+  const app = express();
+  app.set('trust proxy', trustProxy);
+  app.get('/', (req, res, next) => {
+    req.userId = req.get('X-Test-User') || null;
+    next();
+  }, rateLimit({ name: `test${++limiterCount}`, limit, windowMs: 60 * 1000 }), (req, res) => res.json({ ip: req.ip }));
+  return app;
+}
+
+const hit = (app, headers = {}) => call(app, { path: '/', headers });
+
+describe('rateLimit', () => {
+  test('sets the RateLimit headers and returns 429 with Retry-After once over budget', async () => {
+    const app = limitedApp();
+
+    const first = await hit(app);
+    assert.equal(first.status, 200);
+    assert.equal(first.headers.get('ratelimit-limit'), '2');
+    assert.equal(first.headers.get('ratelimit-remaining'), '1');
+    assert.equal(first.headers.get('ratelimit-policy'), '2;w=60');
+
+    await hit(app);
+    const third = await hit(app);
+    assert.equal(third.status, 429);
+    assert.ok(Number(third.headers.get('retry-after')) > 0);
+    assert.equal(third.body.success, false);
+  });
+
+  test('a client can\'t get a fresh budget by sending its own X-Forwarded-For', async () => {
+    const app = limitedApp();
+
+    await hit(app, { 'X-Forwarded-For': '203.0.113.1' });
+    await hit(app, { 'X-Forwarded-For': '203.0.113.2' });
+    const res = await hit(app, { 'X-Forwarded-For': '203.0.113.3' });
+
+    assert.equal(res.status, 429);
+  });
+
+  test('behind a trusted proxy each forwarded client has its own budget', async () => {
+    const app = limitedApp({ limit: 1, trustProxy: 1 });
+
+    const first = await hit(app, { 'X-Forwarded-For': '203.0.113.1' });
+    const second = await hit(app, { 'X-Forwarded-For': '203.0.113.2' });
+
+    assert.equal(first.body.ip, '203.0.113.1');
+    assert.equal(second.status, 200);
+    assert.equal((await hit(app, { 'X-Forwarded-For': '203.0.113.1' })).status, 429);
+  });
+
+  test('only the hop the trusted proxy added counts, not what the client prepended', async () => {
+    const app = limitedApp({ trustProxy: 1 });
+
+    // The proxy appends the address it saw; anything before that came from the client
+    const res = await hit(app, { 'X-Forwarded-For': '10.0.0.1, 203.0.113.9' });
+    assert.equal(res.body.ip, '203.0.113.9');
+  });
+
+  test('signed-in callers are counted by user, not IP', async () => {
+    const app = limitedApp({ limit: 1 });
+
+    assert.equal((await hit(app, { 'X-Test-User': 'alex' })).status, 200);
+    assert.equal((await hit(app, { 'X-Test-User': 'sam' })).status, 200);
+    assert.equal((await hit(app, { 'X-Test-User': 'alex' })).status, 429);
+  });
+});
+
+describe('trustProxySetting', () => {
+  const withEnv = (value, fn) => {
+    const previous = process.env.TRUST_PROXY;
+    process.env.TRUST_PROXY = value;
+    try {
+      return fn();
+    } finally {
+      if (previous === undefined) delete process.env.TRUST_PROXY;
+      else process.env.TRUST_PROXY = previous;
+    }
+  };
+
+  test('falls back when TRUST_PROXY is unset', () => {
+    withEnv('', () => assert.equal(trustProxySetting(1), 1));
+  });
+
+  test('reads hop counts, booleans and addresses', () => {
+    withEnv('2', () => assert.equal(trustProxySetting(false), 2));
+    withEnv('false', () => assert.equal(trustProxySetting(1), false));
+    withEnv('loopback, 10.0.0.0/8', () => assert.equal(trustProxySetting(1), 'loopback, 10.0.0.0/8'));
+  });
+});
+
+describe('limited routes', () => {
+  // Which limiters a route runs, by router, method and path
+  const limitersOn = (router, method, path) => {
+    const layer = router.stack.find(l => l.route?.path === path && l.route.methods[method.toLowerCase()]);
+    assert.ok(layer, `${method} ${path} exists`);
+    return layer.route.stack.map(l => l.handle);
+  };
+
+  const expected = [
+    [userRoutes, 'POST', '/wallet/add', moneyLimiter],
+    [userRoutes, 'POST', '/wallet/withdraw', moneyLimiter],
+    [userRoutes, 'POST', '/cards/:token/reveal-token', revealLimiter],
+    [userRoutes, 'POST', '/cards/reveal', revealLimiter],
+    [userRoutes, 'POST', '/card', cardLimiter],
+    [userRoutes, 'POST', '/cards', cardLimiter],
+    [userRoutes, 'POST', '/card/replace', cardLimiter],
+    [userRoutes, 'POST', '/card/:action', cardLimiter],
+    [userRoutes, 'POST', '/bank-accounts', bankLimiter],
+    [userRoutes, 'POST', '/bank-accounts/:id/verify', bankLimiter],
+    [marqetaRoutes, 'POST', '/payment-requests/:id/approve', moneyLimiter],
+    [marqetaRoutes, 'POST', '/payment-requests/:id/counter-offer/:decision', moneyLimiter],
+    [marqetaRoutes, 'POST', '/payment-requests/:id/reject', notifyLimiter],
+    [marqetaRoutes, 'POST', '/payment-requests/:id/cancel', notifyLimiter],
+    [marqetaRoutes, 'GET', '/simulate', simulateLimiter],
+    [marqetaRoutes, 'POST', '/simulate/:scenario', simulateLimiter],
+    [recurringRoutes, 'POST', '/', notifyLimiter],
+    [recurringRoutes, 'PATCH', '/:id', notifyLimiter]
+  ];
+
+  for (const [router, method, path, limiter] of expected) {
+    test(`${method} ${path} has its stricter budget`, () => {
+      assert.ok(limitersOn(router, method, path).includes(limiter));
+    });
+  }
+});
@@ -0,0 +1,94 @@
+import { signIn, call } from './helpers.js';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import recurringRoutes from '../routes/recurringRequests.js';
+import recurringRequestService from '../services/recurringRequestService.js';
+import storageService from '../services/storageService.js';
+
+const sam = { id: 'sam', email: 'sam@example.com', user_metadata: { name: 'Sam' }, app_metadata: {} };
+
+// Sam's weekly $10 allowance, already pre-approved by Alex
+let recurring;
+
+const preApproved = () => ({
+  id: 'rec-1',
+  senderId: 'sam',
+  senderName: 'Sam',
+  amount: 10,
+  description: 'Allowance',
+  category: 'Other',
+  approvers: [{ userId: 'alex', name: 'Alex', email: 'alex@example.com' }],
+  approvalPolicy: { type: 'all' },
+  schedule: { frequency: 'weekly', dayOfWeek: 1, hour: 9 },
+  preApproval: { status: 'approved', approvers: [{ userId: 'alex', name: 'Alex', email: 'alex@example.com', status: 'approved' }] },
+  active: true
+});
+
+const edit = (body) => call(recurringRoutes, { method: 'PATCH', path: '/rec-1', token: signIn(sam), body });
+
+describe('validateSchedule', () => {
+  const cron = (expression) => recurringRequestService.validateSchedule({ frequency: 'cron', expression });
+
+  test('accepts cron schedules that run at most once a day', () => {
+    assert.equal(cron('0 9 * * *'), null);
+    assert.equal(cron('30 7 1,15 * *'), null);
+    assert.equal(cron('0 9 * * 1-5'), null);
+  });
+
+  test('refuses cron schedules that run more than once a day', () => {
+    assert.match(cron('* * * * *'), /at most once a day/);
+    assert.match(cron('*/15 9 * * *'), /at most once a day/);
+    assert.match(cron('0 9,17 * * *'), /at most once a day/);
+  });
+
+  test('still reports a malformed expression as invalid', () => {
+    assert.match(cron('0 25 * * *'), /is invalid/);
+  });
+});
+
+describe('PATCH /recurring-requests/:id', () => {
+  beforeEach((t) => {
+    recurring = preApproved();
+
+    t.mock.method(storageService, 'getRecurringRequest', async (id) => (id === recurring.id ? structuredClone(recurring) : null));
+    t.mock.method(storageService, 'updateRecurringRequest', async (id, updates) => {
+      recurring = { ...recurring, ...structuredClone(updates) };
+      return structuredClone(recurring);
+    });
+    t.mock.method(storageService, 'createNotification', async () => {});
+  });
+
+  test('changing the schedule sends the template back for pre-approval', async () => {
+    const res = await edit({ schedule: { frequency: 'cron', expression: '0 9 * * *' } });
+
+    assert.equal(res.status, 200);
+    assert.equal(recurring.preApproval.status, 'pending');
+    assert.equal(storageService.createNotification.mock.callCount(), 1);
+  });
+
+  test('changing the category sends the template back for pre-approval', async () => {
+    await edit({ category: 'Entertainment' });
+    assert.equal(recurring.preApproval.status, 'pending');
+  });
+
+  test('a description change keeps the pre-approval', async () => {
+    await edit({ description: 'Pocket money' });
+
+    assert.equal(recurring.preApproval.status, 'approved');
+    assert.equal(storageService.createNotification.mock.callCount(), 0);
+  });
+
+  test('resuming with the same schedule keeps the pre-approval', async () => {
+    recurring.active = false;
+    await edit({ active: true });
+
+    assert.equal(recurring.preApproval.status, 'approved');
+  });
+
+  test('a schedule that runs every minute is a 400', async () => {
+    const res = await edit({ schedule: { frequency: 'cron', expression: '* * * * *' } });
+
+    assert.equal(res.status, 400);
+    assert.equal(storageService.updateRecurringRequest.mock.callCount(), 0);
+  });
+});
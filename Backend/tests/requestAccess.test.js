@@ -0,0 +1,165 @@
+import { signIn, call } from './helpers.js';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import marqetaRoutes from '../routes/marqeta.js';
+import userRoutes from '../routes/users.js';
+import storageService from '../services/storageService.js';
+import marqetaService from '../services/marqetaService.js';
+import cardService from '../services/cardService.js';
+import { READ_LIMITS } from '../services/requestAccessService.js';
+
+// Sam sends a request to Alex. Val follows Sam as a viewer and Pat is Sam's approver-role partner
+// but isn't on this request. Wes follows Olive, who has a request of her own. Stu knows no one.
+const user = (id) => ({ id, email: `${id}@example.com`, user_metadata: {}, app_metadata: {} });
+const sam = user('sam');
+const alex = user('alex');
+const val = user('val');
+const pat = user('pat');
+const wes = user('wes');
+const olive = user('olive');
+const stu = user('stu');
+
+const samsRequest = {
+  id: 'req-sam',
+  senderId: sam.id,
+  amount: 40,
+  description: 'Groceries',
+  status: 'pending',
+  approvers: [{ userId: alex.id, status: 'pending' }],
+  createdAt: '2026-01-02T00:00:00.000Z'
+};
+
+const olivesRequest = {
+  id: 'req-olive',
+  senderId: olive.id,
+  amount: 15,
+  description: 'Lunch',
+  status: 'pending',
+  approvers: [{ userId: stu.id, status: 'pending' }],
+  createdAt: '2026-01-01T00:00:00.000Z'
+};
+
+const requests = [samsRequest, olivesRequest];
+
+const partners = {
+  [sam.id]: [
+    { userId: val.id, role: 'viewer' },
+    { userId: pat.id, role: 'approver' },
+    { userId: alex.id, role: 'approver' }
+  ],
+  [olive.id]: [{ userId: wes.id, role: 'viewer' }]
+};
+
+beforeEach((t) => {
+  t.mock.method(storageService, 'getPaymentRequest', async (id) => requests.find(r => r.id === id) || null);
+  t.mock.method(storageService, 'getPaymentRequestsBySender', async (id) => requests.filter(r => r.senderId === id));
+  t.mock.method(storageService, 'getPaymentRequestsByReceiver', async (id) =>
+    requests.filter(r => r.approvers.some(a => a.userId === id)));
+  t.mock.method(storageService, 'getAccountabilityPartners', async (id) => partners[id] || []);
+  t.mock.method(storageService, 'getUsersWithPartner', async (partnerId, role) =>
+    Object.keys(partners).filter(id => partners[id].some(p => p.userId === partnerId && p.role === role)));
+  t.mock.method(storageService, 'hasPaymentRequestEvent', async () => true);
+
+  // Boot also loads the wallet and card
+  t.mock.method(storageService, 'getUserMarqetaToken', async (id) => `mq-${id}`);
+  t.mock.method(marqetaService, 'getGPABalance', async () => ({ gpa: { available_balance: 0 } }));
+  t.mock.method(marqetaService, 'getTransactions', async () => ({ data: [] }));
+  t.mock.method(cardService, 'listCards', async () => []);
+});
+
+const ids = (list) => list.map(r => r.id);
+
+const listRequests = async (who, filter) => {
+  const res = await call(marqetaRoutes, { path: `/payment-requests${filter ? `?filter=${filter}` : ''}`, token: signIn(who) });
+  assert.equal(res.status, 200);
+  return ids(res.body.data);
+};
+
+const boot = async (who) => {
+  const res = await call(userRoutes, { path: '/boot', token: signIn(who) });
+  assert.equal(res.status, 200);
+  const { myRequests, requestsToApprove, requestsWatching } = res.body.data;
+  return { mine: ids(myRequests), toApprove: ids(requestsToApprove), watching: ids(requestsWatching) };
+};
+
+describe('GET /payment-requests/:id', () => {
+  const getRequest = (who) => call(marqetaRoutes, { path: `/payment-requests/${samsRequest.id}`, token: signIn(who) });
+
+  test('the sender, a listed approver and a viewer partner can read it', async () => {
+    for (const who of [sam, alex, val]) {
+      const res = await getRequest(who);
+      assert.equal(res.status, 200, who.id);
+      assert.equal(res.body.data.id, samsRequest.id);
+    }
+  });
+
+  test('a stranger, an approver-role partner not on it and another sender\'s viewer get 404', async () => {
+    for (const who of [stu, pat, wes]) {
+      const res = await getRequest(who);
+      assert.equal(res.status, 404, who.id);
+      assert.equal(res.body.data, undefined);
+    }
+  });
+
+  test('requires a token', async () => {
+    const res = await call(marqetaRoutes, { path: `/payment-requests/${samsRequest.id}` });
+    assert.equal(res.status, 401);
+  });
+});
+
+describe('GET /payment-requests', () => {
+  test('each filter only returns what the user is on', async () => {
+    assert.deepEqual(await listRequests(sam, 'mine'), [samsRequest.id]);
+    assert.deepEqual(await listRequests(alex, 'to-approve'), [samsRequest.id]);
+    assert.deepEqual(await listRequests(val, 'watching'), [samsRequest.id]);
+    assert.deepEqual(await listRequests(wes, 'watching'), [olivesRequest.id]);
+  });
+
+  test('the unfiltered list is the union, newest first', async () => {
+    assert.deepEqual(await listRequests(sam), [samsRequest.id]);
+    assert.deepEqual(await listRequests(stu), [olivesRequest.id]);
+  });
+
+  test('people who aren\'t on Sam\'s request never see it', async () => {
+    for (const who of [stu, pat, wes]) {
+      for (const filter of ['mine', 'to-approve', 'watching', undefined]) {
+        assert.ok(!(await listRequests(who, filter)).includes(samsRequest.id), `${who.id} ${filter}`);
+      }
+    }
+  });
+
+  test('an approver-role partner doesn\'t watch the sender\'s requests', async () => {
+    assert.deepEqual(await listRequests(pat), []);
+  });
+
+  test('a request in more than one list is only returned once', async () => {
+    requests.push({ ...olivesRequest, id: 'req-self', approvers: [{ userId: olive.id, status: 'pending' }] });
+    try {
+      assert.deepEqual((await listRequests(olive)).sort(), [olivesRequest.id, 'req-self']);
+    } finally {
+      requests.pop();
+    }
+  });
+
+  test('each list asks storage for its newest requests only', async () => {
+    await listRequests(val);
+
+    assert.deepEqual(storageService.getPaymentRequestsBySender.mock.calls.map(c => c.arguments),
+      [[val.id, { limit: READ_LIMITS.mine }], [sam.id, { limit: READ_LIMITS.watching }]]);
+    assert.deepEqual(storageService.getPaymentRequestsByReceiver.mock.calls[0].arguments, [val.id, { limit: READ_LIMITS.toApprove }]);
+  });
+});
+
+describe('GET /users/boot', () => {
+  test('returns the same mine, to-approve and watching lists', async () => {
+    assert.deepEqual(await boot(sam), { mine: [samsRequest.id], toApprove: [], watching: [] });
+    assert.deepEqual(await boot(alex), { mine: [], toApprove: [samsRequest.id], watching: [] });
+    assert.deepEqual(await boot(val), { mine: [], toApprove: [], watching: [samsRequest.id] });
+  });
+
+  test('a stranger, an approver-role partner and another sender\'s viewer don\'t get Sam\'s request', async () => {
+    assert.deepEqual(await boot(stu), { mine: [], toApprove: [olivesRequest.id], watching: [] });
+    assert.deepEqual(await boot(pat), { mine: [], toApprove: [], watching: [] });
+    assert.deepEqual(await boot(wes), { mine: [], toApprove: [], watching: [olivesRequest.id] });
+  });
+});
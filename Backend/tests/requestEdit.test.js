@@ -0,0 +1,83 @@
+import { signIn, call } from './helpers.js';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import marqetaRoutes from '../routes/marqeta.js';
+import storageService from '../services/storageService.js';
+import requestSweepService from '../services/requestSweepService.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const sam = { id: 'sam', email: 'sam@example.com', user_metadata: { name: 'Sam' }, app_metadata: {} };
+
+// Sam asked Alex and Val for $50 three days ago; nobody answered, so it went to Sam's backup, Bo
+let request;
+let events;
+
+const escalatedRequest = () => ({
+  id: 'req-1',
+  senderId: 'sam',
+  senderName: 'Sam',
+  description: 'Groceries',
+  amount: 50,
+  status: 'pending',
+  approvalPolicy: { type: 'required_approver', approverId: 'bo', base: { type: 'any' } },
+  approvers: [
+    { userId: 'alex', name: 'Alex', status: 'pending' },
+    { userId: 'val', name: 'Val', status: 'pending' },
+    { userId: 'bo', name: 'Bo', status: 'pending' }
+  ],
+  createdAt: new Date(Date.now() - 73 * HOUR_MS).toISOString(),
+  remindedAt: new Date(Date.now() - 49 * HOUR_MS).toISOString(),
+  escalatedAt: new Date(Date.now() - HOUR_MS).toISOString(),
+  preEscalation: { approvalPolicy: { type: 'all' }, addedApproverId: 'bo' }
+});
+
+const edit = (body) => call(marqetaRoutes, { method: 'PATCH', path: `/payment-requests/${request.id}`, token: signIn(sam), body });
+
+describe('editing an escalated request', () => {
+  beforeEach((t) => {
+    request = escalatedRequest();
+    events = [];
+    requestSweepService.reminderAfterMs = 24 * HOUR_MS;
+    requestSweepService.escalateAfterMs = 72 * HOUR_MS;
+
+    t.mock.method(storageService, 'getPaymentRequest', async (id) => (id === request.id ? structuredClone(request) : null));
+    t.mock.method(storageService, 'updatePaymentRequest', async (id, updates) => {
+      request = { ...request, ...structuredClone(updates) };
+      return structuredClone(request);
+    });
+    t.mock.method(storageService, 'getPendingPaymentRequests', async () => [structuredClone(request)]);
+    t.mock.method(storageService, 'getUserSettings', async () => ({ backupApprover: { userId: 'bo', name: 'Bo' } }));
+    t.mock.method(storageService, 'recordPaymentRequestEvent', async (event) => { events.push(event); });
+    t.mock.method(storageService, 'createNotification', async () => {});
+  });
+
+  test('restores the policy and approvers from before the escalation', async () => {
+    const res = await edit({ description: 'Groceries and cleaning supplies' });
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(request.approvalPolicy, { type: 'all' });
+    assert.deepEqual(request.approvers.map(a => a.userId), ['alex', 'val']);
+    assert.equal(request.escalatedAt, null);
+    assert.equal(request.preEscalation, null);
+  });
+
+  test('keeps a backup approver who was already on the request', async () => {
+    request.preEscalation.addedApproverId = null;
+    await edit({ description: 'Groceries and cleaning supplies' });
+
+    assert.deepEqual(request.approvers.map(a => a.userId), ['alex', 'val', 'bo']);
+    assert.deepEqual(request.approvalPolicy, { type: 'all' });
+  });
+
+  test('restarts the reminder clock instead of reminding right away', async () => {
+    await edit({ description: 'Groceries and cleaning supplies' });
+
+    const justAfter = await requestSweepService.runSweep(new Date());
+    assert.equal(justAfter.reminded, 0);
+    assert.equal(justAfter.escalated, 0);
+
+    const nextDay = await requestSweepService.runSweep(new Date(Date.now() + 25 * HOUR_MS));
+    assert.equal(nextDay.reminded, 1);
+  });
+});
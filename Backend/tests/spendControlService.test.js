@@ -0,0 +1,83 @@
+import './helpers.js';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import spendControlService, { CATEGORY_MCC_GROUPS, categoryAllowsMcc } from '../services/spendControlService.js';
+import { FUNDING_STATUS } from '../services/fundingService.js';
+import storageService from '../services/storageService.js';
+import marqetaService from '../services/marqetaService.js';
+
+const { JIT_AVAILABLE, JIT_CONSUMED, FUNDED } = FUNDING_STATUS;
+
+const request = (id, category, amount, overrides = {}) => ({
+  id,
+  senderId: 'sam',
+  category,
+  amount,
+  status: 'approved',
+  fundingStatus: JIT_AVAILABLE,
+  ...overrides
+});
+
+describe('categoryAllowsMcc', () => {
+  test('each MCC belongs to at most one category', () => {
+    const seen = new Map();
+    for (const [category, group] of Object.entries(CATEGORY_MCC_GROUPS)) {
+      for (const mcc of group.mccs) {
+        assert.equal(seen.get(mcc), undefined, `${mcc} is in ${seen.get(mcc)} and ${category}`);
+        seen.set(mcc, category);
+      }
+    }
+  });
+
+  test('matches single codes and ranges', () => {
+    assert.equal(categoryAllowsMcc('Travel', '4511'), true);
+    assert.equal(categoryAllowsMcc('Travel', '3100'), true);
+    assert.equal(categoryAllowsMcc('Travel', '5411'), false);
+    assert.equal(categoryAllowsMcc('Equipment', '5045'), true);
+    assert.equal(categoryAllowsMcc('Software', '5045'), false);
+  });
+
+  test('restricted categories refuse an unknown merchant; Other allows anything', () => {
+    assert.equal(categoryAllowsMcc('Travel', null), false);
+    assert.equal(categoryAllowsMcc('Other', null), true);
+    assert.equal(categoryAllowsMcc(undefined, '5411'), true);
+  });
+});
+
+describe('spendControlService', () => {
+  beforeEach((t) => {
+    spendControlService.enabled = true;
+    t.mock.method(storageService, 'getUserMarqetaToken', async (id) => `mq-${id}`);
+    t.mock.method(marqetaService, 'getVelocityControl', async () => ({ active: true }));
+    t.mock.method(marqetaService, 'updateVelocityControl', async (token, updates) => ({ token, ...updates }));
+  });
+
+  test('getLimitsForUser totals JIT approvals per restricted category', async (t) => {
+    t.mock.method(storageService, 'getPaymentRequestsBySender', async () => [
+      request('flight', 'Travel', 300),
+      request('hotel', 'Travel', 120, { approvedAmount: 100, fundingStatus: JIT_CONSUMED }),
+      request('laptop', 'Equipment', 900, { status: 'pending' }),
+      request('lunch', 'Entertainment', 20, { fundingStatus: FUNDED }),
+      request('misc', 'Other', 15)
+    ]);
+
+    assert.deepEqual(await spendControlService.getLimitsForUser('sam'), [
+      { category: 'Travel', limit: 400, available: 300, spent: 100 }
+    ]);
+  });
+
+  test('syncForRequest switches off an old category velocity control', async () => {
+    const result = await spendControlService.syncForRequest(request('flight', 'Travel', 300));
+
+    assert.equal(result.active, false);
+    assert.equal(result.token, spendControlService.controlToken('mq-sam', 'Travel'));
+  });
+
+  test('syncForRequest leaves unrestricted and inactive controls alone', async () => {
+    assert.equal(await spendControlService.syncForRequest(request('misc', 'Other', 15)), null);
+
+    marqetaService.getVelocityControl.mock.mockImplementation(async () => ({ active: false }));
+    assert.equal(await spendControlService.syncForRequest(request('flight', 'Travel', 300)), null);
+    assert.equal(marqetaService.updateVelocityControl.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,111 @@
+import { signIn, call } from './helpers.js';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { object, string, money, variants, oneOf, partial, array } from '@accountabills/contract/validation.js';
+import { approvalPolicy } from '@accountabills/contract/models.js';
+import { createPaymentRequestBody } from '@accountabills/contract/bodies/marqeta.js';
+import { validateBody } from '../middleware/validate.js';
+import marqetaRoutes from '../routes/marqeta.js';
+
+const approvers = [{ userId: 'alex', name: 'Alex', email: 'alex@example.com' }];
+
+describe('schemas', () => {
+  test('collects every problem with its field', () => {
+    const { errors } = createPaymentRequestBody.parse({ amount: -5, approvers: [{ name: 'Alex' }] });
+    const fields = errors.map(e => e.field);
+
+    assert.ok(fields.includes('amount'));
+    assert.ok(fields.includes('approvers[0].userId'));
+  });
+
+  test('trims strings and drops fields the schema doesn\'t list', () => {
+    const schema = object({ name: string({ min: 1 }) });
+    assert.deepEqual(schema.parse({ name: '  Sam ', isAdmin: true }), { value: { name: 'Sam' }, errors: [] });
+  });
+
+  test('money takes JSON numbers with at most two decimals', () => {
+    assert.equal(money().parse(12.5).errors.length, 0);
+    assert.equal(money().parse('12.50').errors.length, 1);
+    assert.equal(money().parse(1.005).errors.length, 1);
+    assert.equal(money().parse(0).errors.length, 1);
+  });
+
+  test('partial makes every field optional', () => {
+    const schema = partial({ amount: money(), description: string() });
+    assert.deepEqual(schema.parse({}).errors, []);
+    assert.equal(schema.parse({ amount: 'ten' }).errors.length, 1);
+  });
+
+  test('oneOf and array report the failing element', () => {
+    const { errors } = array(oneOf(['a', 'b'])).parse(['a', 'c']);
+    assert.deepEqual(errors.map(e => e.field), ['[1]']);
+  });
+});
+
+describe('variants', () => {
+  const shape = variants('type', {
+    circle: object({ type: string(), radius: money() }),
+    square: object({ type: string(), side: money() })
+  });
+
+  test('checks the value against the schema its tag picks', () => {
+    assert.deepEqual(shape.parse({ type: 'circle', radius: 2 }).errors, []);
+    assert.deepEqual(shape.parse({ type: 'square', radius: 2 }).errors.map(e => e.field), ['side']);
+  });
+
+  test('an unknown tag is a field error', () => {
+    assert.deepEqual(shape.parse({ type: 'hexagon' }).errors, [{ field: 'type', message: 'must be one of: circle, square' }]);
+  });
+
+  test('tags that name Object.prototype members are unknown, not a crash', () => {
+    for (const type of ['toString', 'constructor', '__proto__', 'hasOwnProperty']) {
+      const { errors } = shape.parse({ type });
+      assert.deepEqual(errors.map(e => e.field), ['type'], type);
+    }
+  });
+
+  test('a missing or non-string tag is unknown', () => {
+    assert.equal(shape.parse({}).errors.length, 1);
+    assert.equal(shape.parse({ type: ['circle'] }).errors.length, 1);
+  });
+
+  test('approval policies: base policies, and required_approver with a base', () => {
+    assert.deepEqual(approvalPolicy.parse({ type: 'n_of_m', required: 2 }).errors, []);
+    assert.deepEqual(approvalPolicy.parse({ type: 'required_approver', approverId: 'alex', base: { type: 'majority' } }).errors, []);
+    assert.equal(approvalPolicy.parse({ type: 'required_approver', approverId: 'alex', base: { type: 'toString' } }).errors.length, 1);
+  });
+});
+
+describe('validateBody', () => {
+  const app = express();
+  app.use(express.json());
+  app.post('/', validateBody(object({ amount: money(), note: string().optional() })), (req, res) => res.json({ body: req.body }));
+
+  test('passes the cleaned body on', async () => {
+    const res = await call(app, { method: 'POST', path: '/', body: { amount: 10, note: ' hi ', extra: 1 } });
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.body, { amount: 10, note: 'hi' });
+  });
+
+  test('rejects a bad body with 400 and every error', async () => {
+    const res = await call(app, { method: 'POST', path: '/', body: { amount: '10', note: 5 } });
+
+    assert.equal(res.status, 400);
+    assert.equal(res.body.error, 'amount must be a number; note must be a string');
+    assert.equal(res.body.errors.length, 2);
+  });
+
+  test('a route returns 400, not 500, for a policy type like "toString"', async () => {
+    const res = await call(marqetaRoutes, {
+      method: 'POST',
+      path: '/payment-requests',
+      token: signIn({ id: 'sam', email: 'sam@example.com', user_metadata: {}, app_metadata: {} }),
+      body: { amount: 10, approvers, approvalPolicy: { type: 'toString' } }
+    });
+
+    assert.equal(res.status, 400);
+    assert.match(res.body.error, /approvalPolicy\.type must be one of/);
+  });
+});
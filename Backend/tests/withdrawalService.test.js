@@ -0,0 +1,172 @@
+import './helpers.js';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import withdrawalService from '../services/withdrawalService.js';
+import storageService from '../services/storageService.js';
+import marqetaService from '../services/marqetaService.js';
+import bankRail from '../services/bankRails.js';
+
+const account = { id: 'bank-1', userId: 'sam', status: 'verified', accountLastFour: '6789', providerAccountId: 'fake_abc' };
+
+// Everything that touched the wallet or the withdrawal row, in order
+let log;
+let balance;
+
+const fail = (message) => async () => { throw new Error(message); };
+
+describe('withdraw', () => {
+  beforeEach((t) => {
+    log = [];
+    balance = 100;
+    withdrawalService.ensuredTypes.clear();
+
+    t.mock.method(storageService, 'getBankAccount', async (id) => (id === account.id ? account : null));
+    t.mock.method(storageService, 'getUserMarqetaToken', async () => 'mq-sam');
+    t.mock.method(storageService, 'createWithdrawal', async (w) => ({ id: 'wd-1', status: 'pending', ...w }));
+    t.mock.method(storageService, 'updateWithdrawal', async (id, updates) => {
+      log.push(['update', updates.status]);
+      return { id, ...updates };
+    });
+    t.mock.method(marqetaService, 'isSandbox', () => true);
+    t.mock.method(marqetaService, 'getGPABalance', async () => ({ gpa: { available_balance: balance } }));
+    t.mock.method(marqetaService, 'getProgramTransferType', async () => ({ token: 'type' }));
+    t.mock.method(marqetaService, 'createProgramTransfer', async ({ amount, typeToken }) => {
+      log.push(['debit', typeToken, amount]);
+    });
+    t.mock.method(marqetaService, 'fundGPA', async (userToken, amount, memo, token) => {
+      log.push(['refund', amount, token]);
+    });
+    t.mock.method(bankRail, 'sendTransfer', async () => ({ providerTransferId: 'tr-1', status: 'processing', expectedArrivalAt: null }));
+  });
+
+  const withdraw = (options = {}) => withdrawalService.withdraw('sam', { amount: 40, bankAccountId: account.id, ...options });
+
+  test('debits the amount and fee, then sends the amount', async () => {
+    const result = await withdraw({ speed: 'instant' });
+
+    assert.equal(result.withdrawal.status, 'processing');
+    assert.deepEqual(log, [
+      ['debit', 'accountabills_withdrawal', 40],
+      ['debit', 'accountabills_withdrawal_fee', 0.78],
+      ['update', 'processing']
+    ]);
+  });
+
+  test('refuses more than the balance before creating anything', async () => {
+    balance = 40.5;
+    const result = await withdraw({ speed: 'instant' });
+
+    assert.equal(result.status, 400);
+    assert.equal(storageService.createWithdrawal.mock.callCount(), 0);
+  });
+
+  test('a failed first debit marks the withdrawal failed without refunding', async () => {
+    marqetaService.createProgramTransfer.mock.mockImplementation(fail('Marqeta is down'));
+    const result = await withdraw();
+
+    assert.equal(result.status, 502);
+    assert.match(result.error, /not charged/);
+    assert.deepEqual(log, [['update', 'failed']]);
+  });
+
+  test('failing to set up the transfer types is handled the same way', async () => {
+    marqetaService.getProgramTransferType.mock.mockImplementation(fail('Marqeta is down'));
+    const result = await withdraw();
+
+    assert.equal(result.status, 502);
+    assert.deepEqual(log, [['update', 'failed']]);
+    assert.equal(marqetaService.createProgramTransfer.mock.callCount(), 0);
+  });
+
+  test('a failed fee refunds only the amount', async () => {
+    marqetaService.createProgramTransfer.mock.mockImplementation(async ({ amount, typeToken }) => {
+      if (typeToken === 'accountabills_withdrawal_fee') throw new Error('Declined');
+      log.push(['debit', typeToken, amount]);
+    });
+    const result = await withdraw({ speed: 'instant' });
+
+    assert.equal(result.status, 502);
+    assert.deepEqual(log, [
+      ['debit', 'accountabills_withdrawal', 40],
+      ['update', 'failed'],
+      ['refund', 40, 'wd-1']
+    ]);
+    assert.equal(bankRail.sendTransfer.mock.callCount(), 0);
+  });
+
+  test('a rejected bank transfer records the failure, then refunds the total', async () => {
+    bankRail.sendTransfer.mock.mockImplementation(fail('The receiving bank rejected the transfer'));
+    const result = await withdraw({ speed: 'instant' });
+
+    assert.equal(result.status, 502);
+    assert.match(result.error, /restored/);
+    assert.deepEqual(log.slice(2), [['update', 'failed'], ['refund', 40.78, 'wd-1']]);
+  });
+
+  test('a failed refund leaves the withdrawal refund_failed instead of throwing', async () => {
+    bankRail.sendTransfer.mock.mockImplementation(fail('The receiving bank rejected the transfer'));
+    marqetaService.fundGPA.mock.mockImplementation(fail('Marqeta is down'));
+    const result = await withdraw();
+
+    assert.equal(result.status, 502);
+    assert.match(result.error, /keep trying/);
+    assert.deepEqual(log.slice(1), [['update', 'failed'], ['update', 'refund_failed']]);
+    assert.equal(storageService.updateWithdrawal.mock.calls.at(-1).arguments[1].refundAmount, 40);
+  });
+
+  test('still refunds when recording the failure fails', async () => {
+    bankRail.sendTransfer.mock.mockImplementation(fail('The receiving bank rejected the transfer'));
+    storageService.updateWithdrawal.mock.mockImplementation(fail('Database unavailable'));
+    const result = await withdraw();
+
+    assert.equal(result.status, 502);
+    assert.deepEqual(log.slice(1), [['refund', 40, 'wd-1']]);
+  });
+});
+
+describe('retryRefunds', () => {
+  // withdrawals, by id
+  let rows;
+
+  const refundFailed = (id, overrides = {}) => ({ id, userId: 'sam', amount: 40, fee: 0.78, status: 'refund_failed', refundAmount: 40.78, ...overrides });
+
+  beforeEach((t) => {
+    log = [];
+    rows = new Map([refundFailed('wd-1'), refundFailed('wd-2', { refundAmount: 40 })].map(w => [w.id, w]));
+
+    t.mock.method(storageService, 'getWithdrawalsByStatus', async (status) => [...rows.values()].filter(w => w.status === status));
+    t.mock.method(storageService, 'updateWithdrawal', async (id, updates) => Object.assign(rows.get(id), updates));
+    t.mock.method(storageService, 'getUserMarqetaToken', async () => 'mq-sam');
+    t.mock.method(storageService, 'createNotification', async () => {});
+    t.mock.method(marqetaService, 'fundGPA', async (userToken, amount, memo, token) => {
+      log.push(['refund', amount, token]);
+    });
+  });
+
+  test('sends each owed refund with the withdrawal id as the token and tells the user', async () => {
+    const summary = await withdrawalService.retryRefunds();
+
+    assert.deepEqual(summary, { checked: 2, refunded: 2, failed: 0 });
+    assert.deepEqual(log, [['refund', 40.78, 'wd-1'], ['refund', 40, 'wd-2']]);
+    assert.deepEqual([...rows.values()].map(w => w.status), ['failed', 'failed']);
+    assert.equal(storageService.createNotification.mock.calls[0].arguments[0].type, 'withdrawal_refunded');
+  });
+
+  test('a refund that fails again stays refund_failed for the next run', async () => {
+    marqetaService.fundGPA.mock.mockImplementationOnce(fail('Marqeta is down'));
+    const summary = await withdrawalService.retryRefunds();
+
+    assert.deepEqual(summary, { checked: 2, refunded: 1, failed: 1 });
+    assert.equal(rows.get('wd-1').status, 'refund_failed');
+    assert.equal(rows.get('wd-2').status, 'failed');
+  });
+
+  test('a withdrawal without a recorded refund amount is left for a manual refund', async () => {
+    rows.get('wd-1').refundAmount = null;
+    const summary = await withdrawalService.retryRefunds();
+
+    assert.equal(summary.failed, 1);
+    assert.deepEqual(log, [['refund', 40, 'wd-2']]);
+    assert.equal(rows.get('wd-1').status, 'refund_failed');
+  });
+});
@@ -0,0 +1,70 @@
+import { string, money, isoDate, array, object, partial } from '../validation.js';
+import { approverInput, approvalPolicy } from '../models.js';
+
+// Request bodies for routes/marqeta.js
+// The JIT gateway and webhooks take Marqeta's payloads and are checked by their services instead.
+
+const notes = string({ max: 500 }).nullable().optional();
+
+const paymentRequestFields = {
+  amount: money(),
+  description: string({ max: 500 }).optional(),
+  category: string({ max: 50 }).optional(),
+  imageUrl: string().nullable().optional(), // receipt photo, usually a data URL
+  approvers: array(approverInput, { min: 1 }),
+  approvalPolicy: approvalPolicy.optional(), // falls back to the sender's default policy
+  expiresAt: isoDate().nullable().optional(),
+  backupApprover: approverInput.nullable().optional(),
+  templateId: string({ min: 1 }).optional()
+};
+
+export const createPaymentRequestBody = object(paymentRequestFields);
+
+// Fields to override from the original request
+export const resubmitPaymentRequestBody = partial(paymentRequestFields);
+
+export const editPaymentRequestBody = object({
+  amount: money().optional(),
+  description: string({ max: 500 }).optional(),
+  category: string({ max: 50 }).optional(),
+  imageUrl: string().nullable().optional()
+});
+
+// amount approves less than was requested
+export const approveBody = object({
+  notes,
+  amount: money().nullable().optional()
+});
+
+export const rejectBody = object({ notes });
+
+export const cancelBody = object({
+  reason: string({ max: 500 }).nullable().optional()
+});
+
+export const counterOfferBody = object({
+  amount: money(),
+  notes
+});
+
+// Accepting funds the request, so the route is idempotent; the decision itself is in the path
+export const counterOfferResponseBody = object({});
+
+// See simulationService.run for which fields each scenario uses
+export const simulateBody = object({
+  cardToken: string({ min: 1 }).optional(),
+  transactionToken: string({ min: 1 }).optional(),
+  amount: money().optional(),
+  merchantName: string({ max: 100 }).optional(),
+  mcc: string({ pattern: /^\d{4}$/, format: 'a 4-digit merchant category code' }).optional()
+});
+
+/** @typedef {import('../validation.js').Infer<typeof createPaymentRequestBody>} CreatePaymentRequestBody */
+/** @typedef {import('../validation.js').Infer<typeof resubmitPaymentRequestBody>} ResubmitPaymentRequestBody */
+/** @typedef {import('../validation.js').Infer<typeof editPaymentRequestBody>} EditPaymentRequestBody */
+/** @typedef {import('../validation.js').Infer<typeof approveBody>} ApproveBody */
+/** @typedef {import('../validation.js').Infer<typeof rejectBody>} RejectBody */
+/** @typedef {import('../validation.js').Infer<typeof cancelBody>} CancelBody */
+/** @typedef {import('../validation.js').Infer<typeof counterOfferBody>} CounterOfferBody */
+/** @typedef {import('../validation.js').Infer<typeof counterOfferResponseBody>} CounterOfferResponseBody */
+/** @typedef {import('../validation.js').Infer<typeof simulateBody>} SimulateBody */
@@ -0,0 +1,25 @@
+import { string, money, boolean, array, object, partial } from '../validation.js';
+import { approverInput, approvalPolicy, recurringSchedule } from '../models.js';
+
+// Request bodies for routes/recurringRequests.js
+
+const recurringRequestFields = {
+  amount: money(),
+  description: string({ max: 500 }).optional(),
+  category: string({ max: 50 }).optional(),
+  approvers: array(approverInput, { min: 1 }),
+  approvalPolicy: approvalPolicy.optional(), // falls back to the sender's default policy
+  schedule: recurringSchedule,
+  preApprove: boolean().optional() // ask the approvers to approve every run up front
+};
+
+export const createRecurringRequestBody = object(recurringRequestFields);
+
+// active pauses or resumes the template
+export const updateRecurringRequestBody = partial({
+  ...recurringRequestFields,
+  active: boolean()
+});
+
+/** @typedef {import('../validation.js').Infer<typeof createRecurringRequestBody>} CreateRecurringRequestBody */
+/** @typedef {import('../validation.js').Infer<typeof updateRecurringRequestBody>} UpdateRecurringRequestBody */
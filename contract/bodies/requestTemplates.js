@@ -0,0 +1,30 @@
+import { string, money, boolean, array, object, partial } from '../validation.js';
+import { approverInput, approvalPolicy } from '../models.js';
+
+// Request bodies for routes/requestTemplates.js
+// Everything but the name is a default the sender can change when using the template.
+
+const requestTemplateFields = {
+  name: string({ min: 1, max: 100 }),
+  amount: money().nullable().optional(),
+  description: string({ max: 500 }).optional(),
+  category: string({ max: 50 }).nullable().optional(),
+  approvers: array(approverInput).nullable().optional(),
+  groupId: string().nullable().optional(), // approver group to preselect
+  approvalPolicy: approvalPolicy.nullable().optional(),
+  receiptRequired: boolean().optional() // defaults to true
+};
+
+export const createRequestTemplateBody = object(requestTemplateFields);
+
+export const updateRequestTemplateBody = partial(requestTemplateFields);
+
+// name defaults to the request's description
+export const templateFromRequestBody = object({
+  name: string({ max: 100 }).optional(),
+  receiptRequired: boolean().optional()
+});
+
+/** @typedef {import('../validation.js').Infer<typeof createRequestTemplateBody>} CreateRequestTemplateBody */
+/** @typedef {import('../validation.js').Infer<typeof updateRequestTemplateBody>} UpdateRequestTemplateBody */
+/** @typedef {import('../validation.js').Infer<typeof templateFromRequestBody>} TemplateFromRequestBody */
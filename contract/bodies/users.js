@@ -0,0 +1,80 @@
+import { string, number, money, boolean, oneOf, array, object } from '../validation.js';
+import { approverInput, approvalPolicy, FUNDING_SOURCE_TYPES } from '../models.js';
+
+// Request bodies for routes/users.js
+
+export const initializeBody = object({
+  firstName: string({ max: 100 }).optional(),
+  lastName: string({ max: 100 }).optional()
+});
+
+// source defaults to 'program'; sourceId is the bank account (ach) or partner user id (peer)
+export const addMoneyBody = object({
+  amount: money(),
+  memo: string({ max: 200 }).nullable().optional(),
+  source: oneOf(FUNDING_SOURCE_TYPES).optional(),
+  sourceId: string({ min: 1 }).optional()
+});
+
+// bankAccountService also checks the routing number's ABA checksum
+export const linkBankAccountBody = object({
+  holderName: string({ min: 1, max: 100 }),
+  routingNumber: string({ pattern: /^\d{9}$/, format: '9 digits' }),
+  accountNumber: string({ pattern: /^\d{4,17}$/, format: '4 to 17 digits' }),
+  accountType: oneOf(['checking', 'savings']),
+  nickname: string({ max: 50 }).nullable().optional()
+});
+
+// The two micro-deposits in dollars, in any order
+export const verifyBankAccountBody = object({
+  amounts: array(money(), { min: 2, max: 2 })
+});
+
+export const withdrawBody = object({
+  amount: money(),
+  bankAccountId: string({ min: 1 }),
+  speed: oneOf(['standard', 'instant']).optional()
+});
+
+export const revealCardBody = object({
+  revealToken: string({ min: 1 })
+});
+
+export const issueRequestCardBody = object({
+  requestId: string({ min: 1 })
+});
+
+// Freeze, unfreeze, terminate and replace; cardToken defaults to the main card
+export const cardActionBody = object({
+  cardToken: string({ min: 1 }).optional(),
+  reason: string({ max: 200 }).nullable().optional()
+});
+
+// See approvalRulesService for how bands are matched and checked for overlap
+const approvalBand = object({
+  minAmount: number({ min: 0 }),
+  maxAmount: number({ positive: true }).nullable().optional(),
+  minApprovers: number({ integer: true, min: 1 }).nullable().optional(),
+  policy: approvalPolicy.nullable().optional()
+});
+
+// Only the fields sent are changed; null clears a setting
+export const updateSettingsBody = object({
+  approvalPolicy: approvalPolicy.nullable().optional(),
+  approvalThreshold: number({ min: 0 }).nullable().optional(),
+  approvalBands: array(approvalBand).optional(),
+  backupApprover: approverInput.nullable().optional(),
+  allowPeerFunding: boolean().optional(),
+  peerFundingLimit: number({ min: 0 }).optional(),
+  peerFundingUserIds: array(string({ min: 1 })).optional()
+});
+
+/** @typedef {import('../validation.js').Infer<typeof initializeBody>} InitializeBody */
+/** @typedef {import('../validation.js').Infer<typeof addMoneyBody>} AddMoneyBody */
+/** @typedef {import('../validation.js').Infer<typeof linkBankAccountBody>} LinkBankAccountBody */
+/** @typedef {import('../validation.js').Infer<typeof verifyBankAccountBody>} VerifyBankAccountBody */
+/** @typedef {import('../validation.js').Infer<typeof withdrawBody>} WithdrawBody */
+/** @typedef {import('../validation.js').Infer<typeof revealCardBody>} RevealCardBody */
+/** @typedef {import('../validation.js').Infer<typeof issueRequestCardBody>} IssueRequestCardBody */
+/** @typedef {import('../validation.js').Infer<typeof cardActionBody>} CardActionBody */
+/** @typedef {import('../validation.js').Infer<typeof updateSettingsBody>} UpdateSettingsBody */
@@ -0,0 +1,96 @@
+// A typed client built from the endpoint table
+//
+// Each endpoint becomes an async function taking { params, query, body, headers } and resolving
+// to the response's `data`. The transport (auth, base URL, error handling) is passed in, so the
+// same client works wherever fetch does. With checkResponses on, every response is checked
+// against its model and mismatches are logged - meant for development, where a backend change
+// that breaks the contract should be loud but not fatal.
+
+/** @import { Method, EndpointSchemas } from './endpoints.js' */
+
+/**
+ * @typedef {EndpointSchemas & { method: Method, path: string }} Endpoint
+ * @typedef {(path: string, init: { method: Method, headers?: Record<string, string>, body?: string }) => Promise<{ data?: unknown }>} Transport
+ */
+
+/**
+ * `{ id: string }` for '/payment-requests/:id'
+ * @template {string} P
+ * @typedef {P extends `${string}:${infer K}/${infer Rest}` ? { [key in K]: string } & PathParams<`/${Rest}`>
+ *   : P extends `${string}:${infer K}` ? { [key in K]: string } : {}} PathParams
+ */
+
+/**
+ * @template {Endpoint} E
+ * @typedef {{ headers?: Record<string, string> }
+ *   & ({} extends PathParams<E['path']> ? { params?: undefined } : { params: PathParams<E['path']> })
+ *   & (E['query'] extends import('./validation.js').Schema<infer Q> ? { query: Q } : { query?: undefined })
+ *   & (E['body'] extends import('./validation.js').Schema<infer B> ? { body: B } : { body?: undefined })} CallOptions
+ */
+
+/**
+ * Options can be left out when the endpoint needs no params, query or body
+ * @template {Endpoint} E
+ * @typedef {{} extends CallOptions<E>
+ *   ? (options?: CallOptions<E>) => Promise<import('./validation.js').Infer<E['response']>>
+ *   : (options: CallOptions<E>) => Promise<import('./validation.js').Infer<E['response']>>} ClientMethod
+ */
+
+/**
+ * @template {Record<string, Endpoint>} T
+ * @typedef {{ [K in keyof T]: ClientMethod<T[K]> }} ApiClient
+ */
+
+/**
+ * @param {Endpoint} ep
+ * @param {Record<string, string> | undefined} params
+ * @param {Record<string, unknown> | undefined} query
+ */
+function buildPath(ep, params, query) {
+  const path = ep.path.replace(/:(\w+)/g, (_, key) => {
+    if (params?.[key] == null) {
+      throw new Error(`Missing :${key} for ${ep.method} ${ep.path}`);
+    }
+    return encodeURIComponent(params[key]);
+  });
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value != null) search.append(key, String(value));
+  }
+
+  const queryString = search.toString();
+  return queryString ? `${path}?${queryString}` : path;
+}
+
+/**
+ * @template {Record<string, Endpoint>} T
+ * @param {T} endpoints
+ * @param {{ request: Transport, checkResponses?: boolean }} options
+ * @returns {ApiClient<T>}
+ */
+export function createApiClient(endpoints, { request, checkResponses = false }) {
+  const client = /** @type {Record<string, Function>} */ ({});
+
+  for (const [name, ep] of Object.entries(endpoints)) {
+    client[name] = async ({ params, query, body, headers } = {}) => {
+      const response = await request(buildPath(ep, params, query), {
+        method: ep.method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+      const data = response?.data;
+
+      if (checkResponses) {
+        const { errors } = ep.response.parse(data);
+        if (errors.length > 0) {
+          console.warn(`[contract] ${ep.method} ${ep.path} response doesn't match the contract:`, errors, data);
+        }
+      }
+
+      return data;
+    };
+  }
+
+  return /** @type {ApiClient<T>} */ (/** @type {unknown} */ (client));
+}
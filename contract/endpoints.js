@@ -0,0 +1,103 @@
+import { string, boolean, oneOf, array, object } from './validation.js';
+import * as models from './models.js';
+import * as users from './bodies/users.js';
+import * as marqeta from './bodies/marqeta.js';
+import * as recurringRequests from './bodies/recurringRequests.js';
+import * as requestTemplates from './bodies/requestTemplates.js';
+
+// The Express routes the frontend calls, with what each one takes and returns
+//
+// Paths are relative to /api; `:name` segments are filled from params. createApiClient
+// (client.js) turns this table into typed functions. The backend's routes are the source of
+// truth - add or change an entry here in the same commit as the route.
+
+/**
+ * @typedef {'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'} Method
+ * @typedef {import('./validation.js').Schema<any>} AnySchema
+ * @typedef {{ query?: AnySchema, body?: AnySchema, response: AnySchema }} EndpointSchemas
+ */
+
+/**
+ * @template {Method} M
+ * @template {string} P
+ * @template {EndpointSchemas} S
+ * @param {M} method
+ * @param {P} path
+ * @param {S} schemas
+ * @returns {{ method: M, path: P } & S}
+ */
+export function endpoint(method, path, schemas) {
+  return { method, path, ...schemas };
+}
+
+export const endpoints = {
+  // ===== Users and wallet (routes/users.js) =====
+  initializeUser: endpoint('POST', '/users/initialize', { body: users.initializeBody, response: models.initializedUser }),
+  boot: endpoint('GET', '/users/boot', { response: models.bootData }),
+  getCurrentUser: endpoint('GET', '/users/me', { response: models.currentUser }),
+  getWalletBalance: endpoint('GET', '/users/balance', { response: models.walletBalance }),
+  getFundingSources: endpoint('GET', '/users/funding-sources', { response: array(models.fundingSource) }),
+  addMoney: endpoint('POST', '/users/wallet/add', { body: users.addMoneyBody, response: models.addMoneyResult }),
+  withdrawMoney: endpoint('POST', '/users/wallet/withdraw', { body: users.withdrawBody, response: models.withdrawResult }),
+  getWithdrawals: endpoint('GET', '/users/withdrawals', { response: array(models.withdrawal) }),
+  getTransactions: endpoint('GET', '/users/transactions', { response: array(models.transaction) }),
+
+  getCard: endpoint('GET', '/users/card', { response: models.cardStatus }),
+  createCard: endpoint('POST', '/users/card', { response: object({ alreadyExists: boolean(), card: models.cardData }) }),
+  getCards: endpoint('GET', '/users/cards', { response: array(models.cardData) }),
+  getCardByToken: endpoint('GET', '/users/cards/:token', { response: models.cardData }),
+  issueRequestCard: endpoint('POST', '/users/cards', { body: users.issueRequestCardBody, response: object({ card: models.cardData }) }),
+  createRevealToken: endpoint('POST', '/users/cards/:token/reveal-token', { response: models.cardRevealToken }),
+  revealCard: endpoint('POST', '/users/cards/reveal', { body: users.revealCardBody, response: models.cardRevealDetails }),
+  changeCardState: endpoint('POST', '/users/card/:action', { body: users.cardActionBody, response: object({ card: models.cardData }) }),
+
+  getUserSettings: endpoint('GET', '/users/settings', { response: models.userSettings }),
+  updateUserSettings: endpoint('PUT', '/users/settings', { body: users.updateSettingsBody, response: models.userSettings }),
+
+  getBankAccounts: endpoint('GET', '/users/bank-accounts', { response: array(models.bankAccount) }),
+  linkBankAccount: endpoint('POST', '/users/bank-accounts', { body: users.linkBankAccountBody, response: models.bankAccount }),
+  verifyBankAccount: endpoint('POST', '/users/bank-accounts/:id/verify', { body: users.verifyBankAccountBody, response: models.bankAccount }),
+  removeBankAccount: endpoint('DELETE', '/users/bank-accounts/:id', { response: object({ removed: boolean() }) }),
+
+  getFundingStatus: endpoint('GET', '/users/funding-status', { response: models.fundingStatus }),
+  getSpendControls: endpoint('GET', '/users/spend-controls', { response: models.spendControls }),
+  getReconciliation: endpoint('GET', '/users/reconciliation', { response: models.reconciliation }),
+  // Null until the request is approved and funded
+  getRequestReconciliation: endpoint('GET', '/users/reconciliation', {
+    query: object({ requestId: string({ min: 1 }) }),
+    response: models.requestReconciliation.nullable()
+  }),
+
+  // ===== Payment requests (routes/marqeta.js) =====
+  createRequest: endpoint('POST', '/marqeta/payment-requests', { body: marqeta.createPaymentRequestBody, response: models.paymentRequest }),
+  listRequests: endpoint('GET', '/marqeta/payment-requests', {
+    query: object({ filter: oneOf(['mine', 'to-approve']).optional() }),
+    response: array(models.paymentRequest)
+  }),
+  getRequest: endpoint('GET', '/marqeta/payment-requests/:id', { response: models.paymentRequest }),
+  getRequestHistory: endpoint('GET', '/marqeta/payment-requests/:id/history', { response: array(models.requestEvent) }),
+  approveRequest: endpoint('POST', '/marqeta/payment-requests/:id/approve', { body: marqeta.approveBody, response: models.paymentRequest }),
+  rejectRequest: endpoint('POST', '/marqeta/payment-requests/:id/reject', { body: marqeta.rejectBody, response: models.paymentRequest }),
+  cancelRequest: endpoint('POST', '/marqeta/payment-requests/:id/cancel', { body: marqeta.cancelBody, response: models.paymentRequest }),
+  editRequest: endpoint('PATCH', '/marqeta/payment-requests/:id', { body: marqeta.editPaymentRequestBody, response: models.paymentRequest }),
+  resubmitRequest: endpoint('POST', '/marqeta/payment-requests/:id/resubmit', { body: marqeta.resubmitPaymentRequestBody, response: models.paymentRequest }),
+  sendCounterOffer: endpoint('POST', '/marqeta/payment-requests/:id/counter-offer', { body: marqeta.counterOfferBody, response: models.paymentRequest }),
+  respondToCounterOffer: endpoint('POST', '/marqeta/payment-requests/:id/counter-offer/:decision', { body: marqeta.counterOfferResponseBody, response: models.paymentRequest }),
+
+  getSimulationOptions: endpoint('GET', '/marqeta/simulate', { response: models.simulationOptions }),
+  simulateTransaction: endpoint('POST', '/marqeta/simulate/:scenario', { body: marqeta.simulateBody, response: models.simulatedTransaction }),
+
+  // ===== Recurring requests (routes/recurringRequests.js) =====
+  getRecurringRequests: endpoint('GET', '/recurring-requests', { response: array(models.recurringRequest) }),
+  createRecurringRequest: endpoint('POST', '/recurring-requests', { body: recurringRequests.createRecurringRequestBody, response: models.recurringRequest }),
+  updateRecurringRequest: endpoint('PATCH', '/recurring-requests/:id', { body: recurringRequests.updateRecurringRequestBody, response: models.recurringRequest }),
+  deleteRecurringRequest: endpoint('DELETE', '/recurring-requests/:id', { response: models.deleted }),
+  respondToPreApproval: endpoint('POST', '/recurring-requests/:id/pre-approval/:decision', { response: models.recurringRequest }),
+
+  // ===== Request templates (routes/requestTemplates.js) =====
+  getRequestTemplates: endpoint('GET', '/request-templates', { response: array(models.requestTemplate) }),
+  createRequestTemplate: endpoint('POST', '/request-templates', { body: requestTemplates.createRequestTemplateBody, response: models.requestTemplate }),
+  saveRequestAsTemplate: endpoint('POST', '/request-templates/from-request/:requestId', { body: requestTemplates.templateFromRequestBody, response: models.requestTemplate }),
+  updateRequestTemplate: endpoint('PATCH', '/request-templates/:id', { body: requestTemplates.updateRequestTemplateBody, response: models.requestTemplate }),
+  deleteRequestTemplate: endpoint('DELETE', '/request-templates/:id', { response: models.deleted })
+};
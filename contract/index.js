@@ -0,0 +1,17 @@
+// @accountabills/contract - request and response shapes shared by Backend and AccountabillsV2
+//
+// validation.js  the schema builders, and Infer to get a schema's TypeScript type
+// models.js      what the API sends back (PaymentRequest, CardData, BootData, ...)
+// bodies/        what each route accepts; the backend validates with these
+// endpoints.js   every route the frontend calls, with its body and response
+// client.js      createApiClient, which turns endpoints into typed functions
+// types/         generated declarations for TypeScript consumers (npm run types)
+
+export * from './validation.js';
+export * from './models.js';
+export * from './bodies/users.js';
+export * from './bodies/marqeta.js';
+export * from './bodies/recurringRequests.js';
+export * from './bodies/requestTemplates.js';
+export * from './endpoints.js';
+export * from './client.js';
@@ -0,0 +1,459 @@
+import { string, number, boolean, oneOf, isoDate, array, object, variants, any } from './validation.js';
+
+// What the API sends back
+//
+// These describe the `data` of each response. The frontend checks responses against them in
+// development (see client.js), so a backend change that breaks a shape shows up as a console
+// warning instead of an `undefined` somewhere in the UI. Fields the backend doesn't always
+// include are optional; fields it always sends but may leave empty are nullable.
+
+/**
+ * @template T
+ * @param {import('./validation.js').Schema<T>} schema
+ */
+const maybe = schema => schema.nullable().optional();
+const timestamp = () => string();
+
+// ===== Approvals =====
+
+// Someone picked to approve a request, as sent when creating one
+export const approverInput = object({
+  userId: string({ min: 1 }),
+  name: string({ max: 100 }).optional(),
+  email: string({ max: 254 }).optional()
+});
+
+export const APPROVER_STATUSES = /** @type {const} */ (['pending', 'approved', 'rejected']);
+
+// An approver on a stored request, with their own decision
+export const approver = object({
+  userId: string(),
+  name: maybe(string()),
+  email: maybe(string()),
+  status: oneOf(APPROVER_STATUSES),
+  approvedAt: maybe(timestamp()),
+  rejectedAt: maybe(timestamp()),
+  approvedAmount: maybe(number())
+});
+
+const basePolicies = {
+  all: object({ type: oneOf(['all']) }),
+  any: object({ type: oneOf(['any']) }),
+  majority: object({ type: oneOf(['majority']) }),
+  n_of_m: object({ type: oneOf(['n_of_m']), required: number({ integer: true, min: 1 }) })
+};
+
+// See the backend's approvalPolicyService for what each type means
+export const approvalPolicy = variants('type', {
+  ...basePolicies,
+  // The named approver must approve and the base policy (default "all") must be met too
+  required_approver: object({
+    type: oneOf(['required_approver']),
+    approverId: string({ min: 1 }),
+    base: variants('type', basePolicies).optional()
+  })
+});
+
+export const approvalBand = object({
+  minAmount: number(),
+  maxAmount: number().nullable(),
+  minApprovers: number().nullable(),
+  policy: approvalPolicy.nullable()
+});
+
+// ===== Payment requests =====
+
+export const REQUEST_STATUSES = /** @type {const} */ (['pending', 'approved', 'rejected', 'expired', 'cancelled']);
+
+export const REQUEST_FUNDING_STATUSES = /** @type {const} */ (['approved_unfunded', 'funding', 'funded', 'funding_failed', 'jit_available', 'jit_consumed']);
+
+export const counterOffer = object({
+  approverId: string(),
+  approverName: string(),
+  amount: number(),
+  notes: string().nullable(),
+  status: oneOf(['pending', 'accepted', 'declined']),
+  createdAt: timestamp(),
+  respondedAt: timestamp().optional()
+});
+
+export const paymentRequest = object({
+  id: string(),
+  senderId: string(),
+  senderName: string(),
+  senderEmail: maybe(string()),
+  amount: number(),
+  description: string(),
+  category: string(),
+  imageUrl: maybe(string()),
+  status: oneOf(REQUEST_STATUSES),
+  approvers: array(approver),
+  approvedBy: maybe(array(object({ userId: string(), name: string(), approvedAt: timestamp(), amount: maybe(number()) }))),
+  rejectedBy: maybe(object({ userId: string(), name: string(), rejectedAt: timestamp() })),
+  notes: maybe(string()),
+  approvalPolicy,
+  autoApproved: maybe(boolean()),
+  preApproved: maybe(boolean()),
+  expiresAt: maybe(timestamp()),
+  backupApprover: maybe(approverInput),
+  resubmittedFrom: maybe(string()),
+  recurringRequestId: maybe(string()),
+  approvedAmount: maybe(number()),
+  counterOffer: maybe(counterOffer),
+  fundingStatus: maybe(oneOf(REQUEST_FUNDING_STATUSES)),
+  fundingError: maybe(string()),
+  fundedAt: maybe(timestamp()),
+  jitAmount: maybe(number()),
+  jitMerchant: maybe(string()),
+  createdAt: timestamp(),
+  updatedAt: timestamp()
+});
+
+export const REQUEST_EVENT_TYPES = /** @type {const} */ ([
+  'created', 'viewed', 'approved', 'rejected', 'counter_offered', 'counter_offer_accepted', 'counter_offer_declined',
+  'edited', 'cancelled', 'resubmitted', 'funded', 'funding_failed', 'funding_reversed', 'reminded', 'escalated', 'expired'
+]);
+
+// One entry in a request's append-only audit trail
+export const requestEvent = object({
+  id: string(),
+  requestId: string(),
+  type: oneOf(REQUEST_EVENT_TYPES),
+  actorId: string().nullable(),
+  actorName: string(),
+  data: any(),
+  createdAt: timestamp()
+});
+
+// ===== Cards and transactions =====
+
+// The full PAN and CVV are never part of CardData - see cardRevealDetails
+export const cardData = object({
+  token: string(),
+  lastFour: string(),
+  expiration: string(),
+  expirationTime: string(),
+  state: string(),
+  cardProductToken: string(),
+  createdTime: string(),
+  purpose: oneOf(['primary', 'request']).optional(),
+  requestId: maybe(string()),
+  label: maybe(string()),
+  singleUse: boolean().optional(),
+  amountLimit: maybe(number())
+});
+
+export const cardStatus = object({
+  hasCard: boolean(),
+  card: cardData.nullable()
+});
+
+export const cardRevealToken = object({
+  revealToken: string(),
+  expiresAt: isoDate()
+});
+
+export const cardRevealDetails = object({
+  token: string(),
+  pan: string(),
+  cvv: string().nullable(),
+  expiration: string(),
+  lastFour: string()
+});
+
+// A Marqeta transaction as Marqeta returns it (snake_case, many more fields than listed)
+export const transaction = object({
+  token: string(),
+  type: string(),
+  state: string(),
+  amount: number(),
+  created_time: maybe(string()),
+  card_token: maybe(string()),
+  memo: maybe(string()),
+  card_acceptor: maybe(object({ name: maybe(string()), mcc: maybe(string()) }))
+});
+
+// ===== Users and wallet =====
+
+export const currentUser = object({
+  initialized: boolean(),
+  userId: string(),
+  email: maybe(string()),
+  name: maybe(string()),
+  marqetaUserToken: string().optional(),
+  marqetaUser: any().nullable().optional(),
+  balance: number().optional()
+});
+
+export const initializedUser = object({
+  marqetaUserToken: string(),
+  marqetaUser: any().optional(),
+  alreadyInitialized: boolean()
+});
+
+// Everything the app needs on start, in one call
+export const bootData = object({
+  balance: number(),
+  transactions: array(transaction),
+  card: cardStatus,
+  myRequests: array(paymentRequest),
+  requestsToApprove: array(paymentRequest),
+  // Requests from people who added this user as a viewer partner
+  requestsWatching: array(paymentRequest)
+});
+
+export const walletBalance = object({
+  balance: number(),
+  currency: string(),
+  lastUpdated: timestamp()
+});
+
+export const FUNDING_SOURCE_TYPES = /** @type {const} */ (['program', 'ach', 'peer']);
+
+export const fundingSource = object({
+  source: oneOf(FUNDING_SOURCE_TYPES),
+  label: string(),
+  description: string(),
+  available: boolean(),
+  // What to pass as sourceId: bank accounts for ach, partners for peer
+  options: array(object({ id: string(), label: string() }))
+});
+
+export const addMoneyResult = object({
+  transaction: any(),
+  newBalance: number(),
+  source: oneOf(FUNDING_SOURCE_TYPES)
+});
+
+export const withdrawal = object({
+  id: string(),
+  bankAccountId: string(),
+  amount: number(),
+  fee: number(),
+  speed: oneOf(['standard', 'instant']),
+  // refund_failed: debited, not sent, and the refund to the wallet is being retried
+  status: oneOf(['pending', 'processing', 'completed', 'failed', 'refund_failed']),
+  expectedArrivalAt: timestamp().nullable(),
+  failureReason: string().nullable(),
+  createdAt: timestamp()
+});
+
+export const withdrawResult = object({
+  withdrawal,
+  newBalance: number()
+});
+
+// Only the routing number and last four digits ever come back from the server
+export const bankAccount = object({
+  id: string(),
+  nickname: string().nullable(),
+  holderName: string(),
+  accountType: oneOf(['checking', 'savings']),
+  routingNumber: string(),
+  lastFour: string(),
+  status: oneOf(['pending_verification', 'verified', 'verification_failed']),
+  verificationAttemptsLeft: number(),
+  verifiedAt: timestamp().nullable(),
+  createdAt: timestamp(),
+  // Sandbox only: the micro-deposit amounts, returned when the account is linked
+  sandboxMicroDeposits: array(number()).optional()
+});
+
+export const userSettings = object({
+  userId: string(),
+  approvalPolicy: approvalPolicy.nullable(),
+  approvalThreshold: number().nullable(),
+  approvalBands: array(approvalBand),
+  backupApprover: approverInput.nullable(),
+  allowPeerFunding: boolean(),
+  // Most partners may take from this user's wallet per 30 days, all together
+  peerFundingLimit: number(),
+  // The partners who may, by user id
+  peerFundingUserIds: array(string()),
+  updatedAt: timestamp().nullable()
+});
+
+export const fundingStatus = object({
+  mode: oneOf(['SANDBOX', 'PRODUCTION']),
+  isSandbox: boolean(),
+  unlimitedFunds: boolean(),
+  fundingSource: string(),
+  fundingSources: array(object({
+    source: oneOf(FUNDING_SOURCE_TYPES),
+    label: string(),
+    description: string(),
+    available: boolean()
+  })),
+  baseUrl: string(),
+  fundingInfo: any().nullable().optional(),
+  message: string()
+});
+
+export const spendControls = object({
+  limits: array(object({
+    category: string(),
+    limit: number(),
+    available: number().nullable(),
+    spent: number().nullable()
+  })),
+  restrictedCategories: array(string())
+});
+
+// ===== Reconciliation =====
+
+export const reconciledPurchase = object({
+  token: string(),
+  amount: number(),
+  cardToken: string(),
+  merchantName: string().nullable(),
+  mcc: string().nullable(),
+  time: string(),
+  settled: boolean(),
+  matchedBy: oneOf(['jit', 'card', 'category', 'amount']).optional(),
+  onPurpose: boolean().nullable().optional()
+});
+
+export const requestReconciliation = object({
+  requestId: string(),
+  description: string(),
+  category: string(),
+  approvedAmount: number(),
+  spent: number(),
+  remaining: number(),
+  status: oneOf(['unspent', 'partially_spent', 'spent', 'overspent']),
+  flags: array(oneOf(['overspent', 'unspent', 'off_purpose'])),
+  windowEndsAt: timestamp(),
+  transactions: array(reconciledPurchase)
+});
+
+export const reconciliation = object({
+  requests: array(requestReconciliation),
+  unmatchedTransactions: array(reconciledPurchase),
+  summary: object({ approved: number(), spent: number(), unmatchedSpend: number(), flagged: number() })
+});
+
+// ===== Simulations (Marqeta sandbox only) =====
+
+export const SIMULATION_SCENARIOS = /** @type {const} */ (['authorization', 'clearing', 'reversal', 'refund', 'decline']);
+
+export const simulationOptions = object({
+  enabled: boolean(),
+  scenarios: array(object({ scenario: oneOf(SIMULATION_SCENARIOS), followsTransaction: boolean(), description: string() }))
+});
+
+export const simulatedTransaction = object({
+  token: string(),
+  type: string(),
+  state: string(),
+  amount: number(),
+  cardToken: string(),
+  merchantName: string().nullable(),
+  mcc: string().nullable(),
+  responseCode: string().nullable(),
+  responseMemo: string().nullable(),
+  precedingTransactionToken: string().nullable(),
+  createdTime: string().nullable()
+});
+
+// ===== Recurring requests and templates =====
+
+// Times are UTC; hour defaults to 9
+export const recurringSchedule = variants('frequency', {
+  weekly: object({
+    frequency: oneOf(['weekly']),
+    dayOfWeek: number({ integer: true, min: 0, max: 6 }),
+    hour: number({ integer: true, min: 0, max: 23 }).optional()
+  }),
+  monthly: object({
+    frequency: oneOf(['monthly']),
+    dayOfMonth: number({ integer: true, min: 1, max: 31 }),
+    hour: number({ integer: true, min: 0, max: 23 }).optional()
+  }),
+  cron: object({
+    frequency: oneOf(['cron']),
+    expression: string({ min: 1 })
+  })
+});
+
+export const recurringPreApproval = object({
+  status: oneOf(APPROVER_STATUSES),
+  approvers: array(object({
+    userId: string(),
+    name: string(),
+    email: maybe(string()),
+    status: oneOf(APPROVER_STATUSES),
+    decidedAt: string().optional()
+  })),
+  decidedAt: string().optional()
+});
+
+export const recurringRequest = object({
+  id: string(),
+  senderId: string(),
+  senderName: string(),
+  senderEmail: maybe(string()),
+  amount: number(),
+  description: string(),
+  category: string(),
+  approvers: array(approverInput),
+  approvalPolicy,
+  schedule: recurringSchedule,
+  preApproval: recurringPreApproval.nullable(),
+  active: boolean(),
+  nextRunAt: timestamp().nullable(),
+  lastRunAt: timestamp().nullable(),
+  lastRequestId: string().nullable(),
+  lastError: string().nullable(),
+  createdAt: timestamp(),
+  updatedAt: timestamp()
+});
+
+export const requestTemplate = object({
+  id: string(),
+  userId: string(),
+  name: string(),
+  amount: number().nullable(),
+  description: string(),
+  category: string().nullable(),
+  approvers: array(approverInput),
+  groupId: string().nullable(),
+  approvalPolicy: approvalPolicy.nullable(),
+  receiptRequired: boolean(),
+  createdAt: timestamp(),
+  updatedAt: timestamp()
+});
+
+// What DELETE routes send back
+export const deleted = object({ id: string() });
+
+/** @import { Infer } from './validation.js' */
+/** @typedef {Infer<typeof approverInput>} ApproverInput */
+/** @typedef {Infer<typeof approver>} Approver */
+/** @typedef {Infer<typeof approvalPolicy>} ApprovalPolicy */
+/** @typedef {Infer<typeof approvalBand>} ApprovalBand */
+/** @typedef {Infer<typeof counterOffer>} CounterOffer */
+/** @typedef {Infer<typeof paymentRequest>} PaymentRequest */
+/** @typedef {Infer<typeof requestEvent>} RequestEvent */
+/** @typedef {Infer<typeof cardData>} CardData */
+/** @typedef {Infer<typeof cardStatus>} CardStatus */
+/** @typedef {Infer<typeof cardRevealDetails>} CardRevealDetails */
+/** @typedef {Infer<typeof transaction>} Transaction */
+/** @typedef {Infer<typeof currentUser>} CurrentUser */
+/** @typedef {Infer<typeof bootData>} BootData */
+/** @typedef {Infer<typeof walletBalance>} WalletBalance */
+/** @typedef {Infer<typeof fundingSource>} FundingSource */
+/** @typedef {Infer<typeof addMoneyResult>} AddMoneyResult */
+/** @typedef {Infer<typeof withdrawal>} Withdrawal */
+/** @typedef {Infer<typeof bankAccount>} BankAccount */
+/** @typedef {Infer<typeof userSettings>} UserSettings */
+/** @typedef {Infer<typeof fundingStatus>} FundingStatus */
+/** @typedef {Infer<typeof spendControls>} SpendControls */
+/** @typedef {Infer<typeof reconciledPurchase>} ReconciledPurchase */
+/** @typedef {Infer<typeof requestReconciliation>} RequestReconciliation */
+/** @typedef {Infer<typeof reconciliation>} Reconciliation */
+/** @typedef {Infer<typeof simulationOptions>} SimulationOptions */
+/** @typedef {Infer<typeof simulatedTransaction>} SimulatedTransaction */
+/** @typedef {Infer<typeof recurringSchedule>} RecurringSchedule */
+/** @typedef {Infer<typeof recurringPreApproval>} RecurringPreApproval */
+/** @typedef {Infer<typeof recurringRequest>} RecurringRequest */
+/** @typedef {Infer<typeof requestTemplate>} RequestTemplate */
@@ -0,0 +1,119 @@
+export const createPaymentRequestBody: import("../validation.js").Schema<{
+    amount: number;
+    approvers: {
+        userId: string;
+        name?: string | undefined;
+        email?: string | undefined;
+    }[];
+    description?: string | undefined;
+    category?: string | undefined;
+    imageUrl?: string | null | undefined;
+    approvalPolicy?: {
+        type: "all";
+    } | {
+        type: "any";
+    } | {
+        type: "majority";
+    } | {
+        type: "n_of_m";
+        required: number;
+    } | {
+        type: "required_approver";
+        approverId: string;
+        base?: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | undefined;
+    } | undefined;
+    expiresAt?: string | null | undefined;
+    backupApprover?: {
+        userId: string;
+        name?: string | undefined;
+        email?: string | undefined;
+    } | null | undefined;
+    templateId?: string | undefined;
+}>;
+export const resubmitPaymentRequestBody: import("../validation.js").Schema<{
+    amount?: number | undefined;
+    description?: string | undefined;
+    category?: string | undefined;
+    imageUrl?: string | null | undefined;
+    approvers?: {
+        userId: string;
+        name?: string | undefined;
+        email?: string | undefined;
+    }[] | undefined;
+    approvalPolicy?: {
+        type: "all";
+    } | {
+        type: "any";
+    } | {
+        type: "majority";
+    } | {
+        type: "n_of_m";
+        required: number;
+    } | {
+        type: "required_approver";
+        approverId: string;
+        base?: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | undefined;
+    } | undefined;
+    expiresAt?: string | null | undefined;
+    backupApprover?: {
+        userId: string;
+        name?: string | undefined;
+        email?: string | undefined;
+    } | null | undefined;
+    templateId?: string | undefined;
+}>;
+export const editPaymentRequestBody: import("../validation.js").Schema<{
+    amount?: number | undefined;
+    description?: string | undefined;
+    category?: string | undefined;
+    imageUrl?: string | null | undefined;
+}>;
+export const approveBody: import("../validation.js").Schema<{
+    notes?: string | null | undefined;
+    amount?: number | null | undefined;
+}>;
+export const rejectBody: import("../validation.js").Schema<{
+    notes?: string | null | undefined;
+}>;
+export const cancelBody: import("../validation.js").Schema<{
+    reason?: string | null | undefined;
+}>;
+export const counterOfferBody: import("../validation.js").Schema<{
+    amount: number;
+    notes?: string | null | undefined;
+}>;
+export const counterOfferResponseBody: import("../validation.js").Schema<{}>;
+export const simulateBody: import("../validation.js").Schema<{
+    cardToken?: string | undefined;
+    transactionToken?: string | undefined;
+    amount?: number | undefined;
+    merchantName?: string | undefined;
+    mcc?: string | undefined;
+}>;
+export type CreatePaymentRequestBody = import("../validation.js").Infer<typeof createPaymentRequestBody>;
+export type ResubmitPaymentRequestBody = import("../validation.js").Infer<typeof resubmitPaymentRequestBody>;
+export type EditPaymentRequestBody = import("../validation.js").Infer<typeof editPaymentRequestBody>;
+export type ApproveBody = import("../validation.js").Infer<typeof approveBody>;
+export type RejectBody = import("../validation.js").Infer<typeof rejectBody>;
+export type CancelBody = import("../validation.js").Infer<typeof cancelBody>;
+export type CounterOfferBody = import("../validation.js").Infer<typeof counterOfferBody>;
+export type CounterOfferResponseBody = import("../validation.js").Infer<typeof counterOfferResponseBody>;
+export type SimulateBody = import("../validation.js").Infer<typeof simulateBody>;
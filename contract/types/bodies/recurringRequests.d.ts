@@ -0,0 +1,95 @@
+export const createRecurringRequestBody: import("../validation.js").Schema<{
+    amount: number;
+    approvers: {
+        userId: string;
+        name?: string | undefined;
+        email?: string | undefined;
+    }[];
+    schedule: {
+        frequency: "weekly";
+        dayOfWeek: number;
+        hour?: number | undefined;
+    } | {
+        frequency: "monthly";
+        dayOfMonth: number;
+        hour?: number | undefined;
+    } | {
+        frequency: "cron";
+        expression: string;
+    };
+    description?: string | undefined;
+    category?: string | undefined;
+    approvalPolicy?: {
+        type: "all";
+    } | {
+        type: "any";
+    } | {
+        type: "majority";
+    } | {
+        type: "n_of_m";
+        required: number;
+    } | {
+        type: "required_approver";
+        approverId: string;
+        base?: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | undefined;
+    } | undefined;
+    preApprove?: boolean | undefined;
+}>;
+export const updateRecurringRequestBody: import("../validation.js").Schema<{
+    active?: boolean | undefined;
+    amount?: number | undefined;
+    description?: string | undefined;
+    category?: string | undefined;
+    approvers?: {
+        userId: string;
+        name?: string | undefined;
+        email?: string | undefined;
+    }[] | undefined;
+    approvalPolicy?: {
+        type: "all";
+    } | {
+        type: "any";
+    } | {
+        type: "majority";
+    } | {
+        type: "n_of_m";
+        required: number;
+    } | {
+        type: "required_approver";
+        approverId: string;
+        base?: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | undefined;
+    } | undefined;
+    schedule?: {
+        frequency: "weekly";
+        dayOfWeek: number;
+        hour?: number | undefined;
+    } | {
+        frequency: "monthly";
+        dayOfMonth: number;
+        hour?: number | undefined;
+    } | {
+        frequency: "cron";
+        expression: string;
+    } | undefined;
+    preApprove?: boolean | undefined;
+}>;
+export type CreateRecurringRequestBody = import("../validation.js").Infer<typeof createRecurringRequestBody>;
+export type UpdateRecurringRequestBody = import("../validation.js").Infer<typeof updateRecurringRequestBody>;
@@ -0,0 +1,79 @@
+export const createRequestTemplateBody: import("../validation.js").Schema<{
+    name: string;
+    amount?: number | null | undefined;
+    description?: string | undefined;
+    category?: string | null | undefined;
+    approvers?: {
+        userId: string;
+        name?: string | undefined;
+        email?: string | undefined;
+    }[] | null | undefined;
+    groupId?: string | null | undefined;
+    approvalPolicy?: {
+        type: "all";
+    } | {
+        type: "any";
+    } | {
+        type: "majority";
+    } | {
+        type: "n_of_m";
+        required: number;
+    } | {
+        type: "required_approver";
+        approverId: string;
+        base?: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | undefined;
+    } | null | undefined;
+    receiptRequired?: boolean | undefined;
+}>;
+export const updateRequestTemplateBody: import("../validation.js").Schema<{
+    name?: string | undefined;
+    amount?: number | null | undefined;
+    description?: string | undefined;
+    category?: string | null | undefined;
+    approvers?: {
+        userId: string;
+        name?: string | undefined;
+        email?: string | undefined;
+    }[] | null | undefined;
+    groupId?: string | null | undefined;
+    approvalPolicy?: {
+        type: "all";
+    } | {
+        type: "any";
+    } | {
+        type: "majority";
+    } | {
+        type: "n_of_m";
+        required: number;
+    } | {
+        type: "required_approver";
+        approverId: string;
+        base?: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | undefined;
+    } | null | undefined;
+    receiptRequired?: boolean | undefined;
+}>;
+export const templateFromRequestBody: import("../validation.js").Schema<{
+    name?: string | undefined;
+    receiptRequired?: boolean | undefined;
+}>;
+export type CreateRequestTemplateBody = import("../validation.js").Infer<typeof createRequestTemplateBody>;
+export type UpdateRequestTemplateBody = import("../validation.js").Infer<typeof updateRequestTemplateBody>;
+export type TemplateFromRequestBody = import("../validation.js").Infer<typeof templateFromRequestBody>;
@@ -0,0 +1,106 @@
+export const initializeBody: import("../validation.js").Schema<{
+    firstName?: string | undefined;
+    lastName?: string | undefined;
+}>;
+export const addMoneyBody: import("../validation.js").Schema<{
+    amount: number;
+    memo?: string | null | undefined;
+    source?: "program" | "ach" | "peer" | undefined;
+    sourceId?: string | undefined;
+}>;
+export const linkBankAccountBody: import("../validation.js").Schema<{
+    holderName: string;
+    routingNumber: string;
+    accountNumber: string;
+    accountType: "checking" | "savings";
+    nickname?: string | null | undefined;
+}>;
+export const verifyBankAccountBody: import("../validation.js").Schema<{
+    amounts: number[];
+}>;
+export const withdrawBody: import("../validation.js").Schema<{
+    amount: number;
+    bankAccountId: string;
+    speed?: "instant" | "standard" | undefined;
+}>;
+export const revealCardBody: import("../validation.js").Schema<{
+    revealToken: string;
+}>;
+export const issueRequestCardBody: import("../validation.js").Schema<{
+    requestId: string;
+}>;
+export const cardActionBody: import("../validation.js").Schema<{
+    cardToken?: string | undefined;
+    reason?: string | null | undefined;
+}>;
+export const updateSettingsBody: import("../validation.js").Schema<{
+    approvalPolicy?: {
+        type: "all";
+    } | {
+        type: "any";
+    } | {
+        type: "majority";
+    } | {
+        type: "n_of_m";
+        required: number;
+    } | {
+        type: "required_approver";
+        approverId: string;
+        base?: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | undefined;
+    } | null | undefined;
+    approvalThreshold?: number | null | undefined;
+    approvalBands?: {
+        minAmount: number;
+        maxAmount?: number | null | undefined;
+        minApprovers?: number | null | undefined;
+        policy?: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | {
+            type: "required_approver";
+            approverId: string;
+            base?: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | undefined;
+        } | null | undefined;
+    }[] | undefined;
+    backupApprover?: {
+        userId: string;
+        name?: string | undefined;
+        email?: string | undefined;
+    } | null | undefined;
+    allowPeerFunding?: boolean | undefined;
+    peerFundingLimit?: number | undefined;
+    peerFundingUserIds?: string[] | undefined;
+}>;
+export type InitializeBody = import("../validation.js").Infer<typeof initializeBody>;
+export type AddMoneyBody = import("../validation.js").Infer<typeof addMoneyBody>;
+export type LinkBankAccountBody = import("../validation.js").Infer<typeof linkBankAccountBody>;
+export type VerifyBankAccountBody = import("../validation.js").Infer<typeof verifyBankAccountBody>;
+export type WithdrawBody = import("../validation.js").Infer<typeof withdrawBody>;
+export type RevealCardBody = import("../validation.js").Infer<typeof revealCardBody>;
+export type IssueRequestCardBody = import("../validation.js").Infer<typeof issueRequestCardBody>;
+export type CardActionBody = import("../validation.js").Infer<typeof cardActionBody>;
+export type UpdateSettingsBody = import("../validation.js").Infer<typeof updateSettingsBody>;
@@ -0,0 +1,47 @@
+/**
+ * @template {Record<string, Endpoint>} T
+ * @param {T} endpoints
+ * @param {{ request: Transport, checkResponses?: boolean }} options
+ * @returns {ApiClient<T>}
+ */
+export function createApiClient<T extends Record<string, Endpoint>>(endpoints: T, { request, checkResponses }: {
+    request: Transport;
+    checkResponses?: boolean;
+}): ApiClient<T>;
+export type Endpoint = EndpointSchemas & {
+    method: Method;
+    path: string;
+};
+export type Transport = (path: string, init: {
+    method: Method;
+    headers?: Record<string, string>;
+    body?: string;
+}) => Promise<{
+    data?: unknown;
+}>;
+/**
+ * `{ id: string }` for '/payment-requests/:id'
+ */
+export type PathParams<P extends string> = P extends `${string}:${infer K}/${infer Rest}` ? { [key in K]: string; } & PathParams<`/${Rest}`> : P extends `${string}:${infer K}` ? { [key in K]: string; } : {};
+export type CallOptions<E extends Endpoint> = {
+    headers?: Record<string, string>;
+} & ({} extends PathParams<E["path"]> ? {
+    params?: undefined;
+} : {
+    params: PathParams<E["path"]>;
+}) & (E["query"] extends import("./validation.js").Schema<infer Q> ? {
+    query: Q;
+} : {
+    query?: undefined;
+}) & (E["body"] extends import("./validation.js").Schema<infer B> ? {
+    body: B;
+} : {
+    body?: undefined;
+});
+/**
+ * Options can be left out when the endpoint needs no params, query or body
+ */
+export type ClientMethod<E extends Endpoint> = {} extends CallOptions<E> ? (options?: CallOptions<E>) => Promise<import("./validation.js").Infer<E["response"]>> : (options: CallOptions<E>) => Promise<import("./validation.js").Infer<E["response"]>>;
+export type ApiClient<T extends Record<string, Endpoint>> = { [K in keyof T]: ClientMethod<T[K]>; };
+import type { EndpointSchemas } from './endpoints.js';
+import type { Method } from './endpoints.js';
@@ -0,0 +1,2656 @@
+/**
+ * @typedef {'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'} Method
+ * @typedef {import('./validation.js').Schema<any>} AnySchema
+ * @typedef {{ query?: AnySchema, body?: AnySchema, response: AnySchema }} EndpointSchemas
+ */
+/**
+ * @template {Method} M
+ * @template {string} P
+ * @template {EndpointSchemas} S
+ * @param {M} method
+ * @param {P} path
+ * @param {S} schemas
+ * @returns {{ method: M, path: P } & S}
+ */
+export function endpoint<M extends Method, P extends string, S extends EndpointSchemas>(method: M, path: P, schemas: S): {
+    method: M;
+    path: P;
+} & S;
+export namespace endpoints {
+    let initializeUser: {
+        method: "POST";
+        path: "/users/initialize";
+    } & {
+        body: import("./validation.js").Schema<{
+            firstName?: string | undefined;
+            lastName?: string | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            marqetaUserToken: string;
+            alreadyInitialized: boolean;
+            marqetaUser?: any;
+        }>;
+    };
+    let boot: {
+        method: "GET";
+        path: "/users/boot";
+    } & {
+        response: import("./validation.js").Schema<{
+            balance: number;
+            transactions: {
+                token: string;
+                type: string;
+                state: string;
+                amount: number;
+                created_time?: string | null | undefined;
+                card_token?: string | null | undefined;
+                memo?: string | null | undefined;
+                card_acceptor?: {
+                    name?: string | null | undefined;
+                    mcc?: string | null | undefined;
+                } | null | undefined;
+            }[];
+            card: {
+                hasCard: boolean;
+                card: {
+                    token: string;
+                    lastFour: string;
+                    expiration: string;
+                    expirationTime: string;
+                    state: string;
+                    cardProductToken: string;
+                    createdTime: string;
+                    purpose?: "primary" | "request" | undefined;
+                    requestId?: string | null | undefined;
+                    label?: string | null | undefined;
+                    singleUse?: boolean | undefined;
+                    amountLimit?: number | null | undefined;
+                } | null;
+            };
+            myRequests: {
+                id: string;
+                senderId: string;
+                senderName: string;
+                amount: number;
+                description: string;
+                category: string;
+                status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+                approvers: {
+                    userId: string;
+                    status: "pending" | "rejected" | "approved";
+                    name?: string | null | undefined;
+                    email?: string | null | undefined;
+                    approvedAt?: string | null | undefined;
+                    rejectedAt?: string | null | undefined;
+                    approvedAmount?: number | null | undefined;
+                }[];
+                approvalPolicy: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | {
+                    type: "required_approver";
+                    approverId: string;
+                    base?: {
+                        type: "all";
+                    } | {
+                        type: "any";
+                    } | {
+                        type: "majority";
+                    } | {
+                        type: "n_of_m";
+                        required: number;
+                    } | undefined;
+                };
+                createdAt: string;
+                updatedAt: string;
+                senderEmail?: string | null | undefined;
+                imageUrl?: string | null | undefined;
+                approvedBy?: {
+                    userId: string;
+                    name: string;
+                    approvedAt: string;
+                    amount?: number | null | undefined;
+                }[] | null | undefined;
+                rejectedBy?: {
+                    userId: string;
+                    name: string;
+                    rejectedAt: string;
+                } | null | undefined;
+                notes?: string | null | undefined;
+                autoApproved?: boolean | null | undefined;
+                preApproved?: boolean | null | undefined;
+                expiresAt?: string | null | undefined;
+                backupApprover?: {
+                    userId: string;
+                    name?: string | undefined;
+                    email?: string | undefined;
+                } | null | undefined;
+                resubmittedFrom?: string | null | undefined;
+                recurringRequestId?: string | null | undefined;
+                approvedAmount?: number | null | undefined;
+                counterOffer?: {
+                    approverId: string;
+                    approverName: string;
+                    amount: number;
+                    notes: string | null;
+                    status: "pending" | "accepted" | "declined";
+                    createdAt: string;
+                    respondedAt?: string | undefined;
+                } | null | undefined;
+                fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+                fundingError?: string | null | undefined;
+                fundedAt?: string | null | undefined;
+                jitAmount?: number | null | undefined;
+                jitMerchant?: string | null | undefined;
+            }[];
+            requestsToApprove: {
+                id: string;
+                senderId: string;
+                senderName: string;
+                amount: number;
+                description: string;
+                category: string;
+                status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+                approvers: {
+                    userId: string;
+                    status: "pending" | "rejected" | "approved";
+                    name?: string | null | undefined;
+                    email?: string | null | undefined;
+                    approvedAt?: string | null | undefined;
+                    rejectedAt?: string | null | undefined;
+                    approvedAmount?: number | null | undefined;
+                }[];
+                approvalPolicy: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | {
+                    type: "required_approver";
+                    approverId: string;
+                    base?: {
+                        type: "all";
+                    } | {
+                        type: "any";
+                    } | {
+                        type: "majority";
+                    } | {
+                        type: "n_of_m";
+                        required: number;
+                    } | undefined;
+                };
+                createdAt: string;
+                updatedAt: string;
+                senderEmail?: string | null | undefined;
+                imageUrl?: string | null | undefined;
+                approvedBy?: {
+                    userId: string;
+                    name: string;
+                    approvedAt: string;
+                    amount?: number | null | undefined;
+                }[] | null | undefined;
+                rejectedBy?: {
+                    userId: string;
+                    name: string;
+                    rejectedAt: string;
+                } | null | undefined;
+                notes?: string | null | undefined;
+                autoApproved?: boolean | null | undefined;
+                preApproved?: boolean | null | undefined;
+                expiresAt?: string | null | undefined;
+                backupApprover?: {
+                    userId: string;
+                    name?: string | undefined;
+                    email?: string | undefined;
+                } | null | undefined;
+                resubmittedFrom?: string | null | undefined;
+                recurringRequestId?: string | null | undefined;
+                approvedAmount?: number | null | undefined;
+                counterOffer?: {
+                    approverId: string;
+                    approverName: string;
+                    amount: number;
+                    notes: string | null;
+                    status: "pending" | "accepted" | "declined";
+                    createdAt: string;
+                    respondedAt?: string | undefined;
+                } | null | undefined;
+                fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+                fundingError?: string | null | undefined;
+                fundedAt?: string | null | undefined;
+                jitAmount?: number | null | undefined;
+                jitMerchant?: string | null | undefined;
+            }[];
+            requestsWatching: {
+                id: string;
+                senderId: string;
+                senderName: string;
+                amount: number;
+                description: string;
+                category: string;
+                status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+                approvers: {
+                    userId: string;
+                    status: "pending" | "rejected" | "approved";
+                    name?: string | null | undefined;
+                    email?: string | null | undefined;
+                    approvedAt?: string | null | undefined;
+                    rejectedAt?: string | null | undefined;
+                    approvedAmount?: number | null | undefined;
+                }[];
+                approvalPolicy: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | {
+                    type: "required_approver";
+                    approverId: string;
+                    base?: {
+                        type: "all";
+                    } | {
+                        type: "any";
+                    } | {
+                        type: "majority";
+                    } | {
+                        type: "n_of_m";
+                        required: number;
+                    } | undefined;
+                };
+                createdAt: string;
+                updatedAt: string;
+                senderEmail?: string | null | undefined;
+                imageUrl?: string | null | undefined;
+                approvedBy?: {
+                    userId: string;
+                    name: string;
+                    approvedAt: string;
+                    amount?: number | null | undefined;
+                }[] | null | undefined;
+                rejectedBy?: {
+                    userId: string;
+                    name: string;
+                    rejectedAt: string;
+                } | null | undefined;
+                notes?: string | null | undefined;
+                autoApproved?: boolean | null | undefined;
+                preApproved?: boolean | null | undefined;
+                expiresAt?: string | null | undefined;
+                backupApprover?: {
+                    userId: string;
+                    name?: string | undefined;
+                    email?: string | undefined;
+                } | null | undefined;
+                resubmittedFrom?: string | null | undefined;
+                recurringRequestId?: string | null | undefined;
+                approvedAmount?: number | null | undefined;
+                counterOffer?: {
+                    approverId: string;
+                    approverName: string;
+                    amount: number;
+                    notes: string | null;
+                    status: "pending" | "accepted" | "declined";
+                    createdAt: string;
+                    respondedAt?: string | undefined;
+                } | null | undefined;
+                fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+                fundingError?: string | null | undefined;
+                fundedAt?: string | null | undefined;
+                jitAmount?: number | null | undefined;
+                jitMerchant?: string | null | undefined;
+            }[];
+        }>;
+    };
+    let getCurrentUser: {
+        method: "GET";
+        path: "/users/me";
+    } & {
+        response: import("./validation.js").Schema<{
+            initialized: boolean;
+            userId: string;
+            email?: string | null | undefined;
+            name?: string | null | undefined;
+            marqetaUserToken?: string | undefined;
+            marqetaUser?: any;
+            balance?: number | undefined;
+        }>;
+    };
+    let getWalletBalance: {
+        method: "GET";
+        path: "/users/balance";
+    } & {
+        response: import("./validation.js").Schema<{
+            balance: number;
+            currency: string;
+            lastUpdated: string;
+        }>;
+    };
+    let getFundingSources: {
+        method: "GET";
+        path: "/users/funding-sources";
+    } & {
+        response: import("./validation.js").Schema<{
+            source: "program" | "ach" | "peer";
+            label: string;
+            description: string;
+            available: boolean;
+            options: {
+                id: string;
+                label: string;
+            }[];
+        }[]>;
+    };
+    let addMoney: {
+        method: "POST";
+        path: "/users/wallet/add";
+    } & {
+        body: import("./validation.js").Schema<{
+            amount: number;
+            memo?: string | null | undefined;
+            source?: "program" | "ach" | "peer" | undefined;
+            sourceId?: string | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            newBalance: number;
+            source: "program" | "ach" | "peer";
+            transaction?: any;
+        }>;
+    };
+    let withdrawMoney: {
+        method: "POST";
+        path: "/users/wallet/withdraw";
+    } & {
+        body: import("./validation.js").Schema<{
+            amount: number;
+            bankAccountId: string;
+            speed?: "instant" | "standard" | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            withdrawal: {
+                id: string;
+                bankAccountId: string;
+                amount: number;
+                fee: number;
+                speed: "instant" | "standard";
+                status: "failed" | "completed" | "pending" | "processing" | "refund_failed";
+                expectedArrivalAt: string | null;
+                failureReason: string | null;
+                createdAt: string;
+            };
+            newBalance: number;
+        }>;
+    };
+    let getWithdrawals: {
+        method: "GET";
+        path: "/users/withdrawals";
+    } & {
+        response: import("./validation.js").Schema<{
+            id: string;
+            bankAccountId: string;
+            amount: number;
+            fee: number;
+            speed: "instant" | "standard";
+            status: "failed" | "completed" | "pending" | "processing" | "refund_failed";
+            expectedArrivalAt: string | null;
+            failureReason: string | null;
+            createdAt: string;
+        }[]>;
+    };
+    let getTransactions: {
+        method: "GET";
+        path: "/users/transactions";
+    } & {
+        response: import("./validation.js").Schema<{
+            token: string;
+            type: string;
+            state: string;
+            amount: number;
+            created_time?: string | null | undefined;
+            card_token?: string | null | undefined;
+            memo?: string | null | undefined;
+            card_acceptor?: {
+                name?: string | null | undefined;
+                mcc?: string | null | undefined;
+            } | null | undefined;
+        }[]>;
+    };
+    let getCard: {
+        method: "GET";
+        path: "/users/card";
+    } & {
+        response: import("./validation.js").Schema<{
+            hasCard: boolean;
+            card: {
+                token: string;
+                lastFour: string;
+                expiration: string;
+                expirationTime: string;
+                state: string;
+                cardProductToken: string;
+                createdTime: string;
+                purpose?: "primary" | "request" | undefined;
+                requestId?: string | null | undefined;
+                label?: string | null | undefined;
+                singleUse?: boolean | undefined;
+                amountLimit?: number | null | undefined;
+            } | null;
+        }>;
+    };
+    let createCard: {
+        method: "POST";
+        path: "/users/card";
+    } & {
+        response: import("./validation.js").Schema<{
+            alreadyExists: boolean;
+            card: {
+                token: string;
+                lastFour: string;
+                expiration: string;
+                expirationTime: string;
+                state: string;
+                cardProductToken: string;
+                createdTime: string;
+                purpose?: "primary" | "request" | undefined;
+                requestId?: string | null | undefined;
+                label?: string | null | undefined;
+                singleUse?: boolean | undefined;
+                amountLimit?: number | null | undefined;
+            };
+        }>;
+    };
+    let getCards: {
+        method: "GET";
+        path: "/users/cards";
+    } & {
+        response: import("./validation.js").Schema<{
+            token: string;
+            lastFour: string;
+            expiration: string;
+            expirationTime: string;
+            state: string;
+            cardProductToken: string;
+            createdTime: string;
+            purpose?: "primary" | "request" | undefined;
+            requestId?: string | null | undefined;
+            label?: string | null | undefined;
+            singleUse?: boolean | undefined;
+            amountLimit?: number | null | undefined;
+        }[]>;
+    };
+    let getCardByToken: {
+        method: "GET";
+        path: "/users/cards/:token";
+    } & {
+        response: import("./validation.js").Schema<{
+            token: string;
+            lastFour: string;
+            expiration: string;
+            expirationTime: string;
+            state: string;
+            cardProductToken: string;
+            createdTime: string;
+            purpose?: "primary" | "request" | undefined;
+            requestId?: string | null | undefined;
+            label?: string | null | undefined;
+            singleUse?: boolean | undefined;
+            amountLimit?: number | null | undefined;
+        }>;
+    };
+    let issueRequestCard: {
+        method: "POST";
+        path: "/users/cards";
+    } & {
+        body: import("./validation.js").Schema<{
+            requestId: string;
+        }>;
+        response: import("./validation.js").Schema<{
+            card: {
+                token: string;
+                lastFour: string;
+                expiration: string;
+                expirationTime: string;
+                state: string;
+                cardProductToken: string;
+                createdTime: string;
+                purpose?: "primary" | "request" | undefined;
+                requestId?: string | null | undefined;
+                label?: string | null | undefined;
+                singleUse?: boolean | undefined;
+                amountLimit?: number | null | undefined;
+            };
+        }>;
+    };
+    let createRevealToken: {
+        method: "POST";
+        path: "/users/cards/:token/reveal-token";
+    } & {
+        response: import("./validation.js").Schema<{
+            revealToken: string;
+            expiresAt: string;
+        }>;
+    };
+    let revealCard: {
+        method: "POST";
+        path: "/users/cards/reveal";
+    } & {
+        body: import("./validation.js").Schema<{
+            revealToken: string;
+        }>;
+        response: import("./validation.js").Schema<{
+            token: string;
+            pan: string;
+            cvv: string | null;
+            expiration: string;
+            lastFour: string;
+        }>;
+    };
+    let changeCardState: {
+        method: "POST";
+        path: "/users/card/:action";
+    } & {
+        body: import("./validation.js").Schema<{
+            cardToken?: string | undefined;
+            reason?: string | null | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            card: {
+                token: string;
+                lastFour: string;
+                expiration: string;
+                expirationTime: string;
+                state: string;
+                cardProductToken: string;
+                createdTime: string;
+                purpose?: "primary" | "request" | undefined;
+                requestId?: string | null | undefined;
+                label?: string | null | undefined;
+                singleUse?: boolean | undefined;
+                amountLimit?: number | null | undefined;
+            };
+        }>;
+    };
+    let getUserSettings: {
+        method: "GET";
+        path: "/users/settings";
+    } & {
+        response: import("./validation.js").Schema<{
+            userId: string;
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            } | null;
+            approvalThreshold: number | null;
+            approvalBands: {
+                minAmount: number;
+                maxAmount: number | null;
+                minApprovers: number | null;
+                policy: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | {
+                    type: "required_approver";
+                    approverId: string;
+                    base?: {
+                        type: "all";
+                    } | {
+                        type: "any";
+                    } | {
+                        type: "majority";
+                    } | {
+                        type: "n_of_m";
+                        required: number;
+                    } | undefined;
+                } | null;
+            }[];
+            backupApprover: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            } | null;
+            allowPeerFunding: boolean;
+            peerFundingLimit: number;
+            peerFundingUserIds: string[];
+            updatedAt: string | null;
+        }>;
+    };
+    let updateUserSettings: {
+        method: "PUT";
+        path: "/users/settings";
+    } & {
+        body: import("./validation.js").Schema<{
+            approvalPolicy?: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            } | null | undefined;
+            approvalThreshold?: number | null | undefined;
+            approvalBands?: {
+                minAmount: number;
+                maxAmount?: number | null | undefined;
+                minApprovers?: number | null | undefined;
+                policy?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | {
+                    type: "required_approver";
+                    approverId: string;
+                    base?: {
+                        type: "all";
+                    } | {
+                        type: "any";
+                    } | {
+                        type: "majority";
+                    } | {
+                        type: "n_of_m";
+                        required: number;
+                    } | undefined;
+                } | null | undefined;
+            }[] | undefined;
+            backupApprover?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            } | null | undefined;
+            allowPeerFunding?: boolean | undefined;
+            peerFundingLimit?: number | undefined;
+            peerFundingUserIds?: string[] | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            userId: string;
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            } | null;
+            approvalThreshold: number | null;
+            approvalBands: {
+                minAmount: number;
+                maxAmount: number | null;
+                minApprovers: number | null;
+                policy: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | {
+                    type: "required_approver";
+                    approverId: string;
+                    base?: {
+                        type: "all";
+                    } | {
+                        type: "any";
+                    } | {
+                        type: "majority";
+                    } | {
+                        type: "n_of_m";
+                        required: number;
+                    } | undefined;
+                } | null;
+            }[];
+            backupApprover: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            } | null;
+            allowPeerFunding: boolean;
+            peerFundingLimit: number;
+            peerFundingUserIds: string[];
+            updatedAt: string | null;
+        }>;
+    };
+    let getBankAccounts: {
+        method: "GET";
+        path: "/users/bank-accounts";
+    } & {
+        response: import("./validation.js").Schema<{
+            id: string;
+            nickname: string | null;
+            holderName: string;
+            accountType: "checking" | "savings";
+            routingNumber: string;
+            lastFour: string;
+            status: "pending_verification" | "verified" | "verification_failed";
+            verificationAttemptsLeft: number;
+            verifiedAt: string | null;
+            createdAt: string;
+            sandboxMicroDeposits?: number[] | undefined;
+        }[]>;
+    };
+    let linkBankAccount: {
+        method: "POST";
+        path: "/users/bank-accounts";
+    } & {
+        body: import("./validation.js").Schema<{
+            holderName: string;
+            routingNumber: string;
+            accountNumber: string;
+            accountType: "checking" | "savings";
+            nickname?: string | null | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            nickname: string | null;
+            holderName: string;
+            accountType: "checking" | "savings";
+            routingNumber: string;
+            lastFour: string;
+            status: "pending_verification" | "verified" | "verification_failed";
+            verificationAttemptsLeft: number;
+            verifiedAt: string | null;
+            createdAt: string;
+            sandboxMicroDeposits?: number[] | undefined;
+        }>;
+    };
+    let verifyBankAccount: {
+        method: "POST";
+        path: "/users/bank-accounts/:id/verify";
+    } & {
+        body: import("./validation.js").Schema<{
+            amounts: number[];
+        }>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            nickname: string | null;
+            holderName: string;
+            accountType: "checking" | "savings";
+            routingNumber: string;
+            lastFour: string;
+            status: "pending_verification" | "verified" | "verification_failed";
+            verificationAttemptsLeft: number;
+            verifiedAt: string | null;
+            createdAt: string;
+            sandboxMicroDeposits?: number[] | undefined;
+        }>;
+    };
+    let removeBankAccount: {
+        method: "DELETE";
+        path: "/users/bank-accounts/:id";
+    } & {
+        response: import("./validation.js").Schema<{
+            removed: boolean;
+        }>;
+    };
+    let getFundingStatus: {
+        method: "GET";
+        path: "/users/funding-status";
+    } & {
+        response: import("./validation.js").Schema<{
+            mode: "SANDBOX" | "PRODUCTION";
+            isSandbox: boolean;
+            unlimitedFunds: boolean;
+            fundingSource: string;
+            fundingSources: {
+                source: "program" | "ach" | "peer";
+                label: string;
+                description: string;
+                available: boolean;
+            }[];
+            baseUrl: string;
+            message: string;
+            fundingInfo?: any;
+        }>;
+    };
+    let getSpendControls: {
+        method: "GET";
+        path: "/users/spend-controls";
+    } & {
+        response: import("./validation.js").Schema<{
+            limits: {
+                category: string;
+                limit: number;
+                available: number | null;
+                spent: number | null;
+            }[];
+            restrictedCategories: string[];
+        }>;
+    };
+    let getReconciliation: {
+        method: "GET";
+        path: "/users/reconciliation";
+    } & {
+        response: import("./validation.js").Schema<{
+            requests: {
+                requestId: string;
+                description: string;
+                category: string;
+                approvedAmount: number;
+                spent: number;
+                remaining: number;
+                status: "spent" | "unspent" | "partially_spent" | "overspent";
+                flags: ("unspent" | "overspent" | "off_purpose")[];
+                windowEndsAt: string;
+                transactions: {
+                    token: string;
+                    amount: number;
+                    cardToken: string;
+                    merchantName: string | null;
+                    mcc: string | null;
+                    time: string;
+                    settled: boolean;
+                    matchedBy?: "amount" | "category" | "card" | "jit" | undefined;
+                    onPurpose?: boolean | null | undefined;
+                }[];
+            }[];
+            unmatchedTransactions: {
+                token: string;
+                amount: number;
+                cardToken: string;
+                merchantName: string | null;
+                mcc: string | null;
+                time: string;
+                settled: boolean;
+                matchedBy?: "amount" | "category" | "card" | "jit" | undefined;
+                onPurpose?: boolean | null | undefined;
+            }[];
+            summary: {
+                approved: number;
+                spent: number;
+                unmatchedSpend: number;
+                flagged: number;
+            };
+        }>;
+    };
+    let getRequestReconciliation: {
+        method: "GET";
+        path: "/users/reconciliation";
+    } & {
+        query: import("./validation.js").Schema<{
+            requestId: string;
+        }>;
+        response: import("./validation.js").Schema<{
+            requestId: string;
+            description: string;
+            category: string;
+            approvedAmount: number;
+            spent: number;
+            remaining: number;
+            status: "spent" | "unspent" | "partially_spent" | "overspent";
+            flags: ("unspent" | "overspent" | "off_purpose")[];
+            windowEndsAt: string;
+            transactions: {
+                token: string;
+                amount: number;
+                cardToken: string;
+                merchantName: string | null;
+                mcc: string | null;
+                time: string;
+                settled: boolean;
+                matchedBy?: "amount" | "category" | "card" | "jit" | undefined;
+                onPurpose?: boolean | null | undefined;
+            }[];
+        } | null>;
+    };
+    let createRequest: {
+        method: "POST";
+        path: "/marqeta/payment-requests";
+    } & {
+        body: import("./validation.js").Schema<{
+            amount: number;
+            approvers: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            }[];
+            description?: string | undefined;
+            category?: string | undefined;
+            imageUrl?: string | null | undefined;
+            approvalPolicy?: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            } | undefined;
+            expiresAt?: string | null | undefined;
+            backupApprover?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            } | null | undefined;
+            templateId?: string | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            senderId: string;
+            senderName: string;
+            amount: number;
+            description: string;
+            category: string;
+            status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+            approvers: {
+                userId: string;
+                status: "pending" | "rejected" | "approved";
+                name?: string | null | undefined;
+                email?: string | null | undefined;
+                approvedAt?: string | null | undefined;
+                rejectedAt?: string | null | undefined;
+                approvedAmount?: number | null | undefined;
+            }[];
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            };
+            createdAt: string;
+            updatedAt: string;
+            senderEmail?: string | null | undefined;
+            imageUrl?: string | null | undefined;
+            approvedBy?: {
+                userId: string;
+                name: string;
+                approvedAt: string;
+                amount?: number | null | undefined;
+            }[] | null | undefined;
+            rejectedBy?: {
+                userId: string;
+                name: string;
+                rejectedAt: string;
+            } | null | undefined;
+            notes?: string | null | undefined;
+            autoApproved?: boolean | null | undefined;
+            preApproved?: boolean | null | undefined;
+            expiresAt?: string | null | undefined;
+            backupApprover?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            } | null | undefined;
+            resubmittedFrom?: string | null | undefined;
+            recurringRequestId?: string | null | undefined;
+            approvedAmount?: number | null | undefined;
+            counterOffer?: {
+                approverId: string;
+                approverName: string;
+                amount: number;
+                notes: string | null;
+                status: "pending" | "accepted" | "declined";
+                createdAt: string;
+                respondedAt?: string | undefined;
+            } | null | undefined;
+            fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+            fundingError?: string | null | undefined;
+            fundedAt?: string | null | undefined;
+            jitAmount?: number | null | undefined;
+            jitMerchant?: string | null | undefined;
+        }>;
+    };
+    let listRequests: {
+        method: "GET";
+        path: "/marqeta/payment-requests";
+    } & {
+        query: import("./validation.js").Schema<{
+            filter?: "mine" | "to-approve" | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            senderId: string;
+            senderName: string;
+            amount: number;
+            description: string;
+            category: string;
+            status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+            approvers: {
+                userId: string;
+                status: "pending" | "rejected" | "approved";
+                name?: string | null | undefined;
+                email?: string | null | undefined;
+                approvedAt?: string | null | undefined;
+                rejectedAt?: string | null | undefined;
+                approvedAmount?: number | null | undefined;
+            }[];
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            };
+            createdAt: string;
+            updatedAt: string;
+            senderEmail?: string | null | undefined;
+            imageUrl?: string | null | undefined;
+            approvedBy?: {
+                userId: string;
+                name: string;
+                approvedAt: string;
+                amount?: number | null | undefined;
+            }[] | null | undefined;
+            rejectedBy?: {
+                userId: string;
+                name: string;
+                rejectedAt: string;
+            } | null | undefined;
+            notes?: string | null | undefined;
+            autoApproved?: boolean | null | undefined;
+            preApproved?: boolean | null | undefined;
+            expiresAt?: string | null | undefined;
+            backupApprover?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            } | null | undefined;
+            resubmittedFrom?: string | null | undefined;
+            recurringRequestId?: string | null | undefined;
+            approvedAmount?: number | null | undefined;
+            counterOffer?: {
+                approverId: string;
+                approverName: string;
+                amount: number;
+                notes: string | null;
+                status: "pending" | "accepted" | "declined";
+                createdAt: string;
+                respondedAt?: string | undefined;
+            } | null | undefined;
+            fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+            fundingError?: string | null | undefined;
+            fundedAt?: string | null | undefined;
+            jitAmount?: number | null | undefined;
+            jitMerchant?: string | null | undefined;
+        }[]>;
+    };
+    let getRequest: {
+        method: "GET";
+        path: "/marqeta/payment-requests/:id";
+    } & {
+        response: import("./validation.js").Schema<{
+            id: string;
+            senderId: string;
+            senderName: string;
+            amount: number;
+            description: string;
+            category: string;
+            status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+            approvers: {
+                userId: string;
+                status: "pending" | "rejected" | "approved";
+                name?: string | null | undefined;
+                email?: string | null | undefined;
+                approvedAt?: string | null | undefined;
+                rejectedAt?: string | null | undefined;
+                approvedAmount?: number | null | undefined;
+            }[];
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            };
+            createdAt: string;
+            updatedAt: string;
+            senderEmail?: string | null | undefined;
+            imageUrl?: string | null | undefined;
+            approvedBy?: {
+                userId: string;
+                name: string;
+                approvedAt: string;
+                amount?: number | null | undefined;
+            }[] | null | undefined;
+            rejectedBy?: {
+                userId: string;
+                name: string;
+                rejectedAt: string;
+            } | null | undefined;
+            notes?: string | null | undefined;
+            autoApproved?: boolean | null | undefined;
+            preApproved?: boolean | null | undefined;
+            expiresAt?: string | null | undefined;
+            backupApprover?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            } | null | undefined;
+            resubmittedFrom?: string | null | undefined;
+            recurringRequestId?: string | null | undefined;
+            approvedAmount?: number | null | undefined;
+            counterOffer?: {
+                approverId: string;
+                approverName: string;
+                amount: number;
+                notes: string | null;
+                status: "pending" | "accepted" | "declined";
+                createdAt: string;
+                respondedAt?: string | undefined;
+            } | null | undefined;
+            fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+            fundingError?: string | null | undefined;
+            fundedAt?: string | null | undefined;
+            jitAmount?: number | null | undefined;
+            jitMerchant?: string | null | undefined;
+        }>;
+    };
+    let getRequestHistory: {
+        method: "GET";
+        path: "/marqeta/payment-requests/:id/history";
+    } & {
+        response: import("./validation.js").Schema<{
+            id: string;
+            requestId: string;
+            type: "expired" | "rejected" | "approved" | "cancelled" | "funded" | "funding_failed" | "created" | "viewed" | "counter_offered" | "counter_offer_accepted" | "counter_offer_declined" | "edited" | "resubmitted" | "funding_reversed" | "reminded" | "escalated";
+            actorId: string | null;
+            actorName: string;
+            createdAt: string;
+            data?: any;
+        }[]>;
+    };
+    let approveRequest: {
+        method: "POST";
+        path: "/marqeta/payment-requests/:id/approve";
+    } & {
+        body: import("./validation.js").Schema<{
+            notes?: string | null | undefined;
+            amount?: number | null | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            senderId: string;
+            senderName: string;
+            amount: number;
+            description: string;
+            category: string;
+            status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+            approvers: {
+                userId: string;
+                status: "pending" | "rejected" | "approved";
+                name?: string | null | undefined;
+                email?: string | null | undefined;
+                approvedAt?: string | null | undefined;
+                rejectedAt?: string | null | undefined;
+                approvedAmount?: number | null | undefined;
+            }[];
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            };
+            createdAt: string;
+            updatedAt: string;
+            senderEmail?: string | null | undefined;
+            imageUrl?: string | null | undefined;
+            approvedBy?: {
+                userId: string;
+                name: string;
+                approvedAt: string;
+                amount?: number | null | undefined;
+            }[] | null | undefined;
+            rejectedBy?: {
+                userId: string;
+                name: string;
+                rejectedAt: string;
+            } | null | undefined;
+            notes?: string | null | undefined;
+            autoApproved?: boolean | null | undefined;
+            preApproved?: boolean | null | undefined;
+            expiresAt?: string | null | undefined;
+            backupApprover?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            } | null | undefined;
+            resubmittedFrom?: string | null | undefined;
+            recurringRequestId?: string | null | undefined;
+            approvedAmount?: number | null | undefined;
+            counterOffer?: {
+                approverId: string;
+                approverName: string;
+                amount: number;
+                notes: string | null;
+                status: "pending" | "accepted" | "declined";
+                createdAt: string;
+                respondedAt?: string | undefined;
+            } | null | undefined;
+            fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+            fundingError?: string | null | undefined;
+            fundedAt?: string | null | undefined;
+            jitAmount?: number | null | undefined;
+            jitMerchant?: string | null | undefined;
+        }>;
+    };
+    let rejectRequest: {
+        method: "POST";
+        path: "/marqeta/payment-requests/:id/reject";
+    } & {
+        body: import("./validation.js").Schema<{
+            notes?: string | null | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            senderId: string;
+            senderName: string;
+            amount: number;
+            description: string;
+            category: string;
+            status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+            approvers: {
+                userId: string;
+                status: "pending" | "rejected" | "approved";
+                name?: string | null | undefined;
+                email?: string | null | undefined;
+                approvedAt?: string | null | undefined;
+                rejectedAt?: string | null | undefined;
+                approvedAmount?: number | null | undefined;
+            }[];
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            };
+            createdAt: string;
+            updatedAt: string;
+            senderEmail?: string | null | undefined;
+            imageUrl?: string | null | undefined;
+            approvedBy?: {
+                userId: string;
+                name: string;
+                approvedAt: string;
+                amount?: number | null | undefined;
+            }[] | null | undefined;
+            rejectedBy?: {
+                userId: string;
+                name: string;
+                rejectedAt: string;
+            } | null | undefined;
+            notes?: string | null | undefined;
+            autoApproved?: boolean | null | undefined;
+            preApproved?: boolean | null | undefined;
+            expiresAt?: string | null | undefined;
+            backupApprover?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            } | null | undefined;
+            resubmittedFrom?: string | null | undefined;
+            recurringRequestId?: string | null | undefined;
+            approvedAmount?: number | null | undefined;
+            counterOffer?: {
+                approverId: string;
+                approverName: string;
+                amount: number;
+                notes: string | null;
+                status: "pending" | "accepted" | "declined";
+                createdAt: string;
+                respondedAt?: string | undefined;
+            } | null | undefined;
+            fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+            fundingError?: string | null | undefined;
+            fundedAt?: string | null | undefined;
+            jitAmount?: number | null | undefined;
+            jitMerchant?: string | null | undefined;
+        }>;
+    };
+    let cancelRequest: {
+        method: "POST";
+        path: "/marqeta/payment-requests/:id/cancel";
+    } & {
+        body: import("./validation.js").Schema<{
+            reason?: string | null | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            senderId: string;
+            senderName: string;
+            amount: number;
+            description: string;
+            category: string;
+            status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+            approvers: {
+                userId: string;
+                status: "pending" | "rejected" | "approved";
+                name?: string | null | undefined;
+                email?: string | null | undefined;
+                approvedAt?: string | null | undefined;
+                rejectedAt?: string | null | undefined;
+                approvedAmount?: number | null | undefined;
+            }[];
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            };
+            createdAt: string;
+            updatedAt: string;
+            senderEmail?: string | null | undefined;
+            imageUrl?: string | null | undefined;
+            approvedBy?: {
+                userId: string;
+                name: string;
+                approvedAt: string;
+                amount?: number | null | undefined;
+            }[] | null | undefined;
+            rejectedBy?: {
+                userId: string;
+                name: string;
+                rejectedAt: string;
+            } | null | undefined;
+            notes?: string | null | undefined;
+            autoApproved?: boolean | null | undefined;
+            preApproved?: boolean | null | undefined;
+            expiresAt?: string | null | undefined;
+            backupApprover?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            } | null | undefined;
+            resubmittedFrom?: string | null | undefined;
+            recurringRequestId?: string | null | undefined;
+            approvedAmount?: number | null | undefined;
+            counterOffer?: {
+                approverId: string;
+                approverName: string;
+                amount: number;
+                notes: string | null;
+                status: "pending" | "accepted" | "declined";
+                createdAt: string;
+                respondedAt?: string | undefined;
+            } | null | undefined;
+            fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+            fundingError?: string | null | undefined;
+            fundedAt?: string | null | undefined;
+            jitAmount?: number | null | undefined;
+            jitMerchant?: string | null | undefined;
+        }>;
+    };
+    let editRequest: {
+        method: "PATCH";
+        path: "/marqeta/payment-requests/:id";
+    } & {
+        body: import("./validation.js").Schema<{
+            amount?: number | undefined;
+            description?: string | undefined;
+            category?: string | undefined;
+            imageUrl?: string | null | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            senderId: string;
+            senderName: string;
+            amount: number;
+            description: string;
+            category: string;
+            status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+            approvers: {
+                userId: string;
+                status: "pending" | "rejected" | "approved";
+                name?: string | null | undefined;
+                email?: string | null | undefined;
+                approvedAt?: string | null | undefined;
+                rejectedAt?: string | null | undefined;
+                approvedAmount?: number | null | undefined;
+            }[];
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            };
+            createdAt: string;
+            updatedAt: string;
+            senderEmail?: string | null | undefined;
+            imageUrl?: string | null | undefined;
+            approvedBy?: {
+                userId: string;
+                name: string;
+                approvedAt: string;
+                amount?: number | null | undefined;
+            }[] | null | undefined;
+            rejectedBy?: {
+                userId: string;
+                name: string;
+                rejectedAt: string;
+            } | null | undefined;
+            notes?: string | null | undefined;
+            autoApproved?: boolean | null | undefined;
+            preApproved?: boolean | null | undefined;
+            expiresAt?: string | null | undefined;
+            backupApprover?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            } | null | undefined;
+            resubmittedFrom?: string | null | undefined;
+            recurringRequestId?: string | null | undefined;
+            approvedAmount?: number | null | undefined;
+            counterOffer?: {
+                approverId: string;
+                approverName: string;
+                amount: number;
+                notes: string | null;
+                status: "pending" | "accepted" | "declined";
+                createdAt: string;
+                respondedAt?: string | undefined;
+            } | null | undefined;
+            fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+            fundingError?: string | null | undefined;
+            fundedAt?: string | null | undefined;
+            jitAmount?: number | null | undefined;
+            jitMerchant?: string | null | undefined;
+        }>;
+    };
+    let resubmitRequest: {
+        method: "POST";
+        path: "/marqeta/payment-requests/:id/resubmit";
+    } & {
+        body: import("./validation.js").Schema<{
+            amount?: number | undefined;
+            description?: string | undefined;
+            category?: string | undefined;
+            imageUrl?: string | null | undefined;
+            approvers?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            }[] | undefined;
+            approvalPolicy?: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            } | undefined;
+            expiresAt?: string | null | undefined;
+            backupApprover?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            } | null | undefined;
+            templateId?: string | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            senderId: string;
+            senderName: string;
+            amount: number;
+            description: string;
+            category: string;
+            status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+            approvers: {
+                userId: string;
+                status: "pending" | "rejected" | "approved";
+                name?: string | null | undefined;
+                email?: string | null | undefined;
+                approvedAt?: string | null | undefined;
+                rejectedAt?: string | null | undefined;
+                approvedAmount?: number | null | undefined;
+            }[];
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            };
+            createdAt: string;
+            updatedAt: string;
+            senderEmail?: string | null | undefined;
+            imageUrl?: string | null | undefined;
+            approvedBy?: {
+                userId: string;
+                name: string;
+                approvedAt: string;
+                amount?: number | null | undefined;
+            }[] | null | undefined;
+            rejectedBy?: {
+                userId: string;
+                name: string;
+                rejectedAt: string;
+            } | null | undefined;
+            notes?: string | null | undefined;
+            autoApproved?: boolean | null | undefined;
+            preApproved?: boolean | null | undefined;
+            expiresAt?: string | null | undefined;
+            backupApprover?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            } | null | undefined;
+            resubmittedFrom?: string | null | undefined;
+            recurringRequestId?: string | null | undefined;
+            approvedAmount?: number | null | undefined;
+            counterOffer?: {
+                approverId: string;
+                approverName: string;
+                amount: number;
+                notes: string | null;
+                status: "pending" | "accepted" | "declined";
+                createdAt: string;
+                respondedAt?: string | undefined;
+            } | null | undefined;
+            fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+            fundingError?: string | null | undefined;
+            fundedAt?: string | null | undefined;
+            jitAmount?: number | null | undefined;
+            jitMerchant?: string | null | undefined;
+        }>;
+    };
+    let sendCounterOffer: {
+        method: "POST";
+        path: "/marqeta/payment-requests/:id/counter-offer";
+    } & {
+        body: import("./validation.js").Schema<{
+            amount: number;
+            notes?: string | null | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            senderId: string;
+            senderName: string;
+            amount: number;
+            description: string;
+            category: string;
+            status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+            approvers: {
+                userId: string;
+                status: "pending" | "rejected" | "approved";
+                name?: string | null | undefined;
+                email?: string | null | undefined;
+                approvedAt?: string | null | undefined;
+                rejectedAt?: string | null | undefined;
+                approvedAmount?: number | null | undefined;
+            }[];
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            };
+            createdAt: string;
+            updatedAt: string;
+            senderEmail?: string | null | undefined;
+            imageUrl?: string | null | undefined;
+            approvedBy?: {
+                userId: string;
+                name: string;
+                approvedAt: string;
+                amount?: number | null | undefined;
+            }[] | null | undefined;
+            rejectedBy?: {
+                userId: string;
+                name: string;
+                rejectedAt: string;
+            } | null | undefined;
+            notes?: string | null | undefined;
+            autoApproved?: boolean | null | undefined;
+            preApproved?: boolean | null | undefined;
+            expiresAt?: string | null | undefined;
+            backupApprover?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            } | null | undefined;
+            resubmittedFrom?: string | null | undefined;
+            recurringRequestId?: string | null | undefined;
+            approvedAmount?: number | null | undefined;
+            counterOffer?: {
+                approverId: string;
+                approverName: string;
+                amount: number;
+                notes: string | null;
+                status: "pending" | "accepted" | "declined";
+                createdAt: string;
+                respondedAt?: string | undefined;
+            } | null | undefined;
+            fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+            fundingError?: string | null | undefined;
+            fundedAt?: string | null | undefined;
+            jitAmount?: number | null | undefined;
+            jitMerchant?: string | null | undefined;
+        }>;
+    };
+    let respondToCounterOffer: {
+        method: "POST";
+        path: "/marqeta/payment-requests/:id/counter-offer/:decision";
+    } & {
+        body: import("./validation.js").Schema<{}>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            senderId: string;
+            senderName: string;
+            amount: number;
+            description: string;
+            category: string;
+            status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+            approvers: {
+                userId: string;
+                status: "pending" | "rejected" | "approved";
+                name?: string | null | undefined;
+                email?: string | null | undefined;
+                approvedAt?: string | null | undefined;
+                rejectedAt?: string | null | undefined;
+                approvedAmount?: number | null | undefined;
+            }[];
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            };
+            createdAt: string;
+            updatedAt: string;
+            senderEmail?: string | null | undefined;
+            imageUrl?: string | null | undefined;
+            approvedBy?: {
+                userId: string;
+                name: string;
+                approvedAt: string;
+                amount?: number | null | undefined;
+            }[] | null | undefined;
+            rejectedBy?: {
+                userId: string;
+                name: string;
+                rejectedAt: string;
+            } | null | undefined;
+            notes?: string | null | undefined;
+            autoApproved?: boolean | null | undefined;
+            preApproved?: boolean | null | undefined;
+            expiresAt?: string | null | undefined;
+            backupApprover?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            } | null | undefined;
+            resubmittedFrom?: string | null | undefined;
+            recurringRequestId?: string | null | undefined;
+            approvedAmount?: number | null | undefined;
+            counterOffer?: {
+                approverId: string;
+                approverName: string;
+                amount: number;
+                notes: string | null;
+                status: "pending" | "accepted" | "declined";
+                createdAt: string;
+                respondedAt?: string | undefined;
+            } | null | undefined;
+            fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+            fundingError?: string | null | undefined;
+            fundedAt?: string | null | undefined;
+            jitAmount?: number | null | undefined;
+            jitMerchant?: string | null | undefined;
+        }>;
+    };
+    let getSimulationOptions: {
+        method: "GET";
+        path: "/marqeta/simulate";
+    } & {
+        response: import("./validation.js").Schema<{
+            enabled: boolean;
+            scenarios: {
+                scenario: "authorization" | "clearing" | "reversal" | "refund" | "decline";
+                followsTransaction: boolean;
+                description: string;
+            }[];
+        }>;
+    };
+    let simulateTransaction: {
+        method: "POST";
+        path: "/marqeta/simulate/:scenario";
+    } & {
+        body: import("./validation.js").Schema<{
+            cardToken?: string | undefined;
+            transactionToken?: string | undefined;
+            amount?: number | undefined;
+            merchantName?: string | undefined;
+            mcc?: string | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            token: string;
+            type: string;
+            state: string;
+            amount: number;
+            cardToken: string;
+            merchantName: string | null;
+            mcc: string | null;
+            responseCode: string | null;
+            responseMemo: string | null;
+            precedingTransactionToken: string | null;
+            createdTime: string | null;
+        }>;
+    };
+    let getRecurringRequests: {
+        method: "GET";
+        path: "/recurring-requests";
+    } & {
+        response: import("./validation.js").Schema<{
+            id: string;
+            senderId: string;
+            senderName: string;
+            amount: number;
+            description: string;
+            category: string;
+            approvers: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            }[];
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            };
+            schedule: {
+                frequency: "weekly";
+                dayOfWeek: number;
+                hour?: number | undefined;
+            } | {
+                frequency: "monthly";
+                dayOfMonth: number;
+                hour?: number | undefined;
+            } | {
+                frequency: "cron";
+                expression: string;
+            };
+            preApproval: {
+                status: "pending" | "rejected" | "approved";
+                approvers: {
+                    userId: string;
+                    name: string;
+                    status: "pending" | "rejected" | "approved";
+                    email?: string | null | undefined;
+                    decidedAt?: string | undefined;
+                }[];
+                decidedAt?: string | undefined;
+            } | null;
+            active: boolean;
+            nextRunAt: string | null;
+            lastRunAt: string | null;
+            lastRequestId: string | null;
+            lastError: string | null;
+            createdAt: string;
+            updatedAt: string;
+            senderEmail?: string | null | undefined;
+        }[]>;
+    };
+    let createRecurringRequest: {
+        method: "POST";
+        path: "/recurring-requests";
+    } & {
+        body: import("./validation.js").Schema<{
+            amount: number;
+            approvers: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            }[];
+            schedule: {
+                frequency: "weekly";
+                dayOfWeek: number;
+                hour?: number | undefined;
+            } | {
+                frequency: "monthly";
+                dayOfMonth: number;
+                hour?: number | undefined;
+            } | {
+                frequency: "cron";
+                expression: string;
+            };
+            description?: string | undefined;
+            category?: string | undefined;
+            approvalPolicy?: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            } | undefined;
+            preApprove?: boolean | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            senderId: string;
+            senderName: string;
+            amount: number;
+            description: string;
+            category: string;
+            approvers: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            }[];
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            };
+            schedule: {
+                frequency: "weekly";
+                dayOfWeek: number;
+                hour?: number | undefined;
+            } | {
+                frequency: "monthly";
+                dayOfMonth: number;
+                hour?: number | undefined;
+            } | {
+                frequency: "cron";
+                expression: string;
+            };
+            preApproval: {
+                status: "pending" | "rejected" | "approved";
+                approvers: {
+                    userId: string;
+                    name: string;
+                    status: "pending" | "rejected" | "approved";
+                    email?: string | null | undefined;
+                    decidedAt?: string | undefined;
+                }[];
+                decidedAt?: string | undefined;
+            } | null;
+            active: boolean;
+            nextRunAt: string | null;
+            lastRunAt: string | null;
+            lastRequestId: string | null;
+            lastError: string | null;
+            createdAt: string;
+            updatedAt: string;
+            senderEmail?: string | null | undefined;
+        }>;
+    };
+    let updateRecurringRequest: {
+        method: "PATCH";
+        path: "/recurring-requests/:id";
+    } & {
+        body: import("./validation.js").Schema<{
+            active?: boolean | undefined;
+            amount?: number | undefined;
+            description?: string | undefined;
+            category?: string | undefined;
+            approvers?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            }[] | undefined;
+            approvalPolicy?: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            } | undefined;
+            schedule?: {
+                frequency: "weekly";
+                dayOfWeek: number;
+                hour?: number | undefined;
+            } | {
+                frequency: "monthly";
+                dayOfMonth: number;
+                hour?: number | undefined;
+            } | {
+                frequency: "cron";
+                expression: string;
+            } | undefined;
+            preApprove?: boolean | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            senderId: string;
+            senderName: string;
+            amount: number;
+            description: string;
+            category: string;
+            approvers: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            }[];
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            };
+            schedule: {
+                frequency: "weekly";
+                dayOfWeek: number;
+                hour?: number | undefined;
+            } | {
+                frequency: "monthly";
+                dayOfMonth: number;
+                hour?: number | undefined;
+            } | {
+                frequency: "cron";
+                expression: string;
+            };
+            preApproval: {
+                status: "pending" | "rejected" | "approved";
+                approvers: {
+                    userId: string;
+                    name: string;
+                    status: "pending" | "rejected" | "approved";
+                    email?: string | null | undefined;
+                    decidedAt?: string | undefined;
+                }[];
+                decidedAt?: string | undefined;
+            } | null;
+            active: boolean;
+            nextRunAt: string | null;
+            lastRunAt: string | null;
+            lastRequestId: string | null;
+            lastError: string | null;
+            createdAt: string;
+            updatedAt: string;
+            senderEmail?: string | null | undefined;
+        }>;
+    };
+    let deleteRecurringRequest: {
+        method: "DELETE";
+        path: "/recurring-requests/:id";
+    } & {
+        response: import("./validation.js").Schema<{
+            id: string;
+        }>;
+    };
+    let respondToPreApproval: {
+        method: "POST";
+        path: "/recurring-requests/:id/pre-approval/:decision";
+    } & {
+        response: import("./validation.js").Schema<{
+            id: string;
+            senderId: string;
+            senderName: string;
+            amount: number;
+            description: string;
+            category: string;
+            approvers: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            }[];
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            };
+            schedule: {
+                frequency: "weekly";
+                dayOfWeek: number;
+                hour?: number | undefined;
+            } | {
+                frequency: "monthly";
+                dayOfMonth: number;
+                hour?: number | undefined;
+            } | {
+                frequency: "cron";
+                expression: string;
+            };
+            preApproval: {
+                status: "pending" | "rejected" | "approved";
+                approvers: {
+                    userId: string;
+                    name: string;
+                    status: "pending" | "rejected" | "approved";
+                    email?: string | null | undefined;
+                    decidedAt?: string | undefined;
+                }[];
+                decidedAt?: string | undefined;
+            } | null;
+            active: boolean;
+            nextRunAt: string | null;
+            lastRunAt: string | null;
+            lastRequestId: string | null;
+            lastError: string | null;
+            createdAt: string;
+            updatedAt: string;
+            senderEmail?: string | null | undefined;
+        }>;
+    };
+    let getRequestTemplates: {
+        method: "GET";
+        path: "/request-templates";
+    } & {
+        response: import("./validation.js").Schema<{
+            id: string;
+            userId: string;
+            name: string;
+            amount: number | null;
+            description: string;
+            category: string | null;
+            approvers: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            }[];
+            groupId: string | null;
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            } | null;
+            receiptRequired: boolean;
+            createdAt: string;
+            updatedAt: string;
+        }[]>;
+    };
+    let createRequestTemplate: {
+        method: "POST";
+        path: "/request-templates";
+    } & {
+        body: import("./validation.js").Schema<{
+            name: string;
+            amount?: number | null | undefined;
+            description?: string | undefined;
+            category?: string | null | undefined;
+            approvers?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            }[] | null | undefined;
+            groupId?: string | null | undefined;
+            approvalPolicy?: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            } | null | undefined;
+            receiptRequired?: boolean | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            userId: string;
+            name: string;
+            amount: number | null;
+            description: string;
+            category: string | null;
+            approvers: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            }[];
+            groupId: string | null;
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            } | null;
+            receiptRequired: boolean;
+            createdAt: string;
+            updatedAt: string;
+        }>;
+    };
+    let saveRequestAsTemplate: {
+        method: "POST";
+        path: "/request-templates/from-request/:requestId";
+    } & {
+        body: import("./validation.js").Schema<{
+            name?: string | undefined;
+            receiptRequired?: boolean | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            userId: string;
+            name: string;
+            amount: number | null;
+            description: string;
+            category: string | null;
+            approvers: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            }[];
+            groupId: string | null;
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            } | null;
+            receiptRequired: boolean;
+            createdAt: string;
+            updatedAt: string;
+        }>;
+    };
+    let updateRequestTemplate: {
+        method: "PATCH";
+        path: "/request-templates/:id";
+    } & {
+        body: import("./validation.js").Schema<{
+            name?: string | undefined;
+            amount?: number | null | undefined;
+            description?: string | undefined;
+            category?: string | null | undefined;
+            approvers?: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            }[] | null | undefined;
+            groupId?: string | null | undefined;
+            approvalPolicy?: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            } | null | undefined;
+            receiptRequired?: boolean | undefined;
+        }>;
+        response: import("./validation.js").Schema<{
+            id: string;
+            userId: string;
+            name: string;
+            amount: number | null;
+            description: string;
+            category: string | null;
+            approvers: {
+                userId: string;
+                name?: string | undefined;
+                email?: string | undefined;
+            }[];
+            groupId: string | null;
+            approvalPolicy: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | {
+                type: "required_approver";
+                approverId: string;
+                base?: {
+                    type: "all";
+                } | {
+                    type: "any";
+                } | {
+                    type: "majority";
+                } | {
+                    type: "n_of_m";
+                    required: number;
+                } | undefined;
+            } | null;
+            receiptRequired: boolean;
+            createdAt: string;
+            updatedAt: string;
+        }>;
+    };
+    let deleteRequestTemplate: {
+        method: "DELETE";
+        path: "/request-templates/:id";
+    } & {
+        response: import("./validation.js").Schema<{
+            id: string;
+        }>;
+    };
+}
+export type Method = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+export type AnySchema = import("./validation.js").Schema<any>;
+export type EndpointSchemas = {
+    query?: AnySchema;
+    body?: AnySchema;
+    response: AnySchema;
+};
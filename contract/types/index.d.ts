@@ -0,0 +1,8 @@
+export * from "./validation.js";
+export * from "./models.js";
+export * from "./bodies/users.js";
+export * from "./bodies/marqeta.js";
+export * from "./bodies/recurringRequests.js";
+export * from "./bodies/requestTemplates.js";
+export * from "./endpoints.js";
+export * from "./client.js";
@@ -0,0 +1,924 @@
+export const approverInput: import("./validation.js").Schema<{
+    userId: string;
+    name?: string | undefined;
+    email?: string | undefined;
+}>;
+export const APPROVER_STATUSES: readonly ["pending", "approved", "rejected"];
+export const approver: import("./validation.js").Schema<{
+    userId: string;
+    status: "pending" | "rejected" | "approved";
+    name?: string | null | undefined;
+    email?: string | null | undefined;
+    approvedAt?: string | null | undefined;
+    rejectedAt?: string | null | undefined;
+    approvedAmount?: number | null | undefined;
+}>;
+export const approvalPolicy: import("./validation.js").Schema<{
+    type: "all";
+} | {
+    type: "any";
+} | {
+    type: "majority";
+} | {
+    type: "n_of_m";
+    required: number;
+} | {
+    type: "required_approver";
+    approverId: string;
+    base?: {
+        type: "all";
+    } | {
+        type: "any";
+    } | {
+        type: "majority";
+    } | {
+        type: "n_of_m";
+        required: number;
+    } | undefined;
+}>;
+export const approvalBand: import("./validation.js").Schema<{
+    minAmount: number;
+    maxAmount: number | null;
+    minApprovers: number | null;
+    policy: {
+        type: "all";
+    } | {
+        type: "any";
+    } | {
+        type: "majority";
+    } | {
+        type: "n_of_m";
+        required: number;
+    } | {
+        type: "required_approver";
+        approverId: string;
+        base?: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | undefined;
+    } | null;
+}>;
+export const REQUEST_STATUSES: readonly ["pending", "approved", "rejected", "expired", "cancelled"];
+export const REQUEST_FUNDING_STATUSES: readonly ["approved_unfunded", "funding", "funded", "funding_failed", "jit_available", "jit_consumed"];
+export const counterOffer: import("./validation.js").Schema<{
+    approverId: string;
+    approverName: string;
+    amount: number;
+    notes: string | null;
+    status: "pending" | "accepted" | "declined";
+    createdAt: string;
+    respondedAt?: string | undefined;
+}>;
+export const paymentRequest: import("./validation.js").Schema<{
+    id: string;
+    senderId: string;
+    senderName: string;
+    amount: number;
+    description: string;
+    category: string;
+    status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+    approvers: {
+        userId: string;
+        status: "pending" | "rejected" | "approved";
+        name?: string | null | undefined;
+        email?: string | null | undefined;
+        approvedAt?: string | null | undefined;
+        rejectedAt?: string | null | undefined;
+        approvedAmount?: number | null | undefined;
+    }[];
+    approvalPolicy: {
+        type: "all";
+    } | {
+        type: "any";
+    } | {
+        type: "majority";
+    } | {
+        type: "n_of_m";
+        required: number;
+    } | {
+        type: "required_approver";
+        approverId: string;
+        base?: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | undefined;
+    };
+    createdAt: string;
+    updatedAt: string;
+    senderEmail?: string | null | undefined;
+    imageUrl?: string | null | undefined;
+    approvedBy?: {
+        userId: string;
+        name: string;
+        approvedAt: string;
+        amount?: number | null | undefined;
+    }[] | null | undefined;
+    rejectedBy?: {
+        userId: string;
+        name: string;
+        rejectedAt: string;
+    } | null | undefined;
+    notes?: string | null | undefined;
+    autoApproved?: boolean | null | undefined;
+    preApproved?: boolean | null | undefined;
+    expiresAt?: string | null | undefined;
+    backupApprover?: {
+        userId: string;
+        name?: string | undefined;
+        email?: string | undefined;
+    } | null | undefined;
+    resubmittedFrom?: string | null | undefined;
+    recurringRequestId?: string | null | undefined;
+    approvedAmount?: number | null | undefined;
+    counterOffer?: {
+        approverId: string;
+        approverName: string;
+        amount: number;
+        notes: string | null;
+        status: "pending" | "accepted" | "declined";
+        createdAt: string;
+        respondedAt?: string | undefined;
+    } | null | undefined;
+    fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+    fundingError?: string | null | undefined;
+    fundedAt?: string | null | undefined;
+    jitAmount?: number | null | undefined;
+    jitMerchant?: string | null | undefined;
+}>;
+export const REQUEST_EVENT_TYPES: readonly ["created", "viewed", "approved", "rejected", "counter_offered", "counter_offer_accepted", "counter_offer_declined", "edited", "cancelled", "resubmitted", "funded", "funding_failed", "funding_reversed", "reminded", "escalated", "expired"];
+export const requestEvent: import("./validation.js").Schema<{
+    id: string;
+    requestId: string;
+    type: "expired" | "rejected" | "approved" | "cancelled" | "funded" | "funding_failed" | "created" | "viewed" | "counter_offered" | "counter_offer_accepted" | "counter_offer_declined" | "edited" | "resubmitted" | "funding_reversed" | "reminded" | "escalated";
+    actorId: string | null;
+    actorName: string;
+    createdAt: string;
+    data?: any;
+}>;
+export const cardData: import("./validation.js").Schema<{
+    token: string;
+    lastFour: string;
+    expiration: string;
+    expirationTime: string;
+    state: string;
+    cardProductToken: string;
+    createdTime: string;
+    purpose?: "primary" | "request" | undefined;
+    requestId?: string | null | undefined;
+    label?: string | null | undefined;
+    singleUse?: boolean | undefined;
+    amountLimit?: number | null | undefined;
+}>;
+export const cardStatus: import("./validation.js").Schema<{
+    hasCard: boolean;
+    card: {
+        token: string;
+        lastFour: string;
+        expiration: string;
+        expirationTime: string;
+        state: string;
+        cardProductToken: string;
+        createdTime: string;
+        purpose?: "primary" | "request" | undefined;
+        requestId?: string | null | undefined;
+        label?: string | null | undefined;
+        singleUse?: boolean | undefined;
+        amountLimit?: number | null | undefined;
+    } | null;
+}>;
+export const cardRevealToken: import("./validation.js").Schema<{
+    revealToken: string;
+    expiresAt: string;
+}>;
+export const cardRevealDetails: import("./validation.js").Schema<{
+    token: string;
+    pan: string;
+    cvv: string | null;
+    expiration: string;
+    lastFour: string;
+}>;
+export const transaction: import("./validation.js").Schema<{
+    token: string;
+    type: string;
+    state: string;
+    amount: number;
+    created_time?: string | null | undefined;
+    card_token?: string | null | undefined;
+    memo?: string | null | undefined;
+    card_acceptor?: {
+        name?: string | null | undefined;
+        mcc?: string | null | undefined;
+    } | null | undefined;
+}>;
+export const currentUser: import("./validation.js").Schema<{
+    initialized: boolean;
+    userId: string;
+    email?: string | null | undefined;
+    name?: string | null | undefined;
+    marqetaUserToken?: string | undefined;
+    marqetaUser?: any;
+    balance?: number | undefined;
+}>;
+export const initializedUser: import("./validation.js").Schema<{
+    marqetaUserToken: string;
+    alreadyInitialized: boolean;
+    marqetaUser?: any;
+}>;
+export const bootData: import("./validation.js").Schema<{
+    balance: number;
+    transactions: {
+        token: string;
+        type: string;
+        state: string;
+        amount: number;
+        created_time?: string | null | undefined;
+        card_token?: string | null | undefined;
+        memo?: string | null | undefined;
+        card_acceptor?: {
+            name?: string | null | undefined;
+            mcc?: string | null | undefined;
+        } | null | undefined;
+    }[];
+    card: {
+        hasCard: boolean;
+        card: {
+            token: string;
+            lastFour: string;
+            expiration: string;
+            expirationTime: string;
+            state: string;
+            cardProductToken: string;
+            createdTime: string;
+            purpose?: "primary" | "request" | undefined;
+            requestId?: string | null | undefined;
+            label?: string | null | undefined;
+            singleUse?: boolean | undefined;
+            amountLimit?: number | null | undefined;
+        } | null;
+    };
+    myRequests: {
+        id: string;
+        senderId: string;
+        senderName: string;
+        amount: number;
+        description: string;
+        category: string;
+        status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+        approvers: {
+            userId: string;
+            status: "pending" | "rejected" | "approved";
+            name?: string | null | undefined;
+            email?: string | null | undefined;
+            approvedAt?: string | null | undefined;
+            rejectedAt?: string | null | undefined;
+            approvedAmount?: number | null | undefined;
+        }[];
+        approvalPolicy: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | {
+            type: "required_approver";
+            approverId: string;
+            base?: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | undefined;
+        };
+        createdAt: string;
+        updatedAt: string;
+        senderEmail?: string | null | undefined;
+        imageUrl?: string | null | undefined;
+        approvedBy?: {
+            userId: string;
+            name: string;
+            approvedAt: string;
+            amount?: number | null | undefined;
+        }[] | null | undefined;
+        rejectedBy?: {
+            userId: string;
+            name: string;
+            rejectedAt: string;
+        } | null | undefined;
+        notes?: string | null | undefined;
+        autoApproved?: boolean | null | undefined;
+        preApproved?: boolean | null | undefined;
+        expiresAt?: string | null | undefined;
+        backupApprover?: {
+            userId: string;
+            name?: string | undefined;
+            email?: string | undefined;
+        } | null | undefined;
+        resubmittedFrom?: string | null | undefined;
+        recurringRequestId?: string | null | undefined;
+        approvedAmount?: number | null | undefined;
+        counterOffer?: {
+            approverId: string;
+            approverName: string;
+            amount: number;
+            notes: string | null;
+            status: "pending" | "accepted" | "declined";
+            createdAt: string;
+            respondedAt?: string | undefined;
+        } | null | undefined;
+        fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+        fundingError?: string | null | undefined;
+        fundedAt?: string | null | undefined;
+        jitAmount?: number | null | undefined;
+        jitMerchant?: string | null | undefined;
+    }[];
+    requestsToApprove: {
+        id: string;
+        senderId: string;
+        senderName: string;
+        amount: number;
+        description: string;
+        category: string;
+        status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+        approvers: {
+            userId: string;
+            status: "pending" | "rejected" | "approved";
+            name?: string | null | undefined;
+            email?: string | null | undefined;
+            approvedAt?: string | null | undefined;
+            rejectedAt?: string | null | undefined;
+            approvedAmount?: number | null | undefined;
+        }[];
+        approvalPolicy: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | {
+            type: "required_approver";
+            approverId: string;
+            base?: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | undefined;
+        };
+        createdAt: string;
+        updatedAt: string;
+        senderEmail?: string | null | undefined;
+        imageUrl?: string | null | undefined;
+        approvedBy?: {
+            userId: string;
+            name: string;
+            approvedAt: string;
+            amount?: number | null | undefined;
+        }[] | null | undefined;
+        rejectedBy?: {
+            userId: string;
+            name: string;
+            rejectedAt: string;
+        } | null | undefined;
+        notes?: string | null | undefined;
+        autoApproved?: boolean | null | undefined;
+        preApproved?: boolean | null | undefined;
+        expiresAt?: string | null | undefined;
+        backupApprover?: {
+            userId: string;
+            name?: string | undefined;
+            email?: string | undefined;
+        } | null | undefined;
+        resubmittedFrom?: string | null | undefined;
+        recurringRequestId?: string | null | undefined;
+        approvedAmount?: number | null | undefined;
+        counterOffer?: {
+            approverId: string;
+            approverName: string;
+            amount: number;
+            notes: string | null;
+            status: "pending" | "accepted" | "declined";
+            createdAt: string;
+            respondedAt?: string | undefined;
+        } | null | undefined;
+        fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+        fundingError?: string | null | undefined;
+        fundedAt?: string | null | undefined;
+        jitAmount?: number | null | undefined;
+        jitMerchant?: string | null | undefined;
+    }[];
+    requestsWatching: {
+        id: string;
+        senderId: string;
+        senderName: string;
+        amount: number;
+        description: string;
+        category: string;
+        status: "pending" | "expired" | "rejected" | "approved" | "cancelled";
+        approvers: {
+            userId: string;
+            status: "pending" | "rejected" | "approved";
+            name?: string | null | undefined;
+            email?: string | null | undefined;
+            approvedAt?: string | null | undefined;
+            rejectedAt?: string | null | undefined;
+            approvedAmount?: number | null | undefined;
+        }[];
+        approvalPolicy: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | {
+            type: "required_approver";
+            approverId: string;
+            base?: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | undefined;
+        };
+        createdAt: string;
+        updatedAt: string;
+        senderEmail?: string | null | undefined;
+        imageUrl?: string | null | undefined;
+        approvedBy?: {
+            userId: string;
+            name: string;
+            approvedAt: string;
+            amount?: number | null | undefined;
+        }[] | null | undefined;
+        rejectedBy?: {
+            userId: string;
+            name: string;
+            rejectedAt: string;
+        } | null | undefined;
+        notes?: string | null | undefined;
+        autoApproved?: boolean | null | undefined;
+        preApproved?: boolean | null | undefined;
+        expiresAt?: string | null | undefined;
+        backupApprover?: {
+            userId: string;
+            name?: string | undefined;
+            email?: string | undefined;
+        } | null | undefined;
+        resubmittedFrom?: string | null | undefined;
+        recurringRequestId?: string | null | undefined;
+        approvedAmount?: number | null | undefined;
+        counterOffer?: {
+            approverId: string;
+            approverName: string;
+            amount: number;
+            notes: string | null;
+            status: "pending" | "accepted" | "declined";
+            createdAt: string;
+            respondedAt?: string | undefined;
+        } | null | undefined;
+        fundingStatus?: "approved_unfunded" | "funding" | "funded" | "funding_failed" | "jit_available" | "jit_consumed" | null | undefined;
+        fundingError?: string | null | undefined;
+        fundedAt?: string | null | undefined;
+        jitAmount?: number | null | undefined;
+        jitMerchant?: string | null | undefined;
+    }[];
+}>;
+export const walletBalance: import("./validation.js").Schema<{
+    balance: number;
+    currency: string;
+    lastUpdated: string;
+}>;
+export const FUNDING_SOURCE_TYPES: readonly ["program", "ach", "peer"];
+export const fundingSource: import("./validation.js").Schema<{
+    source: "program" | "ach" | "peer";
+    label: string;
+    description: string;
+    available: boolean;
+    options: {
+        id: string;
+        label: string;
+    }[];
+}>;
+export const addMoneyResult: import("./validation.js").Schema<{
+    newBalance: number;
+    source: "program" | "ach" | "peer";
+    transaction?: any;
+}>;
+export const withdrawal: import("./validation.js").Schema<{
+    id: string;
+    bankAccountId: string;
+    amount: number;
+    fee: number;
+    speed: "instant" | "standard";
+    status: "failed" | "completed" | "pending" | "processing" | "refund_failed";
+    expectedArrivalAt: string | null;
+    failureReason: string | null;
+    createdAt: string;
+}>;
+export const withdrawResult: import("./validation.js").Schema<{
+    withdrawal: {
+        id: string;
+        bankAccountId: string;
+        amount: number;
+        fee: number;
+        speed: "instant" | "standard";
+        status: "failed" | "completed" | "pending" | "processing" | "refund_failed";
+        expectedArrivalAt: string | null;
+        failureReason: string | null;
+        createdAt: string;
+    };
+    newBalance: number;
+}>;
+export const bankAccount: import("./validation.js").Schema<{
+    id: string;
+    nickname: string | null;
+    holderName: string;
+    accountType: "checking" | "savings";
+    routingNumber: string;
+    lastFour: string;
+    status: "pending_verification" | "verified" | "verification_failed";
+    verificationAttemptsLeft: number;
+    verifiedAt: string | null;
+    createdAt: string;
+    sandboxMicroDeposits?: number[] | undefined;
+}>;
+export const userSettings: import("./validation.js").Schema<{
+    userId: string;
+    approvalPolicy: {
+        type: "all";
+    } | {
+        type: "any";
+    } | {
+        type: "majority";
+    } | {
+        type: "n_of_m";
+        required: number;
+    } | {
+        type: "required_approver";
+        approverId: string;
+        base?: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | undefined;
+    } | null;
+    approvalThreshold: number | null;
+    approvalBands: {
+        minAmount: number;
+        maxAmount: number | null;
+        minApprovers: number | null;
+        policy: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | {
+            type: "required_approver";
+            approverId: string;
+            base?: {
+                type: "all";
+            } | {
+                type: "any";
+            } | {
+                type: "majority";
+            } | {
+                type: "n_of_m";
+                required: number;
+            } | undefined;
+        } | null;
+    }[];
+    backupApprover: {
+        userId: string;
+        name?: string | undefined;
+        email?: string | undefined;
+    } | null;
+    allowPeerFunding: boolean;
+    peerFundingLimit: number;
+    peerFundingUserIds: string[];
+    updatedAt: string | null;
+}>;
+export const fundingStatus: import("./validation.js").Schema<{
+    mode: "SANDBOX" | "PRODUCTION";
+    isSandbox: boolean;
+    unlimitedFunds: boolean;
+    fundingSource: string;
+    fundingSources: {
+        source: "program" | "ach" | "peer";
+        label: string;
+        description: string;
+        available: boolean;
+    }[];
+    baseUrl: string;
+    message: string;
+    fundingInfo?: any;
+}>;
+export const spendControls: import("./validation.js").Schema<{
+    limits: {
+        category: string;
+        limit: number;
+        available: number | null;
+        spent: number | null;
+    }[];
+    restrictedCategories: string[];
+}>;
+export const reconciledPurchase: import("./validation.js").Schema<{
+    token: string;
+    amount: number;
+    cardToken: string;
+    merchantName: string | null;
+    mcc: string | null;
+    time: string;
+    settled: boolean;
+    matchedBy?: "amount" | "category" | "card" | "jit" | undefined;
+    onPurpose?: boolean | null | undefined;
+}>;
+export const requestReconciliation: import("./validation.js").Schema<{
+    requestId: string;
+    description: string;
+    category: string;
+    approvedAmount: number;
+    spent: number;
+    remaining: number;
+    status: "spent" | "unspent" | "partially_spent" | "overspent";
+    flags: ("unspent" | "overspent" | "off_purpose")[];
+    windowEndsAt: string;
+    transactions: {
+        token: string;
+        amount: number;
+        cardToken: string;
+        merchantName: string | null;
+        mcc: string | null;
+        time: string;
+        settled: boolean;
+        matchedBy?: "amount" | "category" | "card" | "jit" | undefined;
+        onPurpose?: boolean | null | undefined;
+    }[];
+}>;
+export const reconciliation: import("./validation.js").Schema<{
+    requests: {
+        requestId: string;
+        description: string;
+        category: string;
+        approvedAmount: number;
+        spent: number;
+        remaining: number;
+        status: "spent" | "unspent" | "partially_spent" | "overspent";
+        flags: ("unspent" | "overspent" | "off_purpose")[];
+        windowEndsAt: string;
+        transactions: {
+            token: string;
+            amount: number;
+            cardToken: string;
+            merchantName: string | null;
+            mcc: string | null;
+            time: string;
+            settled: boolean;
+            matchedBy?: "amount" | "category" | "card" | "jit" | undefined;
+            onPurpose?: boolean | null | undefined;
+        }[];
+    }[];
+    unmatchedTransactions: {
+        token: string;
+        amount: number;
+        cardToken: string;
+        merchantName: string | null;
+        mcc: string | null;
+        time: string;
+        settled: boolean;
+        matchedBy?: "amount" | "category" | "card" | "jit" | undefined;
+        onPurpose?: boolean | null | undefined;
+    }[];
+    summary: {
+        approved: number;
+        spent: number;
+        unmatchedSpend: number;
+        flagged: number;
+    };
+}>;
+export const SIMULATION_SCENARIOS: readonly ["authorization", "clearing", "reversal", "refund", "decline"];
+export const simulationOptions: import("./validation.js").Schema<{
+    enabled: boolean;
+    scenarios: {
+        scenario: "authorization" | "clearing" | "reversal" | "refund" | "decline";
+        followsTransaction: boolean;
+        description: string;
+    }[];
+}>;
+export const simulatedTransaction: import("./validation.js").Schema<{
+    token: string;
+    type: string;
+    state: string;
+    amount: number;
+    cardToken: string;
+    merchantName: string | null;
+    mcc: string | null;
+    responseCode: string | null;
+    responseMemo: string | null;
+    precedingTransactionToken: string | null;
+    createdTime: string | null;
+}>;
+export const recurringSchedule: import("./validation.js").Schema<{
+    frequency: "weekly";
+    dayOfWeek: number;
+    hour?: number | undefined;
+} | {
+    frequency: "monthly";
+    dayOfMonth: number;
+    hour?: number | undefined;
+} | {
+    frequency: "cron";
+    expression: string;
+}>;
+export const recurringPreApproval: import("./validation.js").Schema<{
+    status: "pending" | "rejected" | "approved";
+    approvers: {
+        userId: string;
+        name: string;
+        status: "pending" | "rejected" | "approved";
+        email?: string | null | undefined;
+        decidedAt?: string | undefined;
+    }[];
+    decidedAt?: string | undefined;
+}>;
+export const recurringRequest: import("./validation.js").Schema<{
+    id: string;
+    senderId: string;
+    senderName: string;
+    amount: number;
+    description: string;
+    category: string;
+    approvers: {
+        userId: string;
+        name?: string | undefined;
+        email?: string | undefined;
+    }[];
+    approvalPolicy: {
+        type: "all";
+    } | {
+        type: "any";
+    } | {
+        type: "majority";
+    } | {
+        type: "n_of_m";
+        required: number;
+    } | {
+        type: "required_approver";
+        approverId: string;
+        base?: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | undefined;
+    };
+    schedule: {
+        frequency: "weekly";
+        dayOfWeek: number;
+        hour?: number | undefined;
+    } | {
+        frequency: "monthly";
+        dayOfMonth: number;
+        hour?: number | undefined;
+    } | {
+        frequency: "cron";
+        expression: string;
+    };
+    preApproval: {
+        status: "pending" | "rejected" | "approved";
+        approvers: {
+            userId: string;
+            name: string;
+            status: "pending" | "rejected" | "approved";
+            email?: string | null | undefined;
+            decidedAt?: string | undefined;
+        }[];
+        decidedAt?: string | undefined;
+    } | null;
+    active: boolean;
+    nextRunAt: string | null;
+    lastRunAt: string | null;
+    lastRequestId: string | null;
+    lastError: string | null;
+    createdAt: string;
+    updatedAt: string;
+    senderEmail?: string | null | undefined;
+}>;
+export const requestTemplate: import("./validation.js").Schema<{
+    id: string;
+    userId: string;
+    name: string;
+    amount: number | null;
+    description: string;
+    category: string | null;
+    approvers: {
+        userId: string;
+        name?: string | undefined;
+        email?: string | undefined;
+    }[];
+    groupId: string | null;
+    approvalPolicy: {
+        type: "all";
+    } | {
+        type: "any";
+    } | {
+        type: "majority";
+    } | {
+        type: "n_of_m";
+        required: number;
+    } | {
+        type: "required_approver";
+        approverId: string;
+        base?: {
+            type: "all";
+        } | {
+            type: "any";
+        } | {
+            type: "majority";
+        } | {
+            type: "n_of_m";
+            required: number;
+        } | undefined;
+    } | null;
+    receiptRequired: boolean;
+    createdAt: string;
+    updatedAt: string;
+}>;
+export const deleted: import("./validation.js").Schema<{
+    id: string;
+}>;
+export type ApproverInput = Infer<typeof approverInput>;
+export type Approver = Infer<typeof approver>;
+export type ApprovalPolicy = Infer<typeof approvalPolicy>;
+export type ApprovalBand = Infer<typeof approvalBand>;
+export type CounterOffer = Infer<typeof counterOffer>;
+export type PaymentRequest = Infer<typeof paymentRequest>;
+export type RequestEvent = Infer<typeof requestEvent>;
+export type CardData = Infer<typeof cardData>;
+export type CardStatus = Infer<typeof cardStatus>;
+export type CardRevealDetails = Infer<typeof cardRevealDetails>;
+export type Transaction = Infer<typeof transaction>;
+export type CurrentUser = Infer<typeof currentUser>;
+export type BootData = Infer<typeof bootData>;
+export type WalletBalance = Infer<typeof walletBalance>;
+export type FundingSource = Infer<typeof fundingSource>;
+export type AddMoneyResult = Infer<typeof addMoneyResult>;
+export type Withdrawal = Infer<typeof withdrawal>;
+export type BankAccount = Infer<typeof bankAccount>;
+export type UserSettings = Infer<typeof userSettings>;
+export type FundingStatus = Infer<typeof fundingStatus>;
+export type SpendControls = Infer<typeof spendControls>;
+export type ReconciledPurchase = Infer<typeof reconciledPurchase>;
+export type RequestReconciliation = Infer<typeof requestReconciliation>;
+export type Reconciliation = Infer<typeof reconciliation>;
+export type SimulationOptions = Infer<typeof simulationOptions>;
+export type SimulatedTransaction = Infer<typeof simulatedTransaction>;
+export type RecurringSchedule = Infer<typeof recurringSchedule>;
+export type RecurringPreApproval = Infer<typeof recurringPreApproval>;
+export type RecurringRequest = Infer<typeof recurringRequest>;
+export type RequestTemplate = Infer<typeof requestTemplate>;
+import type { Infer } from './validation.js';
@@ -0,0 +1,140 @@
+/**
+ * @param {{ min?: number, max?: number, pattern?: RegExp, format?: string }} [options]
+ *   min/max are lengths after trimming; format describes pattern in the error message
+ * @returns {Schema<string>}
+ */
+export function string({ min, max, pattern, format }?: {
+    min?: number;
+    max?: number;
+    pattern?: RegExp;
+    format?: string;
+}): Schema<string>;
+/**
+ * Numbers must be JSON numbers - "12.50" is rejected rather than parsed
+ * @param {{ min?: number, max?: number, positive?: boolean, integer?: boolean }} [options]
+ * @returns {Schema<number>}
+ */
+export function number({ min, max, positive, integer }?: {
+    min?: number;
+    max?: number;
+    positive?: boolean;
+    integer?: boolean;
+}): Schema<number>;
+/**
+ * A dollar amount: greater than 0 with at most two decimal places
+ * @returns {Schema<number>}
+ */
+export function money(): Schema<number>;
+/** @returns {Schema<boolean>} */
+export function boolean(): Schema<boolean>;
+/**
+ * @template {string} const V
+ * @param {readonly V[]} values
+ * @returns {Schema<V>}
+ */
+export function oneOf<const V extends string>(values: readonly V[]): Schema<V>;
+/**
+ * An ISO 8601 timestamp, normalized to UTC
+ * @returns {Schema<string>}
+ */
+export function isoDate(): Schema<string>;
+/**
+ * @template T
+ * @param {Schema<T>} item
+ * @param {{ min?: number, max?: number }} [options]
+ * @returns {Schema<T[]>}
+ */
+export function array<T>(item: Schema<T>, { min, max }?: {
+    min?: number;
+    max?: number;
+}): Schema<T[]>;
+/**
+ * @template {Record<string, Schema<any>>} S
+ * @param {S} shape
+ * @returns {Schema<{ [K in keyof ObjectOf<S>]: ObjectOf<S>[K] }>}
+ */
+export function object<S extends Record<string, Schema<any>>>(shape: S): Schema<{ [K in keyof ObjectOf<S>]: ObjectOf<S>[K]; }>;
+/**
+ * Every field optional, for PATCH-style bodies
+ * @template {Record<string, Schema<any>>} S
+ * @param {S} shape
+ * @returns {Schema<{ [K in keyof S]?: Infer<S[K]> }>}
+ */
+export function partial<S extends Record<string, Schema<any>>>(shape: S): Schema<{ [K in keyof S]?: Infer<S[K]>; }>;
+/**
+ * One of several object shapes, picked by the value of a tag field
+ * e.g. variants('type', { all: object({ type: oneOf(['all']) }), ... })
+ * @template {Record<string, Schema<any>>} V
+ * @param {string} key
+ * @param {V} options
+ * @returns {Schema<Infer<V[keyof V]>>}
+ */
+export function variants<V extends Record<string, Schema<any>>>(key: string, options: V): Schema<Infer<V[keyof V]>>;
+/**
+ * Anything that is present - for free-form data such as event details or Marqeta's own objects
+ * @returns {Schema<any>}
+ */
+export function any(): Schema<any>;
+/**
+ * @template T
+ */
+export class Schema<T> {
+    /**
+     * @param {(value: unknown, field: string, errors: FieldError[]) => T} check
+     *   called only with values that are present (not undefined or null)
+     * @param {{ isOptional?: boolean, isNullable?: boolean, refinements?: { predicate: (value: T) => boolean, message: string }[] }} [options]
+     */
+    constructor(check: (value: unknown, field: string, errors: FieldError[]) => T, { isOptional, isNullable, refinements }?: {
+        isOptional?: boolean;
+        isNullable?: boolean;
+        refinements?: {
+            predicate: (value: T) => boolean;
+            message: string;
+        }[];
+    });
+    check: (value: unknown, field: string, errors: FieldError[]) => T;
+    options: {
+        isOptional: boolean;
+        isNullable: boolean;
+        refinements: {
+            predicate: (value: T) => boolean;
+            message: string;
+        }[];
+    };
+    /**
+     * @param {unknown} value
+     * @param {string} field
+     * @param {FieldError[]} errors
+     * @returns {T}
+     */
+    run(value: unknown, field: string, errors: FieldError[]): T;
+    /** @returns {Schema<T | undefined>} */
+    optional(): Schema<T | undefined>;
+    /** @returns {Schema<T | null>} */
+    nullable(): Schema<T | null>;
+    /**
+     * Extra check on a value that passed the schema's own checks
+     * @param {(value: T) => boolean} predicate
+     * @param {string} message
+     * @returns {Schema<T>}
+     */
+    refine(predicate: (value: T) => boolean, message: string): Schema<T>;
+    /**
+     * Validate a whole value
+     * @param {unknown} value
+     * @returns {{ value: T, errors: FieldError[] }}
+     */
+    parse(value: unknown): {
+        value: T;
+        errors: FieldError[];
+    };
+}
+export type FieldError = {
+    field: string;
+    message: string;
+};
+/**
+ * The value type a schema produces
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+export type ObjectOf<S extends Record<string, Schema<any>>> = { [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>; } & { [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>; };
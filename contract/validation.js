@@ -0,0 +1,291 @@
+// Declarative schemas for request bodies and responses
+//
+// A small, dependency-free validator that runs in Node and the browser, and whose schemas carry
+// their TypeScript types (see Infer below). Each schema checks a value and returns a cleaned
+// copy: object keys the schema doesn't list are dropped, and every problem is reported as
+// { field, message } rather than stopping at the first one. Schemas only check shape - rules
+// that need the database or the user's settings stay in the backend's services.
+
+/**
+ * @typedef {{ field: string, message: string }} FieldError
+ */
+
+/**
+ * The value type a schema produces
+ * @template S
+ * @typedef {S extends Schema<infer T> ? T : never} Infer
+ */
+
+/**
+ * @template {Record<string, Schema<any>>} S
+ * @typedef {{ [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]> }
+ *   & { [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]> }} ObjectOf
+ */
+
+const childField = (field, key) => (field ? `${field}.${key}` : String(key));
+
+/**
+ * @template T
+ */
+export class Schema {
+  /**
+   * @param {(value: unknown, field: string, errors: FieldError[]) => T} check
+   *   called only with values that are present (not undefined or null)
+   * @param {{ isOptional?: boolean, isNullable?: boolean, refinements?: { predicate: (value: T) => boolean, message: string }[] }} [options]
+   */
+  constructor(check, { isOptional = false, isNullable = false, refinements = [] } = {}) {
+    this.check = check;
+    this.options = { isOptional, isNullable, refinements };
+  }
+
+  /**
+   * @param {unknown} value
+   * @param {string} field
+   * @param {FieldError[]} errors
+   * @returns {T}
+   */
+  run(value, field, errors) {
+    const { isOptional, isNullable, refinements } = this.options;
+
+    if (value === undefined && isOptional) return /** @type {T} */ (undefined);
+    if (value === null && isNullable) return /** @type {T} */ (null);
+    if (value === undefined || value === null) {
+      errors.push({ field, message: 'is required' });
+      return /** @type {T} */ (value);
+    }
+
+    const before = errors.length;
+    const result = this.check(value, field, errors);
+    if (errors.length === before) {
+      const failed = refinements.find(({ predicate }) => !predicate(result));
+      if (failed) errors.push({ field, message: failed.message });
+    }
+    return result;
+  }
+
+  /** @returns {Schema<T | undefined>} */
+  optional() {
+    return new Schema(this.check, { ...this.options, isOptional: true });
+  }
+
+  /** @returns {Schema<T | null>} */
+  nullable() {
+    return new Schema(this.check, { ...this.options, isNullable: true });
+  }
+
+  /**
+   * Extra check on a value that passed the schema's own checks
+   * @param {(value: T) => boolean} predicate
+   * @param {string} message
+   * @returns {Schema<T>}
+   */
+  refine(predicate, message) {
+    return new Schema(this.check, { ...this.options, refinements: [...this.options.refinements, { predicate, message }] });
+  }
+
+  /**
+   * Validate a whole value
+   * @param {unknown} value
+   * @returns {{ value: T, errors: FieldError[] }}
+   */
+  parse(value) {
+    /** @type {FieldError[]} */
+    const errors = [];
+    const result = this.run(value, '', errors);
+    return { value: result, errors };
+  }
+}
+
+/**
+ * @param {{ min?: number, max?: number, pattern?: RegExp, format?: string }} [options]
+ *   min/max are lengths after trimming; format describes pattern in the error message
+ * @returns {Schema<string>}
+ */
+export function string({ min, max, pattern, format } = {}) {
+  return new Schema((value, field, errors) => {
+    if (typeof value !== 'string') {
+      errors.push({ field, message: 'must be a string' });
+      return value;
+    }
+
+    const trimmed = value.trim();
+    if (min === 1 && trimmed.length === 0) {
+      errors.push({ field, message: 'must not be empty' });
+    } else if (min != null && trimmed.length < min) {
+      errors.push({ field, message: `must be at least ${min} characters` });
+    }
+    if (max != null && trimmed.length > max) {
+      errors.push({ field, message: `must be at most ${max} characters` });
+    }
+    if (pattern && !pattern.test(trimmed)) {
+      errors.push({ field, message: `must be ${format || `in the format ${pattern}`}` });
+    }
+    return trimmed;
+  });
+}
+
+/**
+ * Numbers must be JSON numbers - "12.50" is rejected rather than parsed
+ * @param {{ min?: number, max?: number, positive?: boolean, integer?: boolean }} [options]
+ * @returns {Schema<number>}
+ */
+export function number({ min, max, positive, integer } = {}) {
+  return new Schema((value, field, errors) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push({ field, message: 'must be a number' });
+      return value;
+    }
+
+    if (integer && !Number.isInteger(value)) {
+      errors.push({ field, message: 'must be a whole number' });
+    }
+    if (positive && !(value > 0)) {
+      errors.push({ field, message: 'must be greater than 0' });
+    }
+    if (min != null && value < min) {
+      errors.push({ field, message: `must be at least ${min}` });
+    }
+    if (max != null && value > max) {
+      errors.push({ field, message: `must be at most ${max}` });
+    }
+    return value;
+  });
+}
+
+/**
+ * A dollar amount: greater than 0 with at most two decimal places
+ * @returns {Schema<number>}
+ */
+export function money() {
+  return number({ positive: true }).refine(
+    value => Math.abs(value * 100 - Math.round(value * 100)) < 1e-6,
+    'must have at most two decimal places'
+  );
+}
+
+/** @returns {Schema<boolean>} */
+export function boolean() {
+  return new Schema((value, field, errors) => {
+    if (typeof value !== 'boolean') {
+      errors.push({ field, message: 'must be true or false' });
+    }
+    return value;
+  });
+}
+
+/**
+ * @template {string} const V
+ * @param {readonly V[]} values
+ * @returns {Schema<V>}
+ */
+export function oneOf(values) {
+  return new Schema((value, field, errors) => {
+    if (!values.includes(/** @type {V} */ (value))) {
+      errors.push({ field, message: `must be one of: ${values.join(', ')}` });
+    }
+    return value;
+  });
+}
+
+/**
+ * An ISO 8601 timestamp, normalized to UTC
+ * @returns {Schema<string>}
+ */
+export function isoDate() {
+  return new Schema((value, field, errors) => {
+    const date = typeof value === 'string' ? new Date(value) : null;
+    if (!date || Number.isNaN(date.getTime())) {
+      errors.push({ field, message: 'must be an ISO 8601 date' });
+      return value;
+    }
+    return date.toISOString();
+  });
+}
+
+/**
+ * @template T
+ * @param {Schema<T>} item
+ * @param {{ min?: number, max?: number }} [options]
+ * @returns {Schema<T[]>}
+ */
+export function array(item, { min, max } = {}) {
+  return new Schema((value, field, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push({ field, message: 'must be an array' });
+      return value;
+    }
+
+    if (min != null && value.length < min) {
+      errors.push({ field, message: min === 1 ? 'must not be empty' : `must have at least ${min} items` });
+    }
+    if (max != null && value.length > max) {
+      errors.push({ field, message: `must have at most ${max} items` });
+    }
+    return value.map((element, i) => item.run(element, `${field}[${i}]`, errors));
+  });
+}
+
+/**
+ * @template {Record<string, Schema<any>>} S
+ * @param {S} shape
+ * @returns {Schema<{ [K in keyof ObjectOf<S>]: ObjectOf<S>[K] }>}
+ */
+export function object(shape) {
+  return new Schema((value, field, errors) => {
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      errors.push({ field, message: 'must be an object' });
+      return value;
+    }
+
+    const result = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const parsed = schema.run(value[key], childField(field, key), errors);
+      if (parsed !== undefined) result[key] = parsed;
+    }
+    return result;
+  });
+}
+
+/**
+ * Every field optional, for PATCH-style bodies
+ * @template {Record<string, Schema<any>>} S
+ * @param {S} shape
+ * @returns {Schema<{ [K in keyof S]?: Infer<S[K]> }>}
+ */
+export function partial(shape) {
+  return object(Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.optional()])));
+}
+
+/**
+ * One of several object shapes, picked by the value of a tag field
+ * e.g. variants('type', { all: object({ type: oneOf(['all']) }), ... })
+ * @template {Record<string, Schema<any>>} V
+ * @param {string} key
+ * @param {V} options
+ * @returns {Schema<Infer<V[keyof V]>>}
+ */
+export function variants(key, options) {
+  return new Schema((value, field, errors) => {
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      errors.push({ field, message: 'must be an object' });
+      return value;
+    }
+
+    // Own keys only, so a tag like "toString" is an unknown variant rather than Object.prototype's
+    const tag = value[key];
+    const schema = typeof tag === 'string' && Object.hasOwn(options, tag) ? options[tag] : null;
+    if (!schema) {
+      errors.push({ field: childField(field, key), message: `must be one of: ${Object.keys(options).join(', ')}` });
+      return value;
+    }
+    return schema.run(value, field, errors);
+  });
+}
+
+/**
+ * Anything that is present - for free-form data such as event details or Marqeta's own objects
+ * @returns {Schema<any>}
+ */
+export function any() {
+  return new Schema(value => value);
+}